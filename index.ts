@@ -2,15 +2,27 @@ import type { Plugin } from "@opencode-ai/plugin"
 import { tool } from "@opencode-ai/plugin/tool"
 
 import {
+  accountSelectorToolArgs,
   listAccountsForTools,
   removeAccountByIndex,
+  resolveAccountSelector,
   switchAccountByIndex,
-  toggleAccountEnabledByIndex
+  toggleAccountEnabledByIndex,
+  toolAccountSelector
 } from "./lib/accounts-tools.js"
 import { removedAccountMessage, switchedAccountMessage, toggledAccountMessage } from "./lib/auth-messages.js"
-import { CodexAuthPlugin, refreshAccessToken } from "./lib/codex-native.js"
+import { setMockBackendOrigin } from "./lib/backend-endpoints.js"
+import {
+  CodexAuthPlugin,
+  refreshAccessToken,
+  type CodexAuthPluginOptions,
+  type CodexRuntimeSettings
+} from "./lib/codex-native.js"
 import {
   ensureDefaultConfigFile,
+  getAccountConcurrencyPolicy,
+  getAccountPools,
+  getActiveProfile,
   getCompatInputSanitizerEnabled,
   getCodexCompactionOverrideEnabled,
   getBehaviorSettings,
@@ -18,12 +30,16 @@ import {
   getDebugEnabled,
   getHeaderSnapshotBodiesEnabled,
   getHeaderTransformDebugEnabled,
+  getUsageLedgerEnabled,
+  getMockBackendUrl,
   getHeaderSnapshotsEnabled,
   getShareableDebugEnabled,
   getMode,
   getModelAliasSettings,
+  getModelRoutingMode,
   getRemapDeveloperMessagesToUserEnabled,
   getRotationStrategy,
+  getFetchRetryPolicy,
   getPromptCacheKeyStrategy,
   getPidOffsetEnabled,
   getPersonality,
@@ -33,10 +49,16 @@ import {
   getUltraEnabled,
   getUltraReasoningEffort,
   getQuietMode,
-  loadConfigFile,
-  resolveConfig
+  getQuotaSwitchFloors,
+  loadConfigLayers,
+  resolveConfigWithSources,
+  type PluginConfig
 } from "./lib/config.js"
+import { watchConfigForReload, type ConfigWatcher } from "./lib/config-reload.js"
+import { toolOutputForProfile } from "./lib/profile-tool.js"
 import { createLogger } from "./lib/logger.js"
+import { createLiveEventChannel, isLiveEventsEnabled, type LiveEventChannel } from "./lib/live-events.js"
+import { defaultLiveEventsPath } from "./lib/paths.js"
 import { generatePersonaSpec } from "./lib/persona-tool.js"
 import { createPersonalityFile } from "./lib/personality-create.js"
 import { installCreatePersonalityCommand } from "./lib/personality-command.js"
@@ -44,17 +66,69 @@ import { installPersonalityBuilderSkill } from "./lib/personality-skill.js"
 import { runOneProactiveRefreshTick } from "./lib/proactive-refresh.js"
 import { createRefreshScheduler, ProactiveRefreshQueue } from "./lib/refresh-queue.js"
 import { toolOutputForStatus } from "./lib/codex-status-tool.js"
-import { requireOpenAIMultiOauthAuth, saveAuthStorage } from "./lib/storage.js"
+import { toolOutputForUsage } from "./lib/usage-tool.js"
+import { toolOutputForAudit } from "./lib/audit-tool.js"
+import { migrateAuthStorageEncryption, requireOpenAIMultiOauthAuth, saveAuthStorage } from "./lib/storage.js"
 import { removeLegacyOrchestratorArtifacts } from "./lib/legacy-orchestrator-cleanup.js"
 import { composePluginDispose } from "./lib/plugin-lifecycle.js"
+import { formatToastMessage } from "./lib/toast.js"
 
 let scheduler: { stop: () => void } | undefined
+let configWatcher: ConfigWatcher | undefined
+let liveEventChannel: LiveEventChannel | undefined
+
+function runtimeSettingsFromConfig(cfg: PluginConfig): CodexRuntimeSettings {
+  return {
+    personality: getPersonality(cfg),
+    behaviorSettings: getBehaviorSettings(cfg),
+    customModels: getCustomModels(cfg),
+    modelAliases: getModelAliasSettings(cfg),
+    quietMode: getQuietMode(cfg),
+    pidOffsetEnabled: getPidOffsetEnabled(cfg),
+    rotationStrategy: getRotationStrategy(cfg),
+    accountPools: getAccountPools(cfg),
+    modelRouting: getModelRoutingMode(cfg),
+    quotaSwitchFloors: getQuotaSwitchFloors(cfg),
+    accountConcurrency: getAccountConcurrencyPolicy(cfg),
+    fetchRetryPolicy: getFetchRetryPolicy(cfg),
+    promptCacheKeyStrategy: getPromptCacheKeyStrategy(cfg),
+    compatInputSanitizer: getCompatInputSanitizerEnabled(cfg),
+    headerSnapshots: getHeaderSnapshotsEnabled(cfg),
+    headerSnapshotBodies: getHeaderSnapshotBodiesEnabled(cfg),
+    headerTransformDebug: getHeaderTransformDebugEnabled(cfg),
+    usageLedger: getUsageLedgerEnabled(cfg),
+    ultraReasoningEffort: getUltraReasoningEffort(cfg),
+    profile: getActiveProfile(cfg)
+  }
+}
+
+/** Settings captured once at startup; a reload that changes them only warns. */
+function restartOnlySettingsFromConfig(cfg: PluginConfig): Record<string, unknown> {
+  return {
+    "runtime.mode": getMode(cfg),
+    "runtime.ultra": getUltraEnabled(cfg),
+    "runtime.shareableDebug": getShareableDebugEnabled(cfg),
+    "runtime.mockBackendUrl": getMockBackendUrl(cfg),
+    "runtime.developerMessagesToUser": getRemapDeveloperMessagesToUserEnabled(cfg),
+    "runtime.codexCompactionOverride": getCodexCompactionOverrideEnabled(cfg),
+    "refreshAhead.enabled": getProactiveRefreshEnabled(cfg),
+    "refreshAhead.bufferMs": getProactiveRefreshBufferMs(cfg)
+  }
+}
 
 export const OpenAIMultiAuthPlugin: Plugin = async (input) => {
   if (scheduler) {
     scheduler.stop()
     scheduler = undefined
   }
+  if (configWatcher) {
+    configWatcher.close()
+    configWatcher = undefined
+  }
+  if (liveEventChannel) {
+    liveEventChannel.close()
+    liveEventChannel = undefined
+  }
 
   await ensureDefaultConfigFile({ env: process.env }).catch((error) => {
     if (error instanceof Error) {
@@ -78,12 +152,31 @@ export const OpenAIMultiAuthPlugin: Plugin = async (input) => {
     }
   })
 
-  const cfg = resolveConfig({
+  await migrateAuthStorageEncryption().catch((error) => {
+    if (error instanceof Error) {
+      console.warn(`[opencode-codex-auth] bootstrap: token encryption migration failed: ${error.message}`)
+    }
+  })
+
+  const configLayers = loadConfigLayers({ env: process.env, directory: input.directory, worktree: input.worktree })
+  const { config: cfg, sources: configSources } = resolveConfigWithSources({
     env: process.env,
-    file: loadConfigFile({ env: process.env })
+    file: configLayers.config,
+    layers: configLayers.layers
   })
   const runtimeMode = getMode(cfg)
-  const log = createLogger({ debug: getDebugEnabled(cfg) })
+  // createLogger reads `debug` on every call, so a reload can flip it in place.
+  const logOptions = { debug: getDebugEnabled(cfg) }
+  const log = createLogger(logOptions)
+  log.debug("config layers", {
+    files: configLayers.layers.map((layer) => `${layer.source}: ${layer.filePath}`),
+    sources: configSources
+  })
+  const mockBackendUrl = getMockBackendUrl(cfg)
+  setMockBackendOrigin(mockBackendUrl)
+  if (mockBackendUrl) {
+    log.warn("routing Codex backend and OAuth traffic to local mock backend", { origin: mockBackendUrl })
+  }
 
   if (getProactiveRefreshEnabled(cfg)) {
     const bufferMs = getProactiveRefreshBufferMs(cfg)
@@ -134,45 +227,96 @@ export const OpenAIMultiAuthPlugin: Plugin = async (input) => {
   // invocation may replace the module-level scheduler while this one awaits.
   const instanceScheduler = scheduler
 
+  const instanceLiveEvents = isLiveEventsEnabled(process.env)
+    ? createLiveEventChannel({ filePath: defaultLiveEventsPath(), log })
+    : undefined
+  liveEventChannel = instanceLiveEvents
+
   log.debug("plugin init")
+  const pluginOptions: CodexAuthPluginOptions = {
+    log,
+    mode: runtimeMode,
+    spoofMode: getSpoofMode(cfg),
+    remapDeveloperMessagesToUser: getRemapDeveloperMessagesToUserEnabled(cfg),
+    codexCompactionOverride: getCodexCompactionOverrideEnabled(cfg),
+    shareableDebug: getShareableDebugEnabled(cfg),
+    ultraEnabled: getUltraEnabled(cfg),
+    liveEvents: instanceLiveEvents,
+    ...runtimeSettingsFromConfig(cfg)
+  }
   let hooks: Awaited<ReturnType<typeof CodexAuthPlugin>>
   try {
-    hooks = await CodexAuthPlugin(input, {
-      log,
-      personality: getPersonality(cfg),
-      mode: runtimeMode,
-      quietMode: getQuietMode(cfg),
-      pidOffsetEnabled: getPidOffsetEnabled(cfg),
-      rotationStrategy: getRotationStrategy(cfg),
-      promptCacheKeyStrategy: getPromptCacheKeyStrategy(cfg),
-      spoofMode: getSpoofMode(cfg),
-      compatInputSanitizer: getCompatInputSanitizerEnabled(cfg),
-      remapDeveloperMessagesToUser: getRemapDeveloperMessagesToUserEnabled(cfg),
-      codexCompactionOverride: getCodexCompactionOverrideEnabled(cfg),
-      shareableDebug: getShareableDebugEnabled(cfg),
-      headerSnapshots: getHeaderSnapshotsEnabled(cfg),
-      headerSnapshotBodies: getHeaderSnapshotBodiesEnabled(cfg),
-      headerTransformDebug: getHeaderTransformDebugEnabled(cfg),
-      ultraEnabled: getUltraEnabled(cfg),
-      ultraReasoningEffort: getUltraReasoningEffort(cfg),
-      behaviorSettings: getBehaviorSettings(cfg),
-      customModels: getCustomModels(cfg),
-      modelAliases: getModelAliasSettings(cfg)
-    })
+    hooks = await CodexAuthPlugin(input, pluginOptions)
   } catch (error) {
     instanceScheduler?.stop()
+    instanceLiveEvents?.close()
     if (scheduler === instanceScheduler) {
       scheduler = undefined
     }
+    if (liveEventChannel === instanceLiveEvents) {
+      liveEventChannel = undefined
+    }
     throw error
   }
+
+  const showConfigToast = async (message: string, variant: "info" | "warning" | "error"): Promise<void> => {
+    if (pluginOptions.quietMode === true) return
+    const tui = input.client?.tui
+    if (!tui || typeof tui.showToast !== "function") return
+    try {
+      const text = pluginOptions.profile ? `${message} (profile: ${pluginOptions.profile})` : message
+      await tui.showToast({ body: { message: formatToastMessage(text), variant } })
+    } catch (error) {
+      log.debug("toast failed", { error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  // undefined follows OPENCODE_OPENAI_MULTI_PROFILE; null means the codex-profile tool cleared it.
+  let selectedProfile: string | null | undefined
+  let activeConfig = cfg
+  const instanceConfigWatcher = watchConfigForReload({
+    env: process.env,
+    directory: input.directory,
+    worktree: input.worktree,
+    initialConfig: cfg,
+    getProfile: () => selectedProfile,
+    onReload: ({ config: next, sources, layers }, previous) => {
+      activeConfig = next
+      Object.assign(pluginOptions, runtimeSettingsFromConfig(next))
+      logOptions.debug = getDebugEnabled(next)
+      log.debug("config reloaded", { files: layers.map((layer) => `${layer.source}: ${layer.filePath}`), sources })
+      const before = restartOnlySettingsFromConfig(previous)
+      const after = restartOnlySettingsFromConfig(next)
+      const pending = Object.keys(after).filter((key) => before[key] !== after[key])
+      if (pending.length > 0) {
+        log.warn("config change requires an OpenCode restart", { keys: pending })
+        void showConfigToast(`codex-config reloaded; restart OpenCode to apply ${pending.join(", ")}`, "warning")
+      }
+    },
+    onInvalid: (issues) => {
+      log.warn("config reload rejected; keeping previous config", { issues })
+      void showConfigToast(`codex-config change ignored: ${issues.join("; ")}`, "error")
+    }
+  })
+  configWatcher = instanceConfigWatcher
   composePluginDispose({
     hooks,
-    scheduler: instanceScheduler,
+    scheduler: {
+      stop: () => {
+        instanceConfigWatcher.close()
+        instanceLiveEvents?.close()
+        instanceScheduler?.stop()
+      }
+    },
     clearScheduler: () => {
       if (scheduler === instanceScheduler) {
         scheduler = undefined
       }
+      if (configWatcher === instanceConfigWatcher) {
+        configWatcher = undefined
+      }
+      if (liveEventChannel === instanceLiveEvents) {
+        liveEventChannel = undefined
+      }
     }
   })
 
@@ -180,74 +324,127 @@ export const OpenAIMultiAuthPlugin: Plugin = async (input) => {
   hooks.tool = {
     ...hooks.tool,
     "codex-status": tool({
-      description: "Show the status and usage limits of all configured Codex accounts.",
-      args: {},
-      execute: async () => {
-        return toolOutputForStatus()
+      description:
+        "Show the status and usage limits of all configured Codex accounts. Use format=json for a versioned machine-readable document.",
+      args: {
+        format: z.enum(["text", "json"]).optional()
+      },
+      execute: async ({ format }) => {
+        return toolOutputForStatus(undefined, undefined, { format, profile: pluginOptions.profile })
+      }
+    }),
+    "codex-profile": tool({
+      description:
+        "List codex-config profiles, or switch this OpenCode process to a profile by name (use none to clear it).",
+      args: { name: z.string().min(1).optional() },
+      execute: async ({ name }) => {
+        return toolOutputForProfile({
+          name,
+          config: activeConfig,
+          selectProfile: (profile) => {
+            const previous = selectedProfile
+            selectedProfile = profile
+            const result = instanceConfigWatcher.reload()
+            if (!result.ok) selectedProfile = previous
+            return result
+          }
+        })
+      }
+    }),
+    "codex-usage": tool({
+      description: "Show recorded Codex token usage totals by account, model, session and day.",
+      args: { days: z.number().int().min(1).optional() },
+      execute: async ({ days }) => {
+        return toolOutputForUsage({ days })
+      }
+    }),
+    "codex-audit": tool({
+      description:
+        "Show recent account state changes (cooldowns, enable/disable, switches, removals) with their trigger and reason.",
+      args: { limit: z.number().int().min(1).max(200).optional() },
+      execute: async ({ limit }) => {
+        return toolOutputForAudit({ limit })
       }
     }),
     "codex-switch-accounts": tool({
-      description: "Switch the active OpenAI account by 1-based index.",
-      args: { index: z.number().int().min(1) },
-      execute: async ({ index }) => {
+      description: "Switch the active OpenAI account by 1-based index, label, email, or identity key.",
+      args: accountSelectorToolArgs(z),
+      execute: async (args) => {
         let message = ""
 
-        await saveAuthStorage(undefined, (authFile) => {
-          const openai = requireOpenAIMultiOauthAuth(authFile)
-          const row = listAccountsForTools(openai)[index - 1]
-          const next = switchAccountByIndex(openai, index)
-          authFile.openai = next
-          message = switchedAccountMessage({ email: row?.email, plan: row?.plan, index1: index })
-        })
+        await saveAuthStorage(
+          undefined,
+          (authFile) => {
+            const openai = requireOpenAIMultiOauthAuth(authFile)
+            const index = resolveAccountSelector(openai, toolAccountSelector(args))
+            const row = listAccountsForTools(openai)[index - 1]
+            const next = switchAccountByIndex(openai, index)
+            authFile.openai = next
+            message = switchedAccountMessage({ email: row?.email, plan: row?.plan, label: row?.label, index1: index })
+          },
+          { audit: { actor: "tool", reason: "user_action" } }
+        )
 
         return message
       }
     }),
     "codex-toggle-account": tool({
-      description: "Toggle enabled/disabled for an OpenAI account by 1-based index.",
-      args: { index: z.number().int().min(1) },
-      execute: async ({ index }) => {
+      description: "Toggle enabled/disabled for an OpenAI account by 1-based index, label, email, or identity key.",
+      args: accountSelectorToolArgs(z),
+      execute: async (args) => {
         let message = ""
 
-        await saveAuthStorage(undefined, (authFile) => {
-          const openai = requireOpenAIMultiOauthAuth(authFile)
-          const rowsBefore = listAccountsForTools(openai)
-          const row = rowsBefore[index - 1]
-          const next = toggleAccountEnabledByIndex(openai, index)
-          authFile.openai = next
-          const enabled = listAccountsForTools(next)[index - 1]?.enabled === true
-          message = toggledAccountMessage({
-            index1: index,
-            email: row?.email,
-            plan: row?.plan,
-            enabled
-          })
-        })
+        await saveAuthStorage(
+          undefined,
+          (authFile) => {
+            const openai = requireOpenAIMultiOauthAuth(authFile)
+            const index = resolveAccountSelector(openai, toolAccountSelector(args))
+            const rowsBefore = listAccountsForTools(openai)
+            const row = rowsBefore[index - 1]
+            const next = toggleAccountEnabledByIndex(openai, index)
+            authFile.openai = next
+            const enabled = listAccountsForTools(next)[index - 1]?.enabled === true
+            message = toggledAccountMessage({
+              index1: index,
+              email: row?.email,
+              plan: row?.plan,
+              label: row?.label,
+              enabled
+            })
+          },
+          { audit: { actor: "tool", reason: "user_action" } }
+        )
 
         return message
       }
     }),
     "codex-remove-account": tool({
-      description: "Remove an OpenAI account by 1-based index (requires confirm).",
-      args: { index: z.number().int().min(1), confirm: z.boolean().optional() },
-      execute: async ({ index, confirm }) => {
-        if (confirm !== true) {
+      description: "Remove an OpenAI account by 1-based index, label, email, or identity key (requires confirm).",
+      args: { ...accountSelectorToolArgs(z), confirm: z.boolean().optional() },
+      execute: async (args) => {
+        if (args.confirm !== true) {
           return "Refusing to remove account without confirm: true"
         }
 
         let message = ""
 
-        await saveAuthStorage(undefined, (authFile) => {
-          const openai = requireOpenAIMultiOauthAuth(authFile)
-          const row = listAccountsForTools(openai)[index - 1]
-          const next = removeAccountByIndex(openai, index)
-          authFile.openai = next
-          message = removedAccountMessage({
-            index1: index,
-            email: row?.email,
-            plan: row?.plan
-          })
-        })
+        await saveAuthStorage(
+          undefined,
+          (authFile) => {
+            const openai = requireOpenAIMultiOauthAuth(authFile)
+            const index = resolveAccountSelector(openai, toolAccountSelector(args))
+            const row = listAccountsForTools(openai)[index - 1]
+            const next = removeAccountByIndex(openai, index)
+            authFile.openai = next
+            message = removedAccountMessage({
+              index1: index,
+              email: row?.email,
+              plan: row?.plan,
+              label: row?.label
+            })
+          },
+          { audit: { actor: "tool", reason: "user_action" } }
+        )
 
         return message
       }
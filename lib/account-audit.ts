@@ -0,0 +1,262 @@
+import { randomBytes } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { enforceOwnerOnlyPermissions, isFsErrorCode } from "./cache-io.js"
+import { withLockedFile } from "./cache-lock.js"
+import { parseEnvBoolean } from "./config/file.js"
+import { CODEX_ACCOUNT_AUDIT_KEY_FILE } from "./paths.js"
+import { pseudonymize } from "./shareable-debug.js"
+import { listOpenAIOAuthDomains } from "./storage/auth-state.js"
+import type { AuthFile, OpenAIAuthMode } from "./types.js"
+import { isRecord } from "./util.js"
+
+export const ACCOUNT_AUDIT_ENV = "OPENCODE_OPENAI_MULTI_AUDIT_LOG"
+export const ACCOUNT_AUDIT_MAX_BYTES = 1024 * 1024
+
+/** What initiated an account store write. */
+export type AccountAuditActor = "tool" | "cli" | "auth-menu" | "login" | "request" | "proactive-refresh" | "plugin"
+
+export type AccountAuditReason =
+  | "user_action"
+  | "login"
+  | "codex_cli_import"
+  | "legacy_transfer"
+  | "backup_restore"
+  | "rotation"
+  | "rate_limited"
+  | "refresh_succeeded"
+  | "refresh_failed"
+  | "refresh_lease"
+  | "missing_refresh_token"
+  | "invalid_grant"
+  | "unspecified"
+
+export type AccountAuditContext = {
+  actor: AccountAuditActor
+  reason: AccountAuditReason
+}
+
+export const UNSPECIFIED_ACCOUNT_AUDIT_CONTEXT: AccountAuditContext = { actor: "plugin", reason: "unspecified" }
+
+export type AccountAuditEventType = "account_added" | "account_removed" | "account_updated" | "active_changed"
+
+/** Tracked fields; `null` means the field was absent. Only fields relevant to the event are set. */
+export type AccountAuditState = {
+  enabled?: boolean
+  cooldownUntil?: number | null
+  activeIdentity?: string | null
+}
+
+/** A state change before pseudonymization; identities are raw identity keys. */
+export type AccountAuditChange = {
+  event: AccountAuditEventType
+  mode: OpenAIAuthMode
+  identity?: string
+  before: AccountAuditState
+  after: AccountAuditState
+}
+
+/** One line of the audit log. `account` and `activeIdentity` values are pseudonyms. */
+export type AccountAuditEvent = Omit<AccountAuditChange, "identity"> &
+  AccountAuditContext & {
+    at: number
+    pid: number
+    account?: string
+  }
+
+type AccountSnapshot = { enabled: boolean; cooldownUntil: number | null }
+
+export type AccountAuditSnapshot = Array<{
+  mode: OpenAIAuthMode
+  activeIdentity: string | null
+  accounts: Map<string, AccountSnapshot>
+}>
+
+export function isAccountAuditEnabled(env: Record<string, string | undefined> = process.env): boolean {
+  return parseEnvBoolean(env[ACCOUNT_AUDIT_ENV]) !== false
+}
+
+export function captureAccountAuditSnapshot(auth: AuthFile): AccountAuditSnapshot {
+  return listOpenAIOAuthDomains(structuredClone(auth)).map(({ mode, domain }) => {
+    const accounts = new Map<string, AccountSnapshot>()
+    domain.accounts.forEach((account, index) => {
+      const identity = account.identityKey ?? account.accountId ?? account.email ?? `#${index}`
+      accounts.set(identity, {
+        enabled: account.enabled !== false,
+        cooldownUntil: typeof account.cooldownUntil === "number" ? account.cooldownUntil : null
+      })
+    })
+    return { mode, activeIdentity: domain.activeIdentityKey ?? null, accounts }
+  })
+}
+
+export function diffAccountAuditSnapshots(
+  before: AccountAuditSnapshot,
+  after: AccountAuditSnapshot
+): AccountAuditChange[] {
+  const changes: AccountAuditChange[] = []
+  const modes = new Set([...before, ...after].map((domain) => domain.mode))
+  for (const mode of modes) {
+    const previous = before.find((domain) => domain.mode === mode)
+    const next = after.find((domain) => domain.mode === mode)
+    const previousAccounts = previous?.accounts ?? new Map<string, AccountSnapshot>()
+    const nextAccounts = next?.accounts ?? new Map<string, AccountSnapshot>()
+
+    for (const [identity, state] of nextAccounts) {
+      const old = previousAccounts.get(identity)
+      if (!old) {
+        changes.push({ event: "account_added", mode, identity, before: {}, after: { ...state } })
+        continue
+      }
+      const beforeState: AccountAuditState = {}
+      const afterState: AccountAuditState = {}
+      if (old.enabled !== state.enabled) {
+        beforeState.enabled = old.enabled
+        afterState.enabled = state.enabled
+      }
+      if (old.cooldownUntil !== state.cooldownUntil) {
+        beforeState.cooldownUntil = old.cooldownUntil
+        afterState.cooldownUntil = state.cooldownUntil
+      }
+      if (Object.keys(afterState).length > 0) {
+        changes.push({ event: "account_updated", mode, identity, before: beforeState, after: afterState })
+      }
+    }
+    for (const [identity, state] of previousAccounts) {
+      if (nextAccounts.has(identity)) continue
+      changes.push({ event: "account_removed", mode, identity, before: { ...state }, after: {} })
+    }
+
+    const previousActive = previous?.activeIdentity ?? null
+    const nextActive = next?.activeIdentity ?? null
+    if (previousActive !== nextActive) {
+      changes.push({
+        event: "active_changed",
+        mode,
+        before: { activeIdentity: previousActive },
+        after: { activeIdentity: nextActive }
+      })
+    }
+  }
+  return changes
+}
+
+/**
+ * Per-install HMAC key for audit pseudonyms. Unlike the per-process key of the shareable debug
+ * log it persists, so the same account keeps one pseudonym across processes and restarts.
+ */
+async function loadAccountAuditKey(logPath: string): Promise<Buffer> {
+  const keyPath = path.join(path.dirname(logPath), CODEX_ACCOUNT_AUDIT_KEY_FILE)
+  try {
+    return Buffer.from((await fs.readFile(keyPath, "utf8")).trim(), "base64")
+  } catch (error) {
+    if (!isFsErrorCode(error, "ENOENT")) throw error
+  }
+  const key = randomBytes(32)
+  try {
+    await fs.writeFile(keyPath, `${key.toString("base64")}\n`, { mode: 0o600, flag: "wx" })
+    await enforceOwnerOnlyPermissions(keyPath)
+    return key
+  } catch (error) {
+    if (!isFsErrorCode(error, "EEXIST")) throw error
+    return Buffer.from((await fs.readFile(keyPath, "utf8")).trim(), "base64")
+  }
+}
+
+/** Maps identity keys to the pseudonyms used in the audit log at `logPath`. */
+export async function createAccountAuditPseudonymizer(
+  logPath: string
+): Promise<(identityKey: string) => string | undefined> {
+  const key = await loadAccountAuditKey(logPath)
+  return (identityKey) => pseudonymize("ident", identityKey, key)
+}
+
+function pseudonymizeState(state: AccountAuditState, key: Buffer): AccountAuditState {
+  if (!("activeIdentity" in state)) return state
+  return {
+    ...state,
+    activeIdentity: state.activeIdentity ? (pseudonymize("ident", state.activeIdentity, key) ?? null) : null
+  }
+}
+
+export async function appendAccountAuditEvents(input: {
+  logPath: string
+  changes: AccountAuditChange[]
+  context: AccountAuditContext
+  now: number
+  maxBytes?: number
+}): Promise<void> {
+  if (input.changes.length === 0) return
+  await fs.mkdir(path.dirname(input.logPath), { recursive: true, mode: 0o700 })
+  const key = await loadAccountAuditKey(input.logPath)
+  const lines = input.changes
+    .map((change) => {
+      const account = change.identity ? pseudonymize("ident", change.identity, key) : undefined
+      const event: AccountAuditEvent = {
+        at: input.now,
+        pid: process.pid,
+        event: change.event,
+        actor: input.context.actor,
+        reason: input.context.reason,
+        mode: change.mode,
+        ...(account ? { account } : {}),
+        before: pseudonymizeState(change.before, key),
+        after: pseudonymizeState(change.after, key)
+      }
+      return `${JSON.stringify(event)}\n`
+    })
+    .join("")
+
+  await withLockedFile(input.logPath, async () => {
+    let size = 0
+    try {
+      size = (await fs.stat(input.logPath)).size
+    } catch (error) {
+      if (!isFsErrorCode(error, "ENOENT")) throw error
+    }
+    if (size > 0 && size + Buffer.byteLength(lines) > (input.maxBytes ?? ACCOUNT_AUDIT_MAX_BYTES)) {
+      await fs.rename(input.logPath, `${input.logPath}.1`)
+    }
+    await fs.appendFile(input.logPath, lines, { mode: 0o600 })
+    await enforceOwnerOnlyPermissions(input.logPath)
+  })
+}
+
+function parseAccountAuditEvent(line: string): AccountAuditEvent | undefined {
+  try {
+    const parsed: unknown = JSON.parse(line)
+    if (!isRecord(parsed) || typeof parsed.at !== "number" || typeof parsed.event !== "string") return undefined
+    if (!isRecord(parsed.before) || !isRecord(parsed.after)) return undefined
+    return parsed as AccountAuditEvent
+  } catch (error) {
+    if (error instanceof Error) {
+      // a torn or hand-edited line is skipped
+    }
+    return undefined
+  }
+}
+
+async function readAuditLines(filePath: string): Promise<string[]> {
+  try {
+    return (await fs.readFile(filePath, "utf8")).split("\n").filter((line) => line.trim())
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return []
+    throw error
+  }
+}
+
+/** Most recent audit events, oldest first, including the rotated file when needed. */
+export async function readRecentAccountAuditEvents(logPath: string, limit: number): Promise<AccountAuditEvent[]> {
+  const max = Math.max(1, Math.floor(limit))
+  let lines = await readAuditLines(logPath)
+  if (lines.length < max) {
+    lines = [...(await readAuditLines(`${logPath}.1`)), ...lines]
+  }
+  const events: AccountAuditEvent[] = []
+  for (const line of lines) {
+    const event = parseAccountAuditEvent(line)
+    if (event) events.push(event)
+  }
+  return events.slice(-max)
+}
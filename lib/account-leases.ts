@@ -0,0 +1,148 @@
+import { randomUUID } from "node:crypto"
+
+import { isFsErrorCode, readJsonFileBestEffort, writeJsonFileAtomic } from "./cache-io.js"
+import { withLockedFile } from "./cache-lock.js"
+import { isRecord } from "./util.js"
+
+/** Upper bound on one request's lease; a stream still open after this no longer counts. */
+export const ACCOUNT_LEASE_TTL_MS = 15 * 60_000
+
+/** One in-flight request against an account, held by the process `pid`. */
+export type AccountLease = {
+  id: string
+  identityKey: string
+  pid: number
+  acquiredAt: number
+  expiresAt: number
+}
+
+export type AccountLeaseFile = {
+  version: 1
+  leases: AccountLease[]
+}
+
+function parseLease(value: unknown): AccountLease | undefined {
+  if (!isRecord(value)) return undefined
+  if (typeof value.id !== "string" || typeof value.identityKey !== "string") return undefined
+  if (typeof value.pid !== "number" || !Number.isInteger(value.pid)) return undefined
+  if (typeof value.acquiredAt !== "number" || typeof value.expiresAt !== "number") return undefined
+  return {
+    id: value.id,
+    identityKey: value.identityKey,
+    pid: value.pid,
+    acquiredAt: value.acquiredAt,
+    expiresAt: value.expiresAt
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (pid === process.pid) return true
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user.
+    return isFsErrorCode(error, "EPERM")
+  }
+}
+
+/** Leases that have not expired and whose process is still running. */
+export async function loadAccountLeases(filePath: string, now: number): Promise<AccountLease[]> {
+  const parsed = await readJsonFileBestEffort(filePath)
+  const rawLeases = isRecord(parsed) && Array.isArray(parsed.leases) ? parsed.leases : []
+  return rawLeases
+    .map(parseLease)
+    .filter((lease): lease is AccountLease => lease !== undefined && lease.expiresAt > now && isProcessAlive(lease.pid))
+}
+
+export function countAccountLeases(leases: AccountLease[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const lease of leases) {
+    counts[lease.identityKey] = (counts[lease.identityKey] ?? 0) + 1
+  }
+  return counts
+}
+
+/** In-flight request counts per identity key across every process sharing `filePath`. */
+export async function readAccountLeaseCounts(filePath: string, now: number): Promise<Record<string, number>> {
+  return countAccountLeases(await loadAccountLeases(filePath, now))
+}
+
+/**
+ * Records an in-flight request against `identityKey` unless the account already holds `limit`
+ * leases. The count and the write happen under one file lock, so two processes cannot both take
+ * the last slot.
+ */
+export async function tryAcquireAccountLease(input: {
+  filePath: string
+  identityKey: string
+  limit: number
+  now: number
+  ttlMs?: number
+}): Promise<AccountLease | undefined> {
+  return withLockedFile(input.filePath, async () => {
+    const leases = await loadAccountLeases(input.filePath, input.now)
+    const held = leases.filter((lease) => lease.identityKey === input.identityKey).length
+    if (held >= input.limit) return undefined
+    const lease: AccountLease = {
+      id: randomUUID(),
+      identityKey: input.identityKey,
+      pid: process.pid,
+      acquiredAt: input.now,
+      expiresAt: input.now + (input.ttlMs ?? ACCOUNT_LEASE_TTL_MS)
+    }
+    await writeJsonFileAtomic(input.filePath, { version: 1, leases: [...leases, lease] } satisfies AccountLeaseFile)
+    return lease
+  })
+}
+
+export async function releaseAccountLease(filePath: string, leaseId: string, now: number): Promise<void> {
+  await withLockedFile(filePath, async () => {
+    const leases = await loadAccountLeases(filePath, now)
+    const remaining = leases.filter((lease) => lease.id !== leaseId)
+    await writeJsonFileAtomic(filePath, { version: 1, leases: remaining } satisfies AccountLeaseFile)
+  })
+}
+
+/**
+ * Returns `response` with a body that releases the lease once the client has read it to the end,
+ * cancelled it, or it failed. Responses without a body release immediately.
+ */
+export function releaseWhenBodySettles(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release()
+    return response
+  }
+  let released = false
+  const settle = () => {
+    if (released) return
+    released = true
+    release()
+  }
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const chunk = await reader.read()
+        if (chunk.done) {
+          settle()
+          controller.close()
+          return
+        }
+        controller.enqueue(chunk.value)
+      } catch (error) {
+        settle()
+        controller.error(error)
+      }
+    },
+    async cancel(reason) {
+      settle()
+      await reader.cancel(reason)
+    }
+  })
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
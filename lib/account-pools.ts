@@ -0,0 +1,98 @@
+import os from "node:os"
+import path from "node:path"
+
+import type { AccountPoolConfig } from "./config/types.js"
+import type { AccountRecord } from "./types.js"
+
+/** The account pool that applies to one project. */
+export type AccountPool = {
+  name: string
+  tags: string[]
+  identityKeys: string[]
+}
+
+function toComparablePath(value: string, platform: NodeJS.Platform): string {
+  const slashed = platform === "win32" ? value.replace(/\\/g, "/") : value
+  const trimmed = slashed.length > 1 ? slashed.replace(/\/+$/, "") : slashed
+  return trimmed || "/"
+}
+
+function expandHome(pattern: string, homeDir: string): string {
+  if (pattern === "~") return homeDir
+  if (pattern.startsWith("~/")) return path.join(homeDir, pattern.slice(2))
+  return pattern
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+}
+
+function globBodyToRegExpSource(glob: string): string {
+  let out = ""
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index] ?? ""
+    if (char === "*" && glob[index + 1] === "*") {
+      if (glob[index + 2] === "/") {
+        out += "(?:.*/)?"
+        index += 2
+      } else {
+        out += ".*"
+        index += 1
+      }
+    } else if (char === "*") {
+      out += "[^/]*"
+    } else if (char === "?") {
+      out += "[^/]"
+    } else {
+      out += escapeRegExp(char)
+    }
+  }
+  return out
+}
+
+/**
+ * Compiles an account pool path glob. `*` and `?` stay within one path segment, `**` spans
+ * segments, and a trailing `/**` also matches the directory itself.
+ */
+export function compileAccountPoolPath(
+  pattern: string,
+  options: { homeDir?: string; platform?: NodeJS.Platform } = {}
+): RegExp {
+  const platform = options.platform ?? process.platform
+  const expanded = toComparablePath(expandHome(pattern.trim(), options.homeDir ?? os.homedir()), platform)
+  const source = expanded.endsWith("/**")
+    ? `${globBodyToRegExpSource(expanded.slice(0, -3))}(?:/.*)?`
+    : globBodyToRegExpSource(expanded)
+  return new RegExp(`^${source}$`, platform === "win32" ? "i" : "")
+}
+
+/**
+ * The path pools are matched against: the OpenCode worktree, or the session directory when there is
+ * none. Outside git OpenCode reports `/` as the worktree, which matches no pool, so it counts as none.
+ */
+export function resolveAccountPoolPath(input: { directory?: string; worktree?: string }): string | undefined {
+  const worktree = input.worktree?.trim() ? path.resolve(input.worktree) : undefined
+  if (worktree && path.dirname(worktree) !== worktree) return worktree
+  return input.directory?.trim() ? path.resolve(input.directory) : undefined
+}
+
+/** Returns the first pool, in config order, whose paths match `projectPath`. */
+export function matchAccountPool(
+  pools: Record<string, AccountPoolConfig> | undefined,
+  projectPath: string | undefined,
+  options: { homeDir?: string; platform?: NodeJS.Platform } = {}
+): AccountPool | undefined {
+  if (!pools || !projectPath) return undefined
+  const platform = options.platform ?? process.platform
+  const target = toComparablePath(path.resolve(projectPath), platform)
+  for (const [name, pool] of Object.entries(pools)) {
+    if (!pool.paths.some((pattern) => compileAccountPoolPath(pattern, options).test(target))) continue
+    return { name, tags: pool.tags ?? [], identityKeys: pool.identityKeys ?? [] }
+  }
+  return undefined
+}
+
+export function isAccountInPool(account: AccountRecord, pool: AccountPool): boolean {
+  if (account.identityKey && pool.identityKeys.includes(account.identityKey)) return true
+  return account.tags?.some((tag) => pool.tags.includes(tag)) === true
+}
@@ -0,0 +1,642 @@
+import fs from "node:fs/promises"
+
+import {
+  labelledAccountMessage,
+  removedAccountMessage,
+  switchedAccountMessage,
+  toggledAccountMessage
+} from "./auth-messages.js"
+import {
+  labelAccountByIndex,
+  listAccountsForTools,
+  removeAccountByIndex,
+  resolveAccountSelector,
+  switchAccountByIndex,
+  toggleAccountEnabledByIndex
+} from "./accounts-tools.js"
+import { exportCodexCliAuth, importCodexCliAuth } from "./codex-cli-auth.js"
+import { refreshAccessToken, type TokenResponse } from "./codex-native/oauth-utils.js"
+import { defaultAuthPath, defaultCodexCliAuthPath } from "./paths.js"
+import {
+  type AuthBackupInfo,
+  listAuthBackups,
+  listOpenAIOAuthDomains,
+  loadAuthStorage,
+  requireOpenAIMultiOauthAuth,
+  restoreAuthStorageBackup,
+  saveAuthStorage
+} from "./storage.js"
+import { normalizeOpenAIOAuthState } from "./storage/auth-state.js"
+import type { AuthFile, OpenAIAuthMode, OpenAIMultiOauthAuth } from "./types.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type AccountsCliDeps = {
+  authPath?: string
+  codexCliAuthPath?: string
+  now?: () => number
+  refreshAccessToken?: (refreshToken: string) => Promise<TokenResponse>
+}
+
+type AccountsAction =
+  | "list"
+  | "switch"
+  | "enable"
+  | "disable"
+  | "remove"
+  | "refresh"
+  | "import-codex"
+  | "export-codex"
+  | "backups"
+  | "restore"
+  | "label"
+  | "tags"
+
+const ACCOUNTS_ACTIONS: readonly AccountsAction[] = [
+  "list",
+  "switch",
+  "enable",
+  "disable",
+  "remove",
+  "refresh",
+  "import-codex",
+  "export-codex",
+  "backups",
+  "restore",
+  "label",
+  "tags"
+]
+
+type ParsedArgs = {
+  action: AccountsAction
+  /** Account selector: 1-based index, label, email, or identity key. */
+  account?: string
+  /** 1-based backup number for `restore`. */
+  index?: number
+  /** Label words or tags following the account for `label` and `tags`. */
+  values: string[]
+  mode?: OpenAIAuthMode
+  file?: string
+  json: boolean
+  yes: boolean
+  clear: boolean
+}
+
+export type AccountsCliRow = {
+  index: number
+  identityKey: string
+  email?: string
+  plan?: string
+  label?: string
+  tags?: string[]
+  enabled: boolean
+  active: boolean
+  expires?: number
+  cooldownUntil?: number
+}
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth accounts",
+    "",
+    "Usage:",
+    "  opencode-codex-auth accounts list [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts switch <account> [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts enable <account> [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts disable <account> [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts remove <account> --yes [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts refresh [<account>] [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts import-codex [--file <path>] [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts export-codex <account> [--file <path>] [--yes] [--mode <native|codex>] [--json]",
+    "  opencode-codex-auth accounts label <account> (<label> | --clear) [--json]",
+    "  opencode-codex-auth accounts tags <account> (<tag>... | --clear) [--json]",
+    "  opencode-codex-auth accounts backups [--json]",
+    "  opencode-codex-auth accounts restore <backup> --yes [--json]",
+    "",
+    "<account> is a 1-based index from `accounts list` for the same --mode, a label, an email, or an identity key.",
+    "Labels are unique nicknames and, like tags, apply to the account in every auth domain.",
+    "`tags` replaces the account's tag list; tags may be separated by spaces or commas.",
+    "Without --mode, commands act on the merged account list used by the codex-* tools.",
+    "`refresh` without an index refreshes every enabled account.",
+    "`import-codex` adds the official Codex CLI login (default ~/.codex/auth.json) to the codex domain unless --mode is set.",
+    "`export-codex` refreshes an existing Codex CLI login of the same account with the plugin's tokens.",
+    "`backups` lists automatic account store backups, newest first; `restore` replaces the store with one of them",
+    "(by its 1-based number in `backups`) after backing up the current store.",
+    "",
+    "Options:",
+    "  --mode <mode>   Restrict to the native or codex auth domain.",
+    "  --file <path>   Codex CLI auth.json to read or write (default $CODEX_HOME/auth.json).",
+    "  --json          Print machine-readable JSON.",
+    "  --yes           Confirm destructive actions (required by remove, restore, and export-codex over an existing login).",
+    "  --clear         Remove the label (label) or all tags (tags)."
+  ].join("\n")
+}
+
+function parseMode(value: string | undefined): OpenAIAuthMode | undefined {
+  if (value === "native" || value === "codex") return value
+  return undefined
+}
+
+function parseArgs(args: string[]): { ok: true; value: ParsedArgs } | { ok: false; error: string } {
+  const action = args[0]
+  if (!action || !ACCOUNTS_ACTIONS.includes(action as AccountsAction)) {
+    return { ok: false, error: action ? `Unknown accounts command: ${action}` : "Missing accounts command" }
+  }
+
+  const parsed: ParsedArgs = { action: action as AccountsAction, values: [], json: false, yes: false, clear: false }
+  const tail = args.slice(1)
+  for (let i = 0; i < tail.length; i += 1) {
+    const token = tail[i]
+    if (!token) continue
+    if (token === "--json") {
+      parsed.json = true
+      continue
+    }
+    if (token === "--yes") {
+      parsed.yes = true
+      continue
+    }
+    if (token === "--clear" && (parsed.action === "label" || parsed.action === "tags")) {
+      parsed.clear = true
+      continue
+    }
+    if (token === "--mode" || token.startsWith("--mode=")) {
+      const raw = token === "--mode" ? tail[i + 1] : token.slice("--mode=".length)
+      const mode = parseMode(raw)
+      if (!mode) {
+        return { ok: false, error: "Expected --mode native|codex" }
+      }
+      parsed.mode = mode
+      if (token === "--mode") i += 1
+      continue
+    }
+    if (token === "--file" || token.startsWith("--file=")) {
+      const raw = token === "--file" ? tail[i + 1] : token.slice("--file=".length)
+      if (!raw?.trim()) {
+        return { ok: false, error: "Expected --file <path>" }
+      }
+      parsed.file = raw.trim()
+      if (token === "--file") i += 1
+      continue
+    }
+    if (token.startsWith("-")) {
+      return { ok: false, error: `Unknown option: ${token}` }
+    }
+    if (parsed.action === "list" || parsed.action === "import-codex" || parsed.action === "backups") {
+      return { ok: false, error: `Unexpected argument: ${token}` }
+    }
+    if (parsed.action === "restore") {
+      const index = Number(token)
+      if (parsed.index !== undefined) return { ok: false, error: `Unexpected argument: ${token}` }
+      if (!Number.isInteger(index) || index < 1) return { ok: false, error: `Invalid backup index: ${token}` }
+      parsed.index = index
+      continue
+    }
+    if (parsed.account === undefined) {
+      if (/^\d+$/.test(token) && Number(token) < 1) return { ok: false, error: `Invalid account index: ${token}` }
+      parsed.account = token
+      continue
+    }
+    if (parsed.action !== "label" && parsed.action !== "tags") {
+      return { ok: false, error: `Unexpected argument: ${token}` }
+    }
+    parsed.values.push(token)
+  }
+
+  if (parsed.file !== undefined && parsed.action !== "import-codex" && parsed.action !== "export-codex") {
+    return { ok: false, error: `--file is only supported by import-codex and export-codex` }
+  }
+  if (
+    parsed.mode !== undefined &&
+    (parsed.action === "backups" ||
+      parsed.action === "restore" ||
+      parsed.action === "label" ||
+      parsed.action === "tags")
+  ) {
+    return { ok: false, error: `--mode is not supported by accounts ${parsed.action}` }
+  }
+  if (parsed.action === "restore" && parsed.index === undefined) {
+    return { ok: false, error: "Missing backup index for accounts restore" }
+  }
+  if (
+    parsed.account === undefined &&
+    parsed.action !== "list" &&
+    parsed.action !== "refresh" &&
+    parsed.action !== "import-codex" &&
+    parsed.action !== "backups" &&
+    parsed.action !== "restore"
+  ) {
+    return { ok: false, error: `Missing account for accounts ${parsed.action}` }
+  }
+  if ((parsed.action === "label" || parsed.action === "tags") && parsed.clear === parsed.values.length > 0) {
+    return {
+      ok: false,
+      error: parsed.action === "label" ? "Expected a label or --clear" : "Expected one or more tags or --clear"
+    }
+  }
+  return { ok: true, value: parsed }
+}
+
+function domainView(openai: OpenAIMultiOauthAuth, mode: OpenAIAuthMode | undefined): OpenAIMultiOauthAuth {
+  if (!mode) return openai
+  const domain = openai[mode]
+  if (!domain) {
+    throw new Error(`No OpenAI ${mode} accounts configured`)
+  }
+  return {
+    type: "oauth",
+    strategy: domain.strategy,
+    accounts: domain.accounts,
+    activeIdentityKey: domain.activeIdentityKey
+  }
+}
+
+function applyView(
+  openai: OpenAIMultiOauthAuth,
+  mode: OpenAIAuthMode | undefined,
+  next: OpenAIMultiOauthAuth
+): OpenAIMultiOauthAuth {
+  if (!mode) return next
+  return normalizeOpenAIOAuthState({
+    ...openai,
+    [mode]: {
+      strategy: openai[mode]?.strategy,
+      accounts: next.accounts,
+      activeIdentityKey: next.activeIdentityKey
+    }
+  })
+}
+
+function buildRows(view: OpenAIMultiOauthAuth): AccountsCliRow[] {
+  return listAccountsForTools(view).map((row) => {
+    const account = view.accounts.find((candidate) => candidate.identityKey === row.identityKey)
+    return {
+      index: row.displayIndex,
+      identityKey: row.identityKey,
+      ...(row.email ? { email: row.email } : {}),
+      ...(row.plan ? { plan: row.plan } : {}),
+      ...(row.label ? { label: row.label } : {}),
+      ...(row.tags ? { tags: row.tags } : {}),
+      enabled: row.enabled,
+      active: row.isActive,
+      ...(typeof account?.expires === "number" ? { expires: account.expires } : {}),
+      ...(typeof account?.cooldownUntil === "number" ? { cooldownUntil: account.cooldownUntil } : {})
+    }
+  })
+}
+
+function formatRow(row: AccountsCliRow, now: number): string {
+  const email = `${row.email ?? "account"}${row.plan ? ` (${row.plan})` : ""}`
+  const label = row.label ? `${row.label}: ${email}` : email
+  const flags: string[] = []
+  if (row.active) flags.push("active")
+  if (!row.enabled) flags.push("disabled")
+  if (row.cooldownUntil !== undefined && row.cooldownUntil > now) flags.push("cooling down")
+  const tags = row.tags ? ` ${row.tags.map((tag) => `#${tag}`).join(" ")}` : ""
+  return `#${row.index} ${label}${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}${tags}`
+}
+
+function parseTags(values: string[]): string[] {
+  return values.flatMap((value) => value.split(",")).filter((tag) => tag.trim())
+}
+
+async function runMutation(
+  parsed: ParsedArgs & { account: string },
+  authPath: string
+): Promise<{ message: string; rows: AccountsCliRow[] }> {
+  let message = ""
+  let rows: AccountsCliRow[] = []
+  await saveAuthStorage(
+    authPath,
+    (authFile) => {
+      const openai = requireOpenAIMultiOauthAuth(authFile)
+      const view = domainView(openai, parsed.mode)
+      const index = resolveAccountSelector(view, parsed.account)
+      const row = listAccountsForTools(view)[index - 1]
+      if (!row) throw new Error("Invalid account index")
+      const described = { index1: index, email: row.email, plan: row.plan, label: row.label }
+      let next = view
+
+      if (parsed.action === "switch") {
+        next = switchAccountByIndex(view, index)
+        message = switchedAccountMessage(described)
+      } else if (parsed.action === "enable" || parsed.action === "disable") {
+        const enabled = parsed.action === "enable"
+        if (row.enabled !== enabled) {
+          next = toggleAccountEnabledByIndex(view, index)
+        }
+        message = toggledAccountMessage({ ...described, enabled })
+      } else if (parsed.action === "remove") {
+        next = removeAccountByIndex(view, index)
+        message = removedAccountMessage(described)
+      } else if (parsed.action === "label" || parsed.action === "tags") {
+        next = labelAccountByIndex(
+          view,
+          index,
+          parsed.action === "label"
+            ? { label: parsed.clear ? null : parsed.values.join(" ") }
+            : { tags: parsed.clear ? [] : parseTags(parsed.values) }
+        )
+        const updated = listAccountsForTools(next)[index - 1]
+        message = labelledAccountMessage({ ...described, label: updated?.label, tags: updated?.tags })
+      }
+
+      if (next !== view) {
+        authFile.openai = applyView(openai, parsed.mode, next)
+      }
+      const nextOpenAI = requireOpenAIMultiOauthAuth(authFile)
+      rows = buildRows(domainView(nextOpenAI, parsed.mode))
+    },
+    { audit: { actor: "cli", reason: "user_action" } }
+  )
+  return { message, rows }
+}
+
+type RefreshOutcome = {
+  index: number
+  identityKey: string
+  email?: string
+  plan?: string
+  ok: boolean
+  expires?: number
+  error?: string
+}
+
+type RefreshTokens = { access: string; refresh: string; expires: number }
+
+function updateRefreshedTokens(
+  auth: AuthFile,
+  identityKey: string,
+  previousRefresh: string,
+  tokens: RefreshTokens
+): void {
+  const openai = requireOpenAIMultiOauthAuth(auth)
+  // Refresh tokens rotate, so update every domain copy that shared the old token.
+  const targets = [openai.accounts, ...listOpenAIOAuthDomains(auth).map((entry) => entry.domain.accounts)]
+  for (const accounts of targets) {
+    for (const account of accounts) {
+      if (account.identityKey !== identityKey || account.refresh !== previousRefresh) continue
+      account.access = tokens.access
+      account.refresh = tokens.refresh
+      account.expires = tokens.expires
+      delete account.cooldownUntil
+    }
+  }
+}
+
+async function runRefresh(
+  parsed: ParsedArgs,
+  authPath: string,
+  deps: Required<Pick<AccountsCliDeps, "now" | "refreshAccessToken">>
+): Promise<RefreshOutcome[]> {
+  let targets: Array<RefreshOutcome & { refresh?: string }> = []
+  await saveAuthStorage(authPath, (authFile) => {
+    const view = domainView(requireOpenAIMultiOauthAuth(authFile), parsed.mode)
+    const rows = listAccountsForTools(view)
+    const index = parsed.account === undefined ? undefined : resolveAccountSelector(view, parsed.account)
+    targets = rows
+      .filter((row) => (index === undefined ? row.enabled : row.displayIndex === index))
+      .map((row) => ({
+        index: row.displayIndex,
+        identityKey: row.identityKey,
+        email: row.email,
+        plan: row.plan,
+        ok: false,
+        refresh: view.accounts.find((account) => account.identityKey === row.identityKey)?.refresh
+      }))
+  })
+
+  const outcomes: RefreshOutcome[] = []
+  for (const target of targets) {
+    const { refresh: previousRefresh, ...outcome } = target
+    if (!previousRefresh) {
+      outcomes.push({ ...outcome, error: "missing refresh token" })
+      continue
+    }
+    try {
+      const tokens = await deps.refreshAccessToken(previousRefresh)
+      const expires = deps.now() + (tokens.expires_in ?? 3600) * 1000
+      await saveAuthStorage(
+        authPath,
+        (authFile) => {
+          updateRefreshedTokens(authFile, outcome.identityKey, previousRefresh, {
+            access: tokens.access_token,
+            refresh: tokens.refresh_token,
+            expires
+          })
+        },
+        { audit: { actor: "cli", reason: "refresh_succeeded" } }
+      )
+      outcomes.push({ ...outcome, ok: true, expires })
+    } catch (error) {
+      outcomes.push({ ...outcome, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return outcomes
+}
+
+function formatBackup(backup: AuthBackupInfo, index: number): string {
+  const created = new Date(backup.createdAt).toISOString()
+  const counts =
+    backup.accounts === undefined
+      ? "unreadable"
+      : `${backup.accounts} account(s), ${backup.enabledAccounts ?? 0} enabled`
+  return `#${index + 1} ${created} ${counts}`
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch (error) {
+    if (error instanceof Error) {
+      // missing target is the common case
+    }
+    return false
+  }
+}
+
+export async function runAccountsCli(
+  args: string[],
+  io: CliIo = DEFAULT_IO,
+  deps: AccountsCliDeps = {}
+): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  const parsed = parseArgs(args)
+  if (!parsed.ok) {
+    io.err(parsed.error)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  const options = parsed.value
+  const authPath = deps.authPath ?? defaultAuthPath()
+  const now = deps.now ?? Date.now
+
+  try {
+    if (options.action === "list") {
+      const auth = await loadAuthStorage(authPath)
+      const rows = auth.openai ? buildRows(domainView(requireOpenAIMultiOauthAuth(auth), options.mode)) : []
+      if (options.json) {
+        io.out(JSON.stringify({ mode: options.mode ?? "all", accounts: rows }, null, 2))
+        return 0
+      }
+      if (rows.length === 0) {
+        io.out("No OpenAI accounts configured. Run `opencode auth login`.")
+        return 0
+      }
+      for (const row of rows) io.out(formatRow(row, now()))
+      return 0
+    }
+
+    if (options.action === "refresh") {
+      const outcomes = await runRefresh(options, authPath, {
+        now,
+        refreshAccessToken: deps.refreshAccessToken ?? refreshAccessToken
+      })
+      const failed = outcomes.filter((outcome) => !outcome.ok).length
+      if (options.json) {
+        io.out(JSON.stringify({ mode: options.mode ?? "all", refreshed: outcomes }, null, 2))
+      } else if (outcomes.length === 0) {
+        io.out("No enabled accounts to refresh.")
+      } else {
+        for (const outcome of outcomes) {
+          const label = `#${outcome.index}: ${outcome.email ?? "account"}${outcome.plan ? ` (${outcome.plan})` : ""}`
+          io.out(outcome.ok ? `Refreshed ${label}` : `Failed ${label} -> ${outcome.error}`)
+        }
+      }
+      return failed > 0 ? 1 : 0
+    }
+
+    if (options.action === "import-codex") {
+      const imported = await importCodexCliAuth({
+        mode: options.mode ?? "codex",
+        sourcePath: options.file ?? deps.codexCliAuthPath,
+        authPath,
+        actor: "cli"
+      })
+      if (options.json) {
+        io.out(JSON.stringify({ mode: imported.mode, imported }, null, 2))
+      } else {
+        const label = `${imported.email ?? "account"}${imported.plan ? ` (${imported.plan})` : ""}`
+        io.out(
+          `${imported.added ? "Imported" : "Updated"} ${label} from the Codex CLI login (${imported.mode} auth domain).`
+        )
+      }
+      return 0
+    }
+
+    if (options.action === "export-codex") {
+      const targetPath = options.file ?? deps.codexCliAuthPath ?? defaultCodexCliAuthPath()
+      if (!options.yes && (await pathExists(targetPath))) {
+        io.err(`Refusing to overwrite the existing Codex CLI login at ${targetPath} without --yes`)
+        return 1
+      }
+      const auth = await loadAuthStorage(authPath)
+      const view = domainView(requireOpenAIMultiOauthAuth(auth), options.mode)
+      const row =
+        options.account === undefined
+          ? undefined
+          : listAccountsForTools(view)[resolveAccountSelector(view, options.account) - 1]
+      const account = row ? view.accounts.find((candidate) => candidate.identityKey === row.identityKey) : undefined
+      if (!row || !account) throw new Error("Invalid account index")
+      const exported = await exportCodexCliAuth(account, { targetPath, now: now() })
+      if (options.json) {
+        io.out(
+          JSON.stringify(
+            {
+              mode: options.mode ?? "all",
+              exported: {
+                index: row.displayIndex,
+                identityKey: row.identityKey,
+                ...(row.email ? { email: row.email } : {}),
+                ...(row.plan ? { plan: row.plan } : {}),
+                ...exported
+              }
+            },
+            null,
+            2
+          )
+        )
+      } else {
+        const label = `${row.email ?? "account"}${row.plan ? ` (${row.plan})` : ""}`
+        io.out(`Exported #${row.displayIndex}: ${label} to ${exported.targetPath}.`)
+      }
+      return 0
+    }
+
+    if (options.action === "backups") {
+      const backups = await listAuthBackups(authPath)
+      if (options.json) {
+        io.out(JSON.stringify({ backups: backups.map((backup, index) => ({ index: index + 1, ...backup })) }, null, 2))
+        return 0
+      }
+      if (backups.length === 0) {
+        io.out("No account store backups yet.")
+        return 0
+      }
+      backups.forEach((backup, index) => io.out(formatBackup(backup, index)))
+      return 0
+    }
+
+    if (options.action === "restore") {
+      if (!options.yes) {
+        io.err("Refusing to restore a backup without --yes")
+        return 1
+      }
+      const backups = await listAuthBackups(authPath)
+      const backup = options.index === undefined ? undefined : backups[options.index - 1]
+      if (!backup) throw new Error("Invalid backup index")
+      const restored = await restoreAuthStorageBackup(authPath, backup.path, {
+        audit: { actor: "cli", reason: "backup_restore" }
+      })
+      if (options.json) {
+        io.out(
+          JSON.stringify(
+            {
+              restored: { index: options.index, ...backup },
+              ...(restored.previousBackup ? { previousBackup: restored.previousBackup } : {})
+            },
+            null,
+            2
+          )
+        )
+      } else {
+        io.out(`Restored ${formatBackup(backup, (options.index ?? 1) - 1)}.`)
+        if (restored.previousBackup) io.out(`The replaced account store was backed up to ${restored.previousBackup}.`)
+      }
+      return 0
+    }
+
+    if (options.action === "remove" && !options.yes) {
+      io.err("Refusing to remove account without --yes")
+      return 1
+    }
+
+    const account = options.account
+    if (account === undefined) throw new Error("Invalid account index")
+    const result = await runMutation({ ...options, account }, authPath)
+    if (options.json) {
+      io.out(JSON.stringify({ mode: options.mode ?? "all", message: result.message, accounts: result.rows }, null, 2))
+    } else {
+      io.out(result.message)
+    }
+    return 0
+  } catch (error) {
+    io.err(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+}
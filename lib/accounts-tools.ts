@@ -1,8 +1,12 @@
+import type { tool } from "@opencode-ai/plugin/tool"
+
 import type { AccountRecord, OpenAIMultiOauthAuth } from "./types.js"
 import {
   assignDeterministicFallbackIdentityKey,
   buildLegacyIdentityFingerprint,
   ensureIdentityKey,
+  normalizeAccountLabel,
+  normalizeAccountTags,
   normalizeEmail,
   normalizePlan
 } from "./identity.js"
@@ -12,10 +16,18 @@ export type ToolAccountRow = {
   identityKey: string
   email?: string
   plan?: string
+  label?: string
+  tags?: string[]
   enabled: boolean
   isActive: boolean
 }
 
+/** `null` clears the label; `tags` replaces the whole tag list. */
+export type AccountLabelUpdate = {
+  label?: string | null
+  tags?: string[]
+}
+
 type ToolAccountInternalRow = ToolAccountRow & {
   accountIndex: number
 }
@@ -161,6 +173,8 @@ function buildToolRows(openai: OpenAIMultiOauthAuth): ToolAccountInternalRow[] {
           identityKey: account.identityKey,
           email: account.email,
           plan: account.plan,
+          ...(account.label ? { label: account.label } : {}),
+          ...(account.tags && account.tags.length > 0 ? { tags: [...account.tags] } : {}),
           enabled: account.enabled !== false,
           isActive: openai.activeIdentityKey === account.identityKey
         }
@@ -192,11 +206,69 @@ export function listAccountsForTools(openai: OpenAIMultiOauthAuth): ToolAccountR
     identityKey: row.identityKey,
     email: row.email,
     plan: row.plan,
+    ...(row.label ? { label: row.label } : {}),
+    ...(row.tags ? { tags: row.tags } : {}),
     enabled: row.enabled,
     isActive: row.isActive
   }))
 }
 
+function describeMatches(rows: ToolAccountRow[]): string {
+  return rows.map((row) => `#${row.displayIndex}`).join(", ")
+}
+
+/**
+ * Resolves a tool/CLI account selector to the 1-based index used by the `*ByIndex` helpers.
+ * Accepts an index, an exact identity key, a label, or an email (labels and emails match
+ * case-insensitively). Emails shared by several accounts (one per plan or workspace) are
+ * rejected as ambiguous so a stale guess never mutates the wrong account.
+ */
+export function resolveAccountSelector(openai: OpenAIMultiOauthAuth, selector: string | number): number {
+  const rows = listAccountsForTools(openai)
+  const raw = typeof selector === "number" ? String(selector) : selector.trim()
+  if (!raw) throw new Error("Missing account selector")
+  if (/^\d+$/.test(raw)) {
+    const index1 = Number(raw)
+    if (index1 < 1 || !rows[index1 - 1]) throw new Error("Invalid account index")
+    return index1
+  }
+
+  const byIdentity = rows.find((row) => row.identityKey === raw)
+  if (byIdentity) return byIdentity.displayIndex
+
+  const wanted = raw.toLowerCase()
+  const byLabel = rows.filter((row) => row.label?.toLowerCase() === wanted)
+  if (byLabel.length === 1 && byLabel[0]) return byLabel[0].displayIndex
+  if (byLabel.length > 1) {
+    throw new Error(`Label "${raw}" matches several accounts (${describeMatches(byLabel)}); use an index instead`)
+  }
+
+  const byEmail = rows.filter((row) => row.email === wanted)
+  if (byEmail.length === 1 && byEmail[0]) return byEmail[0].displayIndex
+  if (byEmail.length > 1) {
+    throw new Error(`Email ${raw} matches several accounts (${describeMatches(byEmail)}); use a label or index instead`)
+  }
+  throw new Error(`No account matches "${raw}"`)
+}
+
+/**
+ * Selector arguments of the account tools. `index` is the argument's name from before labels and
+ * emails were accepted; it stays so saved `{ index: 2 }` calls keep validating.
+ */
+export function accountSelectorToolArgs(z: typeof tool.schema) {
+  return {
+    account: z.union([z.number().int().min(1), z.string().min(1)]).optional(),
+    index: z.number().int().min(1).optional().describe("Deprecated: use account.")
+  }
+}
+
+/** Picks the selector out of `accountSelectorToolArgs` values, preferring `account`. */
+export function toolAccountSelector(args: { account?: string | number; index?: number }): string | number {
+  const selector = args.account ?? args.index
+  if (selector === undefined) throw new Error("Missing account selector")
+  return selector
+}
+
 export function switchAccountByIndex(openai: OpenAIMultiOauthAuth, index1: number): OpenAIMultiOauthAuth {
   const hydrated = hydrateOpenAIForTooling(openai)
   const target = resolveToolAccount(hydrated, index1)
@@ -313,3 +385,56 @@ export function removeAccountByIndex(openai: OpenAIMultiOauthAuth, index1: numbe
     ...(nextCodex ? { codex: nextCodex } : {})
   }
 }
+
+export function labelAccountByIndex(
+  openai: OpenAIMultiOauthAuth,
+  index1: number,
+  update: AccountLabelUpdate
+): OpenAIMultiOauthAuth {
+  const hydrated = hydrateOpenAIForTooling(openai)
+  const target = resolveToolAccount(hydrated, index1)
+
+  let label: string | undefined
+  if (update.label !== undefined && update.label !== null) {
+    label = normalizeAccountLabel(update.label)
+    if (!label) throw new Error("Label cannot be empty")
+    if (/^\d+$/.test(label)) throw new Error("Label cannot be a number; numbers select accounts by index")
+    const clash = buildToolRows(hydrated).find(
+      (row) => row.identityKey !== target.identityKey && row.label?.toLowerCase() === label?.toLowerCase()
+    )
+    if (clash) throw new Error(`Label "${label}" is already used by #${clash.displayIndex}`)
+  }
+  const tags = normalizeAccountTags(update.tags)
+
+  const apply = (account: AccountRecord): AccountRecord => {
+    const next: AccountRecord = { ...account }
+    if (update.label !== undefined) {
+      if (label) next.label = label
+      else delete next.label
+    }
+    if (update.tags !== undefined) {
+      if (tags) next.tags = tags
+      else delete next.tags
+    }
+    return next
+  }
+
+  const nextAccounts = hydrated.accounts.map((account) =>
+    account.identityKey === target.identityKey ? apply(account) : account
+  )
+  const nextNative = cloneDomain(hydrated.native)
+  const nextCodex = cloneDomain(hydrated.codex)
+  for (const domain of [nextNative, nextCodex]) {
+    if (!domain) continue
+    const domainIndex = findUniqueDomainMatchIndex(domain.accounts, target)
+    const domainTarget = domainIndex >= 0 ? domain.accounts[domainIndex] : undefined
+    if (domainTarget) domain.accounts[domainIndex] = apply(domainTarget)
+  }
+
+  return {
+    ...hydrated,
+    accounts: nextAccounts,
+    ...(nextNative ? { native: nextNative } : {}),
+    ...(nextCodex ? { codex: nextCodex } : {})
+  }
+}
@@ -0,0 +1,112 @@
+import fs from "node:fs/promises"
+
+import {
+  type AccountAuditEvent,
+  type AccountAuditState,
+  createAccountAuditPseudonymizer,
+  readRecentAccountAuditEvents
+} from "./account-audit.js"
+import { isFsErrorCode } from "./cache-io.js"
+import { accountAuditLogPathFor, defaultAuthPath } from "./paths.js"
+import { listOpenAIOAuthDomains, loadAuthStorage } from "./storage.js"
+
+export const DEFAULT_AUDIT_EVENT_LIMIT = 20
+
+export type AuditToolOptions = {
+  authPath?: string
+  logPath?: string
+  limit?: number
+}
+
+async function loadPseudonymLabels(authPath: string, logPath: string): Promise<Record<string, string>> {
+  const labels: Record<string, string> = {}
+  try {
+    const auth = await loadAuthStorage(authPath, { lockReads: false })
+    const pseudonymOf = await createAccountAuditPseudonymizer(logPath)
+    for (const { domain } of listOpenAIOAuthDomains(auth)) {
+      for (const account of domain.accounts) {
+        if (!account.identityKey || !account.email) continue
+        const pseudonym = pseudonymOf(account.identityKey)
+        if (!pseudonym) continue
+        labels[pseudonym] = account.plan ? `${account.email} (${account.plan})` : account.email
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      // Labels are cosmetic; unmatched pseudonyms are shown as-is.
+    }
+  }
+  return labels
+}
+
+function formatTime(value: number | null | undefined): string {
+  return typeof value === "number" ? new Date(value).toISOString() : "none"
+}
+
+function describeState(state: AccountAuditState): string {
+  const parts: string[] = []
+  if (state.enabled !== undefined) parts.push(state.enabled ? "enabled" : "disabled")
+  if (state.cooldownUntil !== undefined) parts.push(`cooldown ${formatTime(state.cooldownUntil)}`)
+  return parts.join(", ")
+}
+
+function describeChange(event: AccountAuditEvent, label: (pseudonym: string | null | undefined) => string): string {
+  switch (event.event) {
+    case "account_added":
+      return `added (${describeState(event.after)})`
+    case "account_removed":
+      return "removed"
+    case "active_changed":
+      return `active ${label(event.before.activeIdentity)} -> ${label(event.after.activeIdentity)}`
+    default: {
+      const changes: string[] = []
+      if (event.after.enabled !== undefined) {
+        changes.push(event.after.enabled ? "enabled" : "disabled")
+      }
+      if (event.after.cooldownUntil !== undefined) {
+        changes.push(
+          event.after.cooldownUntil === null
+            ? "cooldown cleared"
+            : `cooldown until ${formatTime(event.after.cooldownUntil)}`
+        )
+      }
+      return changes.join(", ") || "updated"
+    }
+  }
+}
+
+export function renderAuditEvents(events: AccountAuditEvent[], labels: Record<string, string> = {}): string {
+  if (events.length === 0) return "No account audit events recorded yet."
+  const label = (pseudonym: string | null | undefined) => {
+    if (!pseudonym) return "none"
+    const known = labels[pseudonym]
+    return known ? `${pseudonym} ${known}` : pseudonym
+  }
+  const lines = [
+    `Account audit log (last ${events.length} ${events.length === 1 ? "event" : "events"}, oldest first)`,
+    ""
+  ]
+  for (const event of events) {
+    const subject = event.account ? ` ${label(event.account)}` : ""
+    lines.push(
+      `${formatTime(event.at)} ${event.mode}${subject}: ${describeChange(event, label)} [${event.actor}/${event.reason}]`
+    )
+  }
+  return lines.join("\n")
+}
+
+/** Returns the most recent account state changes, labelling pseudonyms that match current accounts. */
+export async function toolOutputForAudit(options: AuditToolOptions = {}): Promise<string> {
+  const authPath = options.authPath ?? defaultAuthPath()
+  const logPath = options.logPath ?? accountAuditLogPathFor(authPath)
+  const limit =
+    typeof options.limit === "number" && options.limit > 0 ? Math.floor(options.limit) : DEFAULT_AUDIT_EVENT_LIMIT
+  try {
+    await fs.access(logPath)
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return renderAuditEvents([])
+    throw error
+  }
+  const events = await readRecentAccountAuditEvents(logPath, limit)
+  return renderAuditEvents(events, await loadPseudonymLabels(authPath, logPath))
+}
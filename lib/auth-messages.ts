@@ -1,9 +1,14 @@
 type AccountLabelInput = {
   email?: string
   plan?: string
+  label?: string
 }
 
 function accountLabel(input: AccountLabelInput): string {
+  if (input.label) {
+    const details = [input.email, input.plan].filter(Boolean).join(", ")
+    return details ? `${input.label} (${details})` : input.label
+  }
   const label = input.email ?? "account"
   const plan = input.plan ? ` (${input.plan})` : ""
   return `${label}${plan}`
@@ -20,3 +25,8 @@ export function toggledAccountMessage(input: AccountLabelInput & { index1: numbe
 export function removedAccountMessage(input: AccountLabelInput & { index1: number }): string {
   return `Removed #${input.index1}: ${accountLabel(input)}`
 }
+
+export function labelledAccountMessage(input: AccountLabelInput & { index1: number; tags?: string[] }): string {
+  const tags = input.tags && input.tags.length > 0 ? ` [tags: ${input.tags.join(", ")}]` : ""
+  return `Updated #${input.index1}: ${accountLabel(input)}${tags}`
+}
@@ -0,0 +1,85 @@
+const LOOPBACK_HOSTNAMES = new Set(["127.0.0.1", "localhost", "[::1]"])
+const MOCKABLE_HOSTNAMES = new Set(["api.openai.com", "auth.openai.com", "chat.openai.com", "chatgpt.com"])
+
+/** Refresh tokens from the mock backend start with this; its access and ID tokens carry `MOCK_JWT_SIGNATURE`. */
+export const MOCK_REFRESH_TOKEN_PREFIX = "mock_refresh_"
+export const MOCK_JWT_SIGNATURE = "mock"
+
+let mockBackendOrigin: string | undefined
+
+/**
+ * Validates a mock backend URL and returns its origin. Only plain-HTTP(S) loopback origins
+ * with an explicit port are accepted so a misconfigured value can never redirect account
+ * tokens to a remote host.
+ */
+export function parseMockBackendOrigin(raw: string | undefined): string | undefined {
+  const trimmed = raw?.trim()
+  if (!trimmed) return undefined
+  let parsed: URL
+  try {
+    parsed = new URL(trimmed)
+  } catch (error) {
+    if (error instanceof Error) {
+      // invalid URL; treated as unset
+    }
+    return undefined
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return undefined
+  if (parsed.username || parsed.password || !parsed.port) return undefined
+  if (!LOOPBACK_HOSTNAMES.has(parsed.hostname.toLowerCase())) return undefined
+  return parsed.origin
+}
+
+export function setMockBackendOrigin(origin: string | undefined): void {
+  mockBackendOrigin = parseMockBackendOrigin(origin)
+}
+
+export function getMockBackendOrigin(): string | undefined {
+  return mockBackendOrigin
+}
+
+export function isMockBackendUrl(url: URL): boolean {
+  return mockBackendOrigin !== undefined && url.origin === mockBackendOrigin
+}
+
+export function isMockIssuedToken(token: string | undefined): boolean {
+  if (!token) return false
+  if (token.startsWith(MOCK_REFRESH_TOKEN_PREFIX)) return true
+  const segments = token.split(".")
+  return segments.length === 3 && segments[2] === MOCK_JWT_SIGNATURE
+}
+
+/**
+ * Whether a token may be sent to the current backend. With a mock backend configured only tokens
+ * it issued qualify: real credentials from the shared account store must never reach the loopback
+ * port, and the mock issuer would answer their refresh with `invalid_grant`, disabling the account.
+ */
+export function isTokenUsableWithBackend(token: string | undefined): boolean {
+  return mockBackendOrigin === undefined || isMockIssuedToken(token)
+}
+
+/** `isTokenUsableWithBackend` for a stored account, judged by its refresh token when it has one. */
+export function isAccountUsableWithBackend(account: { access?: string; refresh?: string }): boolean {
+  return isTokenUsableWithBackend(account.refresh ?? account.access)
+}
+
+/**
+ * Points an OpenAI/ChatGPT backend URL at the configured mock backend, keeping path and
+ * query intact. URLs for other hosts, and every URL when no mock backend is configured,
+ * are returned unchanged.
+ */
+export function routeToMockBackend(url: string): string {
+  if (!mockBackendOrigin) return url
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch (error) {
+    if (error instanceof Error) {
+      // leave unparseable values for the caller to reject
+    }
+    return url
+  }
+  if (parsed.protocol !== "https:" || !MOCKABLE_HOSTNAMES.has(parsed.hostname.toLowerCase())) return url
+  const path = parsed.pathname === "/" && !url.endsWith("/") && !parsed.search ? "" : parsed.pathname
+  return `${mockBackendOrigin}${path}${parsed.search}${parsed.hash}`
+}
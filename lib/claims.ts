@@ -2,6 +2,7 @@ export interface IdTokenClaims {
   chatgpt_account_id?: string
   email?: string
   plan?: string
+  exp?: number
   organizations?: Array<{ id: string }>
   "https://api.openai.com/auth"?: { chatgpt_account_id?: string; chatgpt_plan_type?: string }
   "https://api.openai.com/profile"?: { email?: string }
@@ -0,0 +1,189 @@
+import fs from "node:fs/promises"
+import type { AccountAuditActor } from "./account-audit.js"
+
+import { writeJsonFileAtomic, isFsErrorCode } from "./cache-io.js"
+import { extractAccountIdFromClaims, extractEmailFromClaims, extractPlanFromClaims, parseJwtClaims } from "./claims.js"
+import { hydrateAccountIdentityFromAccessClaims } from "./codex-native/accounts.js"
+import { defaultCodexCliAuthPath } from "./paths.js"
+import { ensureOpenAIOAuthDomain, saveAuthStorage } from "./storage.js"
+import { upsertDomainAccount } from "./storage/auth-state.js"
+import type { AccountRecord, OpenAIAuthMode } from "./types.js"
+import { isRecord } from "./util.js"
+
+export type CodexCliImportResult = {
+  mode: OpenAIAuthMode
+  added: boolean
+  identityKey?: string
+  email?: string
+  plan?: string
+}
+
+export type CodexCliExportResult = {
+  targetPath: string
+  replaced: boolean
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined
+}
+
+async function readCodexCliAuth(filePath: string): Promise<Record<string, unknown> | undefined> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return undefined
+    throw error
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Codex CLI auth file at ${filePath} is not valid JSON`)
+    }
+    throw error
+  }
+  if (!isRecord(parsed)) {
+    throw new Error(`Codex CLI auth file at ${filePath} must be a JSON object`)
+  }
+  return parsed
+}
+
+export async function hasCodexCliAuth(filePath: string = defaultCodexCliAuthPath()): Promise<boolean> {
+  try {
+    return accountFromCodexCliAuth(await readCodexCliAuth(filePath)) !== undefined
+  } catch (error) {
+    if (error instanceof Error) {
+      // unreadable Codex CLI auth is treated as absent for menu visibility
+    }
+    return false
+  }
+}
+
+/**
+ * Maps the `tokens` block of a Codex CLI `auth.json` to an account record.
+ * Returns undefined for API-key-only logins, which carry no ChatGPT tokens.
+ */
+export function accountFromCodexCliAuth(raw: unknown): AccountRecord | undefined {
+  if (!isRecord(raw) || !isRecord(raw.tokens)) return undefined
+  const access = readString(raw.tokens.access_token)
+  const refresh = readString(raw.tokens.refresh_token)
+  if (!access || !refresh) return undefined
+
+  const idClaims = parseJwtClaims(readString(raw.tokens.id_token) ?? access)
+  const accessClaims = parseJwtClaims(access)
+  const account: AccountRecord = {
+    enabled: true,
+    access,
+    refresh,
+    accountId: readString(raw.tokens.account_id) ?? extractAccountIdFromClaims(idClaims),
+    email: extractEmailFromClaims(idClaims),
+    plan: extractPlanFromClaims(idClaims),
+    ...(typeof accessClaims?.exp === "number" && Number.isFinite(accessClaims.exp)
+      ? { expires: accessClaims.exp * 1000 }
+      : {})
+  }
+  hydrateAccountIdentityFromAccessClaims(account)
+  return account
+}
+
+/**
+ * Returns the ID token of an existing Codex CLI login when it belongs to the same ChatGPT account.
+ * The plugin does not store ID tokens, so this is the only valid one an export can write.
+ */
+function reusableIdToken(account: AccountRecord, existing: Record<string, unknown> | undefined): string | undefined {
+  if (!account.accountId || !isRecord(existing?.tokens)) return undefined
+  const idToken = readString(existing.tokens.id_token)
+  if (!idToken) return undefined
+  const existingAccountId =
+    readString(existing.tokens.account_id) ?? extractAccountIdFromClaims(parseJwtClaims(idToken))
+  return existingAccountId === account.accountId ? idToken : undefined
+}
+
+/**
+ * Builds a Codex CLI `auth.json` document for an account, keeping unrelated fields of an existing file.
+ * Only an existing login of the same account can be refreshed: the Codex CLI needs its ID token.
+ */
+export function codexCliAuthFromAccount(
+  account: AccountRecord,
+  existing: Record<string, unknown> | undefined,
+  now: number
+): Record<string, unknown> {
+  if (!account.access || !account.refresh) {
+    throw new Error("Account has no stored tokens to export. Refresh or re-authenticate it first.")
+  }
+  const idToken = reusableIdToken(account, existing)
+  if (!idToken) {
+    throw new Error(
+      "The Codex CLI needs an ID token for this account, which the plugin does not store. Run `codex login` with this account once; later exports keep its ID token."
+    )
+  }
+  return {
+    ...existing,
+    OPENAI_API_KEY: existing?.OPENAI_API_KEY ?? null,
+    tokens: {
+      id_token: idToken,
+      access_token: account.access,
+      refresh_token: account.refresh,
+      ...(account.accountId ? { account_id: account.accountId } : {})
+    },
+    last_refresh: new Date(now).toISOString()
+  }
+}
+
+export async function importCodexCliAuth(input: {
+  mode: OpenAIAuthMode
+  sourcePath?: string
+  authPath?: string
+  actor?: AccountAuditActor
+}): Promise<CodexCliImportResult> {
+  const sourcePath = input.sourcePath ?? defaultCodexCliAuthPath()
+  const raw = await readCodexCliAuth(sourcePath)
+  if (!raw) throw new Error(`No Codex CLI login found at ${sourcePath}. Run \`codex login\` first.`)
+  const account = accountFromCodexCliAuth(raw)
+  if (!account) {
+    throw new Error(`Codex CLI auth at ${sourcePath} has no ChatGPT tokens; API key logins cannot be imported.`)
+  }
+
+  let added = false
+  await saveAuthStorage(
+    input.authPath,
+    (authFile) => {
+      if (!authFile.openai || authFile.openai.type !== "oauth") {
+        authFile.openai = { type: "oauth", accounts: [] }
+      }
+      const domain = ensureOpenAIOAuthDomain(authFile, input.mode)
+      added = upsertDomainAccount(domain, account, input.mode)
+      if (!domain.activeIdentityKey && account.identityKey) {
+        domain.activeIdentityKey = account.identityKey
+      }
+      return authFile
+    },
+    { audit: { actor: input.actor ?? "plugin", reason: "codex_cli_import" } }
+  )
+  return {
+    mode: input.mode,
+    added,
+    ...(account.identityKey ? { identityKey: account.identityKey } : {}),
+    ...(account.email ? { email: account.email } : {}),
+    ...(account.plan ? { plan: account.plan } : {})
+  }
+}
+
+export async function exportCodexCliAuth(
+  account: AccountRecord,
+  options: { targetPath?: string; now?: number } = {}
+): Promise<CodexCliExportResult> {
+  const targetPath = options.targetPath ?? defaultCodexCliAuthPath()
+  let existing: Record<string, unknown> | undefined
+  try {
+    existing = await readCodexCliAuth(targetPath)
+  } catch (error) {
+    if (error instanceof Error) {
+      // a corrupt Codex CLI file is replaced rather than merged
+    }
+  }
+  await writeJsonFileAtomic(targetPath, codexCliAuthFromAccount(account, existing, options.now ?? Date.now()))
+  return { targetPath, replaced: existing !== undefined }
+}
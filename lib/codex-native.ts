@@ -1,16 +1,23 @@
 import type { Hooks, PluginInput } from "@opencode-ai/plugin"
 import process from "node:process"
 
+import { resolveAccountPoolPath } from "./account-pools.js"
 import { loadAuthStorage, setAccountCooldown } from "./storage.js"
+import type { LiveEventChannel } from "./live-events.js"
 import type { Logger } from "./logger.js"
 import type { OpenAIAuthMode, RotationStrategy } from "./types.js"
 import type {
+  AccountConcurrencyPolicy,
+  AccountPoolConfig,
   BehaviorSettings,
   CodexSpoofMode,
   CustomModelConfig,
+  FetchRetryPolicy,
+  ModelRoutingMode,
   PersonalityOption,
   PluginRuntimeMode,
   PromptCacheKeyStrategy,
+  QuotaSwitchFloors,
   UltraReasoningEffort
 } from "./config.js"
 import { formatToastMessage } from "./toast.js"
@@ -34,7 +41,6 @@ import {
   buildAuthorizeUrl,
   buildOAuthErrorHtml,
   buildOAuthSuccessHtml,
-  ISSUER,
   composeCodexSuccessRedirectUrl,
   exchangeCodeForTokens,
   generatePKCE,
@@ -48,6 +54,7 @@ import {
   OAUTH_SERVER_SHUTDOWN_ERROR_GRACE_MS,
   OAUTH_SERVER_SHUTDOWN_GRACE_MS,
   type PkceCodes,
+  resolveOAuthIssuer,
   type TokenResponse
 } from "./codex-native/oauth-utils.js"
 import { refreshQuotaSnapshotsForAuthMenu as refreshQuotaSnapshotsForAuthMenuBase } from "./codex-native/auth-menu-quotas.js"
@@ -95,7 +102,7 @@ const CODEX_RS_COMPACT_SUMMARY_PREFIX =
 export async function tryOpenUrlInBrowser(url: string, log?: Logger): Promise<boolean> {
   return openUrlInBrowser({
     url,
-    allowedOrigins: [ISSUER],
+    allowedOrigins: [resolveOAuthIssuer()],
     log,
     onEvent: (event, meta) => oauthServerController.emitDebug(event, meta ?? {})
   })
@@ -166,6 +173,11 @@ export type CodexAuthPluginOptions = {
   quietMode?: boolean
   pidOffsetEnabled?: boolean
   rotationStrategy?: RotationStrategy
+  accountPools?: Record<string, AccountPoolConfig>
+  modelRouting?: ModelRoutingMode
+  quotaSwitchFloors?: QuotaSwitchFloors
+  accountConcurrency?: AccountConcurrencyPolicy
+  fetchRetryPolicy?: FetchRetryPolicy
   promptCacheKeyStrategy?: PromptCacheKeyStrategy
   spoofMode?: CodexSpoofMode
   compatInputSanitizer?: boolean
@@ -175,10 +187,43 @@ export type CodexAuthPluginOptions = {
   headerSnapshots?: boolean
   headerSnapshotBodies?: boolean
   headerTransformDebug?: boolean
+  usageLedger?: boolean
   ultraEnabled?: boolean
   ultraReasoningEffort?: UltraReasoningEffort
+  /** Active config profile name, appended to toasts. */
+  profile?: string
+  /** Cross-process event channel; owned and closed by the caller. */
+  liveEvents?: LiveEventChannel
 }
 
+/**
+ * Options that take effect without a restart. `CodexAuthPlugin` reads them from its options object
+ * on every hook and request, so replacing them on that object applies a config reload.
+ */
+export type CodexRuntimeSettings = Pick<
+  CodexAuthPluginOptions,
+  | "personality"
+  | "behaviorSettings"
+  | "customModels"
+  | "modelAliases"
+  | "quietMode"
+  | "pidOffsetEnabled"
+  | "rotationStrategy"
+  | "accountPools"
+  | "modelRouting"
+  | "quotaSwitchFloors"
+  | "accountConcurrency"
+  | "fetchRetryPolicy"
+  | "promptCacheKeyStrategy"
+  | "compatInputSanitizer"
+  | "headerSnapshots"
+  | "headerSnapshotBodies"
+  | "headerTransformDebug"
+  | "usageLedger"
+  | "ultraReasoningEffort"
+  | "profile"
+>
+
 type OpenCodeConfig = Parameters<NonNullable<Hooks["config"]>>[0]
 
 type ConfigWithProviderVariants = OpenCodeConfig & {
@@ -381,7 +426,6 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
   const codexCompactionOverrideEnabled =
     opts.codexCompactionOverride !== undefined ? opts.codexCompactionOverride : runtimeMode === "codex"
   const ultraEnabled = opts.ultraEnabled === true
-  const ultraReasoningEffort = opts.ultraReasoningEffort ?? "max"
   void refreshCodexClientVersionFromGitHub(opts.log).catch((error) => {
     if (error instanceof Error) {
       // best-effort background refresh
@@ -411,11 +455,25 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
       headerTransformDebug: opts.headerTransformDebug === true
     })
   }
-  const requestSnapshots = createRequestSnapshots({
-    enabled: !shareableDebugEnabled && (opts.headerSnapshots === true || opts.headerTransformDebug === true),
-    captureBodies: opts.headerSnapshotBodies === true,
-    log: opts.log
-  })
+  let requestSnapshotsKey: string | undefined
+  let currentRequestSnapshots: ReturnType<typeof createRequestSnapshots> | undefined
+  const resolveRequestSnapshots = (): ReturnType<typeof createRequestSnapshots> => {
+    const enabled = !shareableDebugEnabled && (opts.headerSnapshots === true || opts.headerTransformDebug === true)
+    const captureBodies = opts.headerSnapshotBodies === true
+    const key = `${enabled}:${captureBodies}`
+    if (!currentRequestSnapshots || key !== requestSnapshotsKey) {
+      currentRequestSnapshots = createRequestSnapshots({ enabled, captureBodies, log: opts.log })
+      requestSnapshotsKey = key
+    }
+    return currentRequestSnapshots
+  }
+  resolveRequestSnapshots()
+  const requestSnapshots = {
+    captureRequest: (stage: string, request: Request, metadata?: Record<string, unknown>) =>
+      resolveRequestSnapshots().captureRequest(stage, request, metadata),
+    captureResponse: (stage: string, response: Response, metadata?: Record<string, unknown>) =>
+      resolveRequestSnapshots().captureResponse(stage, response, metadata)
+  }
   const shareableDebug = createShareableDebugLogger({
     enabled: shareableDebugEnabled,
     log: opts.log
@@ -515,7 +573,8 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
     const tui = input.client?.tui
     if (!tui || typeof tui.showToast !== "function") return
     try {
-      await tui.showToast({ body: { message: formatToastMessage(message), variant } })
+      const text = opts.profile ? `${message} (profile: ${opts.profile})` : message
+      await tui.showToast({ body: { message: formatToastMessage(text), variant } })
     } catch (error) {
       opts.log?.debug("toast failed", {
         error: error instanceof Error ? error.message : String(error)
@@ -625,18 +684,55 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
         const fetch = createOpenAIFetchHandler({
           authMode,
           spoofMode,
-          promptCacheKeyStrategy: opts.promptCacheKeyStrategy,
+          get promptCacheKeyStrategy() {
+            return opts.promptCacheKeyStrategy
+          },
           projectPath: typeof input.worktree === "string" && input.worktree.trim() ? input.worktree : process.cwd(),
+          accountPoolPath: resolveAccountPoolPath(input) ?? process.cwd(),
           remapDeveloperMessagesToUserEnabled,
-          behaviorSettings: opts.behaviorSettings,
-          customModels: opts.customModels,
-          personality: opts.personality,
+          get behaviorSettings() {
+            return opts.behaviorSettings
+          },
+          get customModels() {
+            return opts.customModels
+          },
+          get personality() {
+            return opts.personality
+          },
           log: opts.log,
-          quietMode: opts.quietMode === true,
-          pidOffsetEnabled: opts.pidOffsetEnabled === true,
-          configuredRotationStrategy: opts.rotationStrategy,
-          headerTransformDebug: opts.headerTransformDebug === true,
-          compatInputSanitizerEnabled: opts.compatInputSanitizer === true,
+          get quietMode() {
+            return opts.quietMode === true
+          },
+          get pidOffsetEnabled() {
+            return opts.pidOffsetEnabled === true
+          },
+          get configuredRotationStrategy() {
+            return opts.rotationStrategy
+          },
+          get accountPools() {
+            return opts.accountPools
+          },
+          get modelRouting() {
+            return opts.modelRouting
+          },
+          get quotaSwitchFloors() {
+            return opts.quotaSwitchFloors
+          },
+          get accountConcurrency() {
+            return opts.accountConcurrency
+          },
+          get fetchRetryPolicy() {
+            return opts.fetchRetryPolicy
+          },
+          get headerTransformDebug() {
+            return opts.headerTransformDebug === true
+          },
+          get usageLedger() {
+            return opts.usageLedger !== false
+          },
+          get compatInputSanitizerEnabled() {
+            return opts.compatInputSanitizer === true
+          },
           shareableDebug,
           internalCatalogScopeHeader: INTERNAL_CATALOG_SCOPE_HEADER,
           internalSelectedModelHeader: INTERNAL_SELECTED_MODEL_HEADER,
@@ -655,7 +751,8 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
           setCooldown: async (idKey, cooldownUntil) => {
             await setAccountCooldown(undefined, idKey, cooldownUntil, authMode)
           },
-          showToast
+          showToast,
+          liveEvents: opts.liveEvents
         })
 
         return {
@@ -708,7 +805,7 @@ export async function CodexAuthPlugin(input: PluginInput, opts: CodexAuthPluginO
         projectRoot: typeof input.worktree === "string" && input.worktree.trim() ? input.worktree : process.cwd(),
         spoofMode,
         ultraEnabled,
-        ultraReasoningEffort,
+        ultraReasoningEffort: opts.ultraReasoningEffort ?? "max",
         resolveAgentExecution: () =>
           agentExecutionResolver.resolve({
             sessionID: typeof hookInput.sessionID === "string" ? hookInput.sessionID : undefined,
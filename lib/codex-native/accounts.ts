@@ -79,14 +79,19 @@ export function upsertAccount(openai: OpenAIOAuthDomain, incoming: AccountRecord
 }
 
 export function formatAccountLabel(
-  account: { email?: string; plan?: string; accountId?: string } | undefined,
+  account: { email?: string; plan?: string; accountId?: string; label?: string } | undefined,
   index: number
 ): string {
   const email = account?.email?.trim()
   const plan = account?.plan?.trim()
+  const label = account?.label?.trim()
   const accountId = account?.accountId?.trim()
   const idSuffix = accountId ? (accountId.length > 6 ? accountId.slice(-6) : accountId) : null
 
+  if (label) {
+    const details = [email, plan].filter(Boolean).join(", ")
+    return details ? `${label} (${details})` : label
+  }
   if (email && plan) return `${email} (${plan})`
   if (email) return email
   if (idSuffix) return `id:${idSuffix}`
@@ -190,6 +195,8 @@ export function buildAuthMenuAccounts(input: {
           accountId: account.accountId,
           email: account.email,
           plan: account.plan,
+          ...(account.label ? { label: account.label } : {}),
+          ...(account.tags && account.tags.length > 0 ? { tags: [...account.tags] } : {}),
           sourceIndices: { [authMode]: sourceIndex },
           authTypes: [authMode],
           lastUsed: account.lastUsed,
@@ -211,6 +218,8 @@ export function buildAuthMenuAccounts(input: {
       if (existing.enabled === false && account.enabled !== false) {
         existing.enabled = true
       }
+      if (!existing.label && account.label) existing.label = account.label
+      if (!existing.tags && account.tags && account.tags.length > 0) existing.tags = [...account.tags]
       if (existing.status !== "rate-limited" && currentStatus === "rate-limited") {
         existing.status = "rate-limited"
       } else if (existing.status !== "rate-limited" && existing.status !== "expired" && currentStatus === "expired") {
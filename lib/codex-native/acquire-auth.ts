@@ -1,18 +1,34 @@
+import { type AccountPool, isAccountInPool } from "../account-pools.js"
+import { getMockBackendOrigin, isAccountUsableWithBackend } from "../backend-endpoints.js"
 import type { AccountSelectionTrace, AuthData, FetchOrchestratorAuthContext } from "../fetch-orchestrator.js"
 import { PluginFatalError, formatWaitTime, isPluginFatalError } from "../fatal-errors.js"
 import { ensureIdentityKey, normalizeEmail, normalizePlan } from "../identity.js"
+import type { QuotaSwitchFloors } from "../config.js"
 import type { Logger } from "../logger.js"
-import { createStickySessionState, selectAccount, type StickySessionState } from "../rotation.js"
+import type { CodexModelInfo } from "../model-catalog.js"
+import {
+  createStickySessionState,
+  isAccountEligible,
+  isAccountSaturated,
+  recordAccountSelection,
+  selectAccount,
+  type StickySessionState,
+  touchAccountLastUsed
+} from "../rotation.js"
 import { ensureOpenAIOAuthDomain, loadAuthStorage, saveAuthStorage } from "../storage.js"
+import { isAuthStoreVersionError } from "../storage/auth-schema.js"
+import { isTokenSealError } from "../storage/token-seal.js"
 import type { AccountRecord, OpenAIAuthMode, RotationStrategy } from "../types.js"
 import { parseJwtClaims } from "../claims.js"
+import { loadSnapshotsCached } from "../codex-status-storage.js"
+import { defaultSnapshotsPath } from "../paths.js"
 import { formatAccountLabel } from "./accounts.js"
+import { catalogSupportsModel, describeModelRequirement, type ModelRequirement } from "./model-routing.js"
 import { extractAccountId, refreshAccessToken, type OAuthTokenRefreshError } from "./oauth-utils.js"
 import type { ShareableDebugLogger } from "../shareable-debug.js"
 
 const AUTH_REFRESH_FAILURE_COOLDOWN_MS = 30_000
 const AUTH_REFRESH_LEASE_MS = 30_000
-const LAST_USED_WRITE_INTERVAL_MS = 60_000
 
 function isOAuthTokenRefreshError(value: unknown): value is OAuthTokenRefreshError {
   return value instanceof Error && ("status" in value || "oauthCode" in value)
@@ -73,6 +89,27 @@ export type AcquireOpenAIAuthInput = {
   persistSessionAffinityState: () => void | Promise<void>
   pidOffsetEnabled: boolean
   configuredRotationStrategy?: RotationStrategy
+  /** When set, only the pool's accounts are considered and exhaustion never falls back to others. */
+  accountPool?: AccountPool
+  /**
+   * Prefers accounts whose cached catalog supports `requirement`; `strict` never uses the others.
+   * Accounts with no cached catalog count as supported.
+   */
+  modelRouting?: {
+    mode: "fallback" | "strict"
+    requirement: ModelRequirement
+    catalogFor: (account: AccountRecord) => Promise<CodexModelInfo[] | undefined>
+  }
+  /** New sessions avoid accounts whose cached quota snapshot is below a floor. */
+  quotaSwitchFloors?: QuotaSwitchFloors
+  /**
+   * Skips accounts already holding `maxRequestsPerAccount` in-flight requests. When every usable
+   * account is saturated, fails with `account_concurrency_limit` so the caller can wait and retry.
+   */
+  concurrency?: {
+    maxRequestsPerAccount: number
+    inFlightCounts: Record<string, number>
+  }
   log?: Logger
   shareableDebug?: ShareableDebugLogger
 }
@@ -113,6 +150,7 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
   let sawRefreshFailure = false
   let sawMissingRefresh = false
   let sawMissingIdentity = false
+  let sawConcurrencyLimit = false
   let totalAccounts = 0
   let rotationLogged = false
   let lastSelectionTrace: AccountSelectionTrace | undefined
@@ -127,6 +165,45 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
       activeIdentityKey: lastSelectionTrace?.activeIdentityKey
     })
   }
+  const pool = input.accountPool
+  const routing = input.modelRouting
+  const concurrency = input.concurrency
+  const isSaturated = (account: AccountRecord): boolean =>
+    isAccountSaturated(account, concurrency?.inFlightCounts, concurrency?.maxRequestsPerAccount)
+  const modelSupport = new Map<string, boolean | undefined>()
+  const loadModelSupport = async (accounts: AccountRecord[]): Promise<void> => {
+    if (!routing) return
+    for (const [index, account] of accounts.entries()) {
+      const key = buildAttemptKeyForCandidate(account, index)
+      if (modelSupport.has(key)) continue
+      let catalog: CodexModelInfo[] | undefined
+      try {
+        catalog = await routing.catalogFor(account)
+      } catch (error) {
+        if (error instanceof Error) {
+          // an unreadable catalog cache counts as unknown
+        }
+      }
+      modelSupport.set(key, catalogSupportsModel(catalog, routing.requirement))
+    }
+  }
+  const supportsModel = (account: AccountRecord, index: number): boolean =>
+    modelSupport.get(buildAttemptKeyForCandidate(account, index)) !== false
+  const isInPool = (account: AccountRecord): boolean => !pool || isAccountInPool(account, pool)
+  const isCandidate = (account: AccountRecord, index: number): boolean =>
+    isAccountUsableWithBackend(account) &&
+    isInPool(account) &&
+    (routing?.mode !== "strict" || supportsModel(account, index))
+  const throwPoolExhausted = async (details: { message: string; status: number; waitMs?: number }): Promise<never> => {
+    await emitAuthFailure({ outcome: "account_pool_exhausted", status: details.status, waitMs: details.waitMs })
+    throw new PluginFatalError({
+      message: `${details.message} Accounts outside the pool are not used for this project.`,
+      status: details.status,
+      type: "account_pool_exhausted",
+      param: "accountPools",
+      hint: "Wait for the cooldown, enable or add accounts in the pool, or adjust accountPools in codex-config.jsonc."
+    })
+  }
 
   try {
     while (true) {
@@ -146,7 +223,9 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
       }
 
       const domain = ensureOpenAIOAuthDomain(authSnapshot, input.authMode)
-      totalAccounts = domain.accounts.length
+      await loadModelSupport(domain.accounts)
+      const candidates = domain.accounts.filter(isCandidate)
+      totalAccounts = candidates.length
       if (domain.accounts.length === 0) {
         throw new PluginFatalError({
           message: `No OpenAI ${input.authMode} accounts configured. Run \`opencode auth login\`.`,
@@ -155,8 +234,36 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
           param: "accounts"
         })
       }
+      if (pool && !domain.accounts.some(isInPool)) {
+        await emitAuthFailure({ outcome: "account_pool_empty", status: 403 })
+        throw new PluginFatalError({
+          message: `No OpenAI ${input.authMode} accounts belong to account pool "${pool.name}", which applies to this project.`,
+          status: 403,
+          type: "account_pool_empty",
+          param: "accountPools",
+          hint: `Tag an account with one of the pool's tags (${pool.tags.join(", ") || "none"}) or list its identity key in accountPools.${pool.name}.`
+        })
+      }
 
-      const enabled = domain.accounts.filter((account) => account.enabled !== false)
+      if (routing?.mode === "strict" && candidates.length === 0) {
+        const scope = pool ? `account in account pool "${pool.name}"` : `OpenAI ${input.authMode} account`
+        await emitAuthFailure({ outcome: "model_not_available", status: 400 })
+        throw new PluginFatalError({
+          message: `No ${scope} lists ${describeModelRequirement(routing.requirement)} in its cached model catalog.`,
+          status: 400,
+          type: "model_not_available",
+          param: "model",
+          hint: 'Pick a model your accounts offer, add an account whose plan includes it, or set runtime.modelRouting to "fallback".'
+        })
+      }
+
+      const enabled = candidates.filter((account) => account.enabled !== false)
+      if (pool && enabled.length === 0) {
+        await throwPoolExhausted({
+          message: `No enabled OpenAI ${input.authMode} accounts in account pool "${pool.name}".`,
+          status: 403
+        })
+      }
       if (enabled.length === 0) {
         throw new PluginFatalError({
           message: `No enabled OpenAI ${input.authMode} accounts available. Enable an account or run \`opencode auth login\`.`,
@@ -173,6 +280,7 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
           activeIdentityKey: domain.activeIdentityKey,
           totalAccounts: domain.accounts.length,
           enabledAccounts: enabled.length,
+          accountPool: pool?.name ?? null,
           mode: input.authMode,
           sessionKey: input.context?.sessionKey ?? null
         })
@@ -187,13 +295,28 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         rotationLogged = true
       }
 
-      const selectableEntries = domain.accounts
+      const unattemptedEntries = domain.accounts
         .map((account, index) => ({
           account,
           index,
           attemptKey: buildAttemptKeyForCandidate(account, index)
         }))
-        .filter((entry) => !attempted.has(entry.attemptKey))
+        .filter((entry) => isCandidate(entry.account, entry.index) && !attempted.has(entry.attemptKey))
+      const preferredEntries =
+        routing?.mode === "fallback"
+          ? unattemptedEntries.filter(
+              (entry) =>
+                supportsModel(entry.account, entry.index) &&
+                isAccountEligible(entry.account, now) &&
+                !isSaturated(entry.account)
+            )
+          : unattemptedEntries
+      if (preferredEntries.length === 0 && unattemptedEntries.length > 0 && routing?.mode === "fallback") {
+        input.log?.debug("model routing fallback: no usable account lists the requested model", {
+          requirement: describeModelRequirement(routing.requirement)
+        })
+      }
+      const selectableEntries = preferredEntries.length > 0 ? preferredEntries : unattemptedEntries
 
       if (selectableEntries.length === 0) {
         input.log?.debug("rotation stop: exhausted candidate set", {
@@ -202,12 +325,18 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         })
         shouldStop = true
       } else {
+        // quota_balanced shares the hybrid session map: both pin sessions independently of the active account.
         const sessionState =
           rotationStrategy === "sticky"
             ? input.stickySessionState
-            : rotationStrategy === "hybrid"
+            : rotationStrategy === "hybrid" || rotationStrategy === "quota_balanced"
               ? input.hybridSessionState
               : undefined
+        const hasSwitchFloors = Boolean(input.quotaSwitchFloors?.fiveHourPct || input.quotaSwitchFloors?.weeklyPct)
+        const quotaSnapshots =
+          rotationStrategy === "quota_balanced" || hasSwitchFloors
+            ? await loadSnapshotsCached(defaultSnapshotsPath())
+            : undefined
 
         const selected = selectAccount({
           accounts: selectableEntries.map((entry) => entry.account),
@@ -217,6 +346,10 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
           stickyPidOffset: input.pidOffsetEnabled,
           stickySessionKey: input.isSubagentRequest ? undefined : input.context?.sessionKey,
           stickySessionState: sessionState,
+          quotaSnapshots,
+          quotaSwitchFloors: hasSwitchFloors ? input.quotaSwitchFloors : undefined,
+          inFlightCounts: concurrency?.inFlightCounts,
+          maxConcurrentPerAccount: concurrency?.maxRequestsPerAccount,
           onDebug: (event) => {
             lastSelectionTrace = {
               strategy: event.strategy,
@@ -254,6 +387,9 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
             attempted: attempted.size,
             totalAccounts: domain.accounts.length
           })
+          if (selectableEntries.some((entry) => isAccountEligible(entry.account, now) && isSaturated(entry.account))) {
+            sawConcurrencyLimit = true
+          }
           shouldStop = true
         } else {
           const selectedEntry = selectableEntries.find((entry) => entry.account === selected)
@@ -314,8 +450,44 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
                 identityKey = selectedIdentityKey
                 const selectionStrategy =
                   lastSelectionTrace?.strategy ?? input.configuredRotationStrategy ?? domain.strategy
-                if (selectionStrategy === "hybrid" || selectionStrategy === "round_robin") {
-                  await saveAuthStorage(undefined, (authFile) => {
+                if (
+                  selectionStrategy === "hybrid" ||
+                  selectionStrategy === "round_robin" ||
+                  selectionStrategy === "quota_balanced"
+                ) {
+                  await saveAuthStorage(
+                    undefined,
+                    (authFile) => {
+                      const currentDomain = ensureOpenAIOAuthDomain(authFile, input.authMode)
+                      const currentByIdentity = selectedIdentityKey
+                        ? currentDomain.accounts.find((account) => account.identityKey === selectedIdentityKey)
+                        : undefined
+                      const current = currentByIdentity ?? currentDomain.accounts[selectedIndex]
+                      if (!current) return
+                      const currentIndex = currentDomain.accounts.findIndex((account) => account === current)
+                      const currentAttemptKey = buildAttemptKeyForCandidate(
+                        current,
+                        currentIndex >= 0 ? currentIndex : selectedIndex
+                      )
+                      if (currentAttemptKey !== attemptKey || current.enabled === false) {
+                        return
+                      }
+                      if (!current.identityKey && selectedIdentityKey) {
+                        current.identityKey = selectedIdentityKey
+                      }
+                      recordAccountSelection(currentDomain, current, {
+                        strategy: selectionStrategy,
+                        now: Date.now()
+                      })
+                    },
+                    { audit: { actor: "request", reason: "rotation" } }
+                  )
+                }
+              } else if (!selected.refresh) {
+                sawMissingRefresh = true
+                await saveAuthStorage(
+                  undefined,
+                  (authFile) => {
                     const currentDomain = ensureOpenAIOAuthDomain(authFile, input.authMode)
                     const currentByIdentity = selectedIdentityKey
                       ? currentDomain.accounts.find((account) => account.identityKey === selectedIdentityKey)
@@ -327,80 +499,49 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
                       current,
                       currentIndex >= 0 ? currentIndex : selectedIndex
                     )
-                    if (currentAttemptKey !== attemptKey || current.enabled === false) {
+                    if (currentAttemptKey !== attemptKey || current.enabled === false || current.refresh) {
                       return
                     }
-                    if (!current.identityKey && selectedIdentityKey) {
-                      current.identityKey = selectedIdentityKey
-                    }
-                    if (selectionStrategy === "round_robin" && current.identityKey) {
-                      if (currentDomain.activeIdentityKey !== current.identityKey) {
-                        currentDomain.activeIdentityKey = current.identityKey
-                      }
+                    current.cooldownUntil = now + AUTH_REFRESH_FAILURE_COOLDOWN_MS
+                  },
+                  { audit: { actor: "request", reason: "missing_refresh_token" } }
+                )
+              } else {
+                const leaseUntil = now + AUTH_REFRESH_LEASE_MS
+                await saveAuthStorage(
+                  undefined,
+                  (authFile) => {
+                    const currentDomain = ensureOpenAIOAuthDomain(authFile, input.authMode)
+                    const currentByIdentity = currentDomain.accounts.find(
+                      (account) => account.identityKey === selectedIdentityKey
+                    )
+                    const current = currentByIdentity ?? currentDomain.accounts[selectedIndex]
+                    if (!current) return
+                    const currentIndex = currentDomain.accounts.findIndex((account) => account === current)
+                    const currentAttemptKey = buildAttemptKeyForCandidate(
+                      current,
+                      currentIndex >= 0 ? currentIndex : selectedIndex
+                    )
+                    if (currentAttemptKey !== attemptKey) return
+                    if (
+                      current.enabled === false ||
+                      !current.refresh ||
+                      current.refresh !== selected.refresh ||
+                      (typeof current.refreshLeaseUntil === "number" && current.refreshLeaseUntil > now)
+                    ) {
                       return
                     }
 
-                    const currentNow = Date.now()
-                    const previousLastUsed = typeof current.lastUsed === "number" ? current.lastUsed : undefined
-                    if (
-                      previousLastUsed === undefined ||
-                      currentNow - previousLastUsed >= LAST_USED_WRITE_INTERVAL_MS
-                    ) {
-                      current.lastUsed = currentNow
+                    current.refreshLeaseUntil = leaseUntil
+                    refreshClaim = {
+                      identityKey: current.identityKey ?? selectedIdentityKey,
+                      refreshToken: current.refresh,
+                      leaseUntil,
+                      selectedIndex: currentIndex >= 0 ? currentIndex : selectedIndex
                     }
-                  })
-                }
-              } else if (!selected.refresh) {
-                sawMissingRefresh = true
-                await saveAuthStorage(undefined, (authFile) => {
-                  const currentDomain = ensureOpenAIOAuthDomain(authFile, input.authMode)
-                  const currentByIdentity = selectedIdentityKey
-                    ? currentDomain.accounts.find((account) => account.identityKey === selectedIdentityKey)
-                    : undefined
-                  const current = currentByIdentity ?? currentDomain.accounts[selectedIndex]
-                  if (!current) return
-                  const currentIndex = currentDomain.accounts.findIndex((account) => account === current)
-                  const currentAttemptKey = buildAttemptKeyForCandidate(
-                    current,
-                    currentIndex >= 0 ? currentIndex : selectedIndex
-                  )
-                  if (currentAttemptKey !== attemptKey || current.enabled === false || current.refresh) {
-                    return
-                  }
-                  current.cooldownUntil = now + AUTH_REFRESH_FAILURE_COOLDOWN_MS
-                })
-              } else {
-                const leaseUntil = now + AUTH_REFRESH_LEASE_MS
-                await saveAuthStorage(undefined, (authFile) => {
-                  const currentDomain = ensureOpenAIOAuthDomain(authFile, input.authMode)
-                  const currentByIdentity = currentDomain.accounts.find(
-                    (account) => account.identityKey === selectedIdentityKey
-                  )
-                  const current = currentByIdentity ?? currentDomain.accounts[selectedIndex]
-                  if (!current) return
-                  const currentIndex = currentDomain.accounts.findIndex((account) => account === current)
-                  const currentAttemptKey = buildAttemptKeyForCandidate(
-                    current,
-                    currentIndex >= 0 ? currentIndex : selectedIndex
-                  )
-                  if (currentAttemptKey !== attemptKey) return
-                  if (
-                    current.enabled === false ||
-                    !current.refresh ||
-                    current.refresh !== selected.refresh ||
-                    (typeof current.refreshLeaseUntil === "number" && current.refreshLeaseUntil > now)
-                  ) {
-                    return
-                  }
-
-                  current.refreshLeaseUntil = leaseUntil
-                  refreshClaim = {
-                    identityKey: current.identityKey ?? selectedIdentityKey,
-                    refreshToken: current.refresh,
-                    leaseUntil,
-                    selectedIndex: currentIndex >= 0 ? currentIndex : selectedIndex
-                  }
-                })
+                  },
+                  { audit: { actor: "request", reason: "refresh_lease" } }
+                )
               }
             }
           }
@@ -425,53 +566,54 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         const refreshedAccountId = extractAccountId(tokens)
         const claims = parseJwtClaims(tokens.id_token ?? tokens.access_token)
 
-        await saveAuthStorage(undefined, (authFile) => {
-          const domain = ensureOpenAIOAuthDomain(authFile, input.authMode)
-          const selected = activeRefreshClaim.identityKey
-            ? domain.accounts.find((account) => account.identityKey === activeRefreshClaim.identityKey)
-            : domain.accounts[activeRefreshClaim.selectedIndex]
-          if (!selected) return
-
-          const now = Date.now()
-          if (
-            typeof selected.refreshLeaseUntil !== "number" ||
-            selected.refreshLeaseUntil !== activeRefreshClaim.leaseUntil ||
-            selected.refreshLeaseUntil <= now ||
-            selected.refresh !== activeRefreshClaim.refreshToken
-          ) {
-            if (selected.refreshLeaseUntil === activeRefreshClaim.leaseUntil) {
+        await saveAuthStorage(
+          undefined,
+          (authFile) => {
+            const domain = ensureOpenAIOAuthDomain(authFile, input.authMode)
+            const selected = activeRefreshClaim.identityKey
+              ? domain.accounts.find((account) => account.identityKey === activeRefreshClaim.identityKey)
+              : domain.accounts[activeRefreshClaim.selectedIndex]
+            if (!selected) return
+
+            const now = Date.now()
+            if (
+              typeof selected.refreshLeaseUntil !== "number" ||
+              selected.refreshLeaseUntil !== activeRefreshClaim.leaseUntil ||
+              selected.refreshLeaseUntil <= now ||
+              selected.refresh !== activeRefreshClaim.refreshToken
+            ) {
+              if (selected.refreshLeaseUntil === activeRefreshClaim.leaseUntil) {
+                delete selected.refreshLeaseUntil
+              }
+              return
+            }
+
+            if (selected.enabled === false) {
               delete selected.refreshLeaseUntil
+              return
             }
-            return
-          }
 
-          if (selected.enabled === false) {
+            selected.refresh = tokens.refresh_token
+            selected.access = tokens.access_token
+            selected.expires = refreshedExpires
+            selected.accountId = refreshedAccountId || selected.accountId
+            if (claims?.email) selected.email = normalizeEmail(claims.email)
+            if (claims?.plan) selected.plan = normalizePlan(claims.plan)
+            ensureIdentityKey(selected)
+            touchAccountLastUsed(selected, now)
             delete selected.refreshLeaseUntil
-            return
-          }
-
-          selected.refresh = tokens.refresh_token
-          selected.access = tokens.access_token
-          selected.expires = refreshedExpires
-          selected.accountId = refreshedAccountId || selected.accountId
-          if (claims?.email) selected.email = normalizeEmail(claims.email)
-          if (claims?.plan) selected.plan = normalizePlan(claims.plan)
-          ensureIdentityKey(selected)
-          const previousLastUsed = typeof selected.lastUsed === "number" ? selected.lastUsed : undefined
-          if (previousLastUsed === undefined || now - previousLastUsed >= LAST_USED_WRITE_INTERVAL_MS) {
-            selected.lastUsed = now
-          }
-          delete selected.refreshLeaseUntil
-          delete selected.cooldownUntil
-          if (selected.identityKey) domain.activeIdentityKey = selected.identityKey
-
-          accountLabel = formatAccountLabel(selected, activeRefreshClaim.selectedIndex)
-          email = selected.email
-          plan = selected.plan
-          access = selected.access
-          accountId = selected.accountId
-          identityKey = selected.identityKey
-        })
+            delete selected.cooldownUntil
+            if (selected.identityKey) domain.activeIdentityKey = selected.identityKey
+
+            accountLabel = formatAccountLabel(selected, activeRefreshClaim.selectedIndex)
+            email = selected.email
+            plan = selected.plan
+            access = selected.access
+            accountId = selected.accountId
+            identityKey = selected.identityKey
+          },
+          { audit: { actor: "request", reason: "refresh_succeeded" } }
+        )
       } catch (error) {
         const invalidGrant = isTerminalRefreshCredentialError(error)
         if (invalidGrant) {
@@ -481,30 +623,34 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         }
 
         const activeRefreshClaim = refreshClaim
-        await saveAuthStorage(undefined, (authFile) => {
-          const domain = ensureOpenAIOAuthDomain(authFile, input.authMode)
-          const selected = activeRefreshClaim.identityKey
-            ? domain.accounts.find((account) => account.identityKey === activeRefreshClaim.identityKey)
-            : domain.accounts[activeRefreshClaim.selectedIndex]
-          if (!selected) return
-
-          if (
-            selected.refreshLeaseUntil !== activeRefreshClaim.leaseUntil ||
-            selected.refresh !== activeRefreshClaim.refreshToken
-          ) {
-            return
-          }
+        await saveAuthStorage(
+          undefined,
+          (authFile) => {
+            const domain = ensureOpenAIOAuthDomain(authFile, input.authMode)
+            const selected = activeRefreshClaim.identityKey
+              ? domain.accounts.find((account) => account.identityKey === activeRefreshClaim.identityKey)
+              : domain.accounts[activeRefreshClaim.selectedIndex]
+            if (!selected) return
+
+            if (
+              selected.refreshLeaseUntil !== activeRefreshClaim.leaseUntil ||
+              selected.refresh !== activeRefreshClaim.refreshToken
+            ) {
+              return
+            }
 
-          delete selected.refreshLeaseUntil
-          if (invalidGrant) {
-            selected.enabled = false
-            delete selected.cooldownUntil
-            return
-          }
+            delete selected.refreshLeaseUntil
+            if (invalidGrant) {
+              selected.enabled = false
+              delete selected.cooldownUntil
+              return
+            }
 
-          if (selected.enabled === false) return
-          selected.cooldownUntil = Date.now() + AUTH_REFRESH_FAILURE_COOLDOWN_MS
-        })
+            if (selected.enabled === false) return
+            selected.cooldownUntil = Date.now() + AUTH_REFRESH_FAILURE_COOLDOWN_MS
+          },
+          { audit: { actor: "request", reason: invalidGrant ? "invalid_grant" : "refresh_failed" } }
+        )
       }
 
       if (access) break
@@ -528,7 +674,9 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
       }
 
       const domain = ensureOpenAIOAuthDomain(authSnapshot, input.authMode)
-      const enabledAfterAttempts = domain.accounts.filter((account) => account.enabled !== false)
+      const enabledAfterAttempts = domain.accounts.filter(
+        (account, index) => isCandidate(account, index) && account.enabled !== false
+      )
       if (enabledAfterAttempts.length === 0 && sawInvalidGrant) {
         await emitAuthFailure({ outcome: "refresh_invalid_grant", status: 401 })
         throw new PluginFatalError({
@@ -540,6 +688,17 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         })
       }
 
+      if (sawConcurrencyLimit && concurrency) {
+        // Not reported as an auth failure: the caller waits for a lease and retries.
+        throw new PluginFatalError({
+          message: `All usable OpenAI ${input.authMode} accounts already have ${concurrency.maxRequestsPerAccount} requests in flight.`,
+          status: 429,
+          type: "account_concurrency_limit",
+          param: "concurrency",
+          hint: "Wait for running requests to finish, add accounts, or raise concurrency.maxRequestsPerAccount in codex-config.jsonc."
+        })
+      }
+
       const nextAvailableAt = enabledAfterAttempts.reduce<number | undefined>((current, account) => {
         const cooldownUntil =
           typeof account.refreshLeaseUntil === "number" && account.refreshLeaseUntil > now
@@ -550,6 +709,15 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         return current
       }, undefined)
 
+      if (nextAvailableAt !== undefined && pool) {
+        const waitMs = Math.max(0, nextAvailableAt - now)
+        await throwPoolExhausted({
+          message: `All accounts in OpenAI account pool "${pool.name}" are cooling down. Try again in ${formatWaitTime(waitMs)}.`,
+          status: 429,
+          waitMs
+        })
+      }
+
       if (nextAvailableAt !== undefined) {
         const waitMs = Math.max(0, nextAvailableAt - now)
         await emitAuthFailure({ outcome: "all_accounts_cooling_down", status: 429, waitMs })
@@ -602,9 +770,19 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
         })
       }
 
+      if (pool) {
+        await throwPoolExhausted({
+          message: `No enabled OpenAI ${input.authMode} accounts in account pool "${pool.name}".`,
+          status: 403
+        })
+      }
+
       await emitAuthFailure({ outcome: "no_enabled_accounts", status: 403 })
+      const mockOrigin = getMockBackendOrigin()
       throw new PluginFatalError({
-        message: `No enabled OpenAI ${input.authMode} accounts available. Enable an account or run \`opencode auth login\`.`,
+        message: mockOrigin
+          ? `No enabled OpenAI ${input.authMode} accounts issued by the mock backend at ${mockOrigin}. Run \`opencode auth login\` while it is running.`
+          : `No enabled OpenAI ${input.authMode} accounts available. Enable an account or run \`opencode auth login\`.`,
         status: 403,
         type: "no_enabled_accounts",
         param: "accounts"
@@ -612,6 +790,24 @@ export async function acquireOpenAIAuth(input: AcquireOpenAIAuthInput): Promise<
     }
   } catch (error) {
     if (isPluginFatalError(error)) throw error
+    if (isTokenSealError(error)) {
+      await emitAuthFailure({ outcome: "token_encryption_key_unavailable", status: 500 })
+      throw new PluginFatalError({
+        message: error.message,
+        status: 500,
+        type: "token_encryption_key_unavailable",
+        param: "auth"
+      })
+    }
+    if (isAuthStoreVersionError(error)) {
+      await emitAuthFailure({ outcome: "auth_storage_version_unsupported", status: 500 })
+      throw new PluginFatalError({
+        message: error.message,
+        status: 500,
+        type: "auth_storage_version_unsupported",
+        param: "auth"
+      })
+    }
     await emitAuthFailure({ outcome: "auth_storage_error", status: 500 })
     throw new PluginFatalError({
       message:
@@ -34,7 +34,7 @@ const BUILTIN_PRIMARY_AGENTS = new Set(["build", "plan"])
 const BUILTIN_SUBAGENTS = new Set(["general", "explore", "scout"])
 const BUILTIN_AUXILIARY_AGENTS = new Set(["title", "summary", "compaction", "compact"])
 
-function normalizeAgentName(value: unknown): string | undefined {
+export function normalizeAgentName(value: unknown): string | undefined {
   if (typeof value !== "string") return undefined
   const normalized = value.trim().toLowerCase().replace(/\s+/g, "-")
   return normalized || undefined
@@ -1,15 +1,21 @@
+import { labelAccountByIndex, resolveAccountSelector } from "../accounts-tools.js"
+import { exportCodexCliAuth, hasCodexCliAuth, importCodexCliAuth } from "../codex-cli-auth.js"
 import { extractEmailFromClaims, extractPlanFromClaims, parseJwtClaims } from "../claims.js"
 import { toolOutputForStatus } from "../codex-status-tool.js"
 import { buildIdentityKey, ensureIdentityKey } from "../identity.js"
+import { defaultAuthPath } from "../paths.js"
 import {
   ensureOpenAIOAuthDomain,
   getOpenAIOAuthDomain,
   importLegacyInstallData,
+  listAuthBackups,
   loadAuthStorage,
+  requireOpenAIMultiOauthAuth,
+  restoreAuthStorageBackup,
   saveAuthStorage,
   shouldOfferLegacyTransfer
 } from "../storage.js"
-import type { OpenAIAuthMode } from "../types.js"
+import type { AccountRecord, OpenAIAuthMode } from "../types.js"
 import { runAuthMenuOnce } from "../ui/auth-menu.js"
 import { shouldUseColor } from "../ui/tty.js"
 import {
@@ -40,10 +46,14 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
       activeMode: input.authMode
     })
     const allowTransfer = await shouldOfferLegacyTransfer()
+    const allowCodexCliImport = await hasCodexCliAuth()
+    const backups = await listAuthBackups(defaultAuthPath())
 
     const result = await runAuthMenuOnce({
       accounts: menuAccounts,
       allowTransfer,
+      allowCodexCliImport,
+      backups,
       input: process.stdin,
       output: process.stdout,
       handlers: {
@@ -72,108 +82,120 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
             leaseUntil: number
           }> = []
 
-          await saveAuthStorage(undefined, (authFile) => {
-            for (const mode of ["native", "codex"] as const) {
-              const domain = getOpenAIOAuthDomain(authFile, mode)
-              if (!domain) continue
+          await saveAuthStorage(
+            undefined,
+            (authFile) => {
+              for (const mode of ["native", "codex"] as const) {
+                const domain = getOpenAIOAuthDomain(authFile, mode)
+                if (!domain) continue
 
-              for (let index = 0; index < domain.accounts.length; index += 1) {
-                const account = domain.accounts[index]
-                if (!account) continue
-                const hadIdentity = Boolean(buildIdentityKey(account))
-                hydrateAccountIdentityFromAccessClaims(account)
-                const hasIdentityAfterClaims = Boolean(buildIdentityKey(account))
-                if (!hadIdentity && hasIdentityAfterClaims) hydrated += 1
+                for (let index = 0; index < domain.accounts.length; index += 1) {
+                  const account = domain.accounts[index]
+                  if (!account) continue
+                  const hadIdentity = Boolean(buildIdentityKey(account))
+                  hydrateAccountIdentityFromAccessClaims(account)
+                  const hasIdentityAfterClaims = Boolean(buildIdentityKey(account))
+                  if (!hadIdentity && hasIdentityAfterClaims) hydrated += 1
 
-                if (account.enabled === false || !account.refresh) {
-                  continue
-                }
-                const now = Date.now()
-                if (typeof account.refreshLeaseUntil === "number" && account.refreshLeaseUntil > now) {
-                  continue
-                }
-                if (account.expires && account.expires > now) {
-                  delete account.refreshLeaseUntil
-                  continue
+                  if (account.enabled === false || !account.refresh) {
+                    continue
+                  }
+                  const now = Date.now()
+                  if (typeof account.refreshLeaseUntil === "number" && account.refreshLeaseUntil > now) {
+                    continue
+                  }
+                  if (account.expires && account.expires > now) {
+                    delete account.refreshLeaseUntil
+                    continue
+                  }
+                  const leaseUntil = now + AUTH_MENU_REFRESH_LEASE_MS
+                  account.refreshLeaseUntil = leaseUntil
+                  refreshClaims.push({
+                    mode,
+                    accountIndex: index,
+                    identityKey: account.identityKey,
+                    refreshToken: account.refresh,
+                    leaseUntil
+                  })
                 }
-                const leaseUntil = now + AUTH_MENU_REFRESH_LEASE_MS
-                account.refreshLeaseUntil = leaseUntil
-                refreshClaims.push({
-                  mode,
-                  accountIndex: index,
-                  identityKey: account.identityKey,
-                  refreshToken: account.refresh,
-                  leaseUntil
-                })
               }
-            }
-            return authFile
-          })
+              return authFile
+            },
+            { audit: { actor: "auth-menu", reason: "refresh_lease" } }
+          )
 
           for (const claim of refreshClaims) {
             try {
               const tokens = await refreshAccessToken(claim.refreshToken)
-              await saveAuthStorage(undefined, (authFile) => {
-                const domain = getOpenAIOAuthDomain(authFile, claim.mode)
-                if (!domain) return authFile
-                const account = domain.accounts[claim.accountIndex]
-                if (!account) return authFile
-                if (
-                  account.refreshLeaseUntil !== claim.leaseUntil ||
-                  account.refresh !== claim.refreshToken ||
-                  (claim.identityKey && account.identityKey !== claim.identityKey)
-                ) {
-                  return authFile
-                }
+              await saveAuthStorage(
+                undefined,
+                (authFile) => {
+                  const domain = getOpenAIOAuthDomain(authFile, claim.mode)
+                  if (!domain) return authFile
+                  const account = domain.accounts[claim.accountIndex]
+                  if (!account) return authFile
+                  if (
+                    account.refreshLeaseUntil !== claim.leaseUntil ||
+                    account.refresh !== claim.refreshToken ||
+                    (claim.identityKey && account.identityKey !== claim.identityKey)
+                  ) {
+                    return authFile
+                  }
 
-                const now = Date.now()
-                if (
-                  account.enabled === false ||
-                  typeof account.refreshLeaseUntil !== "number" ||
-                  account.refreshLeaseUntil !== claim.leaseUntil ||
-                  account.refreshLeaseUntil <= now
-                ) {
+                  const now = Date.now()
+                  if (
+                    account.enabled === false ||
+                    typeof account.refreshLeaseUntil !== "number" ||
+                    account.refreshLeaseUntil !== claim.leaseUntil ||
+                    account.refreshLeaseUntil <= now
+                  ) {
+                    delete account.refreshLeaseUntil
+                    return authFile
+                  }
+
+                  const hadIdentity = Boolean(buildIdentityKey(account))
+                  const claims = parseJwtClaims(tokens.id_token ?? tokens.access_token)
+                  account.refresh = tokens.refresh_token
+                  account.access = tokens.access_token
+                  account.expires = now + (tokens.expires_in ?? 3600) * 1000
+                  account.accountId = extractAccountId(tokens) || account.accountId
+                  account.email = extractEmailFromClaims(claims) || account.email
+                  account.plan = extractPlanFromClaims(claims) || account.plan
+                  account.lastUsed = now
+                  hydrateAccountIdentityFromAccessClaims(account)
+                  if (!hadIdentity && buildIdentityKey(account)) hydrated += 1
+                  refreshed += 1
                   delete account.refreshLeaseUntil
+                  delete account.cooldownUntil
                   return authFile
-                }
-
-                const hadIdentity = Boolean(buildIdentityKey(account))
-                const claims = parseJwtClaims(tokens.id_token ?? tokens.access_token)
-                account.refresh = tokens.refresh_token
-                account.access = tokens.access_token
-                account.expires = now + (tokens.expires_in ?? 3600) * 1000
-                account.accountId = extractAccountId(tokens) || account.accountId
-                account.email = extractEmailFromClaims(claims) || account.email
-                account.plan = extractPlanFromClaims(claims) || account.plan
-                account.lastUsed = now
-                hydrateAccountIdentityFromAccessClaims(account)
-                if (!hadIdentity && buildIdentityKey(account)) hydrated += 1
-                refreshed += 1
-                delete account.refreshLeaseUntil
-                delete account.cooldownUntil
-                return authFile
-              })
+                },
+                { audit: { actor: "auth-menu", reason: "refresh_succeeded" } }
+              )
             } catch (error) {
-              await saveAuthStorage(undefined, (authFile) => {
-                const domain = getOpenAIOAuthDomain(authFile, claim.mode)
-                if (!domain) return authFile
-                const account = domain.accounts[claim.accountIndex]
-                if (!account) return authFile
-                if (
-                  account.refreshLeaseUntil !== claim.leaseUntil ||
-                  account.refresh !== claim.refreshToken ||
-                  (claim.identityKey && account.identityKey !== claim.identityKey)
-                ) {
-                  return authFile
-                }
-                if (account.refreshLeaseUntil === claim.leaseUntil) {
-                  delete account.refreshLeaseUntil
-                  if (account.enabled !== false) {
-                    account.cooldownUntil = Date.now() + AUTH_MENU_REFRESH_LEASE_MS
+              await saveAuthStorage(
+                undefined,
+                (authFile) => {
+                  const domain = getOpenAIOAuthDomain(authFile, claim.mode)
+                  if (!domain) return authFile
+                  const account = domain.accounts[claim.accountIndex]
+                  if (!account) return authFile
+                  if (
+                    account.refreshLeaseUntil !== claim.leaseUntil ||
+                    account.refresh !== claim.refreshToken ||
+                    (claim.identityKey && account.identityKey !== claim.identityKey)
+                  ) {
+                    return authFile
                   }
-                }
-                return authFile
-              })
+                  if (account.refreshLeaseUntil === claim.leaseUntil) {
+                    delete account.refreshLeaseUntil
+                    if (account.enabled !== false) {
+                      account.cooldownUntil = Date.now() + AUTH_MENU_REFRESH_LEASE_MS
+                    }
+                  }
+                  return authFile
+                },
+                { audit: { actor: "auth-menu", reason: "refresh_failed" } }
+              )
               if (error instanceof Error) {
                 // best effort per-account hydration
               }
@@ -185,16 +207,70 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
               `${refreshed > 0 ? `, refreshed ${refreshed} token(s)` : ""}.\n\n`
           )
         },
+        onCodexCliImport: async () => {
+          try {
+            const imported = await importCodexCliAuth({ mode: input.authMode, actor: "auth-menu" })
+            const label = `${imported.email ?? "account"}${imported.plan ? ` (${imported.plan})` : ""}`
+            process.stdout.write(`\n${imported.added ? "Imported" : "Updated"} ${label} from the Codex CLI login.\n\n`)
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            process.stdout.write(`\nCodex CLI import failed: ${message}\n\n`)
+          }
+        },
+        onCodexCliExport: async (account) => {
+          const authFile = await loadAuthStorage()
+          const preferred = [
+            input.authMode,
+            ...((account.authTypes ?? []).filter((mode) => mode !== input.authMode) as OpenAIAuthMode[])
+          ]
+          let record: AccountRecord | undefined
+          for (const mode of preferred) {
+            const domain = getOpenAIOAuthDomain(authFile, mode)
+            if (!domain) continue
+            const idx = findDomainAccountIndex(domain, account, mode)
+            record = idx >= 0 ? domain.accounts[idx] : undefined
+            if (record) break
+          }
+          if (!record) {
+            process.stdout.write("\nAccount not found; nothing was exported.\n\n")
+            return
+          }
+          try {
+            const exported = await exportCodexCliAuth(record)
+            process.stdout.write(`\nExported ${account.email ?? "account"} to ${exported.targetPath}.\n\n`)
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            process.stdout.write(`\nCodex CLI export failed: ${message}\n\n`)
+          }
+        },
+        onRestoreBackup: async (backup) => {
+          try {
+            const restored = await restoreAuthStorageBackup(undefined, backup.path, {
+              audit: { actor: "auth-menu", reason: "backup_restore" }
+            })
+            const undo = restored.previousBackup
+              ? ` The previous accounts were backed up to ${restored.previousBackup}.`
+              : ""
+            process.stdout.write(`\nRestored accounts from ${backup.path}.${undo}\n\n`)
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            process.stdout.write(`\nRestore failed: ${message}\n\n`)
+          }
+        },
         onDeleteAll: async (scope) => {
-          await saveAuthStorage(undefined, (authFile) => {
-            const targets = scope === "both" ? (["native", "codex"] as const) : ([scope] as const)
-            for (const targetMode of targets) {
-              const domain = ensureOpenAIOAuthDomain(authFile, targetMode)
-              domain.accounts = []
-              domain.activeIdentityKey = undefined
-            }
-            return authFile
-          })
+          await saveAuthStorage(
+            undefined,
+            (authFile) => {
+              const targets = scope === "both" ? (["native", "codex"] as const) : ([scope] as const)
+              for (const targetMode of targets) {
+                const domain = ensureOpenAIOAuthDomain(authFile, targetMode)
+                domain.accounts = []
+                domain.activeIdentityKey = undefined
+              }
+              return authFile
+            },
+            { audit: { actor: "auth-menu", reason: "user_action" } }
+          )
           const deletedLabel =
             scope === "both"
               ? "Deleted all OpenAI accounts."
@@ -202,23 +278,49 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
           process.stdout.write(`\n${deletedLabel}\n\n`)
         },
         onToggleAccount: async (account) => {
-          await saveAuthStorage(undefined, (authFile) => {
-            const authTypes: OpenAIAuthMode[] =
-              account.authTypes && account.authTypes.length > 0 ? [...account.authTypes] : ["native"]
-            for (const mode of authTypes) {
-              const domain = getOpenAIOAuthDomain(authFile, mode)
-              if (!domain) continue
-              const idx = findDomainAccountIndex(domain, account, mode)
-              if (idx < 0) continue
-              const target = domain.accounts[idx]
-              if (!target) continue
-              target.enabled = target.enabled === false
-              reconcileActiveIdentityKey(domain)
-            }
-            return authFile
-          })
+          await saveAuthStorage(
+            undefined,
+            (authFile) => {
+              const authTypes: OpenAIAuthMode[] =
+                account.authTypes && account.authTypes.length > 0 ? [...account.authTypes] : ["native"]
+              for (const mode of authTypes) {
+                const domain = getOpenAIOAuthDomain(authFile, mode)
+                if (!domain) continue
+                const idx = findDomainAccountIndex(domain, account, mode)
+                if (idx < 0) continue
+                const target = domain.accounts[idx]
+                if (!target) continue
+                target.enabled = target.enabled === false
+                reconcileActiveIdentityKey(domain)
+              }
+              return authFile
+            },
+            { audit: { actor: "auth-menu", reason: "user_action" } }
+          )
           process.stdout.write("\nAccount status updated.\n\n")
         },
+        onLabelAccount: async (account, update) => {
+          const identityKey = account.identityKey
+          if (!identityKey) {
+            process.stdout.write("\nAccount has no identity yet; sign in again before labelling it.\n\n")
+            return
+          }
+          try {
+            await saveAuthStorage(
+              undefined,
+              (authFile) => {
+                const openai = requireOpenAIMultiOauthAuth(authFile)
+                authFile.openai = labelAccountByIndex(openai, resolveAccountSelector(openai, identityKey), update)
+                return authFile
+              },
+              { audit: { actor: "auth-menu", reason: "user_action" } }
+            )
+            process.stdout.write("\nAccount label updated.\n\n")
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            process.stdout.write(`\nLabel update failed: ${message}\n\n`)
+          }
+        },
         onRefreshAccount: async (account) => {
           let refreshed = false
           const preferred = [
@@ -236,85 +338,97 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
                 }
               | undefined
 
-            await saveAuthStorage(undefined, (authFile) => {
-              const domain = getOpenAIOAuthDomain(authFile, mode)
-              if (!domain) return authFile
-              const idx = findDomainAccountIndex(domain, account, mode)
-              if (idx < 0) return authFile
-              const target = domain.accounts[idx]
-              if (!target || target.enabled === false || !target.refresh || !target.identityKey) return authFile
+            await saveAuthStorage(
+              undefined,
+              (authFile) => {
+                const domain = getOpenAIOAuthDomain(authFile, mode)
+                if (!domain) return authFile
+                const idx = findDomainAccountIndex(domain, account, mode)
+                if (idx < 0) return authFile
+                const target = domain.accounts[idx]
+                if (!target || target.enabled === false || !target.refresh || !target.identityKey) return authFile
 
-              const now = Date.now()
-              if (typeof target.refreshLeaseUntil === "number" && target.refreshLeaseUntil > now) return authFile
+                const now = Date.now()
+                if (typeof target.refreshLeaseUntil === "number" && target.refreshLeaseUntil > now) return authFile
 
-              const leaseUntil = now + AUTH_MENU_REFRESH_LEASE_MS
-              target.refreshLeaseUntil = leaseUntil
-              claim = {
-                mode,
-                identityKey: target.identityKey,
-                refreshToken: target.refresh,
-                leaseUntil
-              }
-              return authFile
-            })
+                const leaseUntil = now + AUTH_MENU_REFRESH_LEASE_MS
+                target.refreshLeaseUntil = leaseUntil
+                claim = {
+                  mode,
+                  identityKey: target.identityKey,
+                  refreshToken: target.refresh,
+                  leaseUntil
+                }
+                return authFile
+              },
+              { audit: { actor: "auth-menu", reason: "refresh_lease" } }
+            )
 
             if (!claim) continue
             const claimed = claim
 
             try {
               const tokens = await refreshAccessToken(claimed.refreshToken)
-              await saveAuthStorage(undefined, (authFile) => {
-                const domain = getOpenAIOAuthDomain(authFile, claimed.mode)
-                if (!domain) return authFile
-                const target = domain.accounts.find((entry) => entry.identityKey === claimed.identityKey)
-                if (!target) return authFile
+              await saveAuthStorage(
+                undefined,
+                (authFile) => {
+                  const domain = getOpenAIOAuthDomain(authFile, claimed.mode)
+                  if (!domain) return authFile
+                  const target = domain.accounts.find((entry) => entry.identityKey === claimed.identityKey)
+                  if (!target) return authFile
 
-                const now = Date.now()
-                if (
-                  target.enabled === false ||
-                  typeof target.refreshLeaseUntil !== "number" ||
-                  target.refreshLeaseUntil !== claimed.leaseUntil ||
-                  target.refreshLeaseUntil <= now ||
-                  target.refresh !== claimed.refreshToken
-                ) {
-                  if (target.refreshLeaseUntil === claimed.leaseUntil) {
-                    delete target.refreshLeaseUntil
+                  const now = Date.now()
+                  if (
+                    target.enabled === false ||
+                    typeof target.refreshLeaseUntil !== "number" ||
+                    target.refreshLeaseUntil !== claimed.leaseUntil ||
+                    target.refreshLeaseUntil <= now ||
+                    target.refresh !== claimed.refreshToken
+                  ) {
+                    if (target.refreshLeaseUntil === claimed.leaseUntil) {
+                      delete target.refreshLeaseUntil
+                    }
+                    return authFile
                   }
-                  return authFile
-                }
 
-                const claims = parseJwtClaims(tokens.id_token ?? tokens.access_token)
-                target.refresh = tokens.refresh_token
-                target.access = tokens.access_token
-                target.expires = now + (tokens.expires_in ?? 3600) * 1000
-                target.accountId = extractAccountId(tokens) || target.accountId
-                target.email = extractEmailFromClaims(claims) || target.email
-                target.plan = extractPlanFromClaims(claims) || target.plan
-                target.lastUsed = now
-                ensureAccountAuthTypes(target)
-                ensureIdentityKey(target)
-                if (target.identityKey) domain.activeIdentityKey = target.identityKey
-                delete target.refreshLeaseUntil
-                delete target.cooldownUntil
-                refreshed = true
-                return authFile
-              })
-            } catch (error) {
-              await saveAuthStorage(undefined, (authFile) => {
-                const domain = getOpenAIOAuthDomain(authFile, claimed.mode)
-                if (!domain) return authFile
-                const target = domain.accounts.find((entry) => entry.identityKey === claimed.identityKey)
-                if (!target) return authFile
-                if (target.refreshLeaseUntil === claimed.leaseUntil && target.refresh === claimed.refreshToken) {
+                  const claims = parseJwtClaims(tokens.id_token ?? tokens.access_token)
+                  target.refresh = tokens.refresh_token
+                  target.access = tokens.access_token
+                  target.expires = now + (tokens.expires_in ?? 3600) * 1000
+                  target.accountId = extractAccountId(tokens) || target.accountId
+                  target.email = extractEmailFromClaims(claims) || target.email
+                  target.plan = extractPlanFromClaims(claims) || target.plan
+                  target.lastUsed = now
+                  ensureAccountAuthTypes(target)
+                  ensureIdentityKey(target)
+                  if (target.identityKey) domain.activeIdentityKey = target.identityKey
                   delete target.refreshLeaseUntil
-                  if (target.enabled !== false) {
-                    target.cooldownUntil = Date.now() + AUTH_MENU_REFRESH_LEASE_MS
+                  delete target.cooldownUntil
+                  refreshed = true
+                  return authFile
+                },
+                { audit: { actor: "auth-menu", reason: "refresh_succeeded" } }
+              )
+            } catch (error) {
+              await saveAuthStorage(
+                undefined,
+                (authFile) => {
+                  const domain = getOpenAIOAuthDomain(authFile, claimed.mode)
+                  if (!domain) return authFile
+                  const target = domain.accounts.find((entry) => entry.identityKey === claimed.identityKey)
+                  if (!target) return authFile
+                  if (target.refreshLeaseUntil === claimed.leaseUntil && target.refresh === claimed.refreshToken) {
+                    delete target.refreshLeaseUntil
+                    if (target.enabled !== false) {
+                      target.cooldownUntil = Date.now() + AUTH_MENU_REFRESH_LEASE_MS
+                    }
+                  } else if (target.refreshLeaseUntil === claimed.leaseUntil) {
+                    delete target.refreshLeaseUntil
                   }
-                } else if (target.refreshLeaseUntil === claimed.leaseUntil) {
-                  delete target.refreshLeaseUntil
-                }
-                return authFile
-              })
+                  return authFile
+                },
+                { audit: { actor: "auth-menu", reason: "refresh_failed" } }
+              )
               if (error instanceof Error) {
                 // keep UI response simple; surface generic failure text below
               }
@@ -329,18 +443,22 @@ export async function runInteractiveAuthMenu(input: RunInteractiveAuthMenuInput)
           )
         },
         onDeleteAccount: async (account, scope) => {
-          await saveAuthStorage(undefined, (authFile) => {
-            const targets = scope === "both" ? (["native", "codex"] as const) : ([scope] as const)
-            for (const mode of targets) {
-              const domain = getOpenAIOAuthDomain(authFile, mode)
-              if (!domain) continue
-              const idx = findDomainAccountIndex(domain, account, mode)
-              if (idx < 0) continue
-              domain.accounts.splice(idx, 1)
-              reconcileActiveIdentityKey(domain)
-            }
-            return authFile
-          })
+          await saveAuthStorage(
+            undefined,
+            (authFile) => {
+              const targets = scope === "both" ? (["native", "codex"] as const) : ([scope] as const)
+              for (const mode of targets) {
+                const domain = getOpenAIOAuthDomain(authFile, mode)
+                if (!domain) continue
+                const idx = findDomainAccountIndex(domain, account, mode)
+                if (idx < 0) continue
+                domain.accounts.splice(idx, 1)
+                reconcileActiveIdentityKey(domain)
+              }
+              return authFile
+            },
+            { audit: { actor: "auth-menu", reason: "user_action" } }
+          )
           const deletedLabel =
             scope === "both"
               ? "Deleted account."
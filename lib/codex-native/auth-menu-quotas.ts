@@ -1,3 +1,4 @@
+import { isAccountUsableWithBackend } from "../backend-endpoints.js"
 import { extractEmailFromClaims, extractPlanFromClaims, parseJwtClaims } from "../claims.js"
 import { loadSnapshots, saveSnapshots } from "../codex-status-storage.js"
 import { fetchQuotaSnapshotFromBackend } from "../codex-quota-fetch.js"
@@ -30,22 +31,26 @@ async function claimRefreshForQuotaSnapshot(input: {
   identityKey: string
 }): Promise<RefreshClaim | undefined> {
   let claim: RefreshClaim | undefined
-  await saveAuthStorage(undefined, (authFile) => {
-    const domain = ensureOpenAIOAuthDomain(authFile, input.mode)
-    const target = domain.accounts.find((account) => account.identityKey === input.identityKey)
-    if (!target || target.enabled === false || !target.refresh || !target.identityKey) return authFile
-    const now = Date.now()
-    if (typeof target.refreshLeaseUntil === "number" && target.refreshLeaseUntil > now) return authFile
-    const leaseUntil = now + AUTH_MENU_QUOTA_REFRESH_LEASE_MS
-    target.refreshLeaseUntil = leaseUntil
-    claim = {
-      mode: input.mode,
-      identityKey: target.identityKey,
-      refreshToken: target.refresh,
-      leaseUntil
-    }
-    return authFile
-  })
+  await saveAuthStorage(
+    undefined,
+    (authFile) => {
+      const domain = ensureOpenAIOAuthDomain(authFile, input.mode)
+      const target = domain.accounts.find((account) => account.identityKey === input.identityKey)
+      if (!target || target.enabled === false || !target.refresh || !target.identityKey) return authFile
+      const now = Date.now()
+      if (typeof target.refreshLeaseUntil === "number" && target.refreshLeaseUntil > now) return authFile
+      const leaseUntil = now + AUTH_MENU_QUOTA_REFRESH_LEASE_MS
+      target.refreshLeaseUntil = leaseUntil
+      claim = {
+        mode: input.mode,
+        identityKey: target.identityKey,
+        refreshToken: target.refresh,
+        leaseUntil
+      }
+      return authFile
+    },
+    { audit: { actor: "auth-menu", reason: "refresh_lease" } }
+  )
   return claim
 }
 
@@ -63,66 +68,74 @@ async function persistRefreshedTokensForQuotaSnapshot(input: {
   }
 }): Promise<string | undefined> {
   let nextAccessToken: string | undefined
-  await saveAuthStorage(undefined, (authFile) => {
-    const domain = ensureOpenAIOAuthDomain(authFile, input.claim.mode)
-    const target = domain.accounts.find((account) => account.identityKey === input.claim.identityKey)
-    if (!target || target.enabled === false) return authFile
+  await saveAuthStorage(
+    undefined,
+    (authFile) => {
+      const domain = ensureOpenAIOAuthDomain(authFile, input.claim.mode)
+      const target = domain.accounts.find((account) => account.identityKey === input.claim.identityKey)
+      if (!target || target.enabled === false) return authFile
 
-    const now = Date.now()
-    if (
-      typeof target.refreshLeaseUntil !== "number" ||
-      target.refreshLeaseUntil <= now ||
-      target.refreshLeaseUntil !== input.claim.leaseUntil ||
-      target.refresh !== input.claim.refreshToken
-    ) {
-      if (target.refreshLeaseUntil === input.claim.leaseUntil) {
-        delete target.refreshLeaseUntil
+      const now = Date.now()
+      if (
+        typeof target.refreshLeaseUntil !== "number" ||
+        target.refreshLeaseUntil <= now ||
+        target.refreshLeaseUntil !== input.claim.leaseUntil ||
+        target.refresh !== input.claim.refreshToken
+      ) {
+        if (target.refreshLeaseUntil === input.claim.leaseUntil) {
+          delete target.refreshLeaseUntil
+        }
+        return authFile
       }
-      return authFile
-    }
 
-    const claims = parseJwtClaims(input.tokens.id_token ?? input.tokens.access_token)
-    target.refresh = input.tokens.refresh_token
-    target.access = input.tokens.access_token
-    target.expires = now + (input.tokens.expires_in ?? 3600) * 1000
-    target.accountId = extractAccountId(input.tokens) || target.accountId
-    target.email = extractEmailFromClaims(claims) || target.email
-    target.plan = extractPlanFromClaims(claims) || target.plan
-    target.lastUsed = now
-    hydrateAccountIdentityFromAccessClaims(target)
-    delete target.refreshLeaseUntil
-    delete target.cooldownUntil
+      const claims = parseJwtClaims(input.tokens.id_token ?? input.tokens.access_token)
+      target.refresh = input.tokens.refresh_token
+      target.access = input.tokens.access_token
+      target.expires = now + (input.tokens.expires_in ?? 3600) * 1000
+      target.accountId = extractAccountId(input.tokens) || target.accountId
+      target.email = extractEmailFromClaims(claims) || target.email
+      target.plan = extractPlanFromClaims(claims) || target.plan
+      target.lastUsed = now
+      hydrateAccountIdentityFromAccessClaims(target)
+      delete target.refreshLeaseUntil
+      delete target.cooldownUntil
 
-    input.mirror.refresh = target.refresh
-    input.mirror.access = target.access
-    input.mirror.expires = target.expires
-    input.mirror.accountId = target.accountId
-    input.mirror.email = target.email
-    input.mirror.plan = target.plan
-    input.mirror.identityKey = target.identityKey
-    nextAccessToken = target.access
-    return authFile
-  })
+      input.mirror.refresh = target.refresh
+      input.mirror.access = target.access
+      input.mirror.expires = target.expires
+      input.mirror.accountId = target.accountId
+      input.mirror.email = target.email
+      input.mirror.plan = target.plan
+      input.mirror.identityKey = target.identityKey
+      nextAccessToken = target.access
+      return authFile
+    },
+    { audit: { actor: "auth-menu", reason: "refresh_succeeded" } }
+  )
   return nextAccessToken
 }
 
 async function releaseFailedRefreshClaimForQuotaSnapshot(input: { claim: RefreshClaim; now: number }): Promise<void> {
-  await saveAuthStorage(undefined, (authFile) => {
-    const domain = ensureOpenAIOAuthDomain(authFile, input.claim.mode)
-    const target = domain.accounts.find((account) => account.identityKey === input.claim.identityKey)
-    if (!target) return authFile
-    if (target.refreshLeaseUntil !== input.claim.leaseUntil || target.refresh !== input.claim.refreshToken) {
-      if (target.refreshLeaseUntil === input.claim.leaseUntil) {
-        delete target.refreshLeaseUntil
+  await saveAuthStorage(
+    undefined,
+    (authFile) => {
+      const domain = ensureOpenAIOAuthDomain(authFile, input.claim.mode)
+      const target = domain.accounts.find((account) => account.identityKey === input.claim.identityKey)
+      if (!target) return authFile
+      if (target.refreshLeaseUntil !== input.claim.leaseUntil || target.refresh !== input.claim.refreshToken) {
+        if (target.refreshLeaseUntil === input.claim.leaseUntil) {
+          delete target.refreshLeaseUntil
+        }
+        return authFile
+      }
+      delete target.refreshLeaseUntil
+      if (target.enabled !== false) {
+        target.cooldownUntil = input.now + AUTH_MENU_QUOTA_FAILURE_COOLDOWN_MS
       }
       return authFile
-    }
-    delete target.refreshLeaseUntil
-    if (target.enabled !== false) {
-      target.cooldownUntil = input.now + AUTH_MENU_QUOTA_FAILURE_COOLDOWN_MS
-    }
-    return authFile
-  })
+    },
+    { audit: { actor: "auth-menu", reason: "refresh_failed" } }
+  )
 }
 
 async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
@@ -177,7 +190,7 @@ export async function refreshQuotaSnapshotsForAuthMenu(input: RefreshQuotaSnapsh
   for (const { mode, domain } of listOpenAIOAuthDomains(auth)) {
     for (let index = 0; index < domain.accounts.length; index += 1) {
       const account = domain.accounts[index]
-      if (!account || account.enabled === false) continue
+      if (!account || account.enabled === false || !isAccountUsableWithBackend(account)) continue
 
       hydrateAccountIdentityFromAccessClaims(account)
       const identityKey = account.identityKey
@@ -272,8 +285,15 @@ export async function refreshQuotaSnapshotsForAuthMenu(input: RefreshQuotaSnapsh
 
   if (Object.keys(snapshotUpdates).length === 0) return
 
-  await saveSnapshots(snapshotPath, (current) => ({
-    ...current,
-    ...snapshotUpdates
-  }))
+  const accountIdentityKeys = listOpenAIOAuthDomains(auth).flatMap(({ domain }) =>
+    domain.accounts.flatMap((account) => (account.identityKey ? [account.identityKey] : []))
+  )
+  await saveSnapshots(
+    snapshotPath,
+    (current) => ({
+      ...current,
+      ...snapshotUpdates
+    }),
+    { accountIdentityKeys }
+  )
 }
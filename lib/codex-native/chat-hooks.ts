@@ -22,6 +22,7 @@ import {
   getSelectedModelLookupCandidates,
   getModelTextVerbosityOverride,
   getVariantLookupCandidates,
+  resolveAgentBehaviorOverride,
   resolvePersonalityForModel,
   supportsReasoningMode
 } from "./request-transform-model.js"
@@ -125,11 +126,14 @@ export async function handleChatParamsHook(input: {
     modelCandidates
   })
   const catalogModelFallback = findCatalogModelForCandidates(input.lastCatalogModels, modelCandidates)
+  const agentName = resolveHookAgentName(input.hookInput.agent) ?? input.agentExecution?.agentName
+  const agentBehavior = resolveAgentBehaviorOverride(input.behaviorSettings, agentName)
   const effectivePersonality = resolvePersonalityForModel({
     behaviorSettings: input.behaviorSettings,
     modelOptions,
     modelCandidates: selectedModelCandidates,
     variantCandidates,
+    agentName,
     fallback: input.fallbackPersonality
   })
   const customModelReasoningEffortOverride = getCustomModelReasoningEffortOverride(modelOptions, variantCandidates)
@@ -224,7 +228,8 @@ export async function handleChatParamsHook(input: {
       behaviorSettings: input.behaviorSettings,
       modelOptions,
       modelCandidates: selectedModelCandidates,
-      variantCandidates
+      variantCandidates,
+      agentName
     })
     if (resolvedServiceTier && resolvedServiceTier !== "auto") {
       input.output.options.serviceTier = resolvedServiceTier
@@ -235,15 +240,32 @@ export async function handleChatParamsHook(input: {
     modelToolCallCapable: input.hookInput.model.capabilities?.toolcall,
     resolvedBehavior: {
       reasoningEffort:
-        modelReasoningEffortOverride ?? customModelReasoningEffortOverride ?? globalBehavior?.reasoningEffort,
+        agentBehavior.reasoningEffort ??
+        modelReasoningEffortOverride ??
+        customModelReasoningEffortOverride ??
+        globalBehavior?.reasoningEffort,
       reasoningMode: supportsReasoningMode(modelCandidates)
-        ? (modelReasoningModeOverride ?? customModelReasoningModeOverride ?? globalBehavior?.reasoningMode)
+        ? (agentBehavior.reasoningMode ??
+          modelReasoningModeOverride ??
+          customModelReasoningModeOverride ??
+          globalBehavior?.reasoningMode)
         : undefined,
-      reasoningSummary: modelReasoningSummaryOverride ?? customModelReasoningSummaryOverride ?? globalReasoningSummary,
-      textVerbosity: modelTextVerbosityOverride ?? customModelTextVerbosityOverride ?? globalTextVerbosity,
-      include: modelIncludeOverride ?? customModelIncludeOverride ?? globalBehavior?.include,
+      reasoningSummary:
+        agentBehavior.reasoningSummary ??
+        modelReasoningSummaryOverride ??
+        customModelReasoningSummaryOverride ??
+        globalReasoningSummary,
+      textVerbosity:
+        agentBehavior.textVerbosity ??
+        modelTextVerbosityOverride ??
+        customModelTextVerbosityOverride ??
+        globalTextVerbosity,
+      include: agentBehavior.include ?? modelIncludeOverride ?? customModelIncludeOverride ?? globalBehavior?.include,
       parallelToolCalls:
-        modelParallelToolCallsOverride ?? customModelParallelToolCallsOverride ?? globalBehavior?.parallelToolCalls
+        agentBehavior.parallelToolCalls ??
+        modelParallelToolCallsOverride ??
+        customModelParallelToolCallsOverride ??
+        globalBehavior?.parallelToolCalls
     },
     preferCodexInstructions: input.spoofMode === "codex",
     modelId: input.hookInput.model.id,
@@ -0,0 +1,108 @@
+import type { CustomModelConfig } from "../config.js"
+import type { CodexModelInfo } from "../model-catalog.js"
+import { isRecord } from "../util.js"
+import { findCatalogModelForCandidates, getModelLookupCandidates } from "./request-transform-model.js"
+
+// Efforts the plugin rewrites itself (ultra, max) are left to the payload transform.
+const CATALOG_REASONING_EFFORTS = new Set(["none", "minimal", "low", "medium", "high", "xhigh"])
+
+/** What a request needs from an account's model catalog. */
+export type ModelRequirement = {
+  model: string
+  modelCandidates: string[]
+  reasoningEffort?: string
+  serviceTier?: string
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+  const trimmed = value.trim()
+  return trimmed ? trimmed : undefined
+}
+
+export function readModelRequirement(input: {
+  payload: unknown
+  customModels?: Record<string, CustomModelConfig>
+}): ModelRequirement | undefined {
+  if (!isRecord(input.payload)) return undefined
+  const model = asString(input.payload.model)
+  if (!model) return undefined
+
+  const modelCandidates = getModelLookupCandidates({ id: model })
+  const customModel = Object.entries(input.customModels ?? {}).find(([slug]) =>
+    modelCandidates.some((candidate) => candidate.toLowerCase() === slug.trim().toLowerCase())
+  )?.[1]
+  if (customModel) {
+    modelCandidates.push(...getModelLookupCandidates({ id: customModel.targetModel }))
+  }
+
+  const reasoning = isRecord(input.payload.reasoning) ? input.payload.reasoning : undefined
+  const reasoningEffort = asString(reasoning?.effort)?.toLowerCase()
+  const serviceTier = asString(input.payload.service_tier)?.toLowerCase()
+  return {
+    model,
+    modelCandidates,
+    ...(reasoningEffort && CATALOG_REASONING_EFFORTS.has(reasoningEffort) ? { reasoningEffort } : {}),
+    ...(serviceTier && serviceTier !== "auto" && serviceTier !== "default" ? { serviceTier } : {})
+  }
+}
+
+/** Reads the requirement from a JSON request body; `undefined` when there is no model to route on. */
+export async function readModelRequirementFromRequest(
+  request: Request,
+  customModels?: Record<string, CustomModelConfig>
+): Promise<ModelRequirement | undefined> {
+  if (request.method !== "POST" || !request.body) return undefined
+  try {
+    return readModelRequirement({ payload: JSON.parse(await request.clone().text()), customModels })
+  } catch (error) {
+    if (error instanceof Error) {
+      // non-JSON bodies are not routed
+    }
+    return undefined
+  }
+}
+
+/**
+ * Whether a cached catalog advertises the requirement. `undefined` means the catalog holds no
+ * account-specific models (never fetched, or only the shared GitHub fallback), so it cannot tell.
+ * `priority` must be listed in `service_tiers`; other tiers are checked only for models that list tiers.
+ */
+export function catalogSupportsModel(
+  models: CodexModelInfo[] | undefined,
+  requirement: ModelRequirement
+): boolean | undefined {
+  const accountModels = models?.filter((model) => model.catalog_source !== "github_fallback")
+  if (!accountModels || accountModels.length === 0) return undefined
+
+  const entry = findCatalogModelForCandidates(accountModels, requirement.modelCandidates)
+  if (!entry) return false
+
+  if (requirement.reasoningEffort) {
+    const levels = (entry.supported_reasoning_levels ?? []).flatMap((level) => {
+      const effort = asString(level.effort)?.toLowerCase()
+      return effort ? [effort] : []
+    })
+    if (levels.length > 0 && !levels.includes(requirement.reasoningEffort)) return false
+  }
+
+  if (requirement.serviceTier) {
+    const tiers = (entry.service_tiers ?? []).flatMap((tier) => {
+      const id = asString(tier.id)?.toLowerCase()
+      return id ? [id] : []
+    })
+    if ((requirement.serviceTier === "priority" || tiers.length > 0) && !tiers.includes(requirement.serviceTier)) {
+      return false
+    }
+  }
+
+  return true
+}
+
+export function describeModelRequirement(requirement: ModelRequirement): string {
+  const details = [
+    requirement.reasoningEffort ? `reasoning effort ${requirement.reasoningEffort}` : undefined,
+    requirement.serviceTier ? `service tier ${requirement.serviceTier}` : undefined
+  ].filter(Boolean)
+  return details.length > 0 ? `${requirement.model} (${details.join(", ")})` : requirement.model
+}
@@ -8,11 +8,11 @@ import {
   fetchWithTimeout,
   generatePKCE,
   generateState,
-  ISSUER,
   OAUTH_DEVICE_AUTH_TIMEOUT_MS,
   OAUTH_HTTP_TIMEOUT_MS,
   OAUTH_POLLING_SAFETY_MARGIN_MS,
   type PkceCodes,
+  resolveOAuthIssuer,
   sleep,
   type TokenResponse
 } from "./oauth-utils.js"
@@ -238,7 +238,7 @@ export function createBrowserOAuthAuthorize(deps: BrowserAuthorizeDeps) {
 export function createHeadlessOAuthAuthorize(deps: HeadlessAuthorizeDeps) {
   return async (): Promise<OAuthAuthorizePayload> => {
     const deviceResponse = await fetchWithTimeout(
-      `${ISSUER}/api/accounts/deviceauth/usercode`,
+      `${resolveOAuthIssuer()}/api/accounts/deviceauth/usercode`,
       {
         method: "POST",
         headers: {
@@ -263,7 +263,7 @@ export function createHeadlessOAuthAuthorize(deps: HeadlessAuthorizeDeps) {
     const interval = Math.max(parseInt(deviceData.interval) || 5, 1) * 1000
 
     return {
-      url: `${ISSUER}/codex/device`,
+      url: `${resolveOAuthIssuer()}/codex/device`,
       instructions: `Enter code: ${deviceData.user_code}`,
       method: "auto",
       async callback() {
@@ -275,7 +275,7 @@ export function createHeadlessOAuthAuthorize(deps: HeadlessAuthorizeDeps) {
           }
 
           const response = await fetchWithTimeout(
-            `${ISSUER}/api/accounts/deviceauth/token`,
+            `${resolveOAuthIssuer()}/api/accounts/deviceauth/token`,
             {
               method: "POST",
               headers: {
@@ -297,14 +297,14 @@ export function createHeadlessOAuthAuthorize(deps: HeadlessAuthorizeDeps) {
             }
 
             const tokenResponse = await fetchWithTimeout(
-              `${ISSUER}/oauth/token`,
+              `${resolveOAuthIssuer()}/oauth/token`,
               {
                 method: "POST",
                 headers: { "Content-Type": "application/x-www-form-urlencoded" },
                 body: new URLSearchParams({
                   grant_type: "authorization_code",
                   code: data.authorization_code,
-                  redirect_uri: `${ISSUER}/deviceauth/callback`,
+                  redirect_uri: `${resolveOAuthIssuer()}/deviceauth/callback`,
                   client_id: CLIENT_ID,
                   code_verifier: data.code_verifier
                 }).toString()
@@ -20,20 +20,24 @@ export async function persistOAuthTokensForMode(tokens: TokenResponse, authMode:
     lastUsed: now
   }
 
-  await saveAuthStorage(undefined, async (authFile) => {
-    if (!authFile.openai || authFile.openai.type !== "oauth") {
-      authFile.openai = {
-        type: "oauth",
-        accounts: []
+  await saveAuthStorage(
+    undefined,
+    async (authFile) => {
+      if (!authFile.openai || authFile.openai.type !== "oauth") {
+        authFile.openai = {
+          type: "oauth",
+          accounts: []
+        }
       }
-    }
-    const domain = ensureOpenAIOAuthDomain(authFile, authMode)
-    const stored = upsertAccount(domain, { ...account, authTypes: [authMode] })
-    delete stored.refreshLeaseUntil
-    delete stored.cooldownUntil
-    if (stored.identityKey) {
-      domain.activeIdentityKey = stored.identityKey
-    }
-    return authFile
-  })
+      const domain = ensureOpenAIOAuthDomain(authFile, authMode)
+      const stored = upsertAccount(domain, { ...account, authTypes: [authMode] })
+      delete stored.refreshLeaseUntil
+      delete stored.cooldownUntil
+      if (stored.identityKey) {
+        domain.activeIdentityKey = stored.identityKey
+      }
+      return authFile
+    },
+    { audit: { actor: "login", reason: "login" } }
+  )
 }
@@ -3,6 +3,7 @@ import {
   parseJwtClaims,
   type IdTokenClaims
 } from "../claims.js"
+import { isTokenUsableWithBackend, routeToMockBackend } from "../backend-endpoints.js"
 import type { CodexSpoofMode } from "../config.js"
 import { CODEX_OAUTH_SUCCESS_HTML } from "../oauth-pages.js"
 
@@ -16,6 +17,11 @@ export const OAUTH_CALLBACK_URI = `${OAUTH_CALLBACK_ORIGIN}${OAUTH_CALLBACK_PATH
 export const OAUTH_DUMMY_KEY = "oauth_dummy_key"
 export const OAUTH_POLLING_SAFETY_MARGIN_MS = 3000
 
+/** Returns the OAuth issuer origin, honoring the loopback mock backend when one is configured. */
+export function resolveOAuthIssuer(): string {
+  return routeToMockBackend(ISSUER)
+}
+
 function resolveTimeoutSetting(raw: string | undefined, fallbackMs: number, minMs: number): number {
   if (!raw) return fallbackMs
   const parsed = Number(raw)
@@ -186,7 +192,7 @@ export function buildAuthorizeUrl(
     .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
     .join("&")
 
-  return `${ISSUER}/oauth/authorize?${query}`
+  return `${resolveOAuthIssuer()}/oauth/authorize?${query}`
 }
 
 export async function exchangeCodeForTokens(
@@ -195,7 +201,7 @@ export async function exchangeCodeForTokens(
   pkce: PkceCodes
 ): Promise<TokenResponse> {
   const response = await fetchWithTimeout(
-    `${ISSUER}/oauth/token`,
+    `${resolveOAuthIssuer()}/oauth/token`,
     {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -217,8 +223,12 @@ export async function exchangeCodeForTokens(
 }
 
 export async function refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
+  if (!isTokenUsableWithBackend(refreshToken)) {
+    // Not an OAuth rejection, so callers keep the account enabled.
+    throw new Error("Token refresh skipped: the mock backend did not issue this account's credentials")
+  }
   const response = await fetchWithTimeout(
-    `${ISSUER}/oauth/token`,
+    `${resolveOAuthIssuer()}/oauth/token`,
     {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -0,0 +1,121 @@
+import {
+  type AccountLease,
+  readAccountLeaseCounts,
+  releaseAccountLease,
+  releaseWhenBodySettles,
+  tryAcquireAccountLease
+} from "../account-leases.js"
+import type { AccountConcurrencyPolicy } from "../config.js"
+import { isPluginFatalError } from "../fatal-errors.js"
+import type { Logger } from "../logger.js"
+
+export const ACCOUNT_QUEUE_POLL_MS = 250
+
+/** Concurrency input handed to `acquireOpenAIAuth`. */
+export type AccountConcurrencyInput = {
+  maxRequestsPerAccount: number
+  inFlightCounts: Record<string, number>
+}
+
+/** Holds at most one account lease for a single outbound request across its retry attempts. */
+export type RequestAccountLease = {
+  /**
+   * Releases the previous attempt's lease, then runs `acquire` with current lease counts and leases
+   * the returned account. While every usable account is saturated, retries until the queue timeout.
+   */
+  acquire: <T extends { identityKey?: string }>(
+    acquire: (concurrency: AccountConcurrencyInput) => Promise<T>
+  ) => Promise<T>
+  /** Ties the held lease to `response`'s body, or releases it now when there is no body. */
+  bindToResponse: (response: Response) => Response
+  release: () => Promise<void>
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export function createRequestAccountLease(input: {
+  policy: AccountConcurrencyPolicy
+  filePath: string
+  log?: Logger
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+}): RequestAccountLease {
+  const now = input.now ?? Date.now
+  const sleep = input.sleep ?? defaultSleep
+  let held: AccountLease | undefined
+
+  const release = async (): Promise<void> => {
+    const lease = held
+    held = undefined
+    if (!lease) return
+    try {
+      await releaseAccountLease(input.filePath, lease.id, now())
+    } catch (error) {
+      // An unreleased lease expires on its own; never fail the request over it.
+      input.log?.debug("account lease release failed", {
+        identityKey: lease.identityKey,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  const acquireWithLease = async <T extends { identityKey?: string }>(
+    acquire: (concurrency: AccountConcurrencyInput) => Promise<T>
+  ): Promise<T> => {
+    await release()
+    const limit = input.policy.maxRequestsPerAccount
+    const deadline = now() + input.policy.queueTimeoutMs
+    let queued = false
+    while (true) {
+      const inFlightCounts = await readAccountLeaseCounts(input.filePath, now())
+      let auth: T
+      try {
+        auth = await acquire({ maxRequestsPerAccount: limit, inFlightCounts })
+      } catch (error) {
+        if (!isPluginFatalError(error) || error.type !== "account_concurrency_limit" || now() >= deadline) {
+          throw error
+        }
+        if (!queued) {
+          queued = true
+          input.log?.debug("waiting for an account below the concurrency limit", {
+            maxRequestsPerAccount: limit,
+            queueTimeoutMs: input.policy.queueTimeoutMs
+          })
+        }
+        await sleep(Math.min(ACCOUNT_QUEUE_POLL_MS, Math.max(0, deadline - now())))
+        continue
+      }
+
+      if (!auth.identityKey) return auth
+      try {
+        held = await tryAcquireAccountLease({
+          filePath: input.filePath,
+          identityKey: auth.identityKey,
+          limit,
+          now: now()
+        })
+      } catch (error) {
+        input.log?.debug("account lease write failed; continuing without a lease", {
+          identityKey: auth.identityKey,
+          error: error instanceof Error ? error.message : String(error)
+        })
+        return auth
+      }
+      if (held) return auth
+      // Another process took the last slot after the counts were read; select again.
+    }
+  }
+
+  return {
+    acquire: acquireWithLease,
+    bindToResponse: (response) => {
+      if (!held) return response
+      return releaseWhenBodySettles(response, () => {
+        void release()
+      })
+    },
+    release
+  }
+}
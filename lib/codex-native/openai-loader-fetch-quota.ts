@@ -2,12 +2,13 @@ import { saveSnapshots } from "../codex-status-storage.js"
 import { fetchQuotaSnapshotFromBackend } from "../codex-quota-fetch.js"
 import type { Logger } from "../logger.js"
 import { defaultSnapshotsPath } from "../paths.js"
-import type { CodexSpoofMode } from "../config.js"
+import type { CodexSpoofMode, QuotaSwitchFloors } from "../config.js"
 import {
   DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE,
   evaluateQuotaThresholds,
   type QuotaThresholdTrackerState
 } from "../quota-threshold-alerts.js"
+import type { CodexRateLimitSnapshot } from "../types.js"
 import { resolveRequestUserAgent } from "./client-identity.js"
 import { resolveCodexOriginator } from "./originator.js"
 import {
@@ -25,7 +26,9 @@ export function scheduleQuotaRefresh(input: {
   quietMode: boolean
   quotaRefreshAtByIdentity: Map<string, number>
   quotaTrackerByIdentity: Map<string, QuotaThresholdTrackerState>
+  switchFloors?: QuotaSwitchFloors
   setCooldown: (idKey: string, cooldownUntil: number) => Promise<void>
+  onSnapshot?: (snapshot: CodexRateLimitSnapshot) => void
   showToast: (message: string, variant?: "info" | "success" | "warning" | "error", quietMode?: boolean) => Promise<void>
 }): void {
   const now = Date.now()
@@ -56,12 +59,14 @@ export function scheduleQuotaRefresh(input: {
         ...current,
         [input.identityForQuota]: quotaSnapshot
       }))
+      input.onSnapshot?.(quotaSnapshot)
 
       const previousTracker =
         input.quotaTrackerByIdentity.get(input.identityForQuota) ?? DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE
       const evaluated = evaluateQuotaThresholds({
         snapshot: quotaSnapshot,
-        previousState: previousTracker
+        previousState: previousTracker,
+        switchFloors: input.switchFloors
       })
       input.quotaTrackerByIdentity.set(input.identityForQuota, evaluated.nextState)
 
@@ -69,6 +74,16 @@ export function scheduleQuotaRefresh(input: {
         await input.showToast(warning.message, "warning", input.quietMode)
       }
 
+      for (const crossing of evaluated.floorCrossings) {
+        input.log?.debug("quota switch floor reached", {
+          identityKey: input.identityForQuota,
+          window: crossing.window,
+          floorPct: crossing.floorPct,
+          reasonCode: crossing.reasonCode
+        })
+        await input.showToast(crossing.message, "info", input.quietMode)
+      }
+
       if (evaluated.exhaustedCrossings.length > 0) {
         const nowForCooldown = Date.now()
         const cooldownCandidates = evaluated.exhaustedCrossings
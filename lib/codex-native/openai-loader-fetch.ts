@@ -1,29 +1,40 @@
+import { matchAccountPool } from "../account-pools.js"
 import { FetchOrchestrator } from "../fetch-orchestrator.js"
 import { PluginFatalError, isPluginFatalError, toSyntheticErrorResponse } from "../fatal-errors.js"
+import type { LiveEventChannel } from "../live-events.js"
 import type { Logger } from "../logger.js"
-import type { CodexModelInfo } from "../model-catalog.js"
-import type { RotationStrategy } from "../types.js"
+import { type CodexModelInfo, readCachedCodexModelCatalog } from "../model-catalog.js"
+import { defaultAccountLeasesPath } from "../paths.js"
+import type { AccountRecord, RotationStrategy } from "../types.js"
 import type {
+  AccountConcurrencyPolicy,
+  AccountPoolConfig,
   BehaviorSettings,
   CodexSpoofMode,
   CustomModelConfig,
+  FetchRetryPolicy,
+  ModelRoutingMode,
   PersonalityOption,
-  PromptCacheKeyStrategy
+  PromptCacheKeyStrategy,
+  QuotaSwitchFloors
 } from "../config.js"
 import type { OpenAIAuthMode } from "../types.js"
-import type { QuotaThresholdTrackerState } from "../quota-threshold-alerts.js"
+import { evaluateQuotaThresholds, type QuotaThresholdTrackerState } from "../quota-threshold-alerts.js"
 import { acquireOpenAIAuth } from "./acquire-auth.js"
+import { readModelRequirementFromRequest } from "./model-routing.js"
 import { resolveRequestUserAgent } from "./client-identity.js"
 import { resolveCodexOriginator } from "./originator.js"
 import { buildProjectPromptCacheKey } from "../prompt-cache-key.js"
 import { persistRateLimitSnapshotFromResponse } from "./rate-limit-snapshots.js"
+import { captureUsageFromResponse } from "./usage-capture.js"
 import { assertAllowedOutboundUrl, rewriteUrl } from "./request-routing.js"
 import {
   type OutboundRequestPayloadTransformResult,
   transformOutboundRequestPayload
 } from "./request-transform-payload.js"
 import { toReasoningSummaryPluginFatalError } from "./reasoning-summary.js"
-import type { SessionAffinityRuntimeState } from "./session-affinity-state.js"
+import { repinSwitchedSession, type SessionAffinityRuntimeState } from "./session-affinity-state.js"
+import { createRequestAccountLease } from "./openai-loader-fetch-leases.js"
 import { scheduleQuotaRefresh } from "./openai-loader-fetch-quota.js"
 import type { ShareableDebugLogger } from "../shareable-debug.js"
 import { parseUltraState, retainUltraState, type UltraResolution } from "./ultra.js"
@@ -32,6 +43,7 @@ import {
   CATALOG_REFRESH_TTL_MS,
   getCatalogSyncState,
   pruneQuotaState,
+  QUOTA_REFRESH_TTL_MS,
   resolveCatalogScopeKey,
   stripUnsafeForwardedHeaders,
   type CatalogSyncState
@@ -49,11 +61,23 @@ export type CreateOpenAIFetchHandlerInput = {
   personality?: PersonalityOption
   promptCacheKeyStrategy?: PromptCacheKeyStrategy
   projectPath?: string
+  /** Path matched against `accountPools`; see `resolveAccountPoolPath`. Defaults to `projectPath`. */
+  accountPoolPath?: string
   log?: Logger
   quietMode: boolean
   pidOffsetEnabled: boolean
   configuredRotationStrategy?: RotationStrategy
+  accountPools?: Record<string, AccountPoolConfig>
+  /** Defaults to `fallback`. */
+  modelRouting?: ModelRoutingMode
+  quotaSwitchFloors?: QuotaSwitchFloors
+  /** Per-account in-flight limit; `maxRequestsPerAccount: 0` disables leasing. */
+  accountConcurrency?: AccountConcurrencyPolicy
+  /** Defaults to the shared lease file under the config root. */
+  accountLeasesPath?: string
+  fetchRetryPolicy?: FetchRetryPolicy
   headerTransformDebug: boolean
+  usageLedger?: boolean
   compatInputSanitizerEnabled: boolean
   shareableDebug?: ShareableDebugLogger
   internalCatalogScopeHeader?: string
@@ -74,6 +98,8 @@ export type CreateOpenAIFetchHandlerInput = {
   }) => Promise<CodexModelInfo[] | undefined>
   setCooldown: (idKey: string, cooldownUntil: number) => Promise<void>
   showToast: (message: string, variant?: "info" | "success" | "warning" | "error", quietMode?: boolean) => Promise<void>
+  /** Shares cooldowns, quota snapshots and account switches with other OpenCode processes. */
+  liveEvents?: Pick<LiveEventChannel, "publish" | "subscribe">
 }
 
 export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
@@ -84,6 +110,45 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
   const quotaTrackerByIdentity = new Map<string, QuotaThresholdTrackerState>()
   const quotaRefreshAtByIdentity = new Map<string, number>()
   const catalogSyncByScope = new Map<string, CatalogSyncState>()
+  let lastAcquiredIdentityKey: string | undefined
+
+  const setCooldown = async (identityKey: string, cooldownUntil: number): Promise<void> => {
+    await input.setCooldown(identityKey, cooldownUntil)
+    void input.liveEvents?.publish({ type: "cooldown", mode: input.authMode, identityKey, cooldownUntil })
+  }
+
+  // Another process already refreshed or cooled this account, so skip the duplicate quota fetch and
+  // advance the threshold tracker silently; that process showed the toasts.
+  input.liveEvents?.subscribe(`openai-fetch:${input.authMode}`, (event) => {
+    if (event.type === "quota_snapshot") {
+      const evaluated = evaluateQuotaThresholds({
+        snapshot: event.snapshot,
+        previousState: quotaTrackerByIdentity.get(event.identityKey),
+        switchFloors: input.quotaSwitchFloors
+      })
+      quotaTrackerByIdentity.set(event.identityKey, evaluated.nextState)
+      const refreshAt = event.at + QUOTA_REFRESH_TTL_MS
+      if ((quotaRefreshAtByIdentity.get(event.identityKey) ?? 0) < refreshAt) {
+        quotaRefreshAtByIdentity.set(event.identityKey, refreshAt)
+      }
+      return
+    }
+    if (event.mode !== input.authMode) return
+    if (event.type === "cooldown") {
+      input.sessionAffinityState.orchestratorState.transientFailureCounts.delete(event.identityKey)
+      if ((quotaRefreshAtByIdentity.get(event.identityKey) ?? 0) < event.cooldownUntil) {
+        quotaRefreshAtByIdentity.set(event.identityKey, event.cooldownUntil)
+      }
+    }
+    if (event.type === "account_switch" && event.sessionKey) {
+      repinSwitchedSession(input.sessionAffinityState, { sessionKey: event.sessionKey, identityKey: event.identityKey })
+    }
+    input.log?.debug("live event from another process", {
+      type: event.type,
+      identityKey: event.identityKey,
+      pid: event.pid
+    })
+  })
 
   return async (requestInput: string | URL | Request, init?: RequestInit): Promise<Response> => {
     const initialRequestUrl =
@@ -174,6 +239,7 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
 
     let selectedIdentityKey: string | undefined
     let selectedAuthForQuota: { access: string; accountId?: string; identityKey?: string } | undefined
+    let responseSessionKey: string | null = null
     let selectedCatalogModels: CodexModelInfo[] | undefined
     let selectedPreviousCatalogScopeKey: string | undefined
     let ultraStateForRequest: UltraResolution | undefined = initialUltraState
@@ -186,14 +252,37 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
           })
         : undefined
 
+    const modelRoutingMode = input.modelRouting ?? "fallback"
+    const modelRequirement =
+      modelRoutingMode === "off" ? undefined : await readModelRequirementFromRequest(outbound, input.customModels)
+    const modelRouting =
+      modelRoutingMode !== "off" && modelRequirement
+        ? {
+            mode: modelRoutingMode,
+            requirement: modelRequirement,
+            catalogFor: async (account: AccountRecord) =>
+              input.getCatalogModels(resolveCatalogScopeKey(account)) ??
+              (account.accountId ? await readCachedCodexModelCatalog({ accountId: account.accountId }) : undefined)
+          }
+        : undefined
+
     await input.requestSnapshots.captureRequest("before-auth", outbound, { spoofMode: input.spoofMode })
 
     const { orchestratorState, stickySessionState, hybridSessionState, persistSessionAffinityState } =
       input.sessionAffinityState
+    const concurrencyPolicy = input.accountConcurrency
+    const accountLease =
+      concurrencyPolicy && concurrencyPolicy.maxRequestsPerAccount > 0
+        ? createRequestAccountLease({
+            policy: concurrencyPolicy,
+            filePath: input.accountLeasesPath ?? defaultAccountLeasesPath(),
+            log: input.log
+          })
+        : undefined
 
     const orchestrator = new FetchOrchestrator({
       acquireAuth: async (context) => {
-        const auth = await acquireOpenAIAuth({
+        const acquireInput = {
           authMode: input.authMode,
           context,
           isSubagentRequest,
@@ -203,9 +292,30 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
           persistSessionAffinityState,
           pidOffsetEnabled: input.pidOffsetEnabled,
           configuredRotationStrategy: input.configuredRotationStrategy,
+          accountPool: matchAccountPool(
+            input.accountPools,
+            input.accountPoolPath ?? input.projectPath ?? process.cwd()
+          ),
+          modelRouting,
+          quotaSwitchFloors: input.quotaSwitchFloors,
           log: input.log,
           shareableDebug: input.shareableDebug
-        })
+        }
+        const auth = accountLease
+          ? await accountLease.acquire((concurrency) => acquireOpenAIAuth({ ...acquireInput, concurrency }))
+          : await acquireOpenAIAuth(acquireInput)
+        if (auth.identityKey && auth.identityKey !== lastAcquiredIdentityKey) {
+          if (lastAcquiredIdentityKey) {
+            void input.liveEvents?.publish({
+              type: "account_switch",
+              mode: input.authMode,
+              identityKey: auth.identityKey,
+              previousIdentityKey: lastAcquiredIdentityKey,
+              ...(context?.sessionKey ? { sessionKey: context.sessionKey } : {})
+            })
+          }
+          lastAcquiredIdentityKey = auth.identityKey
+        }
 
         const now = Date.now()
         const catalogScopeKey = resolveCatalogScopeKey(auth)
@@ -267,7 +377,18 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
         }
         return auth
       },
-      setCooldown: input.setCooldown,
+      setCooldown,
+      ...(input.fetchRetryPolicy
+        ? {
+            maxAttempts: input.fetchRetryPolicy.maxAttempts,
+            retryTransientFailures: input.fetchRetryPolicy.transientRetries,
+            transientRetryBackoffMs: input.fetchRetryPolicy.backoffMs,
+            circuitBreaker: {
+              failureThreshold: input.fetchRetryPolicy.circuitBreakerThreshold,
+              cooldownMs: input.fetchRetryPolicy.circuitBreakerCooldownMs
+            }
+          }
+        : {}),
       quietMode: input.quietMode,
       state: orchestratorState,
       onSessionObserved: async ({ event }) => {
@@ -434,6 +555,7 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
         return payloadTransform.request
       },
       onAttemptResponse: async ({ attempt, maxAttempts, attemptReasonCode, response, auth, sessionKey }) => {
+        responseSessionKey = sessionKey
         await input.shareableDebug?.emitFetchAttemptResponse({
           authMode: input.authMode,
           rotationStrategy: auth.selectionTrace?.strategy ?? input.configuredRotationStrategy,
@@ -496,6 +618,7 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
     try {
       response = await orchestrator.execute(outbound)
     } catch (error) {
+      await accountLease?.release()
       if (isPluginFatalError(error)) {
         input.log?.debug("fatal auth/error response", {
           type: error.type,
@@ -536,6 +659,15 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
     }
 
     persistRateLimitSnapshotFromResponse(response, selectedIdentityKey)
+    if (input.usageLedger === true) {
+      response = captureUsageFromResponse(response, {
+        identityKey: selectedIdentityKey,
+        sessionKey: responseSessionKey
+      })
+    }
+    if (accountLease) {
+      response = accountLease.bindToResponse(response)
+    }
 
     const identityForQuota = selectedAuthForQuota?.identityKey
     if (identityForQuota && selectedAuthForQuota?.access) {
@@ -551,7 +683,11 @@ export function createOpenAIFetchHandler(input: CreateOpenAIFetchHandlerInput) {
         quietMode: input.quietMode,
         quotaRefreshAtByIdentity,
         quotaTrackerByIdentity,
-        setCooldown: input.setCooldown,
+        switchFloors: input.quotaSwitchFloors,
+        setCooldown,
+        onSnapshot: (snapshot) => {
+          void input.liveEvents?.publish({ type: "quota_snapshot", identityKey: identityForQuota, snapshot })
+        },
         showToast: input.showToast
       })
     }
@@ -1,3 +1,4 @@
+import { isMockBackendUrl, routeToMockBackend } from "../backend-endpoints.js"
 import { PluginFatalError } from "../fatal-errors.js"
 
 const CODEX_API_ENDPOINT = "https://chatgpt.com/backend-api/codex/responses"
@@ -10,10 +11,11 @@ export function rewriteUrl(requestInput: string | URL | Request): URL {
       : new URL(typeof requestInput === "string" ? requestInput : requestInput.url)
 
   if (isAllowedOpenAIOutboundHost(parsed.hostname) && shouldRewriteToCodexEndpoint(parsed.pathname)) {
-    return new URL(CODEX_API_ENDPOINT)
+    return new URL(routeToMockBackend(CODEX_API_ENDPOINT))
   }
 
-  return parsed
+  const routed = routeToMockBackend(parsed.toString())
+  return routed === parsed.toString() ? parsed : new URL(routed)
 }
 
 function shouldRewriteToCodexEndpoint(pathname: string): boolean {
@@ -33,6 +35,9 @@ function isAllowedOpenAIOutboundHost(hostname: string): boolean {
 }
 
 export function assertAllowedOutboundUrl(url: URL): void {
+  // The loopback mock backend is opted into explicitly and validated when configured.
+  if (isMockBackendUrl(url)) return
+
   const protocol = url.protocol.trim().toLowerCase()
   if (protocol !== "https:") {
     throw new PluginFatalError({
@@ -1,6 +1,7 @@
 import type { BehaviorSettings, ModelBehaviorOverride, ServiceTierOption } from "../config.js"
 import type { CustomModelBehaviorConfig } from "../model-catalog.js"
 import { isRecord } from "../util.js"
+import { getAgentBehaviorEntry } from "./request-transform-model.js"
 
 const EFFORT_SUFFIX_REGEX = /-(none|minimal|low|medium|high|xhigh|max|ultra)$/i
 
@@ -146,7 +147,17 @@ export function resolveServiceTierForModel(input: {
   modelOptions?: Record<string, unknown>
   modelCandidates: string[]
   variantCandidates: string[]
+  agentName?: unknown
 }): ServiceTierOption | undefined {
+  const agentOverride = normalizeServiceTierSetting(
+    getAgentBehaviorEntry(input.behaviorSettings, input.agentName)?.serviceTier
+  )
+  if (agentOverride) {
+    return agentOverride === "priority" && catalogSupportsPriority(input.modelOptions) === false
+      ? undefined
+      : agentOverride
+  }
+
   const modelOverride = getModelServiceTierOverride(
     input.behaviorSettings,
     input.modelCandidates,
@@ -1,6 +1,7 @@
 import type { BehaviorSettings, CustomModelConfig, ModelBehaviorOverride, PersonalityOption } from "../config.js"
 import type { CodexModelInfo, CustomModelBehaviorConfig } from "../model-catalog.js"
 import { isRecord } from "../util.js"
+import { normalizeAgentName } from "./agent-execution.js"
 import { resolveReasoningSummaryValue } from "./reasoning-summary.js"
 
 const EFFORT_SUFFIX_REGEX = /-(none|minimal|low|medium|high|xhigh|max|ultra)$/i
@@ -331,6 +332,62 @@ function getModelBehaviorOverrideValue<T>(
   return undefined
 }
 
+/** Finds the `perAgent` entry for an OpenCode agent, matching names the way agent classification does. */
+export function getAgentBehaviorEntry(
+  behaviorSettings: BehaviorSettings | undefined,
+  agentName: unknown
+): ModelBehaviorOverride | undefined {
+  const agents = behaviorSettings?.perAgent
+  const normalized = normalizeAgentName(agentName)
+  if (!agents || !normalized) return undefined
+  for (const [name, entry] of Object.entries(agents)) {
+    if (normalizeAgentName(name) === normalized) return entry
+  }
+  return undefined
+}
+
+export type AgentBehaviorOverride = {
+  personality?: string
+  reasoningEffort?: string
+  reasoningMode?: "standard" | "pro"
+  reasoningSummary?: "auto" | "concise" | "detailed" | "none"
+  textVerbosity?: "default" | "low" | "medium" | "high" | "none"
+  include?: string[]
+  parallelToolCalls?: boolean
+}
+
+export function resolveAgentBehaviorOverride(
+  behaviorSettings: BehaviorSettings | undefined,
+  agentName: unknown
+): AgentBehaviorOverride {
+  const entry = getAgentBehaviorEntry(behaviorSettings, agentName)
+  if (!entry) return {}
+  const reasoningSummary = asString(entry.reasoningSummary)?.toLowerCase()
+  const include = asStringArray(entry.include)
+  return {
+    personality: normalizePersonalityKey(entry.personality),
+    reasoningEffort: asString(entry.reasoningEffort),
+    reasoningMode:
+      entry.reasoningMode === "standard" || entry.reasoningMode === "pro" ? entry.reasoningMode : undefined,
+    reasoningSummary:
+      reasoningSummary === "auto" ||
+      reasoningSummary === "concise" ||
+      reasoningSummary === "detailed" ||
+      reasoningSummary === "none"
+        ? reasoningSummary
+        : typeof entry.reasoningSummaries === "boolean"
+          ? entry.reasoningSummaries
+            ? "auto"
+            : "none"
+          : undefined,
+    textVerbosity:
+      normalizeVerbositySetting(entry.textVerbosity) ??
+      (entry.verbosityEnabled === false ? "none" : normalizeVerbositySetting(entry.verbosity)),
+    include: include && include.length > 0 ? include : undefined,
+    parallelToolCalls: typeof entry.parallelToolCalls === "boolean" ? entry.parallelToolCalls : undefined
+  }
+}
+
 function getModelPersonalityOverride(
   behaviorSettings: BehaviorSettings | undefined,
   modelCandidates: string[],
@@ -531,8 +588,12 @@ export function resolvePersonalityForModel(input: {
   modelOptions?: Record<string, unknown>
   modelCandidates: string[]
   variantCandidates: string[]
+  agentName?: unknown
   fallback?: PersonalityOption
 }): string | undefined {
+  const agentOverride = resolveAgentBehaviorOverride(input.behaviorSettings, input.agentName).personality
+  if (agentOverride) return agentOverride
+
   const modelOverride = getModelPersonalityOverride(
     input.behaviorSettings,
     input.modelCandidates,
@@ -112,3 +112,22 @@ export async function createSessionAffinityRuntimeState(input: {
     persistSessionAffinityState
   }
 }
+
+/**
+ * Repins a session that another process just served from `identityKey`. Every process writes its
+ * whole pin map to the shared affinity file, so a pin left stale here would undo that process's
+ * switch on this process's next write. Sessions this process never pinned are left alone.
+ */
+export function repinSwitchedSession(
+  state: Pick<SessionAffinityRuntimeState, "stickySessionState" | "hybridSessionState">,
+  input: { sessionKey: string; identityKey: string }
+): boolean {
+  let moved = false
+  for (const sessionState of [state.stickySessionState, state.hybridSessionState]) {
+    const pinned = sessionState.bySessionKey.get(input.sessionKey)
+    if (pinned === undefined || pinned === input.identityKey) continue
+    sessionState.bySessionKey.set(input.sessionKey, input.identityKey)
+    moved = true
+  }
+  return moved
+}
@@ -0,0 +1,130 @@
+import { appendUsageRecord, parseResponseUsage, type UsageRecord } from "../usage-ledger.js"
+import { defaultUsageLedgerPath } from "../paths.js"
+import { isRecord } from "../util.js"
+
+const COMPLETED_EVENT_TYPE = "response.completed"
+
+export type UsageCaptureContext = {
+  identityKey?: string
+  sessionKey?: string | null
+  ledgerPath?: string
+  now?: () => number
+}
+
+function readCompletedResponse(eventBlock: string): Record<string, unknown> | undefined {
+  // Cheap pre-filter: only completion events are worth a JSON parse.
+  if (!eventBlock.includes(COMPLETED_EVENT_TYPE)) return undefined
+  const data = eventBlock
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice("data:".length).trimStart())
+    .join("\n")
+  if (!data) return undefined
+  try {
+    const parsed = JSON.parse(data) as unknown
+    if (!isRecord(parsed) || parsed.type !== COMPLETED_EVENT_TYPE || !isRecord(parsed.response)) return undefined
+    return parsed.response
+  } catch (error) {
+    if (error instanceof Error) {
+      // Ignore malformed SSE payloads; the client stream still receives them verbatim.
+    }
+    return undefined
+  }
+}
+
+function createCompletedEventScanner(): {
+  push: (chunk: Uint8Array) => void
+  finish: () => Record<string, unknown> | undefined
+} {
+  const decoder = new TextDecoder()
+  let buffered = ""
+  let completed: Record<string, unknown> | undefined
+  const scan = (text: string, final: boolean) => {
+    buffered += text
+    const blocks = buffered.split(/\r?\n\r?\n/)
+    buffered = final ? "" : (blocks.pop() ?? "")
+    for (const block of blocks) {
+      completed = readCompletedResponse(block) ?? completed
+    }
+  }
+  return {
+    push: (chunk) => scan(decoder.decode(chunk, { stream: true }), false),
+    finish: () => {
+      scan(decoder.decode(), true)
+      return completed
+    }
+  }
+}
+
+function buildUsageRecord(
+  completed: Record<string, unknown>,
+  context: UsageCaptureContext,
+  at: number
+): UsageRecord | undefined {
+  const usage = parseResponseUsage(completed.usage)
+  if (!usage) return undefined
+  const model = typeof completed.model === "string" && completed.model.trim() ? completed.model.trim() : undefined
+  const serviceTier =
+    typeof completed.service_tier === "string" && completed.service_tier.trim()
+      ? completed.service_tier.trim()
+      : undefined
+  return {
+    at,
+    ...(context.identityKey ? { identityKey: context.identityKey } : {}),
+    ...(model ? { model } : {}),
+    ...(context.sessionKey ? { sessionKey: context.sessionKey } : {}),
+    ...(serviceTier ? { serviceTier } : {}),
+    ...usage
+  }
+}
+
+/**
+ * Taps a streamed Responses API reply so token usage from the final `response.completed`
+ * event can be appended to the local usage ledger. Chunks pass through unchanged, and
+ * cancellation still propagates upstream. Non-streaming and failed responses are returned untouched.
+ */
+export function captureUsageFromResponse(response: Response, context: UsageCaptureContext): Response {
+  if (!response.ok || !response.body) return response
+  const contentType = response.headers.get("content-type") ?? ""
+  if (!contentType.toLowerCase().includes("text/event-stream")) return response
+
+  const scanner = createCompletedEventScanner()
+  const persistUsage = (completed: Record<string, unknown> | undefined) => {
+    const record = completed ? buildUsageRecord(completed, context, (context.now ?? Date.now)()) : undefined
+    if (!record) return
+    void appendUsageRecord(context.ledgerPath ?? defaultUsageLedgerPath(), record).catch((error) => {
+      if (error instanceof Error) {
+        // best-effort usage ledger persistence
+      }
+    })
+  }
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk)
+        try {
+          scanner.push(chunk)
+        } catch (error) {
+          if (error instanceof Error) {
+            // Usage scanning must never disturb the client stream.
+          }
+        }
+      },
+      flush() {
+        try {
+          persistUsage(scanner.finish())
+        } catch (error) {
+          if (error instanceof Error) {
+            // Usage scanning must never disturb the client stream.
+          }
+        }
+      }
+    })
+  )
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
@@ -1,5 +1,6 @@
 import type { CodexLimit, CodexRateLimitSnapshot } from "./types.js"
 import type { Logger } from "./logger.js"
+import { isTokenUsableWithBackend, routeToMockBackend } from "./backend-endpoints.js"
 
 const DEFAULT_CHATGPT_BASE_URL = "https://chatgpt.com/backend-api"
 const WHAM_USAGE_PATH = "/wham/usage"
@@ -69,7 +70,7 @@ function normalizeBaseUrl(baseUrl: string): string {
 function resolveQuotaUsageUrl(baseUrl?: string): string {
   const normalized = normalizeBaseUrl(baseUrl ?? DEFAULT_CHATGPT_BASE_URL)
   const useChatGptPathStyle = normalized.includes("/backend-api")
-  return `${normalized}${useChatGptPathStyle ? WHAM_USAGE_PATH : CODEX_USAGE_PATH}`
+  return routeToMockBackend(`${normalized}${useChatGptPathStyle ? WHAM_USAGE_PATH : CODEX_USAGE_PATH}`)
 }
 
 function snapshotFromUsagePayload(input: {
@@ -155,6 +156,10 @@ export async function fetchQuotaSnapshotFromBackend(input: {
   timeoutMs?: number
 }): Promise<CodexRateLimitSnapshot | null> {
   const endpoint = resolveQuotaUsageUrl(input.baseUrl)
+  if (!isTokenUsableWithBackend(input.accessToken)) {
+    input.log?.debug("quota fetch skipped: token not issued by the mock backend", { endpoint })
+    return null
+  }
   const fetchImpl = input.fetchImpl ?? fetch
   const timeoutMs = Math.max(1, Math.floor(input.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS))
 
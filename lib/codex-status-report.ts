@@ -0,0 +1,148 @@
+import { resolveQuotaRows } from "./codex-status-ui.js"
+import type { QuotaForecast } from "./quota-history.js"
+import type { AccountRecord, CodexLimit, CodexRateLimitSnapshot } from "./types.js"
+
+export const CODEX_STATUS_SCHEMA_VERSION = 1
+export const CODEX_STATUS_SCHEMA_URL = "https://schemas.iam-brain.dev/opencode-codex-auth/codex-status.schema.json"
+
+export type CodexStatusForecast = {
+  burnPctPerHour: number
+  exhaustsAt: number | null
+  resetsFirst: boolean
+}
+
+export type CodexStatusWindow = {
+  name: string
+  leftPct: number
+  usedPct: number
+  resetsAt: number | null
+  forecast: CodexStatusForecast | null
+}
+
+export type CodexStatusSnapshot = {
+  updatedAt: number
+  ageMs: number
+  modelFamily: string
+  fiveHour: CodexStatusWindow | null
+  weekly: CodexStatusWindow | null
+  credits: {
+    hasCredits: boolean | null
+    unlimited: boolean
+    balance: string | null
+  } | null
+}
+
+export type CodexStatusAccount = {
+  index: number
+  identityKey: string | null
+  accountId: string | null
+  email: string | null
+  plan: string | null
+  enabled: boolean
+  active: boolean
+  coolingDown: boolean
+  cooldownUntil: number | null
+  tokenExpired: boolean
+  tokenExpiresAt: number | null
+  lastUsed: number | null
+  snapshot: CodexStatusSnapshot | null
+}
+
+/** Versioned machine-readable status; shape documented by `schemas/codex-status.schema.json`. */
+export type CodexStatusReport = {
+  $schema: string
+  schemaVersion: typeof CODEX_STATUS_SCHEMA_VERSION
+  generatedAt: number
+  profile: string | null
+  activeIdentityKey: string | null
+  accounts: CodexStatusAccount[]
+}
+
+function epochOrNull(value: number | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.round(value) : null
+}
+
+function toWindow(limit: CodexLimit | undefined, forecast: QuotaForecast | undefined): CodexStatusWindow | null {
+  if (!limit) return null
+  const leftPct = Math.min(100, Math.max(0, Math.round(limit.leftPct)))
+  return {
+    name: limit.name,
+    leftPct,
+    usedPct: 100 - leftPct,
+    resetsAt: epochOrNull(limit.resetsAt),
+    forecast: forecast
+      ? {
+          burnPctPerHour: Math.round(forecast.burnPctPerHour * 100) / 100,
+          exhaustsAt: forecast.exhaustsAt !== undefined ? Math.round(forecast.exhaustsAt) : null,
+          resetsFirst: forecast.resetsFirst
+        }
+      : null
+  }
+}
+
+function toSnapshot(
+  snapshot: CodexRateLimitSnapshot | undefined,
+  forecasts: Record<string, QuotaForecast | undefined> | undefined,
+  now: number
+): CodexStatusSnapshot | null {
+  if (!snapshot || !Array.isArray(snapshot.limits)) return null
+  const rows = resolveQuotaRows(snapshot)
+  return {
+    updatedAt: snapshot.updatedAt,
+    ageMs: Math.max(0, now - snapshot.updatedAt),
+    modelFamily: snapshot.modelFamily,
+    fiveHour: toWindow(rows.fiveHour, rows.fiveHour ? forecasts?.[rows.fiveHour.name] : undefined),
+    weekly: toWindow(rows.weekly, rows.weekly ? forecasts?.[rows.weekly.name] : undefined),
+    credits: snapshot.credits
+      ? {
+          hasCredits: typeof snapshot.credits.hasCredits === "boolean" ? snapshot.credits.hasCredits : null,
+          unlimited: snapshot.credits.unlimited === true,
+          balance: snapshot.credits.balance?.trim() ? snapshot.credits.balance.trim() : null
+        }
+      : null
+  }
+}
+
+/**
+ * Builds the JSON status report. Token material is never copied; only expiry metadata is exposed.
+ */
+export function buildStatusReport(input: {
+  accounts: AccountRecord[]
+  activeIdentityKey?: string
+  snapshots: Record<string, CodexRateLimitSnapshot | undefined>
+  forecasts?: Record<string, Record<string, QuotaForecast | undefined> | undefined>
+  profile?: string
+  now: number
+}): CodexStatusReport {
+  return {
+    $schema: CODEX_STATUS_SCHEMA_URL,
+    schemaVersion: CODEX_STATUS_SCHEMA_VERSION,
+    generatedAt: input.now,
+    profile: input.profile ?? null,
+    activeIdentityKey: input.activeIdentityKey ?? null,
+    accounts: input.accounts.map((account, index) => {
+      const cooldownUntil = epochOrNull(account.cooldownUntil)
+      const tokenExpiresAt = epochOrNull(account.expires)
+      const identityKey = account.identityKey ?? null
+      return {
+        index: index + 1,
+        identityKey,
+        accountId: account.accountId ?? null,
+        email: account.email ?? null,
+        plan: account.plan ?? null,
+        enabled: account.enabled !== false,
+        active: identityKey !== null && identityKey === input.activeIdentityKey,
+        coolingDown: cooldownUntil !== null && cooldownUntil > input.now,
+        cooldownUntil,
+        tokenExpired: tokenExpiresAt !== null && tokenExpiresAt <= input.now,
+        tokenExpiresAt,
+        lastUsed: epochOrNull(account.lastUsed),
+        snapshot: toSnapshot(
+          identityKey ? input.snapshots[identityKey] : undefined,
+          identityKey ? input.forecasts?.[identityKey] : undefined,
+          input.now
+        )
+      }
+    })
+  }
+}
@@ -1,6 +1,10 @@
+import fs from "node:fs/promises"
+
 import type { CodexRateLimitSnapshot } from "./types.js"
 import { withLockedFile } from "./cache-lock.js"
-import { readJsonFileBestEffort, writeJsonFileAtomicBestEffort } from "./cache-io.js"
+import { isFsErrorCode, readJsonFileBestEffort, writeJsonFileAtomicBestEffort } from "./cache-io.js"
+import { quotaHistoryPathFor } from "./paths.js"
+import { recordQuotaSamples } from "./quota-history.js"
 
 export type SnapshotMap = Record<string, CodexRateLimitSnapshot>
 
@@ -14,21 +18,71 @@ async function writeAtomic(filePath: string, data: SnapshotMap) {
   await writeJsonFileAtomicBestEffort(filePath, data)
 }
 
+function changedSnapshots(current: SnapshotMap, next: SnapshotMap): SnapshotMap {
+  const changed: SnapshotMap = {}
+  for (const [identityKey, snapshot] of Object.entries(next)) {
+    if (!snapshot || !Array.isArray(snapshot.limits)) continue
+    if (JSON.stringify(snapshot) !== JSON.stringify(current[identityKey])) {
+      changed[identityKey] = snapshot
+    }
+  }
+  return changed
+}
+
 export async function loadSnapshots(filePath: string): Promise<SnapshotMap> {
   return readJson(filePath)
 }
 
+const cachedSnapshots = new Map<string, { signature: string; snapshots: SnapshotMap }>()
+
+/**
+ * `loadSnapshots` for hot paths such as account selection: the parsed map is reused until the
+ * file's size or mtime changes, so writes from this or another process are still picked up.
+ */
+export async function loadSnapshotsCached(filePath: string): Promise<SnapshotMap> {
+  let signature: string
+  try {
+    const stat = await fs.stat(filePath)
+    signature = `${stat.size}:${stat.mtimeMs}`
+  } catch (error) {
+    if (!isFsErrorCode(error, "ENOENT")) throw error
+    cachedSnapshots.delete(filePath)
+    return {}
+  }
+  const cached = cachedSnapshots.get(filePath)
+  if (cached?.signature === signature) return cached.snapshots
+  const snapshots = await readJson(filePath)
+  cachedSnapshots.set(filePath, { signature, snapshots })
+  return snapshots
+}
+
+/**
+ * Replaces the latest snapshot map under lock. Snapshots that changed are also appended to
+ * the quota history next to `filePath` (see `quotaHistoryPathFor`); pass `accountIdentityKeys`
+ * when the account store is at hand so history of removed accounts is dropped on that write.
+ */
 export async function saveSnapshots(
   filePath: string,
-  update: (current: SnapshotMap) => SnapshotMap | Promise<SnapshotMap>
+  update: (current: SnapshotMap) => SnapshotMap | Promise<SnapshotMap>,
+  options: { accountIdentityKeys?: Iterable<string> } = {}
 ): Promise<SnapshotMap> {
-  return withLockedFile(filePath, async () => {
+  let changed: SnapshotMap = {}
+  const saved = await withLockedFile(filePath, async () => {
     const cur = await loadSnapshots(filePath)
     const next = await update(cur)
     if (JSON.stringify(next) === JSON.stringify(cur)) {
       return next
     }
     await writeAtomic(filePath, next)
+    changed = changedSnapshots(cur, next)
     return next
   })
+  await recordQuotaSamples(quotaHistoryPathFor(filePath), changed, {
+    accountIdentityKeys: options.accountIdentityKeys
+  }).catch((error) => {
+    if (error instanceof Error) {
+      // best-effort quota history
+    }
+  })
+  return saved
 }
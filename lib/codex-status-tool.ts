@@ -1,29 +1,82 @@
 import { loadAuthStorage } from "./storage.js"
 import { loadSnapshots } from "./codex-status-storage.js"
+import { buildStatusReport, type CodexStatusReport } from "./codex-status-report.js"
 import { renderDashboard, type StatusRenderStyle } from "./codex-status-ui.js"
-import { defaultAuthPath, defaultSnapshotsPath } from "./paths.js"
+import { defaultAuthPath, defaultSnapshotsPath, quotaHistoryPathFor } from "./paths.js"
+import { buildQuotaForecasts, loadQuotaHistory } from "./quota-history.js"
 import { shouldUseColor } from "./ui/tty.js"
 
+export type StatusOutputFormat = "text" | "json"
+
+async function loadStatusInputs(authPath: string, snapshotsPath: string, now: number) {
+  const authFile = await loadAuthStorage(authPath, { lockReads: false })
+  const snapshots = await loadSnapshots(snapshotsPath)
+  const forecasts = buildQuotaForecasts(await loadQuotaHistory(quotaHistoryPathFor(snapshotsPath)), { now })
+  const openai = authFile.openai
+  const multi = openai && openai.type === "oauth" && "accounts" in openai ? openai : undefined
+  return {
+    configured: multi !== undefined,
+    accounts: multi?.accounts ?? [],
+    activeIdentityKey: multi?.activeIdentityKey,
+    snapshots,
+    forecasts
+  }
+}
+
+/**
+ * Returns the versioned machine-readable status of all Codex accounts.
+ */
+export async function buildStatusReportFromDisk(
+  authPath: string = defaultAuthPath(),
+  snapshotsPath: string = defaultSnapshotsPath(),
+  options: { now?: number; profile?: string } = {}
+): Promise<CodexStatusReport> {
+  const now = options.now ?? Date.now()
+  const inputs = await loadStatusInputs(authPath, snapshotsPath, now)
+  return buildStatusReport({
+    accounts: inputs.accounts,
+    activeIdentityKey: inputs.activeIdentityKey,
+    snapshots: inputs.snapshots,
+    forecasts: inputs.forecasts,
+    profile: options.profile,
+    now
+  })
+}
+
 /**
  * Returns a human-readable string summarizing the status of all Codex accounts.
- * Includes usage snapshots if available on disk.
+ * Includes usage snapshots if available on disk, plus burn-rate forecasts from the quota history.
+ * With `format: "json"` the same data is returned as a `CodexStatusReport` document.
  */
 export async function toolOutputForStatus(
   authPath: string = defaultAuthPath(),
   snapshotsPath: string = defaultSnapshotsPath(),
-  options: { style?: StatusRenderStyle; useColor?: boolean } = {}
+  options: {
+    style?: StatusRenderStyle
+    useColor?: boolean
+    now?: number
+    format?: StatusOutputFormat
+    profile?: string
+  } = {}
 ): Promise<string> {
-  const authFile = await loadAuthStorage(authPath, { lockReads: false })
-  const snapshots = await loadSnapshots(snapshotsPath)
+  const now = options.now ?? Date.now()
+  if (options.format === "json") {
+    return JSON.stringify(
+      await buildStatusReportFromDisk(authPath, snapshotsPath, { now, profile: options.profile }),
+      null,
+      2
+    )
+  }
+
+  const inputs = await loadStatusInputs(authPath, snapshotsPath, now)
   const style = options.style ?? "plain"
   const useColor = options.useColor ?? (style === "menu" ? shouldUseColor() : false)
 
-  const openai = authFile.openai
-  if (!openai || openai.type !== "oauth" || !("accounts" in openai)) {
+  if (!inputs.configured) {
     return "No Codex accounts configured."
   }
 
-  const displayAccounts = openai.accounts.map((acc) => ({
+  const displayAccounts = inputs.accounts.map((acc) => ({
     identityKey: acc.identityKey,
     accountId: acc.accountId,
     email: acc.email,
@@ -37,14 +90,17 @@ export async function toolOutputForStatus(
   const dashboardLines = renderDashboard(
     {
       accounts: displayAccounts,
-      activeIdentityKey: openai.activeIdentityKey,
-      snapshots
+      activeIdentityKey: inputs.activeIdentityKey,
+      snapshots: inputs.snapshots,
+      forecasts: inputs.forecasts
     },
     {
       style,
-      useColor
+      useColor,
+      now
     }
   )
 
-  return dashboardLines.join("\n").trim()
+  const profileLine = options.profile ? [`Config profile: ${options.profile}`, ""] : []
+  return [...profileLine, ...dashboardLines].join("\n").trim()
 }
@@ -1,4 +1,6 @@
 import type { CodexRateLimitSnapshot, AccountRecord, CodexLimit } from "./types.js"
+import { formatQuotaForecast, type QuotaForecast } from "./quota-history.js"
+import { resolveQuotaWindows } from "./quota-threshold-alerts.js"
 import { ANSI } from "./ui/tty.js"
 
 const FULL_BLOCK = "█"
@@ -42,24 +44,11 @@ function formatResetTimestamp(resetsAt: number | undefined, now = Date.now()): s
   return `resets ${timeStr} ${date.getDate()} ${months[date.getMonth()]}`
 }
 
-function findLimitByName(snap: CodexRateLimitSnapshot, names: string[]): (typeof snap.limits)[number] | undefined {
-  const lowered = names.map((name) => name.toLowerCase())
-  return snap.limits.find((limit) => lowered.includes(limit.name.toLowerCase()))
-}
-
-function resolveQuotaRows(snap: CodexRateLimitSnapshot | undefined): {
+export function resolveQuotaRows(snap: CodexRateLimitSnapshot | undefined): {
   fiveHour?: CodexLimit
   weekly?: CodexLimit
 } {
-  if (!snap) {
-    return { fiveHour: undefined, weekly: undefined }
-  }
-  const fiveHour = findLimitByName(snap, ["5h", "primary", "requests"]) ?? snap.limits[0]
-  const weekly =
-    findLimitByName(snap, ["weekly", "secondary", "tokens"]) ??
-    snap.limits.find((limit) => limit !== fiveHour) ??
-    snap.limits[1]
-  return { fiveHour, weekly }
+  return snap ? resolveQuotaWindows(snap) : { fiveHour: undefined, weekly: undefined }
 }
 
 function formatAccountLabel(input: {
@@ -68,8 +57,11 @@ function formatAccountLabel(input: {
   useColor: boolean
   withBadges: boolean
 }): string {
-  const label = input.account.email ?? input.account.identityKey ?? "account"
-  const plan = input.account.plan ? ` (${input.account.plan})` : ""
+  const base = input.account.email ?? input.account.identityKey ?? "account"
+  const label = input.account.label
+    ? `${input.account.label} (${[base, input.account.plan].filter(Boolean).join(", ")})`
+    : base
+  const plan = input.account.plan && !input.account.label ? ` (${input.account.plan})` : ""
   const missingIdentityBadge = input.account.identityKey ? "" : " [identity-missing]"
   if (!input.withBadges) return `${label}${plan}${missingIdentityBadge}`
 
@@ -117,6 +109,16 @@ function fallbackResetLabelForAccount(input: { expired: boolean; identityMissing
   return fallbackResetLabel(input.expired)
 }
 
+function formatResetText(input: {
+  limit: CodexLimit
+  forecasts: Record<string, QuotaForecast | undefined> | undefined
+  now: number
+}): string {
+  const reset = formatResetTimestamp(input.limit.resetsAt, input.now) ?? "Unknown"
+  const forecast = formatQuotaForecast(input.forecasts?.[input.limit.name], input.now)
+  return forecast ? `${reset} · ${forecast}` : reset
+}
+
 function formatCredits(snap: CodexRateLimitSnapshot | undefined): string {
   const credits = snap?.credits
   if (!credits) return "0 credits"
@@ -133,11 +135,13 @@ export function renderDashboard(
     accounts: AccountRecord[]
     activeIdentityKey?: string
     snapshots: Record<string, CodexRateLimitSnapshot | undefined>
+    forecasts?: Record<string, Record<string, QuotaForecast | undefined> | undefined>
   },
-  options: { style?: StatusRenderStyle; useColor?: boolean } = {}
+  options: { style?: StatusRenderStyle; useColor?: boolean; now?: number } = {}
 ): string[] {
   const style = options.style ?? "plain"
   const useColor = options.useColor === true
+  const now = options.now ?? Date.now()
   const lines: string[] = []
 
   if (style === "plain") {
@@ -164,6 +168,7 @@ export function renderDashboard(
   for (let i = 0; i < renderableAccounts.length; i += 1) {
     const acc = renderableAccounts[i]
     const snap = acc.identityKey ? input.snapshots[acc.identityKey] : undefined
+    const forecasts = acc.identityKey ? input.forecasts?.[acc.identityKey] : undefined
     const accountLabel = formatAccountLabel({
       account: acc,
       activeIdentityKey: input.activeIdentityKey,
@@ -177,7 +182,7 @@ export function renderDashboard(
       lines.push(accountLabel)
     }
 
-    const expired = typeof acc.expires === "number" && Number.isFinite(acc.expires) && acc.expires <= Date.now()
+    const expired = typeof acc.expires === "number" && Number.isFinite(acc.expires) && acc.expires <= now
 
     const rows = resolveQuotaRows(snap)
     lines.push(
@@ -186,7 +191,7 @@ export function renderDashboard(
         label: "5h",
         leftPct: rows.fiveHour?.leftPct ?? 0,
         resetText: rows.fiveHour
-          ? (formatResetTimestamp(rows.fiveHour.resetsAt) ?? "Unknown")
+          ? formatResetText({ limit: rows.fiveHour, forecasts, now })
           : fallbackResetLabelForAccount({ expired, identityMissing: !acc.identityKey }),
         useColor
       })
@@ -197,7 +202,7 @@ export function renderDashboard(
         label: "Weekly",
         leftPct: rows.weekly?.leftPct ?? 0,
         resetText: rows.weekly
-          ? (formatResetTimestamp(rows.weekly.resetsAt) ?? "Unknown")
+          ? formatResetText({ limit: rows.weekly, forecasts, now })
           : fallbackResetLabelForAccount({ expired, identityMissing: !acc.identityKey }),
         useColor
       })
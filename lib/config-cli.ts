@@ -0,0 +1,251 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import {
+  type ConfigMigrationResult,
+  migrateConfigText,
+  resolveDefaultConfigPath,
+  resolveLegacyDefaultConfigPath
+} from "./config.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type ConfigCliDeps = {
+  env?: Record<string, string | undefined>
+}
+
+type ParsedArgs = {
+  action: "migrate"
+  file?: string
+  dryRun: boolean
+}
+
+const DIFF_CONTEXT_LINES = 2
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth config",
+    "",
+    "Usage:",
+    "  opencode-codex-auth config migrate [--file <path>] [--dry-run]",
+    "",
+    "`migrate` rewrites deprecated keys (reasoningSummaries, thinkingSummaries, verbosityEnabled, verbosity,",
+    'serviceTier: "default") to reasoningSummary, textVerbosity and serviceTier: "auto". Only the affected',
+    "keys and values change; comments and formatting are kept. The original is copied to <file>.bak first.",
+    "A legacy codex-config.json is migrated into codex-config.jsonc and backed up as codex-config.json.bak.",
+    "",
+    "Options:",
+    "  --file <path>   Config file to migrate (default: OPENCODE_OPENAI_MULTI_CONFIG_PATH or the global codex-config.jsonc).",
+    "  --dry-run       Print the changes as a diff without writing anything."
+  ].join("\n")
+}
+
+function parseArgs(args: string[]): { ok: true; value: ParsedArgs } | { ok: false; error: string } {
+  const action = args[0]
+  if (action !== "migrate") {
+    return { ok: false, error: action ? `Unknown config command: ${action}` : "Missing config command" }
+  }
+
+  const parsed: ParsedArgs = { action, dryRun: false }
+  const tail = args.slice(1)
+  for (let i = 0; i < tail.length; i += 1) {
+    const token = tail[i]
+    if (!token) continue
+    if (token === "--dry-run") {
+      parsed.dryRun = true
+      continue
+    }
+    if (token === "--file" || token.startsWith("--file=")) {
+      const raw = token === "--file" ? tail[i + 1] : token.slice("--file=".length)
+      if (!raw) return { ok: false, error: "Missing value for --file" }
+      parsed.file = raw
+      if (token === "--file") i += 1
+      continue
+    }
+    return { ok: false, error: token.startsWith("-") ? `Unknown option: ${token}` : `Unexpected argument: ${token}` }
+  }
+  return { ok: true, value: parsed }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function resolveMigrationPaths(
+  parsed: ParsedArgs,
+  env: Record<string, string | undefined>
+): Promise<{ sourcePath: string; targetPath: string; ignoredLegacyPath?: string }> {
+  const explicitPath = parsed.file ?? env.OPENCODE_OPENAI_MULTI_CONFIG_PATH?.trim()
+  if (explicitPath) {
+    const filePath = path.resolve(explicitPath)
+    return { sourcePath: filePath, targetPath: filePath }
+  }
+
+  const canonicalPath = resolveDefaultConfigPath(env)
+  const legacyPath = resolveLegacyDefaultConfigPath(env)
+  const hasLegacy = await fileExists(legacyPath)
+  if (await fileExists(canonicalPath)) {
+    return {
+      sourcePath: canonicalPath,
+      targetPath: canonicalPath,
+      ...(hasLegacy ? { ignoredLegacyPath: legacyPath } : {})
+    }
+  }
+  if (hasLegacy) return { sourcePath: legacyPath, targetPath: canonicalPath }
+  return { sourcePath: canonicalPath, targetPath: canonicalPath }
+}
+
+/** Line diff in unified format, built from a longest-common-subsequence table. */
+function renderLineDiff(before: string, after: string, labels: { from: string; to: string }): string[] {
+  const oldLines = before.split("\n")
+  const newLines = after.split("\n")
+  const width = newLines.length + 1
+  const lengths = new Uint32Array((oldLines.length + 1) * width)
+  for (let i = oldLines.length - 1; i >= 0; i -= 1) {
+    for (let j = newLines.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lengths[(i + 1) * width + j] ?? 0, lengths[i * width + j + 1] ?? 0)
+    }
+  }
+
+  const ops: Array<{ type: " " | "-" | "+"; line: string; oldIndex: number; newIndex: number }> = []
+  let i = 0
+  let j = 0
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      ops.push({ type: " ", line: oldLines[i] ?? "", oldIndex: i, newIndex: j })
+      i += 1
+      j += 1
+    } else if (
+      i < oldLines.length &&
+      (j >= newLines.length || (lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0))
+    ) {
+      ops.push({ type: "-", line: oldLines[i] ?? "", oldIndex: i, newIndex: j })
+      i += 1
+    } else {
+      ops.push({ type: "+", line: newLines[j] ?? "", oldIndex: i, newIndex: j })
+      j += 1
+    }
+  }
+
+  const lines = [`--- ${labels.from}`, `+++ ${labels.to}`]
+  let index = 0
+  while (index < ops.length) {
+    if (ops[index]?.type === " ") {
+      index += 1
+      continue
+    }
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES)
+    let end = index
+    let unchangedRun = 0
+    while (end + 1 < ops.length && unchangedRun < DIFF_CONTEXT_LINES * 2) {
+      end += 1
+      unchangedRun = ops[end]?.type === " " ? unchangedRun + 1 : 0
+    }
+    end = Math.min(ops.length - 1, end - Math.max(0, unchangedRun - DIFF_CONTEXT_LINES))
+    const hunk = ops.slice(start, end + 1)
+    const oldCount = hunk.filter((op) => op.type !== "+").length
+    const newCount = hunk.filter((op) => op.type !== "-").length
+    lines.push(`@@ -${(hunk[0]?.oldIndex ?? 0) + 1},${oldCount} +${(hunk[0]?.newIndex ?? 0) + 1},${newCount} @@`)
+    for (const op of hunk) lines.push(`${op.type}${op.line}`)
+    index = end + 1
+  }
+  return lines
+}
+
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.tmp.${process.pid}.${Date.now().toString(36)}`
+  try {
+    await fs.writeFile(tempPath, contents, { encoding: "utf8", mode: 0o600 })
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+async function runMigrate(parsed: ParsedArgs, io: CliIo, env: Record<string, string | undefined>): Promise<number> {
+  const { sourcePath, targetPath, ignoredLegacyPath } = await resolveMigrationPaths(parsed, env)
+
+  let raw: string
+  try {
+    raw = await fs.readFile(sourcePath, "utf8")
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    io.err(`Cannot read codex-config at ${sourcePath}: ${detail}`)
+    return 1
+  }
+
+  let migrated: ConfigMigrationResult
+  try {
+    migrated = migrateConfigText(raw)
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    io.err(`Cannot migrate ${sourcePath}: ${detail}`)
+    io.err("Fix the file (see `opencode-codex-auth doctor`) and run the migration again.")
+    return 1
+  }
+
+  if (ignoredLegacyPath) {
+    io.out(`Ignoring legacy ${ignoredLegacyPath}; OpenCode quarantines it on next start because ${targetPath} exists.`)
+  }
+  const moving = sourcePath !== targetPath
+  if (!moving && migrated.changes.length === 0) {
+    io.out(`${targetPath} is already up to date.`)
+    return 0
+  }
+
+  if (moving) io.out(`${sourcePath} -> ${targetPath}`)
+  for (const change of migrated.changes) io.out(`  ${change}`)
+
+  if (parsed.dryRun) {
+    if (migrated.changes.length > 0) {
+      io.out("")
+      for (const line of renderLineDiff(raw, migrated.text, { from: sourcePath, to: targetPath })) io.out(line)
+    }
+    io.out("")
+    io.out("Dry run: no files were written.")
+    return 0
+  }
+
+  const backupPath = `${sourcePath}.bak`
+  await fs.copyFile(sourcePath, backupPath)
+  await writeFileAtomic(targetPath, migrated.text)
+  if (moving) await fs.rm(sourcePath, { force: true })
+  io.out(`Backed up the original to ${backupPath}.`)
+  io.out(`Wrote ${targetPath} (${migrated.changes.length} change(s)).`)
+  return 0
+}
+
+export async function runConfigCli(args: string[], io: CliIo = DEFAULT_IO, deps: ConfigCliDeps = {}): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  const parsed = parseArgs(args)
+  if (!parsed.ok) {
+    io.err(parsed.error)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  return runMigrate(parsed.value, io, deps.env ?? process.env)
+}
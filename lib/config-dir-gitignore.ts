@@ -7,9 +7,15 @@ export const CONFIG_DIR_GITIGNORE_ENTRIES = [
   "codex-accounts.json",
   "codex-accounts.json.tmp.*",
   "codex-accounts.json.*.tmp",
+  "codex-accounts.key",
   "quarantine/",
+  "backups/",
   "cache/codex-session-affinity.json",
   "cache/codex-snapshots.json",
+  "cache/codex-usage.jsonl",
+  "cache/codex-quota-history.json",
+  "cache/codex-live-events.jsonl",
+  "cache/codex-account-leases.json",
   "logs/codex-plugin/"
 ] as const
 
@@ -0,0 +1,146 @@
+import fs from "node:fs"
+import path from "node:path"
+
+import {
+  loadConfigLayers,
+  resolveConfigWatchPaths,
+  resolveConfigWithSources,
+  type ConfigLayer,
+  type ConfigValueSource,
+  type PluginConfig
+} from "./config.js"
+
+export const CONFIG_RELOAD_DEBOUNCE_MS = 250
+
+export type ConfigReloadInput = {
+  env: Record<string, string | undefined>
+  directory?: string
+  worktree?: string
+  /** Profile to apply; see `loadConfigLayers`. */
+  profile?: string | null
+}
+
+export type ConfigReloadResult =
+  | {
+      ok: true
+      config: PluginConfig
+      sources: Record<string, ConfigValueSource>
+      layers: ConfigLayer[]
+    }
+  | { ok: false; issues: string[] }
+
+export type ConfigWatcher = {
+  close: () => void
+}
+
+export type ConfigReloader = ConfigWatcher & {
+  /** Reloads immediately, e.g. after the selected profile changed, and returns the outcome. */
+  reload: () => ConfigReloadResult
+}
+
+/**
+ * Re-reads the global and project config and applies the selected profile. Unlike startup loading, a file that fails to read or
+ * validate rejects the whole reload so the caller can keep its previous settings.
+ */
+export function reloadConfig(input: ConfigReloadInput): ConfigReloadResult {
+  const loaded = loadConfigLayers(input)
+  if (loaded.issues.length > 0) return { ok: false, issues: loaded.issues }
+  const resolved = resolveConfigWithSources({ env: input.env, file: loaded.config, layers: loaded.layers })
+  return { ok: true, config: resolved.config, sources: resolved.sources, layers: loaded.layers }
+}
+
+/**
+ * Watches the parent directories of `filePaths` so atomic editor saves (write + rename) and files
+ * created after startup are noticed. Bursts of events collapse into one `onChange` call.
+ */
+export function watchConfigFiles(input: {
+  filePaths: string[]
+  onChange: () => void
+  debounceMs?: number
+}): ConfigWatcher {
+  const debounceMs = Math.max(0, input.debounceMs ?? CONFIG_RELOAD_DEBOUNCE_MS)
+  const namesByDir = new Map<string, Set<string>>()
+  for (const filePath of input.filePaths) {
+    const dir = path.dirname(path.resolve(filePath))
+    const names = namesByDir.get(dir) ?? new Set<string>()
+    names.add(path.basename(filePath))
+    namesByDir.set(dir, names)
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+  const schedule = (): void => {
+    if (closed) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = undefined
+      if (!closed) input.onChange()
+    }, debounceMs)
+    timer.unref?.()
+  }
+
+  const watchers: fs.FSWatcher[] = []
+  for (const [dir, names] of namesByDir) {
+    if (!fs.existsSync(dir)) continue
+    try {
+      const watcher = fs.watch(dir, { persistent: false }, (_event, filename) => {
+        if (!filename || names.has(filename.toString())) schedule()
+      })
+      watcher.on("error", () => watcher.close())
+      watchers.push(watcher)
+    } catch (error) {
+      if (error instanceof Error) {
+        // watching is best-effort; an unwatchable directory only disables reload for it
+      }
+    }
+  }
+
+  return {
+    close: () => {
+      closed = true
+      if (timer) clearTimeout(timer)
+      timer = undefined
+      for (const watcher of watchers) watcher.close()
+    }
+  }
+}
+
+/**
+ * Reloads config whenever a watched config file changes. `onReload` only fires when the resolved
+ * config differs from the last applied one; `onInvalid` fires for each rejected edit.
+ * `getProfile` is read on every reload so a profile switch survives later file edits.
+ */
+export function watchConfigForReload(
+  input: ConfigReloadInput & {
+    initialConfig: PluginConfig
+    getProfile?: () => string | null | undefined
+    onReload: (result: Extract<ConfigReloadResult, { ok: true }>, previous: PluginConfig) => void
+    onInvalid: (issues: string[]) => void
+    debounceMs?: number
+  }
+): ConfigReloader {
+  let applied = input.initialConfig
+  let appliedSignature = JSON.stringify(applied)
+  const reload = (): ConfigReloadResult => {
+    const result = reloadConfig({ ...input, profile: input.getProfile ? input.getProfile() : input.profile })
+    if (!result.ok) {
+      input.onInvalid(result.issues)
+      return result
+    }
+    const signature = JSON.stringify(result.config)
+    if (signature === appliedSignature) return result
+    const previous = applied
+    applied = result.config
+    appliedSignature = signature
+    input.onReload(result, previous)
+    return result
+  }
+  const watcher = watchConfigFiles({
+    filePaths: resolveConfigWatchPaths(input),
+    debounceMs: input.debounceMs,
+    onChange: () => {
+      reload()
+    }
+  })
+  return { close: watcher.close, reload }
+}
@@ -1,18 +1,28 @@
 export {
+  type AccountConcurrencyPolicy,
+  type AccountPoolConfig,
   CONFIG_FILE,
+  type ConfigLayer,
+  type ConfigLayerSource,
+  type ConfigProfile,
+  type ConfigValueSource,
   type CustomModelConfig,
   DEFAULT_CODEX_CONFIG,
+  type FetchRetryPolicy,
   DEFAULT_CODEX_CONFIG_TEMPLATE,
   LEGACY_CONFIG_FILE,
+  PROJECT_CONFIG_DIR,
   type BehaviorSettings,
   type CodexSpoofMode,
   type IncludeOption,
   type ModelBehaviorOverride,
   type ModelConfigOverride,
+  type ModelRoutingMode,
   type PersonalityOption,
   type PluginConfig,
   type PluginRuntimeMode,
   type PromptCacheKeyStrategy,
+  type QuotaSwitchFloors,
   type ReasoningSummaryOption,
   type ServiceTierOption,
   type TextVerbosityOption,
@@ -21,9 +31,14 @@ export {
 } from "./config/types.js"
 
 export {
+  collectDeprecatedModelBehaviorKeys,
   type ConfigValidationResult,
   ensureDefaultConfigFile,
   loadConfigFile,
+  loadConfigLayers,
+  type LoadConfigLayersInput,
+  type LoadedConfigLayers,
+  mergeConfigObjects,
   normalizePersonalityOption,
   normalizeServiceTierOption,
   normalizeTextVerbosityOption,
@@ -32,6 +47,7 @@ export {
   parseConfigJsonWithComments,
   parseEnvBoolean,
   parseEnvNumber,
+  parseModelRoutingMode,
   parsePromptCacheKeyStrategy,
   parseUltraReasoningEffort,
   parseRotationStrategy,
@@ -39,30 +55,43 @@ export {
   parseSpoofMode,
   resolveDefaultConfigPath,
   resolveLegacyDefaultConfigPath,
+  resolveConfigWatchPaths,
+  resolveProjectConfigPath,
   type EnsureDefaultConfigFileResult,
   validateConfigFileObject
 } from "./config/file.js"
 
+export { type ConfigMigrationResult, migrateConfigText } from "./config/migrate.js"
+
 export {
   buildResolvedBehaviorSettings,
   cloneBehaviorSettings,
+  getAccountConcurrencyPolicy,
+  getAccountPools,
   getBehaviorSettings,
   getCodexCompactionOverrideEnabled,
   getCompatInputSanitizerEnabled,
   getCustomModels,
+  getActiveProfile,
   getDebugEnabled,
+  getProfileNames,
+  getFetchRetryPolicy,
   getHeaderSnapshotBodiesEnabled,
   getHeaderSnapshotsEnabled,
   getShareableDebugEnabled,
   getHeaderTransformDebugEnabled,
+  getUsageLedgerEnabled,
+  getMockBackendUrl,
   getMode,
   getModelAliasSettings,
+  getModelRoutingMode,
   getPersonality,
   getPidOffsetEnabled,
   getProactiveRefreshBufferMs,
   getProactiveRefreshEnabled,
   getPromptCacheKeyStrategy,
   getQuietMode,
+  getQuotaSwitchFloors,
   getReasoningSummaryOverride,
   getReasoningSummariesOverride,
   getRemapDeveloperMessagesToUserEnabled,
@@ -71,5 +100,7 @@ export {
   getThinkingSummariesOverride,
   getUltraEnabled,
   getUltraReasoningEffort,
-  resolveConfig
+  resolveConfig,
+  resolveConfigWithSources,
+  type ResolvedConfigWithSources
 } from "./config/resolve.js"
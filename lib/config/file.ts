@@ -3,16 +3,22 @@ import fsPromises from "node:fs/promises"
 import os from "node:os"
 import path from "node:path"
 
+import { parseMockBackendOrigin } from "../backend-endpoints.js"
+import { normalizeAccountTags } from "../identity.js"
 import { isRecord } from "../util.js"
 import type { RotationStrategy } from "../types.js"
 import {
   CONFIG_FILE,
   DEFAULT_CODEX_CONFIG_TEMPLATE,
   LEGACY_CONFIG_FILE,
+  PROJECT_CONFIG_DIR,
+  type AccountPoolConfig,
   type BehaviorSettings,
+  type ConfigLayer,
   type CustomModelConfig,
   type IncludeOption,
   type ModelConfigOverride,
+  type ModelRoutingMode,
   type PersonalityOption,
   type PluginConfig,
   type PluginRuntimeMode,
@@ -34,6 +40,19 @@ export type EnsureDefaultConfigFileResult = {
   created: boolean
 }
 
+export type LoadedConfigLayers = {
+  config: Partial<PluginConfig>
+  layers: ConfigLayer[]
+  /** Files that existed but were skipped because they failed to read or validate. */
+  issues: string[]
+}
+
+/**
+ * Runtime keys a checked-out repository must not be able to set for the user. Top-level
+ * `accountPools` is global-only too, so a repository cannot widen or remove its own pool.
+ */
+const GLOBAL_ONLY_RUNTIME_KEYS = ["mockBackendUrl"] as const
+
 type ModelBehaviorSettings = {
   personality?: PersonalityOption
   reasoningEffort?: string
@@ -407,11 +426,25 @@ function normalizeNewBehaviorSections(raw: Record<string, unknown>): BehaviorSet
     }
   }
 
-  if (!global && !perModel) return undefined
+  let perAgent: BehaviorSettings["perAgent"] | undefined
+  if (isRecord(raw.perAgent)) {
+    const agentMap: NonNullable<BehaviorSettings["perAgent"]> = {}
+    for (const [agentName, value] of Object.entries(raw.perAgent)) {
+      const normalized = normalizeModelBehaviorSettings(value)
+      if (!normalized) continue
+      agentMap[agentName] = normalized
+    }
+    if (Object.keys(agentMap).length > 0) {
+      perAgent = agentMap
+    }
+  }
+
+  if (!global && !perModel && !perAgent) return undefined
 
   return {
     ...(global ? { global } : {}),
-    ...(perModel ? { perModel } : {})
+    ...(perModel ? { perModel } : {}),
+    ...(perAgent ? { perAgent } : {})
   }
 }
 
@@ -430,6 +463,30 @@ function normalizeCustomModels(raw: Record<string, unknown>): Record<string, Cus
   return Object.keys(out).length > 0 ? out : undefined
 }
 
+function normalizeAccountPools(raw: Record<string, unknown>): Record<string, AccountPoolConfig> | undefined {
+  if (!isRecord(raw.accountPools)) return undefined
+
+  const out: Record<string, AccountPoolConfig> = {}
+  for (const [name, value] of Object.entries(raw.accountPools)) {
+    const poolName = normalizeNonEmptyString(name)
+    if (!poolName || !isRecord(value) || !Array.isArray(value.paths)) continue
+    const paths = value.paths.flatMap((entry) =>
+      typeof entry === "string" && isAccountPoolPath(entry) ? [entry.trim()] : []
+    )
+    const tags = normalizeAccountTags(value.tags)
+    const identityKeys = Array.isArray(value.identityKeys)
+      ? value.identityKeys.flatMap((entry) => normalizeNonEmptyString(entry) ?? [])
+      : []
+    if (paths.length === 0 || (!tags && identityKeys.length === 0)) continue
+    out[poolName] = {
+      paths,
+      ...(tags ? { tags } : {}),
+      ...(identityKeys.length > 0 ? { identityKeys } : {})
+    }
+  }
+  return Object.keys(out).length > 0 ? out : undefined
+}
+
 function validateModelBehaviorShape(value: unknown, pathPrefix: string, issues: string[]): void {
   if (!isRecord(value)) {
     pushValidationIssue(issues, { path: pathPrefix, expected: "object", actual: value })
@@ -580,6 +637,48 @@ function validateCustomModelShape(value: unknown, pathPrefix: string, issues: st
   }
 }
 
+function isAccountPoolPath(value: string): boolean {
+  const trimmed = value.trim()
+  return trimmed === "~" || trimmed.startsWith("~/") || path.isAbsolute(trimmed)
+}
+
+function validateAccountPoolShape(value: unknown, pathPrefix: string, issues: string[]): void {
+  if (!isRecord(value)) {
+    pushValidationIssue(issues, { path: pathPrefix, expected: "object", actual: value })
+    return
+  }
+  if (!Array.isArray(value.paths) || value.paths.length === 0) {
+    pushValidationIssue(issues, {
+      path: `${pathPrefix}.paths`,
+      expected: "non-empty string array",
+      actual: value.paths
+    })
+  } else {
+    value.paths.forEach((entry, index) => {
+      if (typeof entry !== "string" || !isAccountPoolPath(entry)) {
+        pushValidationIssue(issues, {
+          path: `${pathPrefix}.paths[${index}]`,
+          expected: "absolute or ~/ path glob",
+          actual: entry
+        })
+      }
+    })
+  }
+  let selectors = 0
+  for (const key of ["tags", "identityKeys"] as const) {
+    if (!(key in value)) continue
+    const entries = value[key]
+    if (!Array.isArray(entries) || entries.some((entry) => typeof entry !== "string" || !entry.trim())) {
+      pushValidationIssue(issues, { path: `${pathPrefix}.${key}`, expected: "string array", actual: entries })
+      continue
+    }
+    selectors += entries.length
+  }
+  if (selectors === 0) {
+    issues.push(`${pathPrefix}: expected at least one tag or identity key, found none`)
+  }
+}
+
 export function parseConfigJsonWithComments(raw: string): unknown {
   return JSON.parse(stripJsonComments(raw)) as unknown
 }
@@ -613,7 +712,12 @@ export function parseRuntimeMode(value: unknown): PluginRuntimeMode | undefined
 export function parseRotationStrategy(value: unknown): RotationStrategy | undefined {
   if (typeof value !== "string") return undefined
   const normalized = value.trim().toLowerCase()
-  if (normalized === "sticky" || normalized === "hybrid" || normalized === "round_robin") {
+  if (
+    normalized === "sticky" ||
+    normalized === "hybrid" ||
+    normalized === "round_robin" ||
+    normalized === "quota_balanced"
+  ) {
     return normalized
   }
   return undefined
@@ -626,6 +730,13 @@ export function parsePromptCacheKeyStrategy(value: unknown): PromptCacheKeyStrat
   return undefined
 }
 
+export function parseModelRoutingMode(value: unknown): ModelRoutingMode | undefined {
+  if (typeof value !== "string") return undefined
+  const normalized = value.trim().toLowerCase()
+  if (normalized === "fallback" || normalized === "strict" || normalized === "off") return normalized
+  return undefined
+}
+
 export function parseUltraReasoningEffort(value: unknown): UltraReasoningEffort | undefined {
   if (typeof value !== "string") return undefined
   const normalized = value.trim().toLowerCase()
@@ -695,6 +806,36 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
     }
   }
 
+  const numericSections: Array<{
+    section: "retry" | "circuitBreaker" | "quotaSwitchFloor" | "concurrency"
+    booleans: string[]
+    numbers: string[]
+  }> = [
+    { section: "retry", booleans: ["transient"], numbers: ["maxAttempts", "backoffMs"] },
+    { section: "circuitBreaker", booleans: [], numbers: ["failureThreshold", "cooldownMs"] },
+    { section: "quotaSwitchFloor", booleans: [], numbers: ["fiveHourPct", "weeklyPct"] },
+    { section: "concurrency", booleans: [], numbers: ["maxRequestsPerAccount", "queueTimeoutMs"] }
+  ]
+  for (const check of numericSections) {
+    if (!(check.section in raw)) continue
+    const section = raw[check.section]
+    if (!isRecord(section)) {
+      pushValidationIssue(issues, { path: check.section, expected: "object", actual: section })
+      continue
+    }
+    for (const field of check.booleans) {
+      if (field in section && typeof section[field] !== "boolean") {
+        pushValidationIssue(issues, { path: `${check.section}.${field}`, expected: "boolean", actual: section[field] })
+      }
+    }
+    for (const field of check.numbers) {
+      const value = section[field]
+      if (field in section && (typeof value !== "number" || !Number.isFinite(value))) {
+        pushValidationIssue(issues, { path: `${check.section}.${field}`, expected: "number", actual: value })
+      }
+    }
+  }
+
   if ("runtime" in raw) {
     if (!isRecord(raw.runtime)) {
       pushValidationIssue(issues, { path: "runtime", expected: "object", actual: raw.runtime })
@@ -702,8 +843,9 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
       const runtime = raw.runtime
       const enumChecks: Array<{ field: string; allowed: string[] }> = [
         { field: "mode", allowed: ["native", "codex"] },
-        { field: "rotationStrategy", allowed: ["sticky", "hybrid", "round_robin"] },
+        { field: "rotationStrategy", allowed: ["sticky", "hybrid", "round_robin", "quota_balanced"] },
         { field: "promptCacheKeyStrategy", allowed: ["default", "project"] },
+        { field: "modelRouting", allowed: ["fallback", "strict", "off"] },
         { field: "ultraReasoningEffort", allowed: ["low", "medium", "high", "xhigh", "max"] }
       ]
       for (const check of enumChecks) {
@@ -727,6 +869,7 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
         "headerSnapshots",
         "headerSnapshotBodies",
         "headerTransformDebug",
+        "usageLedger",
         "ultra",
         "pidOffset"
       ]
@@ -739,6 +882,17 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
           })
         }
       }
+
+      if (
+        "mockBackendUrl" in runtime &&
+        (typeof runtime.mockBackendUrl !== "string" || !parseMockBackendOrigin(runtime.mockBackendUrl))
+      ) {
+        pushValidationIssue(issues, {
+          path: "runtime.mockBackendUrl",
+          expected: "loopback http(s) URL with an explicit port",
+          actual: runtime.mockBackendUrl
+        })
+      }
     }
   }
 
@@ -786,6 +940,23 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
     }
   }
 
+  if ("perAgent" in raw) {
+    if (!isRecord(raw.perAgent)) {
+      pushValidationIssue(issues, { path: "perAgent", expected: "object", actual: raw.perAgent })
+    } else {
+      for (const [agentName, agentValue] of Object.entries(raw.perAgent)) {
+        validateModelBehaviorShape(agentValue, `perAgent.${agentName}`, issues)
+        if (isRecord(agentValue) && "variants" in agentValue) {
+          pushValidationIssue(issues, {
+            path: `perAgent.${agentName}.variants`,
+            expected: "no variants (use perModel for variant overrides)",
+            actual: agentValue.variants
+          })
+        }
+      }
+    }
+  }
+
   if ("customModels" in raw) {
     if (!isRecord(raw.customModels)) {
       pushValidationIssue(issues, { path: "customModels", expected: "object", actual: raw.customModels })
@@ -809,6 +980,44 @@ export function validateConfigFileObject(raw: unknown): ConfigValidationResult {
     }
   }
 
+  if ("accountPools" in raw) {
+    if (!isRecord(raw.accountPools)) {
+      pushValidationIssue(issues, { path: "accountPools", expected: "object", actual: raw.accountPools })
+    } else {
+      for (const [name, pool] of Object.entries(raw.accountPools)) {
+        validateAccountPoolShape(pool, `accountPools.${name}`, issues)
+      }
+    }
+  }
+
+  if ("profiles" in raw) {
+    if (!isRecord(raw.profiles)) {
+      pushValidationIssue(issues, { path: "profiles", expected: "object", actual: raw.profiles })
+    } else {
+      for (const [name, profile] of Object.entries(raw.profiles)) {
+        if (name.trim().toLowerCase() === "none") {
+          pushValidationIssue(issues, {
+            path: `profiles.${name}`,
+            expected: 'a name other than "none"',
+            actual: profile
+          })
+          continue
+        }
+        if (isRecord(profile) && "profiles" in profile) {
+          pushValidationIssue(issues, {
+            path: `profiles.${name}.profiles`,
+            expected: "no nested profiles",
+            actual: profile.profiles
+          })
+          continue
+        }
+        for (const issue of validateConfigFileObject(profile).issues) {
+          issues.push(issue.startsWith("$:") ? `profiles.${name}${issue.slice(1)}` : `profiles.${name}.${issue}`)
+        }
+      }
+    }
+  }
+
   return { valid: issues.length === 0, issues }
 }
 
@@ -816,7 +1025,8 @@ export function parseConfigFileObject(raw: unknown): Partial<PluginConfig> {
   return parseConfigFileObjectWithMetadata(raw).config
 }
 
-function collectDeprecatedModelBehaviorKeys(raw: unknown): string[] {
+/** Lists deprecated behavior aliases (`reasoningSummaries`, `verbosityEnabled`, ...) by JSON path. */
+export function collectDeprecatedModelBehaviorKeys(raw: unknown): string[] {
   if (!isRecord(raw)) return []
 
   const keys: string[] = []
@@ -854,6 +1064,12 @@ function collectDeprecatedModelBehaviorKeys(raw: unknown): string[] {
     }
   }
 
+  if (isRecord(raw.perAgent)) {
+    for (const [agentName, agentValue] of Object.entries(raw.perAgent)) {
+      collectBehaviorAlias(agentValue, `perAgent.${agentName}`)
+    }
+  }
+
   if (isRecord(raw.customModels)) {
     for (const [slug, modelValue] of Object.entries(raw.customModels)) {
       collectBehaviorAlias(modelValue, `customModels.${slug}`)
@@ -866,6 +1082,13 @@ function collectDeprecatedModelBehaviorKeys(raw: unknown): string[] {
     }
   }
 
+  if (isRecord(raw.profiles)) {
+    for (const [profileName, profile] of Object.entries(raw.profiles)) {
+      if (!isRecord(profile)) continue
+      keys.push(...collectDeprecatedModelBehaviorKeys(profile).map((key) => `profiles.${profileName}.${key}`))
+    }
+  }
+
   return keys
 }
 
@@ -879,6 +1102,7 @@ function parseConfigFileObjectWithMetadata(raw: unknown): ParsedConfigFile {
 
   const behaviorSettings = normalizeNewBehaviorSections(raw)
   const customModels = normalizeCustomModels(raw)
+  const accountPools = normalizeAccountPools(raw)
   const personalityFromBehavior = behaviorSettings?.global?.personality
   const runtime = isRecord(raw.runtime) ? raw.runtime : undefined
   const modelAliases = isRecord(raw.modelAliases)
@@ -896,9 +1120,29 @@ function parseConfigFileObjectWithMetadata(raw: unknown): ParsedConfigFile {
     isRecord(raw.refreshAhead) && typeof raw.refreshAhead.enabled === "boolean" ? raw.refreshAhead.enabled : undefined
   const proactiveRefreshBufferMs =
     isRecord(raw.refreshAhead) && typeof raw.refreshAhead.bufferMs === "number" ? raw.refreshAhead.bufferMs : undefined
+  const retry = isRecord(raw.retry) ? raw.retry : undefined
+  const transientRetries = typeof retry?.transient === "boolean" ? retry.transient : undefined
+  const maxFetchAttempts = typeof retry?.maxAttempts === "number" ? retry.maxAttempts : undefined
+  const transientRetryBackoffMs = typeof retry?.backoffMs === "number" ? retry.backoffMs : undefined
+  const circuitBreaker = isRecord(raw.circuitBreaker) ? raw.circuitBreaker : undefined
+  const circuitBreakerThreshold =
+    typeof circuitBreaker?.failureThreshold === "number" ? circuitBreaker.failureThreshold : undefined
+  const circuitBreakerCooldownMs =
+    typeof circuitBreaker?.cooldownMs === "number" ? circuitBreaker.cooldownMs : undefined
+  const quotaSwitchFloor = isRecord(raw.quotaSwitchFloor) ? raw.quotaSwitchFloor : undefined
+  const quotaSwitchFloorFiveHourPct =
+    typeof quotaSwitchFloor?.fiveHourPct === "number" ? quotaSwitchFloor.fiveHourPct : undefined
+  const quotaSwitchFloorWeeklyPct =
+    typeof quotaSwitchFloor?.weeklyPct === "number" ? quotaSwitchFloor.weeklyPct : undefined
+  const concurrency = isRecord(raw.concurrency) ? raw.concurrency : undefined
+  const maxConcurrentRequestsPerAccount =
+    typeof concurrency?.maxRequestsPerAccount === "number" ? concurrency.maxRequestsPerAccount : undefined
+  const concurrencyQueueTimeoutMs =
+    typeof concurrency?.queueTimeoutMs === "number" ? concurrency.queueTimeoutMs : undefined
   const quietMode = typeof raw.quiet === "boolean" ? raw.quiet : undefined
   const mode = parseRuntimeMode(runtime?.mode)
   const rotationStrategy = parseRotationStrategy(runtime?.rotationStrategy)
+  const modelRouting = parseModelRoutingMode(runtime?.modelRouting)
   const promptCacheKeyStrategy = parsePromptCacheKeyStrategy(runtime?.promptCacheKeyStrategy)
   const spoofMode = mode === "native" ? "native" : mode === "codex" ? "codex" : undefined
   const compatInputSanitizer = typeof runtime?.sanitizeInputs === "boolean" ? runtime.sanitizeInputs : undefined
@@ -912,21 +1156,47 @@ function parseConfigFileObjectWithMetadata(raw: unknown): ParsedConfigFile {
     typeof runtime?.headerSnapshotBodies === "boolean" ? runtime.headerSnapshotBodies : undefined
   const headerTransformDebug =
     typeof runtime?.headerTransformDebug === "boolean" ? runtime.headerTransformDebug : undefined
+  const usageLedger = typeof runtime?.usageLedger === "boolean" ? runtime.usageLedger : undefined
+  const mockBackendUrl =
+    typeof runtime?.mockBackendUrl === "string" ? parseMockBackendOrigin(runtime.mockBackendUrl) : undefined
   const pidOffsetEnabled = typeof runtime?.pidOffset === "boolean" ? runtime.pidOffset : undefined
   const ultraEnabled = typeof runtime?.ultra === "boolean" ? runtime.ultra : undefined
   const ultraReasoningEffort = parseUltraReasoningEffort(runtime?.ultraReasoningEffort)
+  const profiles = isRecord(raw.profiles)
+    ? Object.fromEntries(
+        Object.entries(raw.profiles).flatMap(([name, profile]) => {
+          if (!isRecord(profile)) return []
+          const {
+            mockBackendUrl: _mockBackendUrl,
+            accountPools: _accountPools,
+            ...parsed
+          } = parseConfigFileObjectWithMetadata(profile).config
+          return [[name, parsed]]
+        })
+      )
+    : undefined
 
   return {
     config: {
       debug,
       proactiveRefresh,
       proactiveRefreshBufferMs,
+      transientRetries,
+      maxFetchAttempts,
+      transientRetryBackoffMs,
+      circuitBreakerThreshold,
+      circuitBreakerCooldownMs,
+      quotaSwitchFloorFiveHourPct,
+      quotaSwitchFloorWeeklyPct,
+      maxConcurrentRequestsPerAccount,
+      concurrencyQueueTimeoutMs,
       quiet: quietMode,
       quietMode,
       pidOffsetEnabled,
       personality: personalityFromBehavior,
       mode,
       rotationStrategy,
+      modelRouting,
       promptCacheKeyStrategy,
       spoofMode,
       compatInputSanitizer,
@@ -936,11 +1206,15 @@ function parseConfigFileObjectWithMetadata(raw: unknown): ParsedConfigFile {
       headerSnapshots,
       headerSnapshotBodies,
       headerTransformDebug,
+      usageLedger,
+      mockBackendUrl,
       ultraEnabled,
       ultraReasoningEffort,
       behaviorSettings,
       customModels,
-      modelAliases
+      modelAliases,
+      accountPools,
+      profiles
     },
     deprecatedKeys: collectDeprecatedModelBehaviorKeys(raw)
   }
@@ -1019,10 +1293,37 @@ export async function ensureDefaultConfigFile(
   return { filePath, created: true }
 }
 
-export function loadConfigFile(
-  input: { env?: Record<string, string | undefined>; filePath?: string } = {}
-): Partial<PluginConfig> {
-  const env = input.env ?? process.env
+function readValidatedConfigFile(filePath: string, issues?: string[]): Record<string, unknown> | undefined {
+  try {
+    const raw = fs.readFileSync(filePath, "utf8")
+    const parsed = parseConfigJsonWithComments(raw)
+    const validation = validateConfigFileObject(parsed)
+    if (!validation.valid || !isRecord(parsed)) {
+      console.warn(`[opencode-codex-auth] Invalid codex-config at ${filePath}. ${validation.issues.join("; ")}`)
+      issues?.push(`${filePath}: ${validation.issues.join("; ")}`)
+      return undefined
+    }
+    const deprecatedKeys = collectDeprecatedModelBehaviorKeys(parsed)
+    if (deprecatedKeys.length > 0) {
+      console.warn(
+        `[opencode-codex-auth] Deprecated config key(s) in ${filePath}: ${deprecatedKeys.join(", ")}. Use reasoningSummary, textVerbosity, and serviceTier: "auto" instead.`
+      )
+    }
+    return parsed
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    console.warn(`[opencode-codex-auth] Failed to read codex-config at ${filePath}. ${detail}`)
+    issues?.push(`${filePath}: ${detail}`)
+    return undefined
+  }
+}
+
+function loadGlobalConfigRaw(input: {
+  env: Record<string, string | undefined>
+  filePath?: string
+  issues?: string[]
+}): { filePath: string; raw: Record<string, unknown> } | undefined {
+  const env = input.env
   const explicitPath = input.filePath ?? env.OPENCODE_OPENAI_MULTI_CONFIG_PATH?.trim()
   const candidates = explicitPath ? [explicitPath] : resolveDefaultConfigCandidates(env)
   const canonicalPath = explicitPath ? undefined : resolveDefaultConfigPath(env)
@@ -1037,38 +1338,162 @@ export function loadConfigFile(
 
   for (const filePath of candidates) {
     if (!filePath || !fs.existsSync(filePath)) continue
-    try {
-      const raw = fs.readFileSync(filePath, "utf8")
-      const parsed = parseConfigJsonWithComments(raw)
-      const validation = validateConfigFileObject(parsed)
-      if (!validation.valid) {
-        console.warn(`[opencode-codex-auth] Invalid codex-config at ${filePath}. ${validation.issues.join("; ")}`)
-        continue
-      }
-      const result = parseConfigFileObjectWithMetadata(parsed)
-      if (result.deprecatedKeys.length > 0) {
-        console.warn(
-          `[opencode-codex-auth] Deprecated config key(s) in ${filePath}: ${result.deprecatedKeys.join(", ")}. Use reasoningSummary, textVerbosity, and serviceTier: "auto" instead.`
-        )
-      }
-      if (
-        shouldQuarantineLegacyAfterCanonicalLoad &&
-        filePath === canonicalPath &&
-        legacyPath &&
-        fs.existsSync(legacyPath)
-      ) {
-        const quarantinedPath = quarantineLegacyConfigSync(legacyPath)
-        const suffix = quarantinedPath ? ` Quarantined legacy file to ${quarantinedPath}.` : ""
-        console.warn(
-          `[opencode-codex-auth] Found both ${CONFIG_FILE} and ${LEGACY_CONFIG_FILE}. Using ${CONFIG_FILE}.${suffix}`
-        )
-      }
-      return result.config
-    } catch (error) {
-      const detail = error instanceof Error ? error.message : String(error)
-      console.warn(`[opencode-codex-auth] Failed to read codex-config at ${filePath}. ${detail}`)
+    const raw = readValidatedConfigFile(filePath, input.issues)
+    if (!raw) continue
+    if (
+      shouldQuarantineLegacyAfterCanonicalLoad &&
+      filePath === canonicalPath &&
+      legacyPath &&
+      fs.existsSync(legacyPath)
+    ) {
+      const quarantinedPath = quarantineLegacyConfigSync(legacyPath)
+      const suffix = quarantinedPath ? ` Quarantined legacy file to ${quarantinedPath}.` : ""
+      console.warn(
+        `[opencode-codex-auth] Found both ${CONFIG_FILE} and ${LEGACY_CONFIG_FILE}. Using ${CONFIG_FILE}.${suffix}`
+      )
     }
+    return { filePath, raw }
+  }
+
+  return undefined
+}
+
+/**
+ * Finds the nearest `.opencode/codex-config.jsonc` from `directory` up to the OpenCode worktree root.
+ * Without a worktree (or with the filesystem root as worktree) only `directory` itself is checked.
+ */
+export function resolveProjectConfigPath(input: { directory?: string; worktree?: string }): string | undefined {
+  const worktree = input.worktree?.trim() ? path.resolve(input.worktree) : undefined
+  const root = worktree && path.dirname(worktree) !== worktree ? worktree : undefined
+  let current = input.directory?.trim() ? path.resolve(input.directory) : root
+  if (!current) return undefined
+
+  while (true) {
+    const candidate = path.join(current, PROJECT_CONFIG_DIR, CONFIG_FILE)
+    if (fs.existsSync(candidate)) return candidate
+    if (!root || current === root) return undefined
+    const parent = path.dirname(current)
+    const relative = path.relative(root, parent)
+    if (parent === current || relative.startsWith("..") || path.isAbsolute(relative)) return undefined
+    current = parent
   }
+}
+
+/**
+ * Lists the config files whose edits should trigger a reload: the global file (canonical and
+ * legacy name unless an explicit path is set) and the project overlay, or the worktree-root
+ * location where one would be created.
+ */
+export function resolveConfigWatchPaths(input: LoadConfigLayersInput = {}): string[] {
+  const env = input.env ?? process.env
+  const explicitPath = input.filePath ?? env.OPENCODE_OPENAI_MULTI_CONFIG_PATH?.trim()
+  const paths = explicitPath ? [explicitPath] : [resolveDefaultConfigPath(env), resolveLegacyDefaultConfigPath(env)]
+  const projectRoot = input.worktree?.trim() || input.directory?.trim()
+  const projectPath =
+    resolveProjectConfigPath(input) ??
+    (projectRoot && path.dirname(path.resolve(projectRoot)) !== path.resolve(projectRoot)
+      ? path.join(path.resolve(projectRoot), PROJECT_CONFIG_DIR, CONFIG_FILE)
+      : undefined)
+  if (projectPath) paths.push(projectPath)
+  return Array.from(new Set(paths.map((filePath) => path.resolve(filePath))))
+}
+
+/** Deep-merges config objects; nested objects merge key by key, arrays and scalars are replaced. */
+export function mergeConfigObjects(
+  base: Record<string, unknown>,
+  overlay: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = merged[key]
+    merged[key] = isRecord(current) && isRecord(value) ? mergeConfigObjects(current, value) : value
+  }
+  return merged
+}
+
+function dropGlobalOnlyKeys(input: Record<string, unknown>, origin: string): Record<string, unknown> {
+  const { accountPools, ...raw } = input
+  if (accountPools !== undefined) {
+    console.warn(
+      `[opencode-codex-auth] Ignoring accountPools in ${origin}; account pools can only be set in the global ${CONFIG_FILE}.`
+    )
+  }
+  if (!isRecord(raw.runtime)) return raw
+  const runtime = { ...raw.runtime }
+  for (const key of GLOBAL_ONLY_RUNTIME_KEYS) {
+    if (!(key in runtime)) continue
+    delete runtime[key]
+    console.warn(
+      `[opencode-codex-auth] Ignoring runtime.${key} in ${origin}; set runtime.${key} in the global ${CONFIG_FILE}.`
+    )
+  }
+  return { ...raw, runtime }
+}
+
+export type LoadConfigLayersInput = {
+  env?: Record<string, string | undefined>
+  filePath?: string
+  directory?: string
+  worktree?: string
+  /** Profile to apply; defaults to `OPENCODE_OPENAI_MULTI_PROFILE`. `null` applies no profile. */
+  profile?: string | null
+}
+
+/**
+ * Loads the global config file, the project overlay deep-merged over it when a project directory
+ * is given, and then the selected profile from the merged `profiles` section. Each file is
+ * validated on its own; an invalid overlay is skipped and an unknown profile is ignored.
+ */
+export function loadConfigLayers(input: LoadConfigLayersInput = {}): LoadedConfigLayers {
+  const env = input.env ?? process.env
+  const layers: ConfigLayer[] = []
+  const issues: string[] = []
+  const globalFile = loadGlobalConfigRaw({ env, filePath: input.filePath, issues })
+  let merged: Record<string, unknown> = {}
+  if (globalFile) {
+    layers.push({ source: "global", filePath: globalFile.filePath, config: parseConfigFileObject(globalFile.raw) })
+    merged = globalFile.raw
+  }
+
+  const projectPath = resolveProjectConfigPath(input)
+  const isGlobalFile = projectPath && globalFile && path.resolve(globalFile.filePath) === path.resolve(projectPath)
+  const projectRaw = projectPath && !isGlobalFile ? readValidatedConfigFile(projectPath, issues) : undefined
+  if (projectPath && projectRaw) {
+    const overlay = dropGlobalOnlyKeys(projectRaw, `project config ${projectPath}`)
+    layers.push({ source: "project", filePath: projectPath, config: parseConfigFileObject(overlay) })
+    merged = mergeConfigObjects(merged, overlay)
+  }
+
+  const profileName = input.profile === null ? undefined : (input.profile ?? env.OPENCODE_OPENAI_MULTI_PROFILE)?.trim()
+  let appliedProfile: string | undefined
+  if (profileName) {
+    const profiles = isRecord(merged.profiles) ? merged.profiles : {}
+    const profileRaw = profiles[profileName]
+    if (isRecord(profileRaw)) {
+      const definedIn = [...layers]
+        .reverse()
+        .find((layer) => layer.source !== "profile" && layer.config.profiles?.[profileName] !== undefined)
+      const filePath = definedIn?.filePath ?? globalFile?.filePath ?? CONFIG_FILE
+      const overlay = dropGlobalOnlyKeys(profileRaw, `profile "${profileName}" (${filePath})`)
+      layers.push({ source: "profile", filePath, config: parseConfigFileObject(overlay) })
+      merged = mergeConfigObjects(merged, overlay)
+      appliedProfile = profileName
+    } else {
+      const available = Object.keys(profiles)
+      console.warn(
+        `[opencode-codex-auth] Unknown codex-config profile "${profileName}". ${available.length > 0 ? `Available: ${available.join(", ")}.` : "No profiles are defined."}`
+      )
+    }
+  }
+
+  if (layers.length === 0) return { config: {}, layers, issues }
+  return {
+    config: { ...parseConfigFileObject(merged), ...(appliedProfile ? { profile: appliedProfile } : {}) },
+    layers,
+    issues
+  }
+}
 
-  return {}
+export function loadConfigFile(input: LoadConfigLayersInput = {}): Partial<PluginConfig> {
+  return loadConfigLayers(input).config
 }
@@ -0,0 +1,348 @@
+import {
+  normalizeVerbosityOption,
+  parseConfigFileObject,
+  parseConfigJsonWithComments,
+  validateConfigFileObject
+} from "./file.js"
+
+export type ConfigMigrationResult = {
+  text: string
+  /** One line per rewrite, e.g. `global.reasoningSummaries -> reasoningSummary: "auto"`. */
+  changes: string[]
+}
+
+type JsoncObject = { kind: "object"; start: number; end: number; properties: JsoncProperty[] }
+
+type JsoncNode =
+  | JsoncObject
+  | { kind: "array"; start: number; end: number; items: JsoncNode[] }
+  | { kind: "scalar"; start: number; end: number; value: unknown }
+
+type JsoncProperty = {
+  key: string
+  keyStart: number
+  keyEnd: number
+  value: JsoncNode
+  /** Offset of the comma after the value, when another property follows. */
+  commaIndex?: number
+}
+
+type TextEdit = { start: number; end: number; text: string }
+
+type MigrationStep = { edits: TextEdit[]; change: string }
+
+const LITERAL_PATTERN = /true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+
+/**
+ * Parses JSON-with-comments into a tree that keeps source offsets, so rewrites can touch
+ * individual keys and values while leaving comments and formatting alone.
+ */
+function parseJsoncTree(text: string): JsoncNode {
+  let index = 0
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${index}`)
+  }
+
+  const skipTrivia = () => {
+    while (index < text.length) {
+      const char = text[index]
+      if (char === " " || char === "\t" || char === "\n" || char === "\r" || char === "\uFEFF") {
+        index += 1
+        continue
+      }
+      if (char === "/" && text[index + 1] === "/") {
+        const newline = text.indexOf("\n", index)
+        index = newline === -1 ? text.length : newline
+        continue
+      }
+      if (char === "/" && text[index + 1] === "*") {
+        const close = text.indexOf("*/", index + 2)
+        if (close === -1) fail("Unterminated comment")
+        index = close + 2
+        continue
+      }
+      return
+    }
+  }
+
+  const readString = (): { value: string; start: number; end: number } => {
+    const start = index
+    index += 1
+    while (index < text.length) {
+      const char = text[index]
+      if (char === "\\") {
+        index += 2
+        continue
+      }
+      index += 1
+      if (char === '"') {
+        return { value: JSON.parse(text.slice(start, index)) as string, start, end: index }
+      }
+    }
+    return fail("Unterminated string")
+  }
+
+  const readValue = (): JsoncNode => {
+    skipTrivia()
+    const start = index
+    const char = text[index]
+
+    if (char === "{") {
+      index += 1
+      const properties: JsoncProperty[] = []
+      skipTrivia()
+      if (text[index] === "}") {
+        index += 1
+        return { kind: "object", start, end: index, properties }
+      }
+      for (;;) {
+        skipTrivia()
+        if (text[index] !== '"') fail("Expected property name")
+        const key = readString()
+        skipTrivia()
+        if (text[index] !== ":") fail("Expected ':'")
+        index += 1
+        const property: JsoncProperty = { key: key.value, keyStart: key.start, keyEnd: key.end, value: readValue() }
+        properties.push(property)
+        skipTrivia()
+        if (text[index] === ",") {
+          property.commaIndex = index
+          index += 1
+          continue
+        }
+        if (text[index] !== "}") fail("Expected ',' or '}'")
+        index += 1
+        return { kind: "object", start, end: index, properties }
+      }
+    }
+
+    if (char === "[") {
+      index += 1
+      const items: JsoncNode[] = []
+      skipTrivia()
+      if (text[index] === "]") {
+        index += 1
+        return { kind: "array", start, end: index, items }
+      }
+      for (;;) {
+        items.push(readValue())
+        skipTrivia()
+        if (text[index] === ",") {
+          index += 1
+          continue
+        }
+        if (text[index] !== "]") fail("Expected ',' or ']'")
+        index += 1
+        return { kind: "array", start, end: index, items }
+      }
+    }
+
+    if (char === '"') {
+      const value = readString()
+      return { kind: "scalar", start, end: value.end, value: value.value }
+    }
+
+    LITERAL_PATTERN.lastIndex = index
+    const literal = LITERAL_PATTERN.exec(text)
+    if (!literal) return fail("Unexpected token")
+    index += literal[0].length
+    return { kind: "scalar", start, end: index, value: JSON.parse(literal[0]) as unknown }
+  }
+
+  const root = readValue()
+  skipTrivia()
+  if (index < text.length) fail("Unexpected trailing content")
+  return root
+}
+
+function findProperty(object: JsoncObject, key: string): JsoncProperty | undefined {
+  return object.properties.find((property) => property.key === key)
+}
+
+function objectEntries(object: JsoncObject | undefined): Array<[string, JsoncObject]> {
+  if (!object) return []
+  return object.properties.flatMap((property) =>
+    property.value.kind === "object" ? [[property.key, property.value] as [string, JsoncObject]] : []
+  )
+}
+
+function objectProperty(object: JsoncObject, key: string): JsoncObject | undefined {
+  const value = findProperty(object, key)?.value
+  return value?.kind === "object" ? value : undefined
+}
+
+function scalarValue(property: JsoncProperty | undefined): unknown {
+  return property?.value.kind === "scalar" ? property.value.value : undefined
+}
+
+function lineStartOf(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1
+}
+
+function renameProperty(property: JsoncProperty, key: string, value: unknown): TextEdit[] {
+  return [
+    { start: property.keyStart, end: property.keyEnd, text: JSON.stringify(key) },
+    { start: property.value.start, end: property.value.end, text: JSON.stringify(value) }
+  ]
+}
+
+/** Removes a property and its comma, keeping comments on neighbouring lines intact. */
+function deleteProperty(text: string, object: JsoncObject, property: JsoncProperty): TextEdit[] {
+  const lineStart = lineStartOf(text, property.keyStart)
+  const ownsLine = text.slice(lineStart, property.keyStart).trim() === ""
+
+  if (property.commaIndex !== undefined) {
+    let end = property.commaIndex + 1
+    const newline = text.indexOf("\n", end)
+    const lineEnd = newline === -1 ? text.length : newline
+    if (ownsLine && text.slice(end, lineEnd).trim() === "") {
+      end = newline === -1 ? text.length : newline + 1
+    } else {
+      while (text[end] === " " || text[end] === "\t") end += 1
+    }
+    return [{ start: ownsLine ? lineStart : property.keyStart, end, text: "" }]
+  }
+
+  const previous = object.properties[object.properties.indexOf(property) - 1]
+  let start = property.keyStart
+  if (ownsLine && lineStart > 0) {
+    start = text[lineStart - 2] === "\r" ? lineStart - 2 : lineStart - 1
+  }
+  const edits: TextEdit[] = [{ start, end: property.value.end, text: "" }]
+  if (previous?.commaIndex !== undefined) {
+    edits.push({ start: previous.commaIndex, end: previous.commaIndex + 1, text: "" })
+  }
+  return edits
+}
+
+function behaviorObjectStep(text: string, object: JsoncObject, pathPrefix: string): MigrationStep | undefined {
+  const reasoningSummary = findProperty(object, "reasoningSummary")
+  for (const alias of ["reasoningSummaries", "thinkingSummaries"]) {
+    const property = findProperty(object, alias)
+    const value = scalarValue(property)
+    if (!property || typeof value !== "boolean") continue
+    if (reasoningSummary) {
+      return {
+        edits: deleteProperty(text, object, property),
+        change: `${pathPrefix}.${alias}: removed (reasoningSummary is already set)`
+      }
+    }
+    const summary = value ? "auto" : "none"
+    return {
+      edits: renameProperty(property, "reasoningSummary", summary),
+      change: `${pathPrefix}.${alias} -> reasoningSummary: "${summary}"`
+    }
+  }
+
+  const verbosityEnabled = findProperty(object, "verbosityEnabled")
+  const verbosity = findProperty(object, "verbosity")
+  const legacyVerbosity = verbosityEnabled ?? verbosity
+  if (legacyVerbosity) {
+    if (findProperty(object, "textVerbosity")) {
+      return {
+        edits: deleteProperty(text, object, legacyVerbosity),
+        change: `${pathPrefix}.${legacyVerbosity.key}: removed (textVerbosity is already set)`
+      }
+    }
+    // Same precedence as normalizeModelBehaviorSettings in the loader.
+    const enabled = scalarValue(verbosityEnabled)
+    const level = normalizeVerbosityOption(scalarValue(verbosity))
+    const textVerbosity = enabled === false ? "none" : (level ?? (enabled === true ? "default" : undefined))
+    if (!textVerbosity) {
+      return {
+        edits: deleteProperty(text, object, legacyVerbosity),
+        change: `${pathPrefix}.${legacyVerbosity.key}: removed (no effect)`
+      }
+    }
+    return {
+      edits: renameProperty(legacyVerbosity, "textVerbosity", textVerbosity),
+      change: `${pathPrefix}.${legacyVerbosity.key} -> textVerbosity: "${textVerbosity}"`
+    }
+  }
+
+  const serviceTier = findProperty(object, "serviceTier")
+  const tier = scalarValue(serviceTier)
+  if (serviceTier && typeof tier === "string" && tier.trim().toLowerCase() === "default") {
+    return {
+      edits: [{ start: serviceTier.value.start, end: serviceTier.value.end, text: '"auto"' }],
+      change: `${pathPrefix}.serviceTier: "default" -> "auto"`
+    }
+  }
+
+  return undefined
+}
+
+function collectBehaviorObjects(root: JsoncObject, pathPrefix: string): Array<[string, JsoncObject]> {
+  const out: Array<[string, JsoncObject]> = []
+  const global = objectProperty(root, "global")
+  if (global) out.push([`${pathPrefix}global`, global])
+
+  for (const section of ["perModel", "customModels"]) {
+    for (const [name, model] of objectEntries(objectProperty(root, section))) {
+      out.push([`${pathPrefix}${section}.${name}`, model])
+      for (const [variantName, variant] of objectEntries(objectProperty(model, "variants"))) {
+        out.push([`${pathPrefix}${section}.${name}.variants.${variantName}`, variant])
+      }
+    }
+  }
+
+  for (const [agentName, agent] of objectEntries(objectProperty(root, "perAgent"))) {
+    out.push([`${pathPrefix}perAgent.${agentName}`, agent])
+  }
+
+  return out
+}
+
+function nextMigrationStep(text: string): MigrationStep | undefined {
+  const root = parseJsoncTree(text)
+  if (root.kind !== "object") return undefined
+
+  const targets = collectBehaviorObjects(root, "")
+  for (const [profileName, profile] of objectEntries(objectProperty(root, "profiles"))) {
+    targets.push(...collectBehaviorObjects(profile, `profiles.${profileName}.`))
+  }
+
+  for (const [pathPrefix, object] of targets) {
+    const step = behaviorObjectStep(text, object, pathPrefix)
+    if (step) return step
+  }
+  return undefined
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  let out = text
+  for (const edit of [...edits].sort((left, right) => right.start - left.start)) {
+    out = `${out.slice(0, edit.start)}${edit.text}${out.slice(edit.end)}`
+  }
+  return out
+}
+
+/**
+ * Rewrites deprecated behavior aliases (`reasoningSummaries`, `thinkingSummaries`, `verbosityEnabled`,
+ * `verbosity`, `serviceTier: "default"`) in codex-config text to their current spelling. Only the
+ * affected keys and values are edited, so comments and formatting elsewhere are preserved.
+ *
+ * The input must be a valid config. Throws when it is not, or when the rewritten text would load
+ * differently from the original.
+ */
+export function migrateConfigText(raw: string): ConfigMigrationResult {
+  const before = parseConfigJsonWithComments(raw)
+  const validation = validateConfigFileObject(before)
+  if (!validation.valid) {
+    throw new Error(validation.issues.join("; "))
+  }
+
+  let text = raw
+  const changes: string[] = []
+  for (let step = nextMigrationStep(text); step; step = nextMigrationStep(text)) {
+    text = applyEdits(text, step.edits)
+    changes.push(step.change)
+  }
+
+  const after = parseConfigJsonWithComments(text)
+  if (JSON.stringify(parseConfigFileObject(after)) !== JSON.stringify(parseConfigFileObject(before))) {
+    throw new Error("Rewritten config would load differently from the original")
+  }
+  return { text, changes }
+}
@@ -1,4 +1,6 @@
+import { parseMockBackendOrigin } from "../backend-endpoints.js"
 import type { RotationStrategy } from "../types.js"
+import { isRecord } from "../util.js"
 import {
   normalizePersonalityOption,
   normalizeServiceTierOption,
@@ -6,6 +8,7 @@ import {
   normalizeVerbosityOption,
   parseEnvBoolean,
   parseEnvNumber,
+  parseModelRoutingMode,
   parsePromptCacheKeyStrategy,
   parseUltraReasoningEffort,
   parseRotationStrategy,
@@ -13,14 +16,21 @@ import {
   parseSpoofMode
 } from "./file.js"
 import type {
+  AccountConcurrencyPolicy,
+  AccountPoolConfig,
   BehaviorSettings,
   CodexSpoofMode,
+  ConfigLayer,
+  ConfigValueSource,
   CustomModelConfig,
+  FetchRetryPolicy,
   ModelBehaviorOverride,
+  ModelRoutingMode,
   PersonalityOption,
   PluginConfig,
   PluginRuntimeMode,
   PromptCacheKeyStrategy,
+  QuotaSwitchFloors,
   UltraReasoningEffort
 } from "./types.js"
 
@@ -73,7 +83,14 @@ export function cloneBehaviorSettings(input: BehaviorSettings | undefined): Beha
             }
           ])
         )
-      : undefined
+      : undefined,
+    ...(input.perAgent
+      ? {
+          perAgent: Object.fromEntries(
+            Object.entries(input.perAgent).map(([key, value]) => [key, cloneBehaviorOverride(value) ?? {}])
+          )
+        }
+      : {})
   }
 }
 
@@ -133,7 +150,11 @@ export function buildResolvedBehaviorSettings(input: {
     behaviorSettings.global = globalBehavior
   }
 
-  return behaviorSettings.global !== undefined || behaviorSettings.perModel !== undefined ? behaviorSettings : undefined
+  return behaviorSettings.global !== undefined ||
+    behaviorSettings.perModel !== undefined ||
+    behaviorSettings.perAgent !== undefined
+    ? behaviorSettings
+    : undefined
 }
 
 export function getCustomModels(cfg: PluginConfig): Record<string, CustomModelConfig> | undefined {
@@ -143,6 +164,20 @@ export function getCustomModels(cfg: PluginConfig): Record<string, CustomModelCo
   )
 }
 
+export function getAccountPools(cfg: PluginConfig): Record<string, AccountPoolConfig> | undefined {
+  if (!cfg.accountPools) return undefined
+  return Object.fromEntries(
+    Object.entries(cfg.accountPools).map(([name, pool]) => [
+      name,
+      {
+        paths: [...pool.paths],
+        ...(pool.tags ? { tags: [...pool.tags] } : {}),
+        ...(pool.identityKeys ? { identityKeys: [...pool.identityKeys] } : {})
+      }
+    ])
+  )
+}
+
 export function getModelAliasSettings(cfg: PluginConfig): PluginConfig["modelAliases"] {
   return {
     fast: cfg.modelAliases?.fast !== false,
@@ -151,25 +186,13 @@ export function getModelAliasSettings(cfg: PluginConfig): PluginConfig["modelAli
   }
 }
 
-export function resolveConfig(input: {
-  env: Record<string, string | undefined>
-  file?: Partial<PluginConfig>
-}): PluginConfig {
-  const env = input.env
-  const file = input.file ?? {}
-  const fileBehavior = file.behaviorSettings
-
-  const envDebug = env.OPENCODE_OPENAI_MULTI_DEBUG === "1" || env.DEBUG_CODEX_PLUGIN === "1"
-
-  const proactiveRefresh = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_PROACTIVE_REFRESH) ?? file.proactiveRefresh
-  const proactiveRefreshBufferMs =
-    parseEnvNumber(env.OPENCODE_OPENAI_MULTI_PROACTIVE_REFRESH_BUFFER_MS) ?? file.proactiveRefreshBufferMs
-  const quietMode = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_QUIET) ?? file.quietMode ?? file.quiet
-  const pidOffsetEnabled = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_PID_OFFSET) ?? file.pidOffsetEnabled
-  const rotationStrategy = parseRotationStrategy(env.OPENCODE_OPENAI_MULTI_ROTATION_STRATEGY) ?? file.rotationStrategy
-  const promptCacheKeyStrategy =
-    parsePromptCacheKeyStrategy(env.OPENCODE_OPENAI_MULTI_PROMPT_CACHE_KEY_STRATEGY) ?? file.promptCacheKeyStrategy
+export type ResolvedConfigWithSources = {
+  config: PluginConfig
+  /** Source of every effective leaf value, keyed by dotted `PluginConfig` path. */
+  sources: Record<string, ConfigValueSource>
+}
 
+function readEnvBehaviorInputs(env: Record<string, string | undefined>) {
   const envPersonality = normalizePersonalityOption(env.OPENCODE_OPENAI_MULTI_PERSONALITY)
   if (
     env.OPENCODE_OPENAI_MULTI_THINKING_SUMMARIES !== undefined &&
@@ -191,73 +214,168 @@ export function resolveConfig(input: {
     )
   }
   const envServiceTier = normalizeServiceTierOption(env.OPENCODE_OPENAI_MULTI_SERVICE_TIER)
-  const spoofModeFromEnv = parseSpoofMode(env.OPENCODE_OPENAI_MULTI_SPOOF_MODE)
-  const modeFromEnv = parseRuntimeMode(env.OPENCODE_OPENAI_MULTI_MODE)
+  return { envPersonality, envReasoningSummaries, envVerbosityEnabled, envVerbosity, envTextVerbosity, envServiceTier }
+}
+
+/** Values set by environment variables only; they take precedence over every config file layer. */
+function readEnvConfig(env: Record<string, string | undefined>): Partial<PluginConfig> {
+  return {
+    debug: env.OPENCODE_OPENAI_MULTI_DEBUG === "1" || env.DEBUG_CODEX_PLUGIN === "1" ? true : undefined,
+    proactiveRefresh: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_PROACTIVE_REFRESH),
+    proactiveRefreshBufferMs: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_PROACTIVE_REFRESH_BUFFER_MS),
+    transientRetries: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_TRANSIENT_RETRIES),
+    maxFetchAttempts: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_MAX_ATTEMPTS),
+    transientRetryBackoffMs: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_TRANSIENT_RETRY_BACKOFF_MS),
+    circuitBreakerThreshold: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_CIRCUIT_BREAKER_THRESHOLD),
+    circuitBreakerCooldownMs: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_CIRCUIT_BREAKER_COOLDOWN_MS),
+    quotaSwitchFloorFiveHourPct: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_QUOTA_SWITCH_FLOOR_5H_PCT),
+    quotaSwitchFloorWeeklyPct: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_QUOTA_SWITCH_FLOOR_WEEKLY_PCT),
+    maxConcurrentRequestsPerAccount: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_MAX_CONCURRENT_REQUESTS_PER_ACCOUNT),
+    concurrencyQueueTimeoutMs: parseEnvNumber(env.OPENCODE_OPENAI_MULTI_CONCURRENCY_QUEUE_TIMEOUT_MS),
+    quietMode: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_QUIET),
+    pidOffsetEnabled: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_PID_OFFSET),
+    rotationStrategy: parseRotationStrategy(env.OPENCODE_OPENAI_MULTI_ROTATION_STRATEGY),
+    modelRouting: parseModelRoutingMode(env.OPENCODE_OPENAI_MULTI_MODEL_ROUTING),
+    promptCacheKeyStrategy: parsePromptCacheKeyStrategy(env.OPENCODE_OPENAI_MULTI_PROMPT_CACHE_KEY_STRATEGY),
+    spoofMode: parseSpoofMode(env.OPENCODE_OPENAI_MULTI_SPOOF_MODE),
+    mode: parseRuntimeMode(env.OPENCODE_OPENAI_MULTI_MODE),
+    compatInputSanitizer: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_COMPAT_INPUT_SANITIZER),
+    remapDeveloperMessagesToUser: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_REMAP_DEVELOPER_MESSAGES_TO_USER),
+    codexCompactionOverride: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_CODEX_COMPACTION_OVERRIDE),
+    shareableDebug: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_SHAREABLE_DEBUG),
+    headerSnapshots: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_SNAPSHOTS),
+    headerSnapshotBodies: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_SNAPSHOT_BODIES),
+    headerTransformDebug: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_TRANSFORM_DEBUG),
+    usageLedger: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_USAGE_LEDGER),
+    mockBackendUrl: parseMockBackendOrigin(env.OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL),
+    ultraEnabled: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_ULTRA),
+    ultraReasoningEffort: parseUltraReasoningEffort(env.OPENCODE_OPENAI_MULTI_ULTRA_REASONING_EFFORT)
+  }
+}
+
+function collectLeafPaths(value: unknown, prefix: string, out: Set<string>): Set<string> {
+  if (value === undefined) return out
+  if (!isRecord(value)) {
+    if (prefix) out.add(prefix)
+    return out
+  }
+  for (const [key, child] of Object.entries(value)) {
+    collectLeafPaths(child, prefix ? `${prefix}.${key}` : key, out)
+  }
+  return out
+}
+
+export function resolveConfig(input: {
+  env: Record<string, string | undefined>
+  file?: Partial<PluginConfig>
+}): PluginConfig {
+  return resolveConfigWithSources(input).config
+}
+
+/**
+ * Resolves the effective config (env over project over global over defaults) and records which
+ * layer supplied each value. `layers` are the file layers that were merged into `file`, lowest first.
+ */
+export function resolveConfigWithSources(input: {
+  env: Record<string, string | undefined>
+  file?: Partial<PluginConfig>
+  layers?: ConfigLayer[]
+}): ResolvedConfigWithSources {
+  const file = input.file ?? {}
+  const fileBehavior = file.behaviorSettings
+  const fromEnv = readEnvConfig(input.env)
+  const envBehavior = readEnvBehaviorInputs(input.env)
+
   const modeFromLegacySpoofInput =
-    spoofModeFromEnv === "codex"
+    fromEnv.spoofMode === "codex"
       ? "codex"
-      : spoofModeFromEnv === "native"
+      : fromEnv.spoofMode === "native"
         ? "native"
         : file.spoofMode === "codex"
           ? "codex"
           : file.spoofMode === "native"
             ? "native"
             : undefined
-  const mode = modeFromEnv ?? file.mode ?? modeFromLegacySpoofInput ?? "native"
+  const mode = fromEnv.mode ?? file.mode ?? modeFromLegacySpoofInput ?? "native"
 
-  const resolvedBehaviorSettings = buildResolvedBehaviorSettings({
-    fileBehavior,
-    envPersonality,
-    envReasoningSummaries,
-    envVerbosityEnabled,
-    envVerbosity,
-    envTextVerbosity,
-    envServiceTier
-  })
-
-  const personality = envPersonality ?? resolvedBehaviorSettings?.global?.personality
+  const resolvedBehaviorSettings = buildResolvedBehaviorSettings({ fileBehavior, ...envBehavior })
+  const personality = envBehavior.envPersonality ?? resolvedBehaviorSettings?.global?.personality
 
   // Runtime mode is canonical; spoofMode is always derived for compatibility output.
   const spoofMode = mode === "native" ? "native" : "codex"
-  const compatInputSanitizer =
-    parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_COMPAT_INPUT_SANITIZER) ?? file.compatInputSanitizer
-  const remapDeveloperMessagesToUser =
-    parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_REMAP_DEVELOPER_MESSAGES_TO_USER) ?? file.remapDeveloperMessagesToUser
-  const codexCompactionOverride =
-    parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_CODEX_COMPACTION_OVERRIDE) ?? file.codexCompactionOverride
-  const shareableDebug = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_SHAREABLE_DEBUG) ?? file.shareableDebug
-  const headerSnapshots = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_SNAPSHOTS) ?? file.headerSnapshots
-  const headerSnapshotBodies =
-    parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_SNAPSHOT_BODIES) ?? file.headerSnapshotBodies
-  const headerTransformDebug =
-    parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_HEADER_TRANSFORM_DEBUG) ?? file.headerTransformDebug
-  const ultraEnabled = parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_ULTRA) ?? file.ultraEnabled ?? false
-  const ultraReasoningEffort: UltraReasoningEffort =
-    parseUltraReasoningEffort(env.OPENCODE_OPENAI_MULTI_ULTRA_REASONING_EFFORT) ?? file.ultraReasoningEffort ?? "max"
 
-  return {
+  const config: PluginConfig = {
     ...file,
-    debug: envDebug || file.debug === true,
-    proactiveRefresh,
-    proactiveRefreshBufferMs,
-    quietMode,
-    pidOffsetEnabled,
+    debug: fromEnv.debug === true || file.debug === true,
+    proactiveRefresh: fromEnv.proactiveRefresh ?? file.proactiveRefresh,
+    proactiveRefreshBufferMs: fromEnv.proactiveRefreshBufferMs ?? file.proactiveRefreshBufferMs,
+    transientRetries: fromEnv.transientRetries ?? file.transientRetries,
+    maxFetchAttempts: fromEnv.maxFetchAttempts ?? file.maxFetchAttempts,
+    transientRetryBackoffMs: fromEnv.transientRetryBackoffMs ?? file.transientRetryBackoffMs,
+    circuitBreakerThreshold: fromEnv.circuitBreakerThreshold ?? file.circuitBreakerThreshold,
+    circuitBreakerCooldownMs: fromEnv.circuitBreakerCooldownMs ?? file.circuitBreakerCooldownMs,
+    quotaSwitchFloorFiveHourPct: fromEnv.quotaSwitchFloorFiveHourPct ?? file.quotaSwitchFloorFiveHourPct,
+    quotaSwitchFloorWeeklyPct: fromEnv.quotaSwitchFloorWeeklyPct ?? file.quotaSwitchFloorWeeklyPct,
+    maxConcurrentRequestsPerAccount: fromEnv.maxConcurrentRequestsPerAccount ?? file.maxConcurrentRequestsPerAccount,
+    concurrencyQueueTimeoutMs: fromEnv.concurrencyQueueTimeoutMs ?? file.concurrencyQueueTimeoutMs,
+    quietMode: fromEnv.quietMode ?? file.quietMode ?? file.quiet,
+    pidOffsetEnabled: fromEnv.pidOffsetEnabled ?? file.pidOffsetEnabled,
     personality,
     mode,
-    rotationStrategy,
-    promptCacheKeyStrategy,
+    rotationStrategy: fromEnv.rotationStrategy ?? file.rotationStrategy,
+    modelRouting: fromEnv.modelRouting ?? file.modelRouting,
+    promptCacheKeyStrategy: fromEnv.promptCacheKeyStrategy ?? file.promptCacheKeyStrategy,
     spoofMode,
-    compatInputSanitizer,
-    remapDeveloperMessagesToUser,
-    codexCompactionOverride,
-    shareableDebug,
-    headerSnapshots,
-    headerSnapshotBodies,
-    headerTransformDebug,
-    ultraEnabled,
-    ultraReasoningEffort,
+    compatInputSanitizer: fromEnv.compatInputSanitizer ?? file.compatInputSanitizer,
+    remapDeveloperMessagesToUser: fromEnv.remapDeveloperMessagesToUser ?? file.remapDeveloperMessagesToUser,
+    codexCompactionOverride: fromEnv.codexCompactionOverride ?? file.codexCompactionOverride,
+    shareableDebug: fromEnv.shareableDebug ?? file.shareableDebug,
+    headerSnapshots: fromEnv.headerSnapshots ?? file.headerSnapshots,
+    headerSnapshotBodies: fromEnv.headerSnapshotBodies ?? file.headerSnapshotBodies,
+    headerTransformDebug: fromEnv.headerTransformDebug ?? file.headerTransformDebug,
+    usageLedger: fromEnv.usageLedger ?? file.usageLedger,
+    mockBackendUrl: fromEnv.mockBackendUrl ?? file.mockBackendUrl,
+    ultraEnabled: fromEnv.ultraEnabled ?? file.ultraEnabled ?? false,
+    ultraReasoningEffort: fromEnv.ultraReasoningEffort ?? file.ultraReasoningEffort ?? "max",
     behaviorSettings: resolvedBehaviorSettings
   }
+
+  const envPaths = collectLeafPaths(
+    {
+      ...fromEnv,
+      // The legacy spoof-mode env var only wins when no file layer sets runtime.mode.
+      mode: fromEnv.mode ?? (file.mode === undefined ? fromEnv.spoofMode : undefined),
+      spoofMode: undefined,
+      personality: envBehavior.envPersonality,
+      behaviorSettings: buildResolvedBehaviorSettings({ fileBehavior: undefined, ...envBehavior })
+    },
+    "",
+    new Set()
+  )
+  const layerPaths = (input.layers ?? []).map((layer) => ({
+    source: layer.source,
+    paths: collectLeafPaths(layer.config, "", new Set())
+  }))
+  const sources: Record<string, ConfigValueSource> = {}
+  // Profile definitions are inputs, not effective values; the applied one shows up as its layer.
+  for (const leaf of collectLeafPaths({ ...config, profiles: undefined }, "", new Set())) {
+    const key = leaf === "spoofMode" ? "mode" : leaf
+    if (envPaths.has(key)) {
+      sources[leaf] = "env"
+      continue
+    }
+    const layer = [...layerPaths].reverse().find((entry) => entry.paths.has(key))
+    sources[leaf] = layer?.source ?? "default"
+  }
+  return { config, sources }
+}
+
+export function getActiveProfile(cfg: PluginConfig): string | undefined {
+  return cfg.profile
+}
+
+export function getProfileNames(cfg: PluginConfig): string[] {
+  return Object.keys(cfg.profiles ?? {})
 }
 
 export function getDebugEnabled(cfg: PluginConfig): boolean {
@@ -282,6 +400,38 @@ export function getProactiveRefreshBufferMs(cfg: PluginConfig): number {
     : 60_000
 }
 
+function clampNonNegativeInteger(value: number | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : fallback
+}
+
+export function getFetchRetryPolicy(cfg: PluginConfig): FetchRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, clampNonNegativeInteger(cfg.maxFetchAttempts, 3)),
+    transientRetries: cfg.transientRetries !== false,
+    backoffMs: clampNonNegativeInteger(cfg.transientRetryBackoffMs, 500),
+    circuitBreakerThreshold: clampNonNegativeInteger(cfg.circuitBreakerThreshold, 3),
+    circuitBreakerCooldownMs: clampNonNegativeInteger(cfg.circuitBreakerCooldownMs, 60_000)
+  }
+}
+
+function clampPercent(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : 0
+}
+
+export function getQuotaSwitchFloors(cfg: PluginConfig): QuotaSwitchFloors {
+  return {
+    fiveHourPct: clampPercent(cfg.quotaSwitchFloorFiveHourPct),
+    weeklyPct: clampPercent(cfg.quotaSwitchFloorWeeklyPct)
+  }
+}
+
+export function getAccountConcurrencyPolicy(cfg: PluginConfig): AccountConcurrencyPolicy {
+  return {
+    maxRequestsPerAccount: clampNonNegativeInteger(cfg.maxConcurrentRequestsPerAccount, 0),
+    queueTimeoutMs: clampNonNegativeInteger(cfg.concurrencyQueueTimeoutMs, 30_000)
+  }
+}
+
 export function getPersonality(cfg: PluginConfig): PersonalityOption | undefined {
   return cfg.personality
 }
@@ -296,7 +446,15 @@ export function getMode(cfg: PluginConfig): PluginRuntimeMode {
 }
 
 export function getRotationStrategy(cfg: PluginConfig): RotationStrategy {
-  return cfg.rotationStrategy === "hybrid" || cfg.rotationStrategy === "round_robin" ? cfg.rotationStrategy : "sticky"
+  return cfg.rotationStrategy === "hybrid" ||
+    cfg.rotationStrategy === "round_robin" ||
+    cfg.rotationStrategy === "quota_balanced"
+    ? cfg.rotationStrategy
+    : "sticky"
+}
+
+export function getModelRoutingMode(cfg: PluginConfig): ModelRoutingMode {
+  return cfg.modelRouting === "strict" || cfg.modelRouting === "off" ? cfg.modelRouting : "fallback"
 }
 
 export function getPromptCacheKeyStrategy(cfg: PluginConfig): PromptCacheKeyStrategy {
@@ -330,6 +488,14 @@ export function getHeaderTransformDebugEnabled(cfg: PluginConfig): boolean {
   return cfg.headerTransformDebug === true
 }
 
+export function getUsageLedgerEnabled(cfg: PluginConfig): boolean {
+  return cfg.usageLedger !== false
+}
+
+export function getMockBackendUrl(cfg: PluginConfig): string | undefined {
+  return parseMockBackendOrigin(cfg.mockBackendUrl)
+}
+
 export function getHeaderSnapshotBodiesEnabled(cfg: PluginConfig): boolean {
   return cfg.headerSnapshotBodies === true
 }
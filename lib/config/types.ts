@@ -10,6 +10,8 @@ export type ReasoningModeOption = "standard" | "pro"
 export type IncludeOption = "reasoning.encrypted_content" | "file_search_call.results" | "message.output_text.logprobs"
 export type ServiceTierOption = "auto" | "priority" | "flex"
 export type PromptCacheKeyStrategy = "default" | "project"
+/** How account selection treats accounts whose cached catalog lacks the requested model. */
+export type ModelRoutingMode = "fallback" | "strict" | "off"
 export type UltraReasoningEffort = "low" | "medium" | "high" | "xhigh" | "max"
 
 export type ModelBehaviorOverride = {
@@ -39,18 +41,38 @@ export type CustomModelConfig = ModelConfigOverride & {
 export type BehaviorSettings = {
   global?: ModelBehaviorOverride
   perModel?: Record<string, ModelConfigOverride>
+  /** Keyed by OpenCode agent name (`build`, `explore`, `title`, ...); wins over `perModel`. */
+  perAgent?: Record<string, ModelBehaviorOverride>
+}
+
+/** Accounts reserved for projects under `paths`; selected by tag or identity key. */
+export type AccountPoolConfig = {
+  /** Absolute or `~`-relative worktree globs (`*`, `?`, `**`). */
+  paths: string[]
+  tags?: string[]
+  identityKeys?: string[]
 }
 
 export type PluginConfig = {
   debug?: boolean
   proactiveRefresh?: boolean
   proactiveRefreshBufferMs?: number
+  transientRetries?: boolean
+  maxFetchAttempts?: number
+  transientRetryBackoffMs?: number
+  circuitBreakerThreshold?: number
+  circuitBreakerCooldownMs?: number
+  quotaSwitchFloorFiveHourPct?: number
+  quotaSwitchFloorWeeklyPct?: number
+  maxConcurrentRequestsPerAccount?: number
+  concurrencyQueueTimeoutMs?: number
   quiet?: boolean
   quietMode?: boolean
   pidOffsetEnabled?: boolean
   personality?: PersonalityOption
   mode?: PluginRuntimeMode
   rotationStrategy?: RotationStrategy
+  modelRouting?: ModelRoutingMode
   spoofMode?: CodexSpoofMode
   compatInputSanitizer?: boolean
   remapDeveloperMessagesToUser?: boolean
@@ -59,16 +81,58 @@ export type PluginConfig = {
   headerSnapshots?: boolean
   headerSnapshotBodies?: boolean
   headerTransformDebug?: boolean
+  usageLedger?: boolean
+  mockBackendUrl?: string
   promptCacheKeyStrategy?: PromptCacheKeyStrategy
   ultraEnabled?: boolean
   ultraReasoningEffort?: UltraReasoningEffort
   behaviorSettings?: BehaviorSettings
   customModels?: Record<string, CustomModelConfig>
   modelAliases?: { fast?: boolean; extendedContext?: boolean; pro?: boolean }
+  /** Named account pools in config order; the first pool whose paths match the worktree applies. */
+  accountPools?: Record<string, AccountPoolConfig>
+  /** Named overlays from the `profiles` section; at most one is applied per process. */
+  profiles?: Record<string, ConfigProfile>
+  /** Name of the profile applied to this config, if any. */
+  profile?: string
+}
+
+/** A partial config selected by name; it cannot nest profiles or set global-only keys. */
+export type ConfigProfile = Omit<PluginConfig, "profiles" | "profile" | "mockBackendUrl" | "accountPools">
+
+export type FetchRetryPolicy = {
+  maxAttempts: number
+  transientRetries: boolean
+  backoffMs: number
+  circuitBreakerThreshold: number
+  circuitBreakerCooldownMs: number
+}
+
+/** Percent of quota left below which new sessions avoid an account; `0` disables a window. */
+export type QuotaSwitchFloors = {
+  fiveHourPct: number
+  weeklyPct: number
+}
+
+/** In-flight request cap per account, shared by every process; `0` means unlimited. */
+export type AccountConcurrencyPolicy = {
+  maxRequestsPerAccount: number
+  queueTimeoutMs: number
 }
 
 export const CONFIG_FILE = "codex-config.jsonc"
 export const LEGACY_CONFIG_FILE = "codex-config.json"
+export const PROJECT_CONFIG_DIR = ".opencode"
+
+export type ConfigLayerSource = "global" | "project" | "profile"
+/** Where an effective config value came from, lowest to highest precedence. */
+export type ConfigValueSource = "default" | ConfigLayerSource | "env"
+
+export type ConfigLayer = {
+  source: ConfigLayerSource
+  filePath: string
+  config: Partial<PluginConfig>
+}
 
 export const DEFAULT_CODEX_CONFIG = {
   $schema: "https://schemas.iam-brain.dev/opencode-codex-auth/codex-config.schema.json",
@@ -78,9 +142,27 @@ export const DEFAULT_CODEX_CONFIG = {
     enabled: true,
     bufferMs: 60_000
   },
+  retry: {
+    transient: true,
+    maxAttempts: 3,
+    backoffMs: 500
+  },
+  circuitBreaker: {
+    failureThreshold: 3,
+    cooldownMs: 60_000
+  },
+  quotaSwitchFloor: {
+    fiveHourPct: 0,
+    weeklyPct: 0
+  },
+  concurrency: {
+    maxRequestsPerAccount: 0,
+    queueTimeoutMs: 30_000
+  },
   runtime: {
     mode: "native",
     rotationStrategy: "sticky",
+    modelRouting: "fallback",
     sanitizeInputs: false,
     developerMessagesToUser: true,
     promptCacheKeyStrategy: "default",
@@ -88,6 +170,7 @@ export const DEFAULT_CODEX_CONFIG = {
     headerSnapshots: false,
     headerSnapshotBodies: false,
     headerTransformDebug: false,
+    usageLedger: true,
     ultra: false,
     ultraReasoningEffort: "max",
     pidOffset: false
@@ -126,6 +209,56 @@ export const DEFAULT_CODEX_CONFIG_TEMPLATE = `{
     "bufferMs": 60000
   },
 
+  // Retry policy for failed upstream requests.
+  "retry": {
+    // Retry 500/502/503/504 responses and network errors (429 is always retried).
+    // options: true | false
+    // default: true
+    "transient": true,
+
+    // Total attempts per request, including account failover.
+    // default: 3
+    "maxAttempts": 3,
+
+    // Base backoff before retrying a transient failure (doubles per attempt).
+    // default: 500
+    "backoffMs": 500
+  },
+
+  // Temporarily cool down an account after consecutive transient failures.
+  "circuitBreaker": {
+    // Consecutive failures before cooling down. 0 disables the breaker.
+    // default: 3
+    "failureThreshold": 3,
+
+    // How long an unhealthy account is skipped.
+    // default: 60000
+    "cooldownMs": 60000
+  },
+
+  // Stop giving new sessions to an account once a quota window drops below
+  // this percentage left. Sessions already on the account keep using it.
+  "quotaSwitchFloor": {
+    // Floor for the 5h window. 0 disables it.
+    // default: 0
+    "fiveHourPct": 0,
+
+    // Floor for the weekly window. 0 disables it.
+    // default: 0
+    "weeklyPct": 0
+  },
+
+  // Limit simultaneous requests per account across all OpenCode processes.
+  "concurrency": {
+    // In-flight requests allowed per account. 0 means unlimited.
+    // default: 0
+    "maxRequestsPerAccount": 0,
+
+    // How long a request waits for a free account when every account is at the limit.
+    // default: 30000
+    "queueTimeoutMs": 30000
+  },
+
   "runtime": {
     // Request identity/profile mode.
     // options: "native" | "codex"
@@ -133,10 +266,17 @@ export const DEFAULT_CODEX_CONFIG_TEMPLATE = `{
     "mode": "native",
 
     // Account rotation strategy.
-    // options: "sticky" | "hybrid" | "round_robin"
+    // options: "sticky" | "hybrid" | "round_robin" | "quota_balanced"
     // default: "sticky"
     "rotationStrategy": "sticky",
 
+    // Route requests to accounts whose cached model catalog lists the model,
+    // reasoning effort and service tier being requested.
+    // "fallback" uses other accounts when none qualifies, "strict" fails instead.
+    // options: "fallback" | "strict" | "off"
+    // default: "fallback"
+    "modelRouting": "fallback",
+
     // Input compatibility sanitizer for edge payloads.
     // options: true | false
     // default: false
@@ -181,6 +321,11 @@ export const DEFAULT_CODEX_CONFIG_TEMPLATE = `{
     // default: false
     "headerTransformDebug": false,
 
+    // Record per-request token usage from streamed responses in a bounded local ledger.
+    // options: true | false
+    // default: true
+    "usageLedger": true,
+
     // Work in progress: enable the catalog-gated Ultra agent mode.
     // options: true | false
     // default: false
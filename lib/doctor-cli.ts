@@ -0,0 +1,60 @@
+import { renderDoctorReport, runDoctorChecks, type DoctorInput } from "./doctor.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type DoctorCliDeps = Omit<DoctorInput, "now" | "directory"> & {
+  cwd?: () => string
+  now?: () => number
+}
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth doctor",
+    "",
+    "Usage:",
+    "  opencode-codex-auth doctor [--json]",
+    "",
+    "Checks codex-config.jsonc (and the project overlay in the current directory), the account store,",
+    "session affinity, quota snapshots, model catalog caches, lock files and file permissions.",
+    "Nothing is modified. Exits with status 1 when any error is found.",
+    "",
+    "Options:",
+    "  --json          Print the findings as JSON."
+  ].join("\n")
+}
+
+export async function runDoctorCli(args: string[], io: CliIo = DEFAULT_IO, deps: DoctorCliDeps = {}): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  let json = false
+  for (const token of args) {
+    if (token === "--json") {
+      json = true
+      continue
+    }
+    io.err(token.startsWith("-") ? `Unknown option: ${token}` : `Unexpected argument: ${token}`)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  const { cwd, now, ...input } = deps
+  const report = await runDoctorChecks({
+    ...input,
+    directory: (cwd ?? process.cwd)(),
+    ...(now ? { now: now() } : {})
+  })
+  io.out(json ? JSON.stringify(report, null, 2) : renderDoctorReport(report))
+  return report.errors > 0 ? 1 : 0
+}
@@ -0,0 +1,495 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { lockTargetPathForFile } from "./cache-lock.js"
+import { isCodexModelsCacheFileName, OPENCODE_MODELS_META_FILE } from "./codex-cache-layout.js"
+import {
+  collectDeprecatedModelBehaviorKeys,
+  parseConfigFileObject,
+  parseConfigJsonWithComments,
+  resolveDefaultConfigPath,
+  resolveLegacyDefaultConfigPath,
+  resolveProjectConfigPath,
+  validateConfigFileObject,
+  type CustomModelConfig
+} from "./config.js"
+import { isFsErrorCode } from "./cache-io.js"
+import {
+  defaultAuthPath,
+  defaultOpencodeCachePath,
+  defaultSessionAffinityPath,
+  defaultSnapshotsPath,
+  defaultUsageLedgerPath,
+  quotaHistoryPathFor
+} from "./paths.js"
+import { AUTH_STORE_VERSION, isTokenSealError, listOpenAIOAuthDomains } from "./storage.js"
+import { migrateAuthStore, readAuthStoreVersion } from "./storage/auth-schema.js"
+import { migrateAuthFile, sanitizeAuthFile, shouldEnforceOpenAIOnlyStorage } from "./storage/auth-state.js"
+import { resolveTokenSealSettings, unsealAuthTokens } from "./storage/token-seal.js"
+import type { AuthFile } from "./types.js"
+import { isRecord } from "./util.js"
+
+/** Lock directories whose mtime is older than this are reported; live holders refresh it every few seconds. */
+export const DOCTOR_STALE_LOCK_MS = 60_000
+
+export type DoctorSeverity = "error" | "warning"
+export type DoctorCheck = "config" | "auth" | "session-affinity" | "snapshots" | "cache" | "locks" | "permissions"
+
+export type DoctorFinding = {
+  severity: DoctorSeverity
+  check: DoctorCheck
+  path: string
+  message: string
+}
+
+export type DoctorReport = {
+  errors: number
+  warnings: number
+  findings: DoctorFinding[]
+}
+
+export type DoctorInput = {
+  env?: Record<string, string | undefined>
+  /** Directory whose `.opencode/codex-config.jsonc` overlay is checked. */
+  directory?: string
+  authPath?: string
+  snapshotsPath?: string
+  sessionAffinityPath?: string
+  usageLedgerPath?: string
+  cacheDir?: string
+  now?: number
+  platform?: NodeJS.Platform
+}
+
+type JsonReadResult = { exists: false } | { exists: true; value: unknown } | { exists: true; error: string }
+
+async function readJson(filePath: string, parse: (raw: string) => unknown = JSON.parse): Promise<JsonReadResult> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return { exists: false }
+    return { exists: true, error: error instanceof Error ? error.message : String(error) }
+  }
+  try {
+    return { exists: true, value: parse(raw) }
+  } catch (error) {
+    return { exists: true, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+async function statIfExists(filePath: string) {
+  try {
+    return await fs.stat(filePath)
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return undefined
+    throw error
+  }
+}
+
+type ConfigCheckResult = {
+  customModels: Record<string, CustomModelConfig>
+  profiles: Set<string>
+}
+
+async function checkConfigFiles(
+  input: { env: Record<string, string | undefined>; directory?: string },
+  add: (finding: DoctorFinding) => void
+): Promise<ConfigCheckResult> {
+  const result: ConfigCheckResult = { customModels: {}, profiles: new Set() }
+  const explicitPath = input.env.OPENCODE_OPENAI_MULTI_CONFIG_PATH?.trim()
+  const files: Array<{ filePath: string; project: boolean }> = []
+  if (explicitPath) {
+    files.push({ filePath: explicitPath, project: false })
+  } else {
+    const canonicalPath = resolveDefaultConfigPath(input.env)
+    const legacyPath = resolveLegacyDefaultConfigPath(input.env)
+    const hasCanonical = (await statIfExists(canonicalPath)) !== undefined
+    const hasLegacy = (await statIfExists(legacyPath)) !== undefined
+    if (hasCanonical && hasLegacy) {
+      add({
+        severity: "warning",
+        check: "config",
+        path: legacyPath,
+        message: `Ignored because ${path.basename(canonicalPath)} exists; the plugin quarantines it on the next load.`
+      })
+    }
+    files.push({ filePath: hasCanonical || !hasLegacy ? canonicalPath : legacyPath, project: false })
+  }
+  const projectPath = resolveProjectConfigPath({ directory: input.directory })
+  if (projectPath) files.push({ filePath: projectPath, project: true })
+
+  for (const { filePath, project } of files) {
+    const read = await readJson(filePath, parseConfigJsonWithComments)
+    if (!read.exists) {
+      if (explicitPath && !project) {
+        add({
+          severity: "error",
+          check: "config",
+          path: filePath,
+          message: "OPENCODE_OPENAI_MULTI_CONFIG_PATH points to a missing file."
+        })
+      }
+      continue
+    }
+    if ("error" in read) {
+      add({ severity: "error", check: "config", path: filePath, message: `Could not be parsed: ${read.error}` })
+      continue
+    }
+    const validation = validateConfigFileObject(read.value)
+    for (const issue of validation.issues) {
+      add({ severity: "error", check: "config", path: filePath, message: issue })
+    }
+    if (!validation.valid || !isRecord(read.value)) continue
+
+    for (const key of collectDeprecatedModelBehaviorKeys(read.value)) {
+      add({
+        severity: "warning",
+        check: "config",
+        path: filePath,
+        message: `${key} is deprecated; run \`opencode-codex-auth config migrate\` to rewrite it.`
+      })
+    }
+    if (project && isRecord(read.value.runtime) && "mockBackendUrl" in read.value.runtime) {
+      add({
+        severity: "warning",
+        check: "config",
+        path: filePath,
+        message: "runtime.mockBackendUrl is ignored in a project overlay; set it in the global codex-config.jsonc."
+      })
+    }
+    const parsed = parseConfigFileObject(read.value)
+    Object.assign(result.customModels, parsed.customModels ?? {})
+    for (const name of Object.keys(parsed.profiles ?? {})) result.profiles.add(name)
+  }
+
+  const profile = input.env.OPENCODE_OPENAI_MULTI_PROFILE?.trim()
+  if (profile && !result.profiles.has(profile)) {
+    add({
+      severity: "warning",
+      check: "config",
+      path: files[0]?.filePath ?? resolveDefaultConfigPath(input.env),
+      message: `OPENCODE_OPENAI_MULTI_PROFILE names unknown profile "${profile}"; no profile is applied.`
+    })
+  }
+  return result
+}
+
+async function readCachedCatalogSlugs(cacheDir: string, add: (finding: DoctorFinding) => void): Promise<Set<string>> {
+  const slugs = new Set<string>()
+  let entries: string[]
+  try {
+    entries = await fs.readdir(cacheDir)
+  } catch (error) {
+    if (error instanceof Error) {
+      // no cache directory yet; nothing to check
+    }
+    return slugs
+  }
+  for (const entry of entries.sort()) {
+    if (!isCodexModelsCacheFileName(entry) || entry === OPENCODE_MODELS_META_FILE) continue
+    const filePath = path.join(cacheDir, entry)
+    const read = await readJson(filePath)
+    if (!read.exists) continue
+    if ("error" in read) {
+      add({
+        severity: "warning",
+        check: "cache",
+        path: filePath,
+        message: `Unreadable model catalog cache (${read.error}); it is refetched on the next catalog refresh.`
+      })
+      continue
+    }
+    const models = isRecord(read.value) && Array.isArray(read.value.models) ? read.value.models : []
+    for (const model of models) {
+      if (isRecord(model) && typeof model.slug === "string" && model.slug.trim()) {
+        slugs.add(model.slug.trim().toLowerCase())
+      }
+    }
+  }
+  return slugs
+}
+
+function describeAccount(account: { email?: string; accountId?: string; identityKey?: string }, index: number): string {
+  return account.email ?? account.accountId ?? account.identityKey ?? `#${index + 1}`
+}
+
+async function checkAuthStore(
+  input: { authPath: string; now: number; env: Record<string, string | undefined> },
+  add: (finding: DoctorFinding) => void
+): Promise<Set<string> | undefined> {
+  const read = await readJson(input.authPath)
+  if (!read.exists) {
+    add({
+      severity: "warning",
+      check: "auth",
+      path: input.authPath,
+      message: "No account store found; run `opencode auth login` to add an account."
+    })
+    return undefined
+  }
+  if ("error" in read || !isRecord(read.value)) {
+    add({
+      severity: "error",
+      check: "auth",
+      path: input.authPath,
+      message: `Corrupt account store${"error" in read ? ` (${read.error})` : ""}; the plugin quarantines it on the next load.`
+    })
+    return undefined
+  }
+  let auth: AuthFile
+  let newerVersion = false
+  try {
+    const version = readAuthStoreVersion(read.value)
+    if (version > AUTH_STORE_VERSION) {
+      newerVersion = true
+      add({
+        severity: "error",
+        check: "auth",
+        path: input.authPath,
+        message: `Account store schema version ${version} is newer than this plugin supports (${AUTH_STORE_VERSION}); accounts are read-only until the plugin is upgraded.`
+      })
+    }
+    // Parse the way `loadAuthStorage` does, minus its quarantine and directory setup.
+    const { value } = await unsealAuthTokens(read.value, {
+      filePath: input.authPath,
+      settings: resolveTokenSealSettings(input.authPath, input.env)
+    })
+    auth = sanitizeAuthFile(migrateAuthFile(migrateAuthStore(value).value as AuthFile), {
+      openAIOnly: shouldEnforceOpenAIOnlyStorage(input.authPath)
+    })
+  } catch (error) {
+    // A newer plugin's shape may not parse here; the plugin leaves such a store alone, as reported above.
+    if (newerVersion && !isTokenSealError(error)) return undefined
+    const detail = error instanceof Error ? error.message : String(error)
+    add({
+      severity: "error",
+      check: "auth",
+      path: input.authPath,
+      message: isTokenSealError(error)
+        ? `Encrypted tokens could not be read: ${detail}`
+        : `Corrupt account store (${detail}); the plugin quarantines it on the next load.`
+    })
+    return undefined
+  }
+
+  const identityKeys = new Set<string>()
+  for (const { mode, domain } of listOpenAIOAuthDomains(auth)) {
+    const accounts = domain.accounts
+    for (const account of accounts) {
+      if (account.identityKey) identityKeys.add(account.identityKey)
+    }
+    if (accounts.length > 0 && accounts.every((account) => account.enabled === false)) {
+      add({
+        severity: "error",
+        check: "auth",
+        path: input.authPath,
+        message: `All ${accounts.length} ${mode} account(s) are disabled; enable one with \`opencode-codex-auth accounts enable\`.`
+      })
+    }
+    if (domain.activeIdentityKey && !accounts.some((account) => account.identityKey === domain.activeIdentityKey)) {
+      add({
+        severity: "warning",
+        check: "auth",
+        path: input.authPath,
+        message: `The active ${mode} account no longer exists; the next request picks another one.`
+      })
+    }
+    accounts.forEach((account, index) => {
+      const label = describeAccount(account, index)
+      if (!account.refresh) {
+        add({
+          severity: "error",
+          check: "auth",
+          path: input.authPath,
+          message: `${mode} account ${label} has no refresh token; log in again.`
+        })
+      } else if (typeof account.expires === "number" && account.expires <= input.now) {
+        add({
+          severity: "warning",
+          check: "auth",
+          path: input.authPath,
+          message: `${mode} account ${label} has an access token that expired at ${new Date(account.expires).toISOString()}; it is refreshed on next use.`
+        })
+      }
+    })
+  }
+  return identityKeys
+}
+
+async function checkSessionAffinity(
+  input: { filePath: string; identityKeys?: Set<string> },
+  add: (finding: DoctorFinding) => void
+): Promise<void> {
+  const read = await readJson(input.filePath)
+  if (!read.exists) return
+  if ("error" in read || !isRecord(read.value)) {
+    add({
+      severity: "warning",
+      check: "session-affinity",
+      path: input.filePath,
+      message: "Unreadable session affinity file; sessions start without account affinity until it is rewritten."
+    })
+    return
+  }
+  const identityKeys = input.identityKeys
+  if (!identityKeys) return
+  for (const mode of ["native", "codex"] as const) {
+    const record = read.value[mode]
+    if (!isRecord(record)) continue
+    let stale = 0
+    for (const field of ["stickyBySessionKey", "hybridBySessionKey"] as const) {
+      const entries = record[field]
+      if (!isRecord(entries)) continue
+      for (const identityKey of Object.values(entries)) {
+        if (typeof identityKey === "string" && !identityKeys.has(identityKey)) stale += 1
+      }
+    }
+    if (stale > 0) {
+      add({
+        severity: "warning",
+        check: "session-affinity",
+        path: input.filePath,
+        message: `${stale} ${mode} session(s) are pinned to accounts that no longer exist; they are reassigned on their next request.`
+      })
+    }
+  }
+}
+
+async function checkSnapshots(
+  input: { filePath: string; identityKeys?: Set<string> },
+  add: (finding: DoctorFinding) => void
+): Promise<void> {
+  const read = await readJson(input.filePath)
+  if (!read.exists) return
+  if ("error" in read || !isRecord(read.value)) {
+    add({
+      severity: "warning",
+      check: "snapshots",
+      path: input.filePath,
+      message: "Unreadable quota snapshots; status shows no quota until the next response rewrites them."
+    })
+    return
+  }
+  const identityKeys = input.identityKeys
+  if (!identityKeys) return
+  const orphaned = Object.keys(read.value).filter((identityKey) => !identityKeys.has(identityKey))
+  if (orphaned.length > 0) {
+    add({
+      severity: "warning",
+      check: "snapshots",
+      path: input.filePath,
+      message: `${orphaned.length} quota snapshot(s) belong to accounts that no longer exist.`
+    })
+  }
+}
+
+async function checkStaleLocks(
+  input: { files: string[]; directories: string[]; now: number },
+  add: (finding: DoctorFinding) => void
+): Promise<void> {
+  const lockDirs = [
+    ...input.files.map((filePath) => `${lockTargetPathForFile(filePath)}.lock`),
+    ...input.directories.map((directory) => `${directory}.lock`)
+  ]
+  for (const lockDir of lockDirs) {
+    const stat = await statIfExists(lockDir)
+    if (!stat?.isDirectory()) continue
+    const ageMs = input.now - stat.mtimeMs
+    if (ageMs < DOCTOR_STALE_LOCK_MS) continue
+    add({
+      severity: "warning",
+      check: "locks",
+      path: lockDir,
+      message: `Lock last refreshed ${Math.round(ageMs / 1000)}s ago; remove it if no OpenCode process is running.`
+    })
+  }
+}
+
+async function checkPermissions(
+  input: { secretFiles: string[]; stateFiles: string[] },
+  add: (finding: DoctorFinding) => void
+): Promise<void> {
+  const check = async (filePath: string, severity: DoctorSeverity) => {
+    const stat = await statIfExists(filePath)
+    if (!stat?.isFile()) return
+    const mode = stat.mode & 0o777
+    if ((mode & 0o077) === 0) return
+    add({
+      severity,
+      check: "permissions",
+      path: filePath,
+      message: `Readable by other users (mode ${mode.toString(8).padStart(4, "0")}); run \`chmod 600 ${filePath}\`.`
+    })
+  }
+  for (const filePath of input.secretFiles) await check(filePath, "error")
+  for (const filePath of input.stateFiles) await check(filePath, "warning")
+}
+
+/**
+ * Inspects the config files, account store, session affinity, quota snapshots, model catalog
+ * caches, lock directories and file permissions without modifying any of them.
+ */
+export async function runDoctorChecks(input: DoctorInput = {}): Promise<DoctorReport> {
+  const env = input.env ?? process.env
+  const now = input.now ?? Date.now()
+  const platform = input.platform ?? process.platform
+  const authPath = input.authPath ?? defaultAuthPath()
+  const snapshotsPath = input.snapshotsPath ?? defaultSnapshotsPath()
+  const sessionAffinityPath = input.sessionAffinityPath ?? defaultSessionAffinityPath(env)
+  const usageLedgerPath = input.usageLedgerPath ?? defaultUsageLedgerPath(env)
+  const cacheDir = input.cacheDir ?? defaultOpencodeCachePath(env)
+
+  const findings: DoctorFinding[] = []
+  const add = (finding: DoctorFinding) => findings.push(finding)
+
+  const config = await checkConfigFiles({ env, directory: input.directory }, add)
+  const customModels = Object.entries(config.customModels)
+  if (customModels.length > 0) {
+    const catalogSlugs = await readCachedCatalogSlugs(cacheDir, add)
+    if (catalogSlugs.size > 0) {
+      for (const [slug, customModel] of customModels) {
+        if (catalogSlugs.has(customModel.targetModel.trim().toLowerCase())) continue
+        add({
+          severity: "warning",
+          check: "config",
+          path: cacheDir,
+          message: `customModels.${slug}.targetModel "${customModel.targetModel}" is not in the cached model catalog; the custom model is skipped.`
+        })
+      }
+    }
+  }
+
+  const identityKeys = await checkAuthStore({ authPath, now, env }, add)
+  await checkSessionAffinity({ filePath: sessionAffinityPath, identityKeys }, add)
+  await checkSnapshots({ filePath: snapshotsPath, identityKeys }, add)
+  await checkStaleLocks(
+    {
+      files: [authPath, snapshotsPath, sessionAffinityPath, usageLedgerPath, quotaHistoryPathFor(snapshotsPath)],
+      directories: [cacheDir],
+      now
+    },
+    add
+  )
+  if (platform !== "win32") {
+    await checkPermissions(
+      {
+        secretFiles: [authPath, resolveTokenSealSettings(authPath, env).keyFilePath],
+        stateFiles: [snapshotsPath, sessionAffinityPath, usageLedgerPath]
+      },
+      add
+    )
+  }
+
+  const errors = findings.filter((finding) => finding.severity === "error").length
+  return { errors, warnings: findings.length - errors, findings }
+}
+
+export function renderDoctorReport(report: DoctorReport): string {
+  if (report.findings.length === 0) return "No problems found."
+  const lines = report.findings.map(
+    (finding) => `${finding.severity} [${finding.check}] ${finding.path}: ${finding.message}`
+  )
+  lines.push("", `${report.errors} error(s), ${report.warnings} warning(s).`)
+  return lines.join("\n")
+}
@@ -1,4 +1,4 @@
-import type { AuthData } from "./fetch-orchestrator-types.js"
+import type { AuthData, FetchAttemptReasonCode } from "./fetch-orchestrator-types.js"
 
 const CROSS_ORIGIN_REDIRECT_STRIPPED_HEADERS = new Set([
   "authorization",
@@ -17,6 +17,42 @@ export const DEFAULT_SESSION_TOAST_DEBOUNCE_MS = 15_000
 export const DEFAULT_ACCOUNT_SWITCH_TOAST_DEBOUNCE_MS = 15_000
 export const MAX_TOAST_DEDUPE_KEYS = 512
 export const TOAST_DEDUPE_TTL_MS = 6 * 60 * 60 * 1000
+export const DEFAULT_TRANSIENT_RETRY_BACKOFF_MS = 500
+export const MAX_TRANSIENT_RETRY_BACKOFF_MS = 8_000
+
+const TRANSIENT_SERVER_ERROR_STATUSES = new Set([500, 502, 503, 504])
+
+export type RetryableFailureKind = "rate_limit" | "server_error" | "network_error"
+
+const RETRY_REASON_CODES: Record<
+  RetryableFailureKind,
+  { same: FetchAttemptReasonCode; switched: FetchAttemptReasonCode }
+> = {
+  rate_limit: { same: "retry_same_account_after_429", switched: "retry_switched_account_after_429" },
+  server_error: {
+    same: "retry_same_account_after_server_error",
+    switched: "retry_switched_account_after_server_error"
+  },
+  network_error: {
+    same: "retry_same_account_after_network_error",
+    switched: "retry_switched_account_after_network_error"
+  }
+}
+
+export function isTransientServerErrorStatus(status: number): boolean {
+  return TRANSIENT_SERVER_ERROR_STATUSES.has(status)
+}
+
+export function resolveAttemptReasonCode(input: {
+  previousFailure: RetryableFailureKind | null
+  previousAccountKey: string | null
+  accountKey: string | null
+}): FetchAttemptReasonCode {
+  if (!input.previousFailure) return "initial_attempt"
+  const codes = RETRY_REASON_CODES[input.previousFailure]
+  const switched = input.previousAccountKey && input.accountKey && input.previousAccountKey !== input.accountKey
+  return switched ? codes.switched : codes.same
+}
 
 function normalizeSessionKey(value: unknown): string | null {
   if (typeof value !== "string") return null
@@ -35,12 +35,22 @@ export type FetchOrchestratorState = {
   lastAccountKey: string | null
   rateLimitToastShownAt: Map<string, number>
   toastShownAt: Map<string, number>
+  transientFailureCounts: Map<string, number>
 }
 
 export type FetchAttemptReasonCode =
   | "initial_attempt"
   | "retry_same_account_after_429"
   | "retry_switched_account_after_429"
+  | "retry_same_account_after_server_error"
+  | "retry_switched_account_after_server_error"
+  | "retry_same_account_after_network_error"
+  | "retry_switched_account_after_network_error"
+
+export type FetchCircuitBreakerPolicy = {
+  failureThreshold: number
+  cooldownMs: number
+}
 
 export function createFetchOrchestratorState(): FetchOrchestratorState {
   return {
@@ -49,7 +59,8 @@ export function createFetchOrchestratorState(): FetchOrchestratorState {
     seenSessionKeys: new Map<string, number>(),
     lastAccountKey: null,
     rateLimitToastShownAt: new Map<string, number>(),
-    toastShownAt: new Map<string, number>()
+    toastShownAt: new Map<string, number>(),
+    transientFailureCounts: new Map<string, number>()
   }
 }
 
@@ -57,7 +68,13 @@ export type FetchOrchestratorDeps = {
   acquireAuth: (context?: FetchOrchestratorAuthContext) => Promise<AuthData>
   setCooldown: (identityKey: string, cooldownUntil: number) => Promise<void>
   now?: () => number
+  /** Outbound transport; defaults to the global `fetch`. */
+  fetch?: (request: Request) => Promise<Response>
   maxAttempts?: number
+  retryTransientFailures?: boolean
+  transientRetryBackoffMs?: number
+  circuitBreaker?: FetchCircuitBreakerPolicy
+  sleep?: (ms: number) => Promise<void>
   quietMode?: boolean
   rateLimitToastDebounceMs?: number
   state?: FetchOrchestratorState
@@ -4,16 +4,22 @@ import {
   DEFAULT_ACCOUNT_SWITCH_TOAST_DEBOUNCE_MS,
   DEFAULT_RATE_LIMIT_TOAST_DEBOUNCE_MS,
   DEFAULT_SESSION_TOAST_DEBOUNCE_MS,
+  DEFAULT_TRANSIENT_RETRY_BACKOFF_MS,
   formatAccountLabel,
+  isTransientServerErrorStatus,
   MAX_SESSION_KEYS,
   MAX_TOAST_DEDUPE_KEYS,
+  MAX_TRANSIENT_RETRY_BACKOFF_MS,
+  resolveAttemptReasonCode,
   resolveRetryAccountKey,
   resolveSessionKey,
+  type RetryableFailureKind,
   SESSION_KEY_TTL_MS,
   stripCrossOriginRedirectHeaders,
   TOAST_DEDUPE_TTL_MS
 } from "./fetch-orchestrator-helpers.js"
 import {
+  type AuthData,
   createFetchOrchestratorState,
   type FetchAttemptReasonCode,
   type FetchOrchestratorDeps,
@@ -25,11 +31,27 @@ export {
   type AccountSelectionTrace,
   type AuthData,
   type FetchAttemptReasonCode,
+  type FetchCircuitBreakerPolicy,
   type FetchOrchestratorAuthContext,
   type FetchOrchestratorDeps,
   type FetchOrchestratorState
 } from "./fetch-orchestrator-types.js"
 
+type FetchAttemptOutcome = { response: Response; upstream: boolean } | { networkError: unknown }
+
+// Marks failures thrown by the platform fetch itself so they can be told apart from
+// redirect-policy and hook errors, which must keep propagating unchanged.
+class OutboundTransportError extends Error {
+  constructor(readonly original: unknown) {
+    super(original instanceof Error ? original.message : "Outbound fetch failed")
+    this.name = "OutboundTransportError"
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
 export class FetchOrchestrator {
   private readonly state: FetchOrchestratorState
 
@@ -37,44 +59,40 @@ export class FetchOrchestrator {
     this.state = deps.state ?? createFetchOrchestratorState()
   }
 
-  private async fetchWithRedirectPolicy(request: Request): Promise<Response> {
+  private async fetchWithRedirectPolicy(request: Request): Promise<{ response: Response; upstream: boolean }> {
     const maxRedirects = Math.max(0, Math.floor(this.deps.maxRedirects ?? 3))
     let current = request
 
     for (let redirectCount = 0; redirectCount <= maxRedirects; redirectCount++) {
-      const response = await fetch(new Request(current, { redirect: "manual" }))
-      if (response.status < 300 || response.status > 399) return response
+      let response: Response
+      try {
+        response = await (this.deps.fetch ?? fetch)(new Request(current, { redirect: "manual" }))
+      } catch (error) {
+        throw new OutboundTransportError(error)
+      }
+      if (response.status < 300 || response.status > 399) return { response, upstream: true }
 
       const location = response.headers.get("location")
-      if (!location) return response
+      if (!location) return { response, upstream: true }
 
       if (redirectCount >= maxRedirects) {
-        return createSyntheticErrorResponse(
-          "Outbound request redirect limit exceeded.",
-          502,
-          "outbound_redirect_limit_exceeded",
-          "request"
-        )
+        return this.redirectFailure("Outbound request redirect limit exceeded.", "outbound_redirect_limit_exceeded")
       }
 
       const nextUrl = new URL(location, current.url)
       if (!this.deps.validateRedirectUrl) {
-        return createSyntheticErrorResponse(
+        return this.redirectFailure(
           "Blocked outbound redirect because redirect URL validation is not configured.",
-          502,
-          "blocked_outbound_redirect",
-          "request"
+          "blocked_outbound_redirect"
         )
       }
       this.deps.validateRedirectUrl(nextUrl)
 
       const method = current.method.toUpperCase()
       if (method !== "GET" && method !== "HEAD") {
-        return createSyntheticErrorResponse(
+        return this.redirectFailure(
           "Blocked outbound redirect for non-idempotent request method.",
-          502,
-          "blocked_outbound_redirect",
-          "request"
+          "blocked_outbound_redirect"
         )
       }
 
@@ -90,12 +108,75 @@ export class FetchOrchestrator {
       })
     }
 
-    return createSyntheticErrorResponse(
-      "Outbound request redirect handling failed.",
-      502,
-      "outbound_redirect_error",
-      "request"
+    return this.redirectFailure("Outbound request redirect handling failed.", "outbound_redirect_error")
+  }
+
+  private redirectFailure(message: string, code: string): { response: Response; upstream: boolean } {
+    return { response: createSyntheticErrorResponse(message, 502, code, "request"), upstream: false }
+  }
+
+  private async attemptFetch(request: Request): Promise<FetchAttemptOutcome> {
+    try {
+      return await this.fetchWithRedirectPolicy(request)
+    } catch (error) {
+      if (!(error instanceof OutboundTransportError)) throw error
+      // Caller-initiated aborts are not transport failures and must never be retried.
+      if (request.signal.aborted) throw error.original
+      return { networkError: error.original }
+    }
+  }
+
+  private async recordTransientFailure(auth: AuthData, now: number): Promise<boolean> {
+    const policy = this.deps.circuitBreaker
+    const identityKey = auth.identityKey
+    if (!policy || !identityKey) return false
+    const threshold = Math.floor(policy.failureThreshold)
+    if (!Number.isFinite(threshold) || threshold < 1) return false
+
+    const failures = (this.state.transientFailureCounts.get(identityKey) ?? 0) + 1
+    if (failures < threshold) {
+      this.state.transientFailureCounts.set(identityKey, failures)
+      return false
+    }
+
+    this.state.transientFailureCounts.delete(identityKey)
+    try {
+      await this.deps.setCooldown(identityKey, now + Math.max(0, Math.floor(policy.cooldownMs)))
+    } catch (error) {
+      if (error instanceof Error) {
+        // Cooldown persistence failures should not prevent retrying another account.
+      }
+      // Cooldown persistence failures should not prevent retrying another account.
+    }
+    await this.maybeShowToast(
+      `Account marked unhealthy after repeated upstream errors: ${formatAccountLabel(auth)}`,
+      "warning",
+      {
+        dedupeKey: `circuit:${identityKey}`,
+        debounceMs: DEFAULT_RATE_LIMIT_TOAST_DEBOUNCE_MS,
+        now
+      }
     )
+    return true
+  }
+
+  private clearTransientFailures(auth: AuthData): void {
+    if (auth.identityKey) {
+      this.state.transientFailureCounts.delete(auth.identityKey)
+    }
+  }
+
+  private async waitBeforeTransientRetry(attempt: number): Promise<void> {
+    const requestedBackoff = this.deps.transientRetryBackoffMs ?? DEFAULT_TRANSIENT_RETRY_BACKOFF_MS
+    const baseMs = Number.isFinite(requestedBackoff) ? Math.max(0, Math.floor(requestedBackoff)) : 0
+    if (baseMs === 0) return
+    const delayMs = computeBackoffMs({
+      attempt,
+      baseMs,
+      maxMs: Math.max(baseMs, MAX_TRANSIENT_RETRY_BACKOFF_MS),
+      jitterMaxMs: Math.floor(baseMs / 2)
+    })
+    await (this.deps.sleep ?? defaultSleep)(delayMs)
   }
 
   private touchSessionKey(
@@ -205,6 +286,7 @@ export class FetchOrchestrator {
     const finiteAttempts = Number.isFinite(requestedAttempts) ? requestedAttempts : 3
     const maxAttempts = Math.max(1, Math.floor(finiteAttempts))
     const nowFn = this.deps.now ?? Date.now
+    const retryTransientFailures = this.deps.retryTransientFailures === true
 
     const baseRequest = new Request(input, init)
     const sessionKey = await resolveSessionKey(baseRequest)
@@ -250,7 +332,7 @@ export class FetchOrchestrator {
     }
     let sessionToastEmitted = false
     let lastResponse: Response | undefined
-    let previousAttemptStatus: number | null = null
+    let previousAttemptFailure: RetryableFailureKind | null = null
     let previousAttemptAccountKey: string | null = null
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
@@ -260,12 +342,11 @@ export class FetchOrchestrator {
       const accountDisplayKey =
         auth.identityKey?.trim() || auth.accountId?.trim() || auth.email?.trim()?.toLowerCase() || accountLabel
       const retryAccountKey = resolveRetryAccountKey(auth)
-      const attemptReasonCode: FetchAttemptReasonCode =
-        attempt === 0 || previousAttemptStatus !== 429
-          ? "initial_attempt"
-          : previousAttemptAccountKey && retryAccountKey && previousAttemptAccountKey !== retryAccountKey
-            ? "retry_switched_account_after_429"
-            : "retry_same_account_after_429"
+      const attemptReasonCode: FetchAttemptReasonCode = resolveAttemptReasonCode({
+        previousFailure: previousAttemptFailure,
+        previousAccountKey: previousAttemptAccountKey,
+        accountKey: retryAccountKey
+      })
 
       const allowResumeToast =
         sessionEvent !== "resume" ||
@@ -296,7 +377,10 @@ export class FetchOrchestrator {
         const accountSwitchMessage =
           attemptReasonCode === "retry_switched_account_after_429"
             ? `Account switched after rate limit: ${accountLabel}`
-            : `Account switched: ${accountLabel}`
+            : attemptReasonCode === "retry_switched_account_after_server_error" ||
+                attemptReasonCode === "retry_switched_account_after_network_error"
+              ? `Account switched after upstream error: ${accountLabel}`
+              : `Account switched: ${accountLabel}`
         await this.maybeShowToast(accountSwitchMessage, "info", {
           dedupeKey: "account:switch",
           debounceMs: DEFAULT_ACCOUNT_SWITCH_TOAST_DEBOUNCE_MS,
@@ -335,7 +419,22 @@ export class FetchOrchestrator {
         }
       }
 
-      const response = await this.fetchWithRedirectPolicy(request)
+      const outcome = await this.attemptFetch(request)
+      if ("networkError" in outcome) {
+        const tripped = await this.recordTransientFailure(auth, now)
+        if (!retryTransientFailures) {
+          throw outcome.networkError
+        }
+        lastResponse = undefined
+        previousAttemptFailure = "network_error"
+        previousAttemptAccountKey = retryAccountKey
+        if (!tripped && attempt < maxAttempts - 1) {
+          await this.waitBeforeTransientRetry(attempt)
+        }
+        continue
+      }
+
+      const { response, upstream } = outcome
       if (this.deps.onAttemptResponse) {
         try {
           await this.deps.onAttemptResponse({
@@ -353,14 +452,27 @@ export class FetchOrchestrator {
           // Snapshot/debug hooks should never block request execution.
         }
       }
-      if (response.status !== 429) {
+      const serverError = upstream && isTransientServerErrorStatus(response.status)
+      const tripped = serverError ? await this.recordTransientFailure(auth, now) : false
+      if (!serverError) {
+        this.clearTransientFailures(auth)
+      }
+      if (response.status !== 429 && !(serverError && retryTransientFailures)) {
         return response
       }
 
       lastResponse = response
-      previousAttemptStatus = response.status
+      previousAttemptFailure = serverError ? "server_error" : "rate_limit"
       previousAttemptAccountKey = retryAccountKey
 
+      if (serverError) {
+        // Skip the backoff when the breaker just benched this account; the next attempt goes elsewhere.
+        if (!tripped && attempt < maxAttempts - 1) {
+          await this.waitBeforeTransientRetry(attempt)
+        }
+        continue
+      }
+
       // Handle 429
       const retryAfterStr = response.headers.get("retry-after")
       if (auth.identityKey) {
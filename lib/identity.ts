@@ -14,6 +14,28 @@ export function normalizePlan(plan?: string): string | undefined {
   return trimmed.toLowerCase()
 }
 
+export const ACCOUNT_LABEL_MAX_LENGTH = 64
+export const ACCOUNT_TAG_MAX_LENGTH = 32
+
+export function normalizeAccountLabel(label?: unknown): string | undefined {
+  if (typeof label !== "string") return undefined
+  const collapsed = label.trim().replace(/\s+/g, " ")
+  if (!collapsed) return undefined
+  return collapsed.slice(0, ACCOUNT_LABEL_MAX_LENGTH).trim()
+}
+
+/** Lowercased, de-duplicated tags in first-seen order; whitespace inside a tag becomes `-`. */
+export function normalizeAccountTags(tags?: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) return undefined
+  const out: string[] = []
+  for (const tag of tags) {
+    if (typeof tag !== "string") continue
+    const normalized = tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, ACCOUNT_TAG_MAX_LENGTH)
+    if (normalized && !out.includes(normalized)) out.push(normalized)
+  }
+  return out.length > 0 ? out : undefined
+}
+
 export function buildIdentityKey(input: { accountId?: string; email?: string; plan?: string }): string | undefined {
   const accountId = input.accountId?.trim()
   const email = normalizeEmail(input.email)
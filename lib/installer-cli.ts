@@ -1,5 +1,12 @@
 import path from "node:path"
 
+import { runAccountsCli } from "./accounts-cli.js"
+import { runConfigCli } from "./config-cli.js"
+import { runDoctorCli } from "./doctor-cli.js"
+import { runUsageCli } from "./usage-cli.js"
+import { runMockBackendCli } from "./mock-backend-cli.js"
+import { runSimulateCli } from "./simulate-cli.js"
+import { runStatusCli } from "./status-cli.js"
 import { installCreatePersonalityCommand } from "./personality-command.js"
 import { installPersonalityBuilderSkill } from "./personality-skill.js"
 import { ensureDefaultConfigFile } from "./config.js"
@@ -83,9 +90,23 @@ function helpText(): string {
     "",
     "Usage:",
     "  opencode-codex-auth install [--config <path>] [--plugin <specifier>]",
+    "  opencode-codex-auth accounts <list|switch|enable|disable|remove|refresh> [options]",
+    "  opencode-codex-auth status [--json]",
+    "  opencode-codex-auth usage [--days <n>] [--json]",
+    "  opencode-codex-auth mock-server [--port <n>] [--fail <spec>]...",
+    "  opencode-codex-auth doctor [--json]",
+    "  opencode-codex-auth simulate [--trace <file> | --from-usage] [--strategy <name>]... [--json]",
+    "  opencode-codex-auth config migrate [--file <path>] [--dry-run]",
     "",
     "Commands:",
     "  install         Install plugin entry in opencode.json plus personality command/skill scaffolding.",
+    "  accounts        Manage stored OpenAI accounts (run `accounts --help` for details).",
+    "  status          Show account, quota and credit status (use --json for scripts).",
+    "  usage           Report recorded token usage by account, model, session and day.",
+    "  mock-server     Run a local mock Codex backend and OAuth issuer for offline development.",
+    "  doctor          Check config, account store, caches, locks and permissions; exits 1 on errors.",
+    "  simulate        Compare rotation strategies by replaying a synthetic or recorded request trace.",
+    "  config          Rewrite deprecated codex-config keys to their current form (`config migrate --dry-run` previews).",
     "",
     "Options:",
     "  --config <path> Custom opencode.json path (defaults to $XDG_CONFIG_HOME/opencode/opencode.json when set, otherwise ~/.config/opencode/opencode.json).",
@@ -94,6 +115,28 @@ function helpText(): string {
 }
 
 export async function runInstallerCli(args: string[], io: InstallerIo = DEFAULT_IO): Promise<number> {
+  if (args[0] === "accounts") {
+    return runAccountsCli(args.slice(1), io)
+  }
+  if (args[0] === "status") {
+    return runStatusCli(args.slice(1), io)
+  }
+  if (args[0] === "usage") {
+    return runUsageCli(args.slice(1), io)
+  }
+  if (args[0] === "mock-server") {
+    return runMockBackendCli(args.slice(1), io)
+  }
+  if (args[0] === "doctor") {
+    return runDoctorCli(args.slice(1), io)
+  }
+  if (args[0] === "simulate") {
+    return runSimulateCli(args.slice(1), io)
+  }
+  if (args[0] === "config") {
+    return runConfigCli(args.slice(1), io)
+  }
+
   if (args.includes("--help") || args.includes("-h")) {
     io.out(helpText())
     return 0
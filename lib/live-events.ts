@@ -0,0 +1,223 @@
+import { randomUUID } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { enforceOwnerOnlyPermissions, isFsErrorCode } from "./cache-io.js"
+import { withLockedFile } from "./cache-lock.js"
+import { parseEnvBoolean } from "./config/file.js"
+import type { Logger } from "./logger.js"
+import type { CodexRateLimitSnapshot, OpenAIAuthMode } from "./types.js"
+import { isRecord } from "./util.js"
+
+export const LIVE_EVENTS_ENV = "OPENCODE_OPENAI_MULTI_LIVE_EVENTS"
+export const LIVE_EVENTS_MAX_BYTES = 256 * 1024
+export const LIVE_EVENTS_RETENTION_MS = 10 * 60_000
+export const LIVE_EVENTS_POLL_MS = 1_000
+
+/** State changes one OpenCode process shares with the others using the same config root. */
+export type LiveEvent =
+  | { type: "cooldown"; mode: OpenAIAuthMode; identityKey: string; cooldownUntil: number }
+  | { type: "quota_snapshot"; identityKey: string; snapshot: CodexRateLimitSnapshot }
+  | {
+      type: "account_switch"
+      mode: OpenAIAuthMode
+      identityKey: string
+      previousIdentityKey?: string
+      /** Session whose request moved to `identityKey`; other processes repin it (see `repinSwitchedSession`). */
+      sessionKey?: string
+    }
+
+/** One line of the channel file. `seq` increases by one per event, across compactions. */
+export type LiveEventRecord = LiveEvent & {
+  seq: number
+  at: number
+  pid: number
+  instance: string
+}
+
+export type LiveEventListener = (event: LiveEventRecord) => void
+
+export type LiveEventChannel = {
+  /** Appends an event for the other processes. Failures are logged, never thrown. */
+  publish: (event: LiveEvent) => Promise<void>
+  /**
+   * Registers `listener` under `key`, replacing an earlier listener with the same key, and starts
+   * polling. Events published by this channel are not delivered back to it.
+   */
+  subscribe: (key: string, listener: LiveEventListener) => () => void
+  /** Reads events appended since the last poll. The first poll only records the current position. */
+  poll: () => Promise<void>
+  close: () => void
+}
+
+export function isLiveEventsEnabled(env: Record<string, string | undefined> = process.env): boolean {
+  return parseEnvBoolean(env[LIVE_EVENTS_ENV]) !== false
+}
+
+function parseLiveEventRecord(line: string): LiveEventRecord | undefined {
+  try {
+    const parsed: unknown = JSON.parse(line)
+    if (!isRecord(parsed) || typeof parsed.seq !== "number" || typeof parsed.at !== "number") return undefined
+    if (typeof parsed.instance !== "string" || typeof parsed.identityKey !== "string") return undefined
+    if (parsed.type === "cooldown" && typeof parsed.cooldownUntil !== "number") return undefined
+    if (parsed.type === "quota_snapshot" && (!isRecord(parsed.snapshot) || !Array.isArray(parsed.snapshot.limits))) {
+      return undefined
+    }
+    if (parsed.type !== "cooldown" && parsed.type !== "quota_snapshot" && parsed.type !== "account_switch") {
+      return undefined
+    }
+    return parsed as LiveEventRecord
+  } catch (error) {
+    if (error instanceof Error) {
+      // a torn line from a crashed writer is skipped
+    }
+    return undefined
+  }
+}
+
+async function readLiveEventRecords(filePath: string): Promise<LiveEventRecord[]> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return []
+    throw error
+  }
+  return content.split("\n").flatMap((line) => {
+    const record = line.trim() ? parseLiveEventRecord(line) : undefined
+    return record ? [record] : []
+  })
+}
+
+async function appendLiveEvent(filePath: string, event: LiveEvent, instance: string, now: number): Promise<void> {
+  await withLockedFile(filePath, async () => {
+    const records = await readLiveEventRecords(filePath)
+    const seq = (records.at(-1)?.seq ?? 0) + 1
+    const line = `${JSON.stringify({ ...event, seq, at: now, pid: process.pid, instance })}\n`
+    const size = records.length > 0 ? (await fs.stat(filePath)).size : 0
+    const oldest = records[0]?.at
+    if (
+      size + Buffer.byteLength(line) > LIVE_EVENTS_MAX_BYTES ||
+      (oldest !== undefined && oldest < now - LIVE_EVENTS_RETENTION_MS)
+    ) {
+      // Compact in place: readers track `seq`, not byte offsets, so rewriting the file is safe.
+      const kept = records.filter((record) => record.at >= now - LIVE_EVENTS_RETENTION_MS)
+      const keptLines = kept.map((record) => `${JSON.stringify(record)}\n`)
+      while (
+        keptLines.length > 0 &&
+        Buffer.byteLength(keptLines.join("")) + Buffer.byteLength(line) > LIVE_EVENTS_MAX_BYTES / 2
+      ) {
+        keptLines.shift()
+      }
+      const tempPath = `${filePath}.${randomUUID()}.tmp`
+      await fs.writeFile(tempPath, `${keptLines.join("")}${line}`, { mode: 0o600 })
+      await fs.rename(tempPath, filePath)
+    } else {
+      await fs.appendFile(filePath, line, { mode: 0o600 })
+    }
+    await enforceOwnerOnlyPermissions(filePath)
+  })
+}
+
+/**
+ * File-based event channel shared by every OpenCode process using the same config root. Writers
+ * append under the `cache-lock.ts` file lock; readers poll the file's size and mtime and deliver
+ * records whose `seq` they have not seen yet.
+ */
+export function createLiveEventChannel(input: {
+  filePath: string
+  pollMs?: number
+  now?: () => number
+  log?: Logger
+}): LiveEventChannel {
+  const instance = randomUUID()
+  const now = input.now ?? Date.now
+  const listeners = new Map<string, LiveEventListener>()
+  let lastSeq: number | undefined
+  let lastSignature: string | undefined
+  let timer: ReturnType<typeof setInterval> | undefined
+  let polling: Promise<void> | undefined
+  let closed = false
+
+  const readNewEvents = async (): Promise<void> => {
+    let signature: string
+    try {
+      const stat = await fs.stat(input.filePath)
+      signature = `${stat.size}:${stat.mtimeMs}`
+    } catch (error) {
+      if (!isFsErrorCode(error, "ENOENT")) throw error
+      signature = "missing"
+    }
+    if (signature === lastSignature && lastSeq !== undefined) return
+    lastSignature = signature
+
+    const records = await readLiveEventRecords(input.filePath)
+    const newestSeq = records.at(-1)?.seq ?? 0
+    if (lastSeq === undefined) {
+      lastSeq = newestSeq
+      return
+    }
+    // A deleted and recreated file restarts at seq 1; everything in it is new.
+    const since = newestSeq < lastSeq ? 0 : lastSeq
+    lastSeq = newestSeq
+    for (const record of records) {
+      if (record.seq <= since || record.instance === instance) continue
+      for (const listener of listeners.values()) {
+        try {
+          listener(record)
+        } catch (error) {
+          input.log?.debug("live event listener failed", {
+            type: record.type,
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+      }
+    }
+  }
+
+  const poll = async (): Promise<void> => {
+    if (closed) return
+    // Overlapping timer ticks share one read.
+    polling ??= readNewEvents()
+      .catch((error) => {
+        input.log?.debug("live event poll failed", { error: error instanceof Error ? error.message : String(error) })
+      })
+      .finally(() => {
+        polling = undefined
+      })
+    await polling
+  }
+
+  return {
+    publish: async (event) => {
+      if (closed) return
+      try {
+        await fs.mkdir(path.dirname(input.filePath), { recursive: true })
+        await appendLiveEvent(input.filePath, event, instance, now())
+      } catch (error) {
+        input.log?.debug("live event publish failed", {
+          type: event.type,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    },
+    subscribe: (key, listener) => {
+      listeners.set(key, listener)
+      if (!timer && !closed) {
+        void poll()
+        timer = setInterval(() => void poll(), Math.max(50, input.pollMs ?? LIVE_EVENTS_POLL_MS))
+        timer.unref?.()
+      }
+      return () => {
+        if (listeners.get(key) === listener) listeners.delete(key)
+      }
+    },
+    poll,
+    close: () => {
+      closed = true
+      listeners.clear()
+      if (timer) clearInterval(timer)
+      timer = undefined
+    }
+  }
+}
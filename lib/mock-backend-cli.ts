@@ -0,0 +1,152 @@
+import {
+  DEFAULT_MOCK_BACKEND_PORT,
+  type MockCodexBackend,
+  type MockCodexBackendOptions,
+  startMockCodexBackend
+} from "./mock-backend/server.js"
+import { type MockScenarioStep, parseMockScenarioSpec } from "./mock-backend/scenarios.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type MockBackendCliDeps = {
+  start?: (options: MockCodexBackendOptions) => Promise<MockCodexBackend>
+  waitForShutdown?: () => Promise<void>
+}
+
+type ParsedArgs = {
+  port: number
+  scenarios: MockScenarioStep[]
+  replyText?: string
+}
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth mock-server",
+    "",
+    "Usage:",
+    "  opencode-codex-auth mock-server [--port <n>] [--fail <spec>]... [--reply <text>]",
+    "",
+    "Runs a loopback stand-in for the ChatGPT Codex backend and OpenAI OAuth issuer. Point the plugin at it with",
+    "OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL=<printed origin> (or runtime.mockBackendUrl) to run fully offline.",
+    "",
+    "Options:",
+    `  --port <n>      Port to listen on (default: ${DEFAULT_MOCK_BACKEND_PORT}; 0 picks a free port).`,
+    "  --fail <spec>   Script a failure: <endpoint>:<status>[x<times>][@<accountId>].",
+    "                  Endpoints: responses, models, usage, token, device, * (e.g. responses:429x2).",
+    "  --reply <text>  Assistant text streamed back for every response."
+  ].join("\n")
+}
+
+function readOptionValue(args: string[], index: number, name: string): { value?: string; consumed: number } {
+  const token = args[index] ?? ""
+  if (token === name) return { value: args[index + 1], consumed: 2 }
+  return { value: token.slice(name.length + 1), consumed: 1 }
+}
+
+function parseArgs(args: string[]): { ok: true; value: ParsedArgs } | { ok: false; error: string } {
+  const parsed: ParsedArgs = { port: DEFAULT_MOCK_BACKEND_PORT, scenarios: [] }
+  for (let i = 0; i < args.length; ) {
+    const token = args[i]
+    if (!token) {
+      i += 1
+      continue
+    }
+    if (token === "--port" || token.startsWith("--port=")) {
+      const { value, consumed } = readOptionValue(args, i, "--port")
+      const port = Number(value)
+      if (!value || !Number.isInteger(port) || port < 0 || port > 65535) {
+        return { ok: false, error: "Expected --port <0-65535>" }
+      }
+      parsed.port = port
+      i += consumed
+      continue
+    }
+    if (token === "--fail" || token.startsWith("--fail=")) {
+      const { value, consumed } = readOptionValue(args, i, "--fail")
+      const step = value ? parseMockScenarioSpec(value) : undefined
+      if (!step) {
+        return { ok: false, error: `Invalid --fail spec: ${value ?? ""}` }
+      }
+      parsed.scenarios.push(step)
+      i += consumed
+      continue
+    }
+    if (token === "--reply" || token.startsWith("--reply=")) {
+      const { value, consumed } = readOptionValue(args, i, "--reply")
+      if (!value) {
+        return { ok: false, error: "Missing value for --reply" }
+      }
+      parsed.replyText = value
+      i += consumed
+      continue
+    }
+    if (token.startsWith("-")) {
+      return { ok: false, error: `Unknown option: ${token}` }
+    }
+    return { ok: false, error: `Unexpected argument: ${token}` }
+  }
+  return { ok: true, value: parsed }
+}
+
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop)
+      process.off("SIGTERM", stop)
+      resolve()
+    }
+    process.on("SIGINT", stop)
+    process.on("SIGTERM", stop)
+  })
+}
+
+export async function runMockBackendCli(
+  args: string[],
+  io: CliIo = DEFAULT_IO,
+  deps: MockBackendCliDeps = {}
+): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  const parsed = parseArgs(args)
+  if (!parsed.ok) {
+    io.err(parsed.error)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  let backend: MockCodexBackend
+  try {
+    backend = await (deps.start ?? startMockCodexBackend)({
+      port: parsed.value.port,
+      scenarios: parsed.value.scenarios,
+      ...(parsed.value.replyText ? { replyText: parsed.value.replyText } : {})
+    })
+  } catch (error) {
+    io.err(`Failed to start mock backend: ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+
+  io.out(`Mock Codex backend listening on ${backend.origin}`)
+  io.out(`  export OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL=${backend.origin}`)
+  if (parsed.value.scenarios.length > 0) {
+    io.out(`  scripted failures: ${parsed.value.scenarios.length}`)
+  }
+  io.out("Press Ctrl+C to stop.")
+
+  await (deps.waitForShutdown ?? waitForSignal)()
+  await backend.close()
+  io.out(`Served ${backend.requests.length} ${backend.requests.length === 1 ? "request" : "requests"}.`)
+  return 0
+}
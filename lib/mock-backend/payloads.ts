@@ -0,0 +1,203 @@
+import { MOCK_JWT_SIGNATURE } from "../backend-endpoints.js"
+import type { MockEndpoint } from "./scenarios.js"
+
+export type MockAccount = {
+  accountId: string
+  email: string
+  plan: string
+  primaryUsedPercent?: number
+  secondaryUsedPercent?: number
+}
+
+export const DEFAULT_MOCK_ACCOUNTS: readonly MockAccount[] = [
+  { accountId: "acct_mock_1", email: "mock-1@example.test", plan: "plus" },
+  { accountId: "acct_mock_2", email: "mock-2@example.test", plan: "pro" }
+]
+
+export const DEFAULT_MOCK_REPLY_TEXT = "Hello from the local mock Codex backend."
+export const MOCK_MODEL_SLUGS = ["gpt-5.3-codex", "gpt-5.2"] as const
+
+const TOKEN_TTL_SECONDS = 3600
+const PRIMARY_WINDOW_SECONDS = 5 * 60 * 60
+const SECONDARY_WINDOW_SECONDS = 7 * 24 * 60 * 60
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url")
+}
+
+/** Unsigned JWT; the plugin only decodes claims and never verifies signatures. */
+function unsignedJwt(claims: Record<string, unknown>): string {
+  return `${encodeSegment({ alg: "none", typ: "JWT" })}.${encodeSegment(claims)}.${MOCK_JWT_SIGNATURE}`
+}
+
+export function buildMockTokenResponse(
+  account: MockAccount,
+  input: { refreshToken: string; nowMs: number }
+): Record<string, unknown> {
+  const issuedAt = Math.floor(input.nowMs / 1000)
+  const authClaims = { chatgpt_account_id: account.accountId, chatgpt_plan_type: account.plan }
+  return {
+    id_token: unsignedJwt({
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_TTL_SECONDS,
+      email: account.email,
+      "https://api.openai.com/auth": authClaims
+    }),
+    access_token: unsignedJwt({
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_TTL_SECONDS,
+      "https://api.openai.com/auth": authClaims,
+      "https://api.openai.com/profile": { email: account.email }
+    }),
+    refresh_token: input.refreshToken,
+    expires_in: TOKEN_TTL_SECONDS,
+    token_type: "Bearer"
+  }
+}
+
+export function buildMockModelsPayload(): Record<string, unknown> {
+  return {
+    models: MOCK_MODEL_SLUGS.map((slug, index) => ({
+      slug,
+      display_name: slug,
+      description: `Mock ${slug}`,
+      priority: index,
+      context_window: 272_000,
+      input_modalities: ["text", "image"],
+      visibility: "list",
+      supported_in_api: true,
+      default_reasoning_level: "medium",
+      supported_reasoning_levels: [
+        { effort: "low", description: "Fast responses" },
+        { effort: "medium", description: "Balanced" },
+        { effort: "high", description: "Thorough" }
+      ],
+      base_instructions: "You are a mock Codex model used for offline development.",
+      supports_reasoning_summaries: true,
+      supports_parallel_tool_calls: true
+    }))
+  }
+}
+
+function clampPercent(value: number | undefined, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback
+  return Math.min(100, Math.max(0, value))
+}
+
+export function buildMockUsagePayload(account: MockAccount | undefined, nowMs: number): Record<string, unknown> {
+  const nowSeconds = Math.floor(nowMs / 1000)
+  return {
+    plan_type: account?.plan ?? "plus",
+    rate_limit: {
+      primary_window: {
+        used_percent: clampPercent(account?.primaryUsedPercent, 10),
+        limit_window_seconds: PRIMARY_WINDOW_SECONDS,
+        reset_at: nowSeconds + PRIMARY_WINDOW_SECONDS
+      },
+      secondary_window: {
+        used_percent: clampPercent(account?.secondaryUsedPercent, 5),
+        limit_window_seconds: SECONDARY_WINDOW_SECONDS,
+        reset_at: nowSeconds + SECONDARY_WINDOW_SECONDS
+      }
+    },
+    credits: { has_credits: false, unlimited: false, balance: "0" }
+  }
+}
+
+function sseEvent(payload: Record<string, unknown>): string {
+  return `event: ${String(payload.type)}\ndata: ${JSON.stringify(payload)}\n\n`
+}
+
+/** Splits the reply into a handful of deltas so clients exercise incremental parsing. */
+function chunkReply(text: string): string[] {
+  const words = text.split(/(?<=\s)/)
+  const chunks: string[] = []
+  for (let i = 0; i < words.length; i += 3) {
+    chunks.push(words.slice(i, i + 3).join(""))
+  }
+  return chunks.length > 0 ? chunks : [""]
+}
+
+/** Minimal token estimate (~4 characters per token) so usage numbers scale with payload size. */
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4))
+}
+
+export function buildMockResponseEvents(input: {
+  requestBody: string
+  model: string
+  replyText: string
+  responseId: string
+  nowMs: number
+}): string[] {
+  const createdAt = Math.floor(input.nowMs / 1000)
+  const itemId = `msg_${input.responseId.slice("resp_".length)}`
+  const baseResponse = {
+    id: input.responseId,
+    object: "response",
+    created_at: createdAt,
+    model: input.model
+  }
+  const message = {
+    id: itemId,
+    type: "message",
+    role: "assistant",
+    status: "completed",
+    content: [{ type: "output_text", text: input.replyText, annotations: [] }]
+  }
+  const inputTokens = estimateTokens(input.requestBody)
+  const outputTokens = estimateTokens(input.replyText)
+
+  const events = [
+    sseEvent({ type: "response.created", sequence_number: 0, response: { ...baseResponse, status: "in_progress" } }),
+    sseEvent({
+      type: "response.output_item.added",
+      output_index: 0,
+      item: { ...message, status: "in_progress", content: [] }
+    }),
+    ...chunkReply(input.replyText).map((delta) =>
+      sseEvent({ type: "response.output_text.delta", item_id: itemId, output_index: 0, content_index: 0, delta })
+    ),
+    sseEvent({ type: "response.output_item.done", output_index: 0, item: message }),
+    sseEvent({
+      type: "response.completed",
+      response: {
+        ...baseResponse,
+        status: "completed",
+        output: [message],
+        usage: {
+          input_tokens: inputTokens,
+          input_tokens_details: { cached_tokens: 0 },
+          output_tokens: outputTokens,
+          output_tokens_details: { reasoning_tokens: 0 },
+          total_tokens: inputTokens + outputTokens
+        }
+      }
+    })
+  ]
+  return events
+}
+
+export function buildMockErrorBody(endpoint: MockEndpoint, status: number, retryAfterSeconds?: number): unknown {
+  if (endpoint === "token") {
+    return status === 401 || status === 400
+      ? { error: "invalid_grant", error_description: "Mock refresh token rejected" }
+      : { error: "server_error", error_description: `Mock issuer error (${status})` }
+  }
+  if (endpoint === "device") {
+    return { error: status === 429 ? "slow_down" : "access_denied" }
+  }
+  if (status === 429) {
+    return {
+      error: {
+        type: "usage_limit_reached",
+        message: "The usage limit has been reached (mock)",
+        ...(retryAfterSeconds !== undefined ? { resets_in_seconds: retryAfterSeconds } : {})
+      }
+    }
+  }
+  if (status === 401) {
+    return { error: { code: "token_expired", message: "Mock access token rejected" } }
+  }
+  return { error: { type: "server_error", message: `Mock upstream error (${status})` } }
+}
@@ -0,0 +1,101 @@
+export type MockEndpoint = "responses" | "models" | "usage" | "token" | "device"
+
+export const MOCK_ENDPOINTS: readonly MockEndpoint[] = ["responses", "models", "usage", "token", "device"]
+
+/**
+ * A scripted failure. Matching requests receive `status` instead of the normal payload
+ * until the step has been consumed `times` times.
+ */
+export type MockScenarioStep = {
+  endpoint: MockEndpoint | "*"
+  status: number
+  times?: number
+  retryAfterSeconds?: number
+  accountId?: string
+  body?: unknown
+}
+
+type QueuedStep = MockScenarioStep & { remaining: number }
+
+function isMockEndpoint(value: string): value is MockEndpoint {
+  return (MOCK_ENDPOINTS as readonly string[]).includes(value)
+}
+
+function isScenarioStatus(status: number): boolean {
+  return Number.isInteger(status) && status >= 400 && status <= 599
+}
+
+/**
+ * Parses `<endpoint>:<status>[x<times>][@<accountId>]`, e.g. `responses:429x2` or
+ * `token:401@acct_mock_2`. Use `*` as the endpoint to match every scripted route.
+ */
+export function parseMockScenarioSpec(spec: string): MockScenarioStep | undefined {
+  const match = /^([a-z*]+):(\d{3})(?:x(\d+))?(?:@(.+))?$/.exec(spec.trim())
+  if (!match) return undefined
+  const [, endpoint, rawStatus, rawTimes, accountId] = match
+  if (endpoint !== "*" && !isMockEndpoint(endpoint)) return undefined
+  const status = Number(rawStatus)
+  if (!isScenarioStatus(status)) return undefined
+  const times = rawTimes ? Number(rawTimes) : 1
+  if (!Number.isInteger(times) || times < 1) return undefined
+  return {
+    endpoint,
+    status,
+    times,
+    ...(accountId ? { accountId } : {})
+  }
+}
+
+export function normalizeMockScenarioStep(value: unknown): MockScenarioStep | undefined {
+  if (typeof value === "string") return parseMockScenarioSpec(value)
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined
+  const raw = value as Record<string, unknown>
+  const endpoint = typeof raw.endpoint === "string" ? raw.endpoint : ""
+  if (endpoint !== "*" && !isMockEndpoint(endpoint)) return undefined
+  const status = typeof raw.status === "number" ? raw.status : Number.NaN
+  if (!isScenarioStatus(status)) return undefined
+  const times = typeof raw.times === "number" && Number.isInteger(raw.times) && raw.times > 0 ? raw.times : 1
+  return {
+    endpoint,
+    status,
+    times,
+    ...(typeof raw.retryAfterSeconds === "number" && raw.retryAfterSeconds >= 0
+      ? { retryAfterSeconds: Math.floor(raw.retryAfterSeconds) }
+      : {}),
+    ...(typeof raw.accountId === "string" && raw.accountId.trim() ? { accountId: raw.accountId.trim() } : {}),
+    ...("body" in raw ? { body: raw.body } : {})
+  }
+}
+
+export class MockScenarioQueue {
+  private steps: QueuedStep[] = []
+
+  enqueue(steps: MockScenarioStep[]): void {
+    for (const step of steps) {
+      this.steps.push({ ...step, remaining: Math.max(1, Math.floor(step.times ?? 1)) })
+    }
+  }
+
+  clear(): void {
+    this.steps = []
+  }
+
+  pending(): MockScenarioStep[] {
+    return this.steps.map(({ remaining, ...step }) => ({ ...step, times: remaining }))
+  }
+
+  /** Consumes and returns the first step matching the request, if any. */
+  take(endpoint: MockEndpoint, accountId: string | undefined): MockScenarioStep | undefined {
+    const index = this.steps.findIndex(
+      (step) =>
+        (step.endpoint === "*" || step.endpoint === endpoint) &&
+        (step.accountId === undefined || step.accountId === accountId)
+    )
+    if (index < 0) return undefined
+    const step = this.steps[index]
+    step.remaining -= 1
+    if (step.remaining <= 0) this.steps.splice(index, 1)
+    const { remaining: _remaining, ...rest } = step
+    return rest
+  }
+}
@@ -0,0 +1,396 @@
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { MOCK_REFRESH_TOKEN_PREFIX } from "../backend-endpoints.js"
+import {
+  buildMockErrorBody,
+  buildMockModelsPayload,
+  buildMockResponseEvents,
+  buildMockTokenResponse,
+  buildMockUsagePayload,
+  DEFAULT_MOCK_ACCOUNTS,
+  DEFAULT_MOCK_REPLY_TEXT,
+  type MockAccount
+} from "./payloads.js"
+import { type MockEndpoint, MockScenarioQueue, type MockScenarioStep, normalizeMockScenarioStep } from "./scenarios.js"
+
+export const DEFAULT_MOCK_BACKEND_PORT = 14555
+const MOCK_BACKEND_LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"])
+const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024
+const MAX_REQUEST_LOG_ENTRIES = 500
+const DEFAULT_MOCK_MODEL = "gpt-5.3-codex"
+
+export type MockCodexBackendOptions = {
+  port?: number
+  host?: string
+  accounts?: MockAccount[]
+  scenarios?: MockScenarioStep[]
+  replyText?: string
+  now?: () => number
+}
+
+export type MockRequestRecord = {
+  at: number
+  method: string
+  path: string
+  endpoint?: MockEndpoint
+  accountId?: string
+  status: number
+  scripted: boolean
+}
+
+export type MockCodexBackend = {
+  origin: string
+  port: number
+  requests: MockRequestRecord[]
+  enqueueScenario: (steps: MockScenarioStep[]) => void
+  pendingScenario: () => MockScenarioStep[]
+  clearScenario: () => void
+  close: () => Promise<void>
+}
+
+type MockReply = {
+  status: number
+  headers?: Record<string, string>
+  body?: unknown
+  events?: string[]
+  html?: string
+}
+
+type MockRoute = {
+  endpoint?: MockEndpoint
+  handle: (request: MockRequest) => MockReply
+}
+
+type MockRequest = {
+  method: string
+  url: URL
+  headers: http.IncomingHttpHeaders
+  body: string
+  accountId?: string
+}
+
+function readHeader(headers: http.IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name]
+  const first = Array.isArray(value) ? value[0] : value
+  return first?.trim() ? first.trim() : undefined
+}
+
+function parseJsonBody(body: string): Record<string, unknown> {
+  if (!body) return {}
+  try {
+    const parsed = JSON.parse(body) as unknown
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {}
+  } catch (error) {
+    if (error instanceof Error) {
+      // malformed JSON is treated as an empty body
+    }
+    return {}
+  }
+}
+
+function isLoopbackRedirect(value: string | null): value is string {
+  if (!value) return false
+  try {
+    const parsed = new URL(value)
+    return parsed.protocol === "http:" && MOCK_BACKEND_LOOPBACK_HOSTS.has(parsed.hostname.replace(/^\[|\]$/g, ""))
+  } catch (error) {
+    if (error instanceof Error) {
+      // invalid redirect target
+    }
+    return false
+  }
+}
+
+async function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+    size += buffer.length
+    if (size > MAX_REQUEST_BODY_BYTES) throw new Error("Mock backend request body too large")
+    chunks.push(buffer)
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+function writeReply(res: http.ServerResponse, reply: MockReply): void {
+  if (reply.events) {
+    res.writeHead(reply.status, { "content-type": "text/event-stream", "cache-control": "no-cache", ...reply.headers })
+    for (const event of reply.events) res.write(event)
+    res.end()
+    return
+  }
+  if (reply.html !== undefined) {
+    res.writeHead(reply.status, { "content-type": "text/html; charset=utf-8", ...reply.headers })
+    res.end(reply.html)
+    return
+  }
+  if (reply.body === undefined) {
+    res.writeHead(reply.status, reply.headers)
+    res.end()
+    return
+  }
+  res.writeHead(reply.status, { "content-type": "application/json", ...reply.headers })
+  res.end(JSON.stringify(reply.body))
+}
+
+/**
+ * Starts a loopback-only stand-in for the ChatGPT Codex backend and the OpenAI OAuth issuer.
+ * Browser and device logins are approved immediately, handing out unsigned tokens for the
+ * configured accounts in turn; scripted scenario steps replace normal replies with errors.
+ */
+export async function startMockCodexBackend(options: MockCodexBackendOptions = {}): Promise<MockCodexBackend> {
+  const host = options.host ?? "127.0.0.1"
+  if (!MOCK_BACKEND_LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`Mock backend only binds to loopback hosts (got "${host}")`)
+  }
+  const accounts = options.accounts && options.accounts.length > 0 ? options.accounts : [...DEFAULT_MOCK_ACCOUNTS]
+  const replyText = options.replyText ?? DEFAULT_MOCK_REPLY_TEXT
+  const now = options.now ?? Date.now
+  const scenario = new MockScenarioQueue()
+  scenario.enqueue(options.scenarios ?? [])
+
+  const requests: MockRequestRecord[] = []
+  const authorizationCodes = new Map<string, MockAccount>()
+  const refreshTokens = new Map<string, MockAccount>()
+  const spentRefreshTokens = new Set<string>()
+  const deviceCodes = new Map<string, MockAccount>()
+  let nextAccountIndex = 0
+  let sequence = 0
+
+  const nextId = (prefix: string) => {
+    sequence += 1
+    return `${prefix}_${now().toString(36)}${sequence.toString(36).padStart(4, "0")}`
+  }
+  const nextLoginAccount = () => {
+    const account = accounts[nextAccountIndex % accounts.length]
+    nextAccountIndex += 1
+    return account
+  }
+  const findAccount = (accountId: string | undefined) =>
+    accountId ? accounts.find((account) => account.accountId === accountId) : undefined
+  const issueTokens = (account: MockAccount) => {
+    // The account id rides along so tokens from an earlier run still refresh after a restart.
+    const refreshToken = `${nextId("mock_refresh")}.${Buffer.from(account.accountId).toString("base64url")}`
+    refreshTokens.set(refreshToken, account)
+    return buildMockTokenResponse(account, { refreshToken, nowMs: now() })
+  }
+  const redeemRefreshToken = (refreshToken: string): MockAccount | undefined => {
+    if (spentRefreshTokens.has(refreshToken)) return undefined
+    const issued = refreshTokens.get(refreshToken)
+    if (issued) return issued
+    if (!refreshToken.startsWith(MOCK_REFRESH_TOKEN_PREFIX)) return undefined
+    const encodedAccountId = refreshToken.slice(refreshToken.lastIndexOf(".") + 1)
+    return findAccount(Buffer.from(encodedAccountId, "base64url").toString("utf8"))
+  }
+
+  const routes: Record<string, MockRoute> = {
+    "POST /backend-api/codex/responses": {
+      endpoint: "responses",
+      handle: (request) => {
+        if (!readHeader(request.headers, "authorization")?.startsWith("Bearer ")) {
+          return { status: 401, body: buildMockErrorBody("responses", 401) }
+        }
+        const payload = parseJsonBody(request.body)
+        const model = typeof payload.model === "string" && payload.model.trim() ? payload.model : DEFAULT_MOCK_MODEL
+        return {
+          status: 200,
+          events: buildMockResponseEvents({
+            requestBody: request.body,
+            model,
+            replyText,
+            responseId: nextId("resp"),
+            nowMs: now()
+          })
+        }
+      }
+    },
+    "GET /backend-api/codex/models": {
+      endpoint: "models",
+      handle: () => ({ status: 200, body: buildMockModelsPayload() })
+    },
+    "GET /backend-api/wham/usage": {
+      endpoint: "usage",
+      handle: (request) => ({ status: 200, body: buildMockUsagePayload(findAccount(request.accountId), now()) })
+    },
+    "GET /oauth/authorize": {
+      handle: (request) => {
+        const redirectUri = request.url.searchParams.get("redirect_uri")
+        if (!isLoopbackRedirect(redirectUri)) {
+          return { status: 400, body: { error: "invalid_request", error_description: "redirect_uri must be loopback" } }
+        }
+        const code = nextId("mock_code")
+        authorizationCodes.set(code, nextLoginAccount())
+        const location = new URL(redirectUri)
+        location.searchParams.set("code", code)
+        location.searchParams.set("state", request.url.searchParams.get("state") ?? "")
+        return { status: 302, headers: { location: location.toString() } }
+      }
+    },
+    "POST /oauth/token": {
+      endpoint: "token",
+      handle: (request) => {
+        const form = new URLSearchParams(request.body)
+        const grantType = form.get("grant_type")
+        if (grantType === "authorization_code") {
+          const code = form.get("code") ?? ""
+          const account = authorizationCodes.get(code)
+          if (!account) return { status: 400, body: buildMockErrorBody("token", 400) }
+          authorizationCodes.delete(code)
+          return { status: 200, body: issueTokens(account) }
+        }
+        if (grantType === "refresh_token") {
+          const refreshToken = form.get("refresh_token") ?? ""
+          const account = redeemRefreshToken(refreshToken)
+          if (!account) return { status: 400, body: buildMockErrorBody("token", 400) }
+          refreshTokens.delete(refreshToken)
+          spentRefreshTokens.add(refreshToken)
+          return { status: 200, body: issueTokens(account) }
+        }
+        return { status: 400, body: { error: "unsupported_grant_type" } }
+      }
+    },
+    "POST /api/accounts/deviceauth/usercode": {
+      endpoint: "device",
+      handle: () => {
+        const deviceAuthId = nextId("mock_device")
+        deviceCodes.set(deviceAuthId, nextLoginAccount())
+        return {
+          status: 200,
+          body: {
+            device_auth_id: deviceAuthId,
+            user_code: `MOCK-${sequence.toString().padStart(4, "0")}`,
+            interval: "1"
+          }
+        }
+      }
+    },
+    "POST /api/accounts/deviceauth/token": {
+      endpoint: "device",
+      handle: (request) => {
+        const payload = parseJsonBody(request.body)
+        const deviceAuthId = typeof payload.device_auth_id === "string" ? payload.device_auth_id : ""
+        const account = deviceCodes.get(deviceAuthId)
+        if (!account) return { status: 400, body: { error: "expired_token" } }
+        deviceCodes.delete(deviceAuthId)
+        const code = nextId("mock_code")
+        authorizationCodes.set(code, account)
+        return { status: 200, body: { authorization_code: code, code_verifier: "mock-verifier" } }
+      }
+    },
+    "GET /codex/device": {
+      handle: () => ({
+        status: 200,
+        html: "<!doctype html><title>Mock device login</title><p>Device codes are approved automatically.</p>"
+      })
+    },
+    "GET /__mock/requests": {
+      handle: () => ({ status: 200, body: { requests } })
+    },
+    "GET /__mock/scenario": {
+      handle: () => ({ status: 200, body: { steps: scenario.pending() } })
+    },
+    "POST /__mock/scenario": {
+      handle: (request) => {
+        const payload = parseJsonBody(request.body)
+        const rawSteps = Array.isArray(payload.steps) ? payload.steps : []
+        const steps = rawSteps.map((step) => normalizeMockScenarioStep(step))
+        if (steps.some((step) => step === undefined)) {
+          return { status: 400, body: { error: "invalid scenario step" } }
+        }
+        scenario.enqueue(steps as MockScenarioStep[])
+        return { status: 200, body: { steps: scenario.pending() } }
+      }
+    },
+    "DELETE /__mock/scenario": {
+      handle: () => {
+        scenario.clear()
+        return { status: 204 }
+      }
+    }
+  }
+  routes["GET /api/codex/usage"] = routes["GET /backend-api/wham/usage"]
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://mock.invalid")
+    const method = (req.method ?? "GET").toUpperCase()
+    const route = routes[`${method} ${url.pathname.replace(/\/+$/, "") || "/"}`]
+    const request: MockRequest = {
+      method,
+      url,
+      headers: req.headers,
+      body: await readRequestBody(req),
+      accountId: readHeader(req.headers, "chatgpt-account-id")
+    }
+
+    let reply: MockReply
+    let scripted = false
+    const step = route?.endpoint ? scenario.take(route.endpoint, request.accountId) : undefined
+    if (!route) {
+      reply = { status: 404, body: { error: { message: `Mock backend has no route for ${method} ${url.pathname}` } } }
+    } else if (step && route.endpoint) {
+      scripted = true
+      reply = {
+        status: step.status,
+        headers: step.retryAfterSeconds !== undefined ? { "retry-after": String(step.retryAfterSeconds) } : undefined,
+        body: step.body ?? buildMockErrorBody(route.endpoint, step.status, step.retryAfterSeconds)
+      }
+    } else {
+      reply = route.handle(request)
+    }
+
+    if (!url.pathname.startsWith("/__mock/")) {
+      requests.push({
+        at: now(),
+        method,
+        path: url.pathname,
+        ...(route?.endpoint ? { endpoint: route.endpoint } : {}),
+        ...(request.accountId ? { accountId: request.accountId } : {}),
+        status: reply.status,
+        scripted
+      })
+      if (requests.length > MAX_REQUEST_LOG_ENTRIES) requests.splice(0, requests.length - MAX_REQUEST_LOG_ENTRIES)
+    }
+    writeReply(res, reply)
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (!res.headersSent) {
+        writeReply(res, {
+          status: 500,
+          body: { error: { message: error instanceof Error ? error.message : "Mock backend failure" } }
+        })
+      } else {
+        res.destroy()
+      }
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject)
+    server.listen(options.port ?? DEFAULT_MOCK_BACKEND_PORT, host, () => {
+      server.off("error", reject)
+      resolve()
+    })
+  })
+  const port = (server.address() as AddressInfo).port
+  const originHost = host === "::1" ? "[::1]" : host
+
+  return {
+    origin: `http://${originHost}:${port}`,
+    port,
+    requests,
+    enqueueScenario: (steps) => scenario.enqueue(steps),
+    pendingScenario: () => scenario.pending(),
+    clearScenario: () => scenario.clear(),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections()
+        server.close((error) => (error ? reject(error) : resolve()))
+      })
+  }
+}
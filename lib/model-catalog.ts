@@ -30,7 +30,7 @@ export {
   semverFromTag
 } from "./model-catalog/shared.js"
 
-export { getCodexModelCatalog } from "./model-catalog/catalog-fetch.js"
+export { getCodexModelCatalog, readCachedCodexModelCatalog } from "./model-catalog/catalog-fetch.js"
 
 export {
   applyCodexCatalogToProviderModels,
@@ -19,6 +19,7 @@ import {
   parseCatalogResponse,
   normalizeSemver
 } from "./shared.js"
+import { isTokenUsableWithBackend, routeToMockBackend } from "../backend-endpoints.js"
 import { resolveCodexCacheDir } from "../codex-cache-layout.js"
 
 const inMemoryCatalog = new Map<string, { fetchedAt: number; models: CodexModelInfo[]; staleFallback?: boolean }>()
@@ -42,7 +43,18 @@ function normalizeClientVersion(value: string | undefined, fallback?: string): s
 
 function buildModelsEndpoint(clientVersion: string): string {
   const separator = CODEX_MODELS_ENDPOINT.includes("?") ? "&" : "?"
-  return `${CODEX_MODELS_ENDPOINT}${separator}client_version=${encodeURIComponent(clientVersion)}`
+  return routeToMockBackend(`${CODEX_MODELS_ENDPOINT}${separator}client_version=${encodeURIComponent(clientVersion)}`)
+}
+
+/** The catalog cached for one account, from memory or disk, without any network request. */
+export async function readCachedCodexModelCatalog(input: {
+  accountId: string
+  cacheDir?: string
+}): Promise<CodexModelInfo[] | undefined> {
+  const cacheDir = resolveCodexCacheDir(input.cacheDir)
+  const memory = inMemoryCatalog.get(cacheKey(cacheDir, input.accountId))
+  if (memory && !memory.staleFallback) return memory.models
+  return (await readCatalogFromDisk(cacheDir, input.accountId))?.models
 }
 
 export async function getCodexModelCatalog(input: GetCodexModelCatalogInput): Promise<CodexModelInfo[] | undefined> {
@@ -50,7 +62,9 @@ export async function getCodexModelCatalog(input: GetCodexModelCatalogInput): Pr
   const cacheDir = resolveCodexCacheDir(input.cacheDir)
   const key = cacheKey(cacheDir, input.accountId)
   const fetchImpl = input.fetchImpl ?? fetch
-  const accessToken = input.accessToken?.trim()
+  const providedAccessToken = input.accessToken?.trim()
+  // A real token must not reach the mock backend; fall back to the caches as if signed out.
+  const accessToken = isTokenUsableWithBackend(providedAccessToken) ? providedAccessToken : undefined
   const targetClientVersion = normalizeSemver(input.clientVersion) ?? normalizeSemver(input.versionHeader)
   const githubFallbackVersion =
     normalizeSemver(normalizeClientVersion(input.clientVersion, input.versionHeader)) ??
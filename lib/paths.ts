@@ -5,8 +5,16 @@ export const CODEX_ACCOUNTS_FILE = "codex-accounts.json"
 export const LEGACY_OPENAI_CODEX_ACCOUNTS_FILE = "openai-codex-accounts.json"
 export const CODEX_SESSION_AFFINITY_FILE = "codex-session-affinity.json"
 export const CODEX_SNAPSHOTS_FILE = "codex-snapshots.json"
+export const CODEX_USAGE_LEDGER_FILE = "codex-usage.jsonl"
+export const CODEX_QUOTA_HISTORY_FILE = "codex-quota-history.json"
+export const CODEX_LIVE_EVENTS_FILE = "codex-live-events.jsonl"
+export const CODEX_ACCOUNT_LEASES_FILE = "codex-account-leases.json"
 export const CODEX_SHAREABLE_DEBUG_FILE = "shareable-debug.jsonl"
+export const CODEX_ACCOUNT_AUDIT_FILE = "codex-audit.jsonl"
+export const CODEX_ACCOUNT_AUDIT_KEY_FILE = "codex-audit.key"
+export const CODEX_TOKEN_KEY_FILE = "codex-accounts.key"
 const OPENCODE_AUTH_FILE = "auth.json"
+const CODEX_CLI_AUTH_FILE = "auth.json"
 const OPENCODE_SESSION_STORAGE_DIR = path.join("opencode", "storage", "session")
 
 function readAbsoluteEnvPath(raw: string | undefined): string | undefined {
@@ -79,14 +87,40 @@ export function opencodeSessionFilePath(
   return candidate
 }
 
+/** Login file of the official Codex CLI (`$CODEX_HOME/auth.json`, default `~/.codex/auth.json`). */
+export function defaultCodexCliAuthPath(env: Record<string, string | undefined> = process.env): string {
+  const codexHome = readAbsoluteEnvPath(env.CODEX_HOME)
+  return path.join(codexHome ?? path.join(os.homedir(), ".codex"), CODEX_CLI_AUTH_FILE)
+}
+
 export function legacyOpenAICodexAccountsPathFor(filePath: string): string {
   return path.join(path.dirname(filePath), LEGACY_OPENAI_CODEX_ACCOUNTS_FILE)
 }
 
+export function tokenKeyPathFor(filePath: string): string {
+  return path.join(path.dirname(filePath), CODEX_TOKEN_KEY_FILE)
+}
+
 export function defaultSnapshotsPath(): string {
   return path.join(defaultOpencodeCachePath(), CODEX_SNAPSHOTS_FILE)
 }
 
+export function quotaHistoryPathFor(snapshotsPath: string): string {
+  return path.join(path.dirname(snapshotsPath), CODEX_QUOTA_HISTORY_FILE)
+}
+
+export function defaultUsageLedgerPath(env: Record<string, string | undefined> = process.env): string {
+  return path.join(defaultOpencodeCachePath(env), CODEX_USAGE_LEDGER_FILE)
+}
+
+export function defaultLiveEventsPath(env: Record<string, string | undefined> = process.env): string {
+  return path.join(defaultOpencodeCachePath(env), CODEX_LIVE_EVENTS_FILE)
+}
+
+export function defaultAccountLeasesPath(env: Record<string, string | undefined> = process.env): string {
+  return path.join(defaultOpencodeCachePath(env), CODEX_ACCOUNT_LEASES_FILE)
+}
+
 export function defaultSessionAffinityPath(env: Record<string, string | undefined> = process.env): string {
   return path.join(defaultOpencodeCachePath(env), CODEX_SESSION_AFFINITY_FILE)
 }
@@ -94,3 +128,8 @@ export function defaultSessionAffinityPath(env: Record<string, string | undefine
 export function defaultShareableDebugLogPath(env: Record<string, string | undefined> = process.env): string {
   return path.join(defaultCodexPluginLogsPath(env), CODEX_SHAREABLE_DEBUG_FILE)
 }
+
+/** Account audit log kept under the plugin log directory of the config root that holds `authFilePath`. */
+export function accountAuditLogPathFor(authFilePath: string): string {
+  return path.join(path.dirname(authFilePath), "logs", "codex-plugin", CODEX_ACCOUNT_AUDIT_FILE)
+}
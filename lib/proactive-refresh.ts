@@ -1,3 +1,4 @@
+import { isAccountUsableWithBackend } from "./backend-endpoints.js"
 import { ensureOpenAIOAuthDomain, listOpenAIOAuthDomains, saveAuthStorage } from "./storage.js"
 import type { OpenAIAuthMode } from "./types.js"
 
@@ -58,40 +59,45 @@ export async function runOneProactiveRefreshTick(input: {
     while (true) {
       let claimed: { identityKey: string; refresh: string; leaseUntil: number } | undefined
 
-      await saveAuthStorage(input.authPath, (auth) => {
-        const domain = ensureOpenAIOAuthDomain(auth, authMode)
-        const now = input.now()
-        const dueCutoff = now + input.bufferMs
-        const account = domain.accounts.find((candidate) => {
-          if (candidate.enabled === false) return false
-          if (!candidate.identityKey || !candidate.refresh || candidate.expires === undefined) {
-            return false
-          }
-          if (staleClaimIdentityKeys.has(candidate.identityKey)) return false
-          if (candidate.expires > dueCutoff) return false
-          if (typeof candidate.cooldownUntil === "number" && candidate.cooldownUntil > now) {
-            return false
-          }
-          if (typeof candidate.refreshLeaseUntil === "number" && candidate.refreshLeaseUntil > now) {
-            return false
-          }
-          return true
-        })
+      await saveAuthStorage(
+        input.authPath,
+        (auth) => {
+          const domain = ensureOpenAIOAuthDomain(auth, authMode)
+          const now = input.now()
+          const dueCutoff = now + input.bufferMs
+          const account = domain.accounts.find((candidate) => {
+            if (candidate.enabled === false) return false
+            if (!candidate.identityKey || !candidate.refresh || candidate.expires === undefined) {
+              return false
+            }
+            if (!isAccountUsableWithBackend(candidate)) return false
+            if (staleClaimIdentityKeys.has(candidate.identityKey)) return false
+            if (candidate.expires > dueCutoff) return false
+            if (typeof candidate.cooldownUntil === "number" && candidate.cooldownUntil > now) {
+              return false
+            }
+            if (typeof candidate.refreshLeaseUntil === "number" && candidate.refreshLeaseUntil > now) {
+              return false
+            }
+            return true
+          })
 
-        if (!account) return
+          if (!account) return
 
-        const identityKey = account.identityKey
-        const refreshToken = account.refresh
-        if (!identityKey || !refreshToken) return
+          const identityKey = account.identityKey
+          const refreshToken = account.refresh
+          if (!identityKey || !refreshToken) return
 
-        const leaseUntil = now + leaseMs
-        account.refreshLeaseUntil = leaseUntil
-        claimed = {
-          identityKey,
-          refresh: refreshToken,
-          leaseUntil
-        }
-      })
+          const leaseUntil = now + leaseMs
+          account.refreshLeaseUntil = leaseUntil
+          claimed = {
+            identityKey,
+            refresh: refreshToken,
+            leaseUntil
+          }
+        },
+        { audit: { actor: "proactive-refresh", reason: "refresh_lease" } }
+      )
 
       if (!claimed) return
       const claimedAccount = claimed
@@ -101,7 +107,36 @@ export async function runOneProactiveRefreshTick(input: {
         tokens = await input.refresh(claimedAccount.refresh)
       } catch (error) {
         const invalidGrant = isInvalidGrantError(error)
-        await saveAuthStorage(input.authPath, (auth) => {
+        await saveAuthStorage(
+          input.authPath,
+          (auth) => {
+            const domain = ensureOpenAIOAuthDomain(auth, authMode)
+            const account = domain.accounts.find((candidate) => candidate.identityKey === claimedAccount.identityKey)
+            if (!account) return
+            if (account.refreshLeaseUntil !== claimedAccount.leaseUntil || account.refresh !== claimedAccount.refresh) {
+              staleClaimIdentityKeys.add(claimedAccount.identityKey)
+              if (account.refreshLeaseUntil === claimedAccount.leaseUntil) {
+                delete account.refreshLeaseUntil
+              }
+              return
+            }
+            delete account.refreshLeaseUntil
+            if (invalidGrant) {
+              account.enabled = false
+              delete account.cooldownUntil
+              return
+            }
+            if (account.enabled === false) return
+            account.cooldownUntil = input.now() + PROACTIVE_REFRESH_FAILURE_COOLDOWN_MS
+          },
+          { audit: { actor: "proactive-refresh", reason: invalidGrant ? "invalid_grant" : "refresh_failed" } }
+        )
+        continue
+      }
+
+      await saveAuthStorage(
+        input.authPath,
+        (auth) => {
           const domain = ensureOpenAIOAuthDomain(auth, authMode)
           const account = domain.accounts.find((candidate) => candidate.identityKey === claimedAccount.identityKey)
           if (!account) return
@@ -112,47 +147,26 @@ export async function runOneProactiveRefreshTick(input: {
             }
             return
           }
-          delete account.refreshLeaseUntil
-          if (invalidGrant) {
-            account.enabled = false
-            delete account.cooldownUntil
+          if (account.enabled === false) {
+            delete account.refreshLeaseUntil
             return
           }
-          if (account.enabled === false) return
-          account.cooldownUntil = input.now() + PROACTIVE_REFRESH_FAILURE_COOLDOWN_MS
-        })
-        continue
-      }
 
-      await saveAuthStorage(input.authPath, (auth) => {
-        const domain = ensureOpenAIOAuthDomain(auth, authMode)
-        const account = domain.accounts.find((candidate) => candidate.identityKey === claimedAccount.identityKey)
-        if (!account) return
-        if (account.refreshLeaseUntil !== claimedAccount.leaseUntil || account.refresh !== claimedAccount.refresh) {
-          staleClaimIdentityKeys.add(claimedAccount.identityKey)
-          if (account.refreshLeaseUntil === claimedAccount.leaseUntil) {
-            delete account.refreshLeaseUntil
-          }
-          return
-        }
-        if (account.enabled === false) {
+          const now = input.now()
+          const dueCutoff = now + input.bufferMs
+          const nextExpires = Number.isFinite(tokens.expires) ? tokens.expires : 0
+          account.access = tokens.access
+          account.refresh = tokens.refresh
+          account.expires = nextExpires
           delete account.refreshLeaseUntil
-          return
-        }
-
-        const now = input.now()
-        const dueCutoff = now + input.bufferMs
-        const nextExpires = Number.isFinite(tokens.expires) ? tokens.expires : 0
-        account.access = tokens.access
-        account.refresh = tokens.refresh
-        account.expires = nextExpires
-        delete account.refreshLeaseUntil
-        if (nextExpires <= dueCutoff) {
-          account.cooldownUntil = now + PROACTIVE_REFRESH_FAILURE_COOLDOWN_MS
-        } else {
-          delete account.cooldownUntil
-        }
-      })
+          if (nextExpires <= dueCutoff) {
+            account.cooldownUntil = now + PROACTIVE_REFRESH_FAILURE_COOLDOWN_MS
+          } else {
+            delete account.cooldownUntil
+          }
+        },
+        { audit: { actor: "proactive-refresh", reason: "refresh_succeeded" } }
+      )
     }
   }
 
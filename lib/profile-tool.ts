@@ -0,0 +1,43 @@
+import type { ConfigReloadResult } from "./config-reload.js"
+import { getActiveProfile, getProfileNames, type PluginConfig } from "./config.js"
+
+/** Tool argument that clears the selected profile. */
+export const NO_PROFILE = "none"
+
+function describeProfiles(config: PluginConfig): string {
+  const names = getProfileNames(config)
+  const active = getActiveProfile(config)
+  const lines = [`Active profile: ${active ?? NO_PROFILE}`]
+  lines.push(
+    names.length > 0
+      ? `Available: ${names.map((name) => (name === active ? `${name} (active)` : name)).join(", ")}`
+      : "No profiles are defined in codex-config.jsonc."
+  )
+  return lines.join("\n")
+}
+
+/**
+ * Lists config profiles, or selects one for the current OpenCode process. The selection is not
+ * persisted; `OPENCODE_OPENAI_MULTI_PROFILE` sets the profile a new process starts with.
+ */
+export function toolOutputForProfile(input: {
+  name?: string
+  config: PluginConfig
+  selectProfile: (profile: string | null) => ConfigReloadResult
+}): string {
+  const name = input.name?.trim()
+  if (!name) return describeProfiles(input.config)
+
+  const clearing = name === NO_PROFILE
+  if (!clearing && !getProfileNames(input.config).includes(name)) {
+    return `Unknown profile "${name}".\n${describeProfiles(input.config)}`
+  }
+
+  const result = input.selectProfile(clearing ? null : name)
+  if (!result.ok) {
+    return `Kept the current profile because codex-config is invalid: ${result.issues.join("; ")}`
+  }
+  return clearing
+    ? "Cleared the config profile for this OpenCode process."
+    : `Switched to profile "${name}" for this OpenCode process.`
+}
@@ -7,6 +7,8 @@ export async function quarantineFile(input: {
   quarantineDir: string
   now: () => number
   keep?: number
+  /** Keep the source in place and quarantine a copy (used for pre-migration backups). */
+  copy?: boolean
 }): Promise<{ quarantinedPath: string }> {
   const keep = typeof input.keep === "number" && Number.isFinite(input.keep) ? Math.max(1, Math.floor(input.keep)) : 5
   await fs.mkdir(input.quarantineDir, { recursive: true })
@@ -33,12 +35,16 @@ export async function quarantineFile(input: {
   }
 
   // rename preferred; fallback to copy+unlink
-  try {
-    await fs.rename(input.sourcePath, dest)
-  } catch (error) {
-    if (!isFsErrorCode(error, "EXDEV")) throw error
+  if (input.copy) {
     await fs.copyFile(input.sourcePath, dest)
-    await fs.unlink(input.sourcePath)
+  } else {
+    try {
+      await fs.rename(input.sourcePath, dest)
+    } catch (error) {
+      if (!isFsErrorCode(error, "EXDEV")) throw error
+      await fs.copyFile(input.sourcePath, dest)
+      await fs.unlink(input.sourcePath)
+    }
   }
 
   // best-effort permissions
@@ -0,0 +1,225 @@
+import { readJsonFileBestEffort, writeJsonFileAtomicBestEffort } from "./cache-io.js"
+import { withLockedFile } from "./cache-lock.js"
+import type { CodexRateLimitSnapshot } from "./types.js"
+import { isRecord } from "./util.js"
+
+export const MAX_QUOTA_HISTORY_SAMPLES = 500
+export const DEFAULT_FORECAST_LOOKBACK_MS = 2 * 60 * 60 * 1000
+
+const MIN_FORECAST_SPAN_MS = 2 * 60 * 1000
+const DUPLICATE_SAMPLE_INTERVAL_MS = 60 * 1000
+const RESET_DRIFT_TOLERANCE_MS = 5 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const WEEKLY_WINDOW_MS = 7 * 24 * HOUR_MS
+
+export type QuotaSample = {
+  at: number
+  leftPct: number
+  resetsAt?: number
+}
+
+/** Samples keyed by identity key, then by limit name (e.g. `requests` for 5h, `tokens` for weekly). */
+export type QuotaHistory = {
+  version: 1
+  accounts: Record<string, Record<string, QuotaSample[]>>
+}
+
+export type RecordQuotaSamplesOptions = {
+  maxSamples?: number
+  now?: number
+  /** Identity keys still in the account store; history of any other identity is dropped. */
+  accountIdentityKeys?: Iterable<string>
+}
+
+export type QuotaForecast = {
+  leftPct: number
+  burnPctPerHour: number
+  exhaustsAt?: number
+  resetsAt?: number
+  resetsFirst: boolean
+}
+
+function parseSample(value: unknown): QuotaSample | undefined {
+  if (!isRecord(value)) return undefined
+  if (typeof value.at !== "number" || !Number.isFinite(value.at)) return undefined
+  if (typeof value.leftPct !== "number" || !Number.isFinite(value.leftPct)) return undefined
+  const resetsAt = typeof value.resetsAt === "number" && Number.isFinite(value.resetsAt) ? value.resetsAt : undefined
+  return { at: value.at, leftPct: value.leftPct, ...(resetsAt !== undefined ? { resetsAt } : {}) }
+}
+
+export async function loadQuotaHistory(filePath: string): Promise<QuotaHistory> {
+  const parsed = await readJsonFileBestEffort(filePath)
+  const accounts: QuotaHistory["accounts"] = {}
+  const rawAccounts = isRecord(parsed) && isRecord(parsed.accounts) ? parsed.accounts : {}
+  for (const [identityKey, rawWindows] of Object.entries(rawAccounts)) {
+    if (!isRecord(rawWindows)) continue
+    const windows: Record<string, QuotaSample[]> = {}
+    for (const [limitName, rawSamples] of Object.entries(rawWindows)) {
+      if (!Array.isArray(rawSamples)) continue
+      const samples = rawSamples.map(parseSample).filter((sample): sample is QuotaSample => sample !== undefined)
+      if (samples.length > 0) windows[limitName] = samples
+    }
+    if (Object.keys(windows).length > 0) accounts[identityKey] = windows
+  }
+  return { version: 1, accounts }
+}
+
+function sameWindow(left: QuotaSample, right: QuotaSample): boolean {
+  if (left.resetsAt === undefined || right.resetsAt === undefined) return left.resetsAt === right.resetsAt
+  return Math.abs(left.resetsAt - right.resetsAt) <= RESET_DRIFT_TOLERANCE_MS
+}
+
+function appendSample(samples: QuotaSample[], sample: QuotaSample, maxSamples: number): QuotaSample[] {
+  const last = samples[samples.length - 1]
+  if (last && sample.at <= last.at) return samples
+  // Header snapshots arrive on every response; collapse bursts that carry no new information.
+  if (
+    last &&
+    last.leftPct === sample.leftPct &&
+    sameWindow(last, sample) &&
+    sample.at - last.at < DUPLICATE_SAMPLE_INTERVAL_MS
+  ) {
+    return samples
+  }
+  const next = [...samples, sample]
+  return next.length > maxSamples ? next.slice(next.length - maxSamples) : next
+}
+
+function newestSampleAt(windows: Record<string, QuotaSample[]>): number {
+  let newest = Number.NEGATIVE_INFINITY
+  for (const samples of Object.values(windows)) {
+    newest = Math.max(newest, samples[samples.length - 1]?.at ?? newest)
+  }
+  return newest
+}
+
+/** Drops removed accounts and accounts with no sample inside the last weekly window. */
+function pruneQuotaHistory(history: QuotaHistory, now: number, accountIdentityKeys?: ReadonlySet<string>): void {
+  for (const [identityKey, windows] of Object.entries(history.accounts)) {
+    if (
+      (accountIdentityKeys && !accountIdentityKeys.has(identityKey)) ||
+      newestSampleAt(windows) < now - WEEKLY_WINDOW_MS
+    ) {
+      delete history.accounts[identityKey]
+    }
+  }
+}
+
+/**
+ * Appends one sample per limit of each snapshot to the quota history, keeping at most
+ * `maxSamples` per account and window. Stale identities are pruned on the same write.
+ */
+export async function recordQuotaSamples(
+  filePath: string,
+  snapshots: Record<string, CodexRateLimitSnapshot>,
+  options: RecordQuotaSamplesOptions = {}
+): Promise<void> {
+  const entries = Object.entries(snapshots)
+  if (entries.length === 0) return
+  const limit = Math.max(2, Math.floor(options.maxSamples ?? MAX_QUOTA_HISTORY_SAMPLES))
+  const accountIdentityKeys = options.accountIdentityKeys ? new Set(options.accountIdentityKeys) : undefined
+  await withLockedFile(filePath, async () => {
+    const history = await loadQuotaHistory(filePath)
+    for (const [identityKey, snapshot] of entries) {
+      const windows = history.accounts[identityKey] ?? {}
+      for (const quota of snapshot.limits) {
+        if (!Number.isFinite(quota.leftPct)) continue
+        windows[quota.name] = appendSample(
+          windows[quota.name] ?? [],
+          {
+            at: snapshot.updatedAt,
+            leftPct: quota.leftPct,
+            ...(typeof quota.resetsAt === "number" ? { resetsAt: quota.resetsAt } : {})
+          },
+          limit
+        )
+      }
+      history.accounts[identityKey] = windows
+    }
+    pruneQuotaHistory(history, options.now ?? Date.now(), accountIdentityKeys)
+    await writeJsonFileAtomicBestEffort(filePath, history)
+  })
+}
+
+/** Returns the trailing samples that belong to the same quota window as the newest one. */
+function currentWindowSamples(samples: QuotaSample[]): QuotaSample[] {
+  let start = samples.length - 1
+  while (start > 0) {
+    const previous = samples[start - 1]
+    const current = samples[start]
+    // Remaining quota only grows when the window resets.
+    if (previous.leftPct < current.leftPct || !sameWindow(previous, current)) break
+    start -= 1
+  }
+  return samples.slice(start)
+}
+
+/**
+ * Estimates when a quota window reaches 0% from the burn rate observed over the lookback
+ * period. Returns undefined until enough samples from the current window exist.
+ */
+export function forecastQuotaExhaustion(
+  samples: QuotaSample[],
+  options: { now?: number; lookbackMs?: number } = {}
+): QuotaForecast | undefined {
+  const now = options.now ?? Date.now()
+  const window = currentWindowSamples(samples)
+  const latest = window[window.length - 1]
+  if (!latest) return undefined
+  const lookbackStart = latest.at - (options.lookbackMs ?? DEFAULT_FORECAST_LOOKBACK_MS)
+  const earliest = window.find((sample) => sample.at >= lookbackStart) ?? latest
+  const spanMs = latest.at - earliest.at
+  if (spanMs < MIN_FORECAST_SPAN_MS) return undefined
+
+  const burnPctPerHour = Math.max(0, ((earliest.leftPct - latest.leftPct) / spanMs) * HOUR_MS)
+  const resetsAt = latest.resetsAt !== undefined && latest.resetsAt > now ? latest.resetsAt : undefined
+  if (burnPctPerHour === 0) {
+    return { leftPct: latest.leftPct, burnPctPerHour, ...(resetsAt ? { resetsAt } : {}), resetsFirst: true }
+  }
+  const exhaustsAt = latest.at + (Math.max(0, latest.leftPct) / burnPctPerHour) * HOUR_MS
+  return {
+    leftPct: latest.leftPct,
+    burnPctPerHour,
+    exhaustsAt,
+    ...(resetsAt ? { resetsAt } : {}),
+    resetsFirst: resetsAt !== undefined && resetsAt <= exhaustsAt
+  }
+}
+
+/** Forecasts every recorded window, keyed by identity key and limit name. */
+export function buildQuotaForecasts(
+  history: QuotaHistory,
+  options: { now?: number; lookbackMs?: number } = {}
+): Record<string, Record<string, QuotaForecast>> {
+  const out: Record<string, Record<string, QuotaForecast>> = {}
+  for (const [identityKey, windows] of Object.entries(history.accounts)) {
+    for (const [limitName, samples] of Object.entries(windows)) {
+      const forecast = forecastQuotaExhaustion(samples, options)
+      if (!forecast) continue
+      out[identityKey] = { ...out[identityKey], [limitName]: forecast }
+    }
+  }
+  return out
+}
+
+function formatApproxDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60_000))
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) {
+    const rest = minutes % 60
+    return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`
+  }
+  const days = Math.floor(hours / 24)
+  const restHours = hours % 24
+  return restHours > 0 ? `${days} d ${restHours} h` : `${days} d`
+}
+
+/** Short dashboard hint such as "~40 min left at current pace"; undefined when idle. */
+export function formatQuotaForecast(forecast: QuotaForecast | undefined, now: number = Date.now()): string | undefined {
+  if (!forecast || forecast.exhaustsAt === undefined) return undefined
+  if (forecast.resetsFirst) return "lasts until reset at current pace"
+  const remainingMs = forecast.exhaustsAt - now
+  if (remainingMs <= 0) return "exhausted at current pace"
+  return `~${formatApproxDuration(remainingMs)} left at current pace`
+}
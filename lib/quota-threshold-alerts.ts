@@ -1,3 +1,4 @@
+import type { QuotaSwitchFloors } from "./config.js"
 import type { CodexLimit, CodexRateLimitSnapshot } from "./types.js"
 
 export const QUOTA_WARNING_THRESHOLDS_PCT = [25, 20, 10, 5, 2.5, 0] as const
@@ -9,6 +10,8 @@ export type QuotaThresholdTrackerState = {
   weeklyThresholdIndex: number
   fiveHourExhausted: boolean
   weeklyExhausted: boolean
+  fiveHourBelowFloor: boolean
+  weeklyBelowFloor: boolean
 }
 
 export type QuotaThresholdWarning = {
@@ -24,17 +27,27 @@ export type QuotaExhaustedCrossing = {
   reasonCode: string
 }
 
+export type QuotaFloorCrossing = {
+  window: QuotaWindowKind
+  floorPct: number
+  message: string
+  reasonCode: string
+}
+
 export type QuotaThresholdEvaluation = {
   nextState: QuotaThresholdTrackerState
   warnings: QuotaThresholdWarning[]
   exhaustedCrossings: QuotaExhaustedCrossing[]
+  floorCrossings: QuotaFloorCrossing[]
 }
 
 export const DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE: QuotaThresholdTrackerState = {
   fiveHourThresholdIndex: -1,
   weeklyThresholdIndex: -1,
   fiveHourExhausted: false,
-  weeklyExhausted: false
+  weeklyExhausted: false,
+  fiveHourBelowFloor: false,
+  weeklyBelowFloor: false
 }
 
 function formatPct(value: number): string {
@@ -50,7 +63,11 @@ function findLimitByName(snapshot: CodexRateLimitSnapshot, names: string[]): Cod
   return snapshot.limits.find((limit) => lowered.includes(limit.name.toLowerCase()))
 }
 
-function resolveQuotaWindows(snapshot: CodexRateLimitSnapshot): {
+/**
+ * Picks the 5h and weekly windows out of a snapshot by their known names, falling back to the
+ * first limit and the next differently named one.
+ */
+export function resolveQuotaWindows(snapshot: CodexRateLimitSnapshot): {
   fiveHour?: CodexLimit
   weekly?: CodexLimit
 } {
@@ -87,9 +104,50 @@ function maybeBuildWarning(input: {
   }
 }
 
+function isWindowBelowFloor(limit: CodexLimit | undefined, floorPct: number, now: number): boolean {
+  if (floorPct <= 0 || !limit || !Number.isFinite(limit.leftPct)) return false
+  // A window that already reset is full again, whatever the stale snapshot says.
+  if (typeof limit.resetsAt === "number" && limit.resetsAt <= now) return false
+  return limit.leftPct < floorPct
+}
+
+/**
+ * Returns the first window whose remaining quota is below its switch floor, or `undefined`.
+ * New sessions avoid such accounts; sessions already pinned to them keep them.
+ */
+export function findQuotaWindowBelowFloor(
+  snapshot: CodexRateLimitSnapshot | undefined,
+  floors: QuotaSwitchFloors | undefined,
+  now: number
+): QuotaWindowKind | undefined {
+  if (!snapshot || !floors) return undefined
+  const windows = resolveQuotaWindows(snapshot)
+  if (isWindowBelowFloor(windows.fiveHour, floors.fiveHourPct, now)) return "five_hour"
+  if (isWindowBelowFloor(windows.weekly, floors.weeklyPct, now)) return "weekly"
+  return undefined
+}
+
+function maybeBuildFloorCrossing(input: {
+  wasBelow: boolean
+  isBelow: boolean
+  floorPct: number
+  window: QuotaWindowKind
+}): QuotaFloorCrossing | null {
+  if (!input.isBelow || input.wasBelow) return null
+  const label = input.window === "weekly" ? "weekly" : "5h"
+  return {
+    window: input.window,
+    floorPct: input.floorPct,
+    message: `Less than ${formatPct(input.floorPct)}% of your ${label} quota left; new sessions will use other accounts.`,
+    reasonCode: `quota_${label}_below_switch_floor`
+  }
+}
+
 export function evaluateQuotaThresholds(input: {
   snapshot: CodexRateLimitSnapshot
   previousState?: QuotaThresholdTrackerState
+  switchFloors?: QuotaSwitchFloors
+  now?: number
 }): QuotaThresholdEvaluation {
   const previousState = input.previousState ?? DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE
   const windows = resolveQuotaWindows(input.snapshot)
@@ -140,14 +198,47 @@ export function evaluateQuotaThresholds(input: {
     })
   }
 
+  const now = input.now ?? Date.now()
+  const floorCrossings: QuotaFloorCrossing[] = []
+  const fiveHourBelowFloor =
+    typeof fiveHourLeftPct === "number"
+      ? isWindowBelowFloor(windows.fiveHour, input.switchFloors?.fiveHourPct ?? 0, now)
+      : previousState.fiveHourBelowFloor
+  const weeklyBelowFloor =
+    typeof weeklyLeftPct === "number"
+      ? isWindowBelowFloor(windows.weekly, input.switchFloors?.weeklyPct ?? 0, now)
+      : previousState.weeklyBelowFloor
+  // Exhaustion already switches the account, so a floor crossing at 0% would be redundant.
+  const fiveHourFloorCrossing = fiveHourExhausted
+    ? null
+    : maybeBuildFloorCrossing({
+        wasBelow: previousState.fiveHourBelowFloor,
+        isBelow: fiveHourBelowFloor,
+        floorPct: input.switchFloors?.fiveHourPct ?? 0,
+        window: "five_hour"
+      })
+  if (fiveHourFloorCrossing) floorCrossings.push(fiveHourFloorCrossing)
+  const weeklyFloorCrossing = weeklyExhausted
+    ? null
+    : maybeBuildFloorCrossing({
+        wasBelow: previousState.weeklyBelowFloor,
+        isBelow: weeklyBelowFloor,
+        floorPct: input.switchFloors?.weeklyPct ?? 0,
+        window: "weekly"
+      })
+  if (weeklyFloorCrossing) floorCrossings.push(weeklyFloorCrossing)
+
   return {
     nextState: {
       fiveHourThresholdIndex,
       weeklyThresholdIndex,
       fiveHourExhausted,
-      weeklyExhausted
+      weeklyExhausted,
+      fiveHourBelowFloor,
+      weeklyBelowFloor
     },
     warnings,
-    exhaustedCrossings
+    exhaustedCrossings,
+    floorCrossings
   }
 }
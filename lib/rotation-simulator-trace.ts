@@ -0,0 +1,208 @@
+import type { UsageRecord } from "./usage-ledger.js"
+import { isRecord } from "./util.js"
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** A simulated account. Quotas count request cost units, not tokens. */
+export type SimulationAccount = {
+  id: string
+  plan?: string
+  enabled?: boolean
+  /** Units the 5h window allows, counted from the first request after a reset. */
+  fiveHourLimit: number
+  /** Units the weekly window allows; unlimited when omitted. */
+  weeklyLimit?: number
+}
+
+/** One request. `at` is milliseconds from the start of the trace. */
+export type SimulationRequest = {
+  at: number
+  session: string
+  /** Simulated OpenCode process; sessions and pid offsets are per process. Defaults to `1`. */
+  pid?: number
+  /** Quota units drained on success. Defaults to `1`. */
+  cost?: number
+}
+
+/** The backend answers 429 for `account` from `at` until `at + durationMs`, whatever its quota. */
+export type SimulationRateLimit = {
+  account: string
+  at: number
+  durationMs: number
+}
+
+export type SimulationTrace = {
+  accounts: SimulationAccount[]
+  requests: SimulationRequest[]
+  rateLimits?: SimulationRateLimit[]
+}
+
+export type SyntheticTraceOptions = {
+  accounts?: number
+  sessions?: number
+  processes?: number
+  hours?: number
+  /** Mean requests per active session per hour. */
+  requestsPerSessionHour?: number
+  fiveHourLimit?: number
+  /** Scripted 429 bursts spread over the trace. */
+  rateLimitBursts?: number
+  seed?: number
+}
+
+export const DEFAULT_SYNTHETIC_TRACE_OPTIONS: Required<SyntheticTraceOptions> = {
+  accounts: 3,
+  sessions: 6,
+  processes: 2,
+  hours: 12,
+  requestsPerSessionHour: 20,
+  fiveHourLimit: 150,
+  rateLimitBursts: 2,
+  seed: 1
+}
+
+function readNonNegative(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid trace: ${field} must be a non-negative number`)
+  }
+  return value
+}
+
+function readPositiveInteger(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid trace: ${field} must be a positive integer`)
+  }
+  return value
+}
+
+function readName(value: unknown, field: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Invalid trace: ${field} must be a non-empty string`)
+  }
+  return value.trim()
+}
+
+function parseAccount(value: unknown, index: number): SimulationAccount {
+  const field = `accounts[${index}]`
+  if (!isRecord(value)) throw new Error(`Invalid trace: ${field} must be an object`)
+  const plan = value.plan === undefined ? undefined : readName(value.plan, `${field}.plan`)
+  return {
+    id: readName(value.id, `${field}.id`),
+    ...(plan ? { plan } : {}),
+    ...(value.enabled === false ? { enabled: false } : {}),
+    fiveHourLimit: readPositiveInteger(value.fiveHourLimit, `${field}.fiveHourLimit`),
+    ...(value.weeklyLimit !== undefined
+      ? { weeklyLimit: readPositiveInteger(value.weeklyLimit, `${field}.weeklyLimit`) }
+      : {})
+  }
+}
+
+function parseRequest(value: unknown, index: number): SimulationRequest {
+  const field = `requests[${index}]`
+  if (!isRecord(value)) throw new Error(`Invalid trace: ${field} must be an object`)
+  return {
+    at: readNonNegative(value.at, `${field}.at`),
+    session: readName(value.session, `${field}.session`),
+    ...(value.pid !== undefined ? { pid: readPositiveInteger(value.pid, `${field}.pid`) } : {}),
+    ...(value.cost !== undefined ? { cost: readNonNegative(value.cost, `${field}.cost`) } : {})
+  }
+}
+
+function parseRateLimit(value: unknown, index: number, accountIds: Set<string>): SimulationRateLimit {
+  const field = `rateLimits[${index}]`
+  if (!isRecord(value)) throw new Error(`Invalid trace: ${field} must be an object`)
+  const account = readName(value.account, `${field}.account`)
+  if (!accountIds.has(account)) throw new Error(`Invalid trace: ${field}.account "${account}" is not a trace account`)
+  return {
+    account,
+    at: readNonNegative(value.at, `${field}.at`),
+    durationMs: readNonNegative(value.durationMs, `${field}.durationMs`)
+  }
+}
+
+/** Validates a JSON trace and sorts its requests by time. Throws on the first invalid field. */
+export function parseSimulationTrace(value: unknown): SimulationTrace {
+  if (!isRecord(value)) throw new Error("Invalid trace: expected a JSON object")
+  if (!Array.isArray(value.accounts) || value.accounts.length === 0) {
+    throw new Error("Invalid trace: accounts must be a non-empty array")
+  }
+  if (!Array.isArray(value.requests)) throw new Error("Invalid trace: requests must be an array")
+  const accounts = value.accounts.map(parseAccount)
+  const accountIds = new Set(accounts.map((account) => account.id))
+  if (accountIds.size !== accounts.length) throw new Error("Invalid trace: account ids must be unique")
+  const rateLimits = Array.isArray(value.rateLimits)
+    ? value.rateLimits.map((entry, index) => parseRateLimit(entry, index, accountIds))
+    : []
+  return {
+    accounts,
+    requests: value.requests.map(parseRequest).sort((left, right) => left.at - right.at),
+    ...(rateLimits.length > 0 ? { rateLimits } : {})
+  }
+}
+
+// mulberry32: small, seedable and good enough to make synthetic traces reproducible.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Builds a reproducible trace: sessions start during the first half of the run, stay active for
+ * one hour up to the rest of it, and send requests with exponentially distributed gaps.
+ */
+export function generateSyntheticTrace(options: SyntheticTraceOptions = {}): SimulationTrace {
+  const resolved = { ...DEFAULT_SYNTHETIC_TRACE_OPTIONS, ...options }
+  const random = createRandom(resolved.seed)
+  const durationMs = resolved.hours * HOUR_MS
+  const meanGapMs = HOUR_MS / Math.max(resolved.requestsPerSessionHour, Number.EPSILON)
+
+  const accounts: SimulationAccount[] = Array.from({ length: resolved.accounts }, (_, index) => ({
+    id: `acct_${index + 1}`,
+    plan: "plus",
+    fiveHourLimit: resolved.fiveHourLimit
+  }))
+
+  const requests: SimulationRequest[] = []
+  for (let index = 0; index < resolved.sessions; index += 1) {
+    const session = `ses_${index + 1}`
+    const pid = (index % Math.max(1, resolved.processes)) + 1
+    const startsAt = Math.floor(random() * durationMs * 0.5)
+    const endsAt = Math.min(durationMs, startsAt + HOUR_MS + Math.floor(random() * (durationMs - startsAt)))
+    for (let at = startsAt; at < endsAt; at += Math.max(1, Math.floor(-Math.log(1 - random()) * meanGapMs))) {
+      requests.push({ at, session, pid })
+    }
+  }
+  requests.sort((left, right) => left.at - right.at)
+
+  const rateLimits: SimulationRateLimit[] = Array.from({ length: resolved.rateLimitBursts }, () => ({
+    account: accounts[Math.floor(random() * accounts.length)]?.id ?? "acct_1",
+    at: Math.floor(random() * durationMs),
+    durationMs: 60_000 + Math.floor(random() * 240_000)
+  }))
+
+  return { accounts, requests, ...(rateLimits.length > 0 ? { rateLimits } : {}) }
+}
+
+/**
+ * Turns recorded usage-ledger rows into a trace. The ledger does not record quotas or 429s, so
+ * every account seen gets `fiveHourLimit` and no scripted rate limits.
+ */
+export function traceFromUsageRecords(records: UsageRecord[], options: { fiveHourLimit: number }): SimulationTrace {
+  const sorted = [...records].sort((left, right) => left.at - right.at)
+  const startsAt = sorted[0]?.at ?? 0
+  const accountIds = [...new Set(sorted.map((record) => record.identityKey ?? "(unknown)"))]
+  const accounts = (accountIds.length > 0 ? accountIds : ["(unknown)"]).map((id) => ({
+    id,
+    fiveHourLimit: options.fiveHourLimit
+  }))
+  return {
+    accounts,
+    requests: sorted.map((record) => ({ at: record.at - startsAt, session: record.sessionKey ?? "(none)" }))
+  }
+}
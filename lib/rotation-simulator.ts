@@ -0,0 +1,380 @@
+import { isPluginFatalError, PluginFatalError } from "./fatal-errors.js"
+import { createFetchOrchestratorState, FetchOrchestrator } from "./fetch-orchestrator.js"
+import { createStickySessionState, recordAccountSelection, selectAccount, type StickySessionState } from "./rotation.js"
+import type { SimulationAccount, SimulationTrace } from "./rotation-simulator-trace.js"
+import type { AccountRecord, CodexRateLimitSnapshot, RotationStrategy } from "./types.js"
+
+const SIMULATION_START_MS = Date.UTC(2026, 0, 1)
+const SIMULATED_RESPONSES_URL = "https://simulation.invalid/backend-api/codex/responses"
+const FIVE_HOUR_WINDOW_MS = 5 * 60 * 60 * 1000
+const WEEKLY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+const DEFAULT_MAX_ATTEMPTS = 3
+
+export type SimulationVariant = {
+  strategy: RotationStrategy
+  pidOffset: boolean
+}
+
+export const DEFAULT_SIMULATION_VARIANTS: SimulationVariant[] = [
+  { strategy: "sticky", pidOffset: false },
+  { strategy: "sticky", pidOffset: true },
+  { strategy: "hybrid", pidOffset: false },
+  { strategy: "hybrid", pidOffset: true },
+  { strategy: "round_robin", pidOffset: false },
+  { strategy: "quota_balanced", pidOffset: false }
+]
+
+export type SimulationAccountLoad = {
+  id: string
+  /** Requests this account answered successfully. */
+  served: number
+  /** 429 responses this account returned, scripted or from drained quota. */
+  rateLimited: number
+  /** Share of all served requests. */
+  sharePct: number
+}
+
+export type SimulationResult = {
+  label: string
+  variant: SimulationVariant
+  requests: number
+  served: number
+  /** Requests that ended in a 429 or found no usable account. */
+  rejected: number
+  /** Retries that moved to another account after a 429. */
+  failovers: number
+  /** Times a session was answered by a different account than its previous request. */
+  sessionSwitches: number
+  /** Milliseconds from the start of the trace until every enabled account had drained a window. */
+  exhaustedAtMs?: number
+  accounts: SimulationAccountLoad[]
+}
+
+export type SimulationReport = {
+  source: string
+  durationMs: number
+  accountCount: number
+  sessionCount: number
+  requestCount: number
+  results: SimulationResult[]
+}
+
+export function formatSimulationVariant(variant: SimulationVariant): string {
+  return variant.pidOffset ? `${variant.strategy}+pid-offset` : variant.strategy
+}
+
+/** Parses `sticky`, `hybrid`, `round_robin` or `quota_balanced`, optionally suffixed with `+pid-offset`. */
+export function parseSimulationVariant(value: string): SimulationVariant | undefined {
+  const [strategy, suffix, ...rest] = value.trim().split("+")
+  if (rest.length > 0 || (suffix !== undefined && suffix !== "pid-offset")) return undefined
+  if (strategy !== "sticky" && strategy !== "hybrid" && strategy !== "round_robin" && strategy !== "quota_balanced") {
+    return undefined
+  }
+  return { strategy, pidOffset: suffix === "pid-offset" }
+}
+
+type QuotaWindow = {
+  name: string
+  limit: number
+  durationMs: number
+  used: number
+  startedAt?: number
+}
+
+type SimulatedAccount = {
+  spec: SimulationAccount
+  record: AccountRecord
+  windows: QuotaWindow[]
+  served: number
+  rateLimited: number
+}
+
+type SimulatedProcess = {
+  orchestrator: FetchOrchestrator
+  stickySessionState: StickySessionState
+  hybridSessionState: StickySessionState
+}
+
+function createSimulatedAccount(spec: SimulationAccount): SimulatedAccount {
+  const windows: QuotaWindow[] = [{ name: "5h", limit: spec.fiveHourLimit, durationMs: FIVE_HOUR_WINDOW_MS, used: 0 }]
+  if (spec.weeklyLimit !== undefined) {
+    windows.push({ name: "weekly", limit: spec.weeklyLimit, durationMs: WEEKLY_WINDOW_MS, used: 0 })
+  }
+  return {
+    spec,
+    record: {
+      identityKey: spec.id,
+      accountId: spec.id,
+      ...(spec.plan ? { plan: spec.plan } : {}),
+      enabled: spec.enabled !== false,
+      access: `sim_${spec.id}`,
+      expires: Number.MAX_SAFE_INTEGER
+    },
+    windows,
+    served: 0,
+    rateLimited: 0
+  }
+}
+
+function resetElapsedWindows(account: SimulatedAccount, now: number): void {
+  for (const window of account.windows) {
+    if (window.startedAt !== undefined && now >= window.startedAt + window.durationMs) {
+      window.used = 0
+      window.startedAt = undefined
+    }
+  }
+}
+
+/** When the account's drained windows all reset, or `undefined` while it still has quota. */
+function exhaustedUntil(account: SimulatedAccount, now: number): number | undefined {
+  resetElapsedWindows(account, now)
+  const drained = account.windows.filter((window) => window.used >= window.limit)
+  if (drained.length === 0) return undefined
+  return Math.max(...drained.map((window) => (window.startedAt ?? now) + window.durationMs))
+}
+
+function quotaSnapshot(account: SimulatedAccount, now: number): CodexRateLimitSnapshot {
+  return {
+    updatedAt: now,
+    modelFamily: "codex",
+    limits: account.windows.map((window) => ({
+      name: window.name,
+      leftPct: Math.max(0, Math.round((1 - window.used / window.limit) * 100)),
+      ...(window.startedAt !== undefined ? { resetsAt: window.startedAt + window.durationMs } : {})
+    }))
+  }
+}
+
+function rateLimitedResponse(retryAfterMs: number): Response {
+  return new Response(JSON.stringify({ error: { type: "usage_limit_reached" } }), {
+    status: 429,
+    headers: { "retry-after": String(Math.max(1, Math.ceil(retryAfterMs / 1000))) }
+  })
+}
+
+/**
+ * Replays `trace` through the real `selectAccount` and `FetchOrchestrator` with a fake clock and an
+ * in-memory backend. Account-store updates mirror `acquireOpenAIAuth` for valid tokens: round_robin
+ * advances the active account and hybrid/quota_balanced bump `lastUsed`. Each simulated process
+ * keeps its own orchestrator and session maps.
+ */
+export async function simulateRotation(
+  trace: SimulationTrace,
+  variant: SimulationVariant,
+  options: { maxAttempts?: number } = {}
+): Promise<SimulationResult> {
+  let now = SIMULATION_START_MS
+  const accounts = trace.accounts.map(createSimulatedAccount)
+  const byId = new Map(accounts.map((account) => [account.spec.id, account]))
+  const records = accounts.map((account) => account.record)
+  const quotaSnapshots: Record<string, CodexRateLimitSnapshot> = {}
+  const domain: { activeIdentityKey?: string } = {
+    activeIdentityKey: records.find((record) => record.enabled !== false)?.identityKey
+  }
+  let failovers = 0
+  let sessionSwitches = 0
+  let exhaustedAtMs: number | undefined
+  const lastAccountBySession = new Map<string, string>()
+  const processes = new Map<number, SimulatedProcess>()
+
+  const backendFetch = async (request: Request): Promise<Response> => {
+    const account = byId.get(request.headers.get("ChatGPT-Account-Id") ?? "")
+    if (!account) return new Response(null, { status: 401 })
+    const scripted = (trace.rateLimits ?? []).find(
+      (entry) =>
+        entry.account === account.spec.id &&
+        SIMULATION_START_MS + entry.at <= now &&
+        now < SIMULATION_START_MS + entry.at + entry.durationMs
+    )
+    const drainedUntil = exhaustedUntil(account, now)
+    const retryAt = scripted ? SIMULATION_START_MS + scripted.at + scripted.durationMs : drainedUntil
+    if (retryAt !== undefined) {
+      account.rateLimited += 1
+      quotaSnapshots[account.spec.id] = quotaSnapshot(account, now)
+      return rateLimitedResponse(retryAt - now)
+    }
+
+    const cost = Number(request.headers.get("x-simulated-cost") ?? "1")
+    for (const window of account.windows) {
+      window.startedAt ??= now
+      window.used += cost
+    }
+    account.served += 1
+    quotaSnapshots[account.spec.id] = quotaSnapshot(account, now)
+    if (
+      exhaustedAtMs === undefined &&
+      accounts.every((entry) => entry.record.enabled === false || exhaustedUntil(entry, now) !== undefined)
+    ) {
+      exhaustedAtMs = now - SIMULATION_START_MS
+    }
+    return new Response("{}", {
+      status: 200,
+      headers: { "content-type": "application/json", "x-simulated-account": account.spec.id }
+    })
+  }
+
+  const processFor = (pid: number): SimulatedProcess => {
+    const existing = processes.get(pid)
+    if (existing) return existing
+    const stickySessionState = createStickySessionState()
+    const hybridSessionState = createStickySessionState()
+    const orchestrator = new FetchOrchestrator({
+      acquireAuth: async (context) => {
+        const selected = selectAccount({
+          accounts: records,
+          strategy: variant.strategy,
+          activeIdentityKey: domain.activeIdentityKey,
+          now,
+          stickyPidOffset: variant.pidOffset,
+          pid,
+          stickySessionKey: context?.sessionKey,
+          stickySessionState:
+            variant.strategy === "sticky"
+              ? stickySessionState
+              : variant.strategy === "round_robin"
+                ? undefined
+                : hybridSessionState,
+          quotaSnapshots: variant.strategy === "quota_balanced" ? quotaSnapshots : undefined
+        })
+        if (!selected?.identityKey) {
+          throw new PluginFatalError({
+            message: "All simulated accounts are cooling down.",
+            status: 429,
+            type: "all_accounts_cooling_down",
+            param: "accounts"
+          })
+        }
+        recordAccountSelection(domain, selected, { strategy: variant.strategy, now })
+        return { access: selected.access ?? "", accountId: selected.accountId, identityKey: selected.identityKey }
+      },
+      setCooldown: async (identityKey, cooldownUntil) => {
+        const record = byId.get(identityKey)?.record
+        if (record) record.cooldownUntil = cooldownUntil
+      },
+      now: () => now,
+      fetch: backendFetch,
+      sleep: async (ms) => {
+        now += ms
+      },
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      state: createFetchOrchestratorState(),
+      onAttemptRequest: ({ attemptReasonCode }) => {
+        if (attemptReasonCode === "retry_switched_account_after_429") failovers += 1
+      }
+    })
+    const created = { orchestrator, stickySessionState, hybridSessionState }
+    processes.set(pid, created)
+    return created
+  }
+
+  let served = 0
+  for (const request of trace.requests) {
+    now = Math.max(now, SIMULATION_START_MS + request.at)
+    let servedBy: string | undefined
+    try {
+      const response = await processFor(request.pid ?? 1).orchestrator.execute(SIMULATED_RESPONSES_URL, {
+        method: "POST",
+        headers: {
+          "session-id": request.session,
+          "x-simulated-cost": String(request.cost ?? 1)
+        },
+        body: "{}"
+      })
+      if (response.status === 200) {
+        servedBy = response.headers.get("x-simulated-account") ?? undefined
+      }
+    } catch (error) {
+      if (!isPluginFatalError(error)) throw error
+    }
+    if (!servedBy) continue
+    served += 1
+    const previous = lastAccountBySession.get(request.session)
+    if (previous !== undefined && previous !== servedBy) sessionSwitches += 1
+    lastAccountBySession.set(request.session, servedBy)
+  }
+
+  return {
+    label: formatSimulationVariant(variant),
+    variant,
+    requests: trace.requests.length,
+    served,
+    rejected: trace.requests.length - served,
+    failovers,
+    sessionSwitches,
+    ...(exhaustedAtMs !== undefined ? { exhaustedAtMs } : {}),
+    accounts: accounts.map((account) => ({
+      id: account.spec.id,
+      served: account.served,
+      rateLimited: account.rateLimited,
+      sharePct: served > 0 ? Math.round((account.served / served) * 1000) / 10 : 0
+    }))
+  }
+}
+
+export async function runRotationSimulations(
+  trace: SimulationTrace,
+  input: { source: string; variants?: SimulationVariant[]; maxAttempts?: number }
+): Promise<SimulationReport> {
+  const results: SimulationResult[] = []
+  for (const variant of input.variants ?? DEFAULT_SIMULATION_VARIANTS) {
+    results.push(await simulateRotation(trace, variant, { maxAttempts: input.maxAttempts }))
+  }
+  return {
+    source: input.source,
+    durationMs: trace.requests.at(-1)?.at ?? 0,
+    accountCount: trace.accounts.length,
+    sessionCount: new Set(trace.requests.map((request) => request.session)).size,
+    requestCount: trace.requests.length,
+    results
+  }
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US")
+}
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60_000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+export function renderSimulationReport(report: SimulationReport): string {
+  const header = ["Strategy", "Served", "Rejected", "Failovers", "Switches", "Exhausted"]
+  const rows = report.results.map((result) => [
+    result.label,
+    formatCount(result.served),
+    formatCount(result.rejected),
+    formatCount(result.failovers),
+    formatCount(result.sessionSwitches),
+    result.exhaustedAtMs === undefined ? "never" : `after ${formatDuration(result.exhaustedAtMs)}`
+  ])
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)))
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => (column === 0 ? cell.padEnd(widths[column] ?? 0) : cell.padStart(widths[column] ?? 0)))
+      .join("  ")
+      .trimEnd()
+
+  const lines = [
+    `Rotation simulation (${report.source})`,
+    `${report.accountCount} ${report.accountCount === 1 ? "account" : "accounts"} · ${report.sessionCount} ${
+      report.sessionCount === 1 ? "session" : "sessions"
+    } · ${formatCount(report.requestCount)} requests over ${formatDuration(report.durationMs)}`,
+    "",
+    formatRow(header),
+    ...rows.map(formatRow),
+    "",
+    "Per-account load (served, share, 429s):"
+  ]
+  for (const result of report.results) {
+    lines.push(`  ${result.label}`)
+    for (const account of result.accounts) {
+      lines.push(
+        `    ${account.id}: ${formatCount(account.served)} (${account.sharePct}%) · ${formatCount(account.rateLimited)} rate limited`
+      )
+    }
+  }
+  return lines.join("\n")
+}
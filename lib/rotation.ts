@@ -1,6 +1,13 @@
-import type { AccountRecord, RotationStrategy } from "./types.js"
+import type { QuotaSwitchFloors } from "./config.js"
+import { findQuotaWindowBelowFloor, resolveQuotaWindows } from "./quota-threshold-alerts.js"
+import type { AccountRecord, CodexLimit, CodexRateLimitSnapshot, RotationStrategy } from "./types.js"
 
 const DEFAULT_SESSION_ASSIGNMENT_MAX = 200
+const FIVE_HOUR_WINDOW_MS = 5 * 60 * 60 * 1000
+const WEEKLY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+const UNKNOWN_QUOTA_SCORE = 100
+/** `lastUsed` is rewritten at most this often, so hybrid LRU order moves in steps of this size. */
+export const LAST_USED_WRITE_INTERVAL_MS = 60_000
 
 export type StickySessionState = {
   bySessionKey: Map<string, string>
@@ -25,6 +32,13 @@ export type SelectAccountInput = {
   pid?: number
   stickySessionKey?: string | null
   stickySessionState?: StickySessionState
+  quotaSnapshots?: Record<string, CodexRateLimitSnapshot>
+  /** Accounts below a floor in `quotaSnapshots` are skipped for new sessions unless every account is. */
+  quotaSwitchFloors?: QuotaSwitchFloors
+  /** In-flight request leases per identity key, counted across processes. */
+  inFlightCounts?: Record<string, number>
+  /** Accounts holding this many leases are skipped; `0` or unset means unlimited. */
+  maxConcurrentPerAccount?: number
   onDebug?: (event: RotationDebugEvent) => void
 }
 
@@ -43,6 +57,9 @@ export type RotationDebugEvent = {
     | "hybrid-lru"
     | "round-robin-next"
     | "round-robin-pid-offset"
+    | "quota-balanced-session-reuse"
+    | "quota-balanced-session-assign"
+    | "quota-balanced-score"
   selectedIdentityKey?: string
   activeIdentityKey?: string
   sessionKey?: string
@@ -50,6 +67,10 @@ export type RotationDebugEvent = {
   disabledCount: number
   cooldownCount: number
   refreshLeaseCount: number
+  /** Otherwise eligible accounts at `maxConcurrentPerAccount`. */
+  saturatedCount: number
+  /** In-flight request leases held on the considered accounts. */
+  inFlightCount: number
   eligibleCount: number
   extra?: Record<string, unknown>
 }
@@ -59,10 +80,13 @@ type RotationHealthCounts = {
   disabledCount: number
   cooldownCount: number
   refreshLeaseCount: number
+  saturatedCount: number
+  inFlightCount: number
   eligibleCount: number
 }
 
-function isEligible(account: AccountRecord, now: number): boolean {
+/** Enabled, not cooling down and not holding a refresh lease. */
+export function isAccountEligible(account: AccountRecord, now: number): boolean {
   if (account.enabled === false) return false
   if (typeof account.cooldownUntil === "number" && account.cooldownUntil > now) {
     return false
@@ -73,13 +97,27 @@ function isEligible(account: AccountRecord, now: number): boolean {
   return true
 }
 
-function computeRotationHealthCounts(accounts: AccountRecord[], now: number): RotationHealthCounts {
+/** Whether the account already holds `limit` in-flight requests. A missing or `0` limit never saturates. */
+export function isAccountSaturated(
+  account: AccountRecord,
+  inFlightCounts: Record<string, number> | undefined,
+  limit: number | undefined
+): boolean {
+  if (!limit || limit <= 0 || !account.identityKey) return false
+  return (inFlightCounts?.[account.identityKey] ?? 0) >= limit
+}
+
+function computeRotationHealthCounts(input: SelectAccountInput): RotationHealthCounts {
   let disabledCount = 0
   let cooldownCount = 0
   let refreshLeaseCount = 0
+  let saturatedCount = 0
+  let inFlightCount = 0
   let eligibleCount = 0
+  const { accounts, now } = input
 
   for (const account of accounts) {
+    inFlightCount += account.identityKey ? (input.inFlightCounts?.[account.identityKey] ?? 0) : 0
     const disabled = account.enabled === false
     const cooling = typeof account.cooldownUntil === "number" && account.cooldownUntil > now
     const leased = typeof account.refreshLeaseUntil === "number" && account.refreshLeaseUntil > now
@@ -96,6 +134,10 @@ function computeRotationHealthCounts(accounts: AccountRecord[], now: number): Ro
       refreshLeaseCount += 1
       continue
     }
+    if (isAccountSaturated(account, input.inFlightCounts, input.maxConcurrentPerAccount)) {
+      saturatedCount += 1
+      continue
+    }
 
     eligibleCount += 1
   }
@@ -105,6 +147,8 @@ function computeRotationHealthCounts(accounts: AccountRecord[], now: number): Ro
     disabledCount,
     cooldownCount,
     refreshLeaseCount,
+    saturatedCount,
+    inFlightCount,
     eligibleCount
   }
 }
@@ -113,23 +157,108 @@ function emitRotationDebug(
   input: SelectAccountInput,
   event: Omit<
     RotationDebugEvent,
-    "totalCount" | "disabledCount" | "cooldownCount" | "refreshLeaseCount" | "eligibleCount"
+    | "totalCount"
+    | "disabledCount"
+    | "cooldownCount"
+    | "refreshLeaseCount"
+    | "saturatedCount"
+    | "inFlightCount"
+    | "eligibleCount"
   > & {
     eligibleCount?: number
   }
 ): void {
   if (!input.onDebug) return
-  const counts = computeRotationHealthCounts(input.accounts, input.now)
+  const counts = computeRotationHealthCounts(input)
   input.onDebug({
     ...event,
     totalCount: counts.totalCount,
     disabledCount: counts.disabledCount,
     cooldownCount: counts.cooldownCount,
     refreshLeaseCount: counts.refreshLeaseCount,
+    saturatedCount: counts.saturatedCount,
+    inFlightCount: counts.inFlightCount,
     eligibleCount: event.eligibleCount ?? counts.eligibleCount
   })
 }
 
+type SessionStrategy = "sticky" | "hybrid" | "quota_balanced"
+
+const SESSION_REUSE_DECISIONS: Record<SessionStrategy, RotationDebugEvent["decision"]> = {
+  sticky: "sticky-session-reuse",
+  hybrid: "hybrid-session-reuse",
+  quota_balanced: "quota-balanced-session-reuse"
+}
+
+const SESSION_ASSIGN_DECISIONS: Record<SessionStrategy, RotationDebugEvent["decision"]> = {
+  sticky: "sticky-session-assign",
+  hybrid: "hybrid-session-assign",
+  quota_balanced: "quota-balanced-session-assign"
+}
+
+function scoreQuotaWindow(limit: CodexLimit | undefined, windowMs: number, now: number): number | undefined {
+  if (!limit || !Number.isFinite(limit.leftPct)) return undefined
+  const leftPct = Math.max(0, Math.min(100, limit.leftPct))
+  if (typeof limit.resetsAt !== "number") return leftPct
+  // A window that already reset is full again, whatever the stale snapshot says.
+  if (limit.resetsAt <= now) return UNKNOWN_QUOTA_SCORE
+  const remainingFraction = Math.min(1, (limit.resetsAt - now) / windowMs)
+  // Headroom that resets soon is "use it or lose it", so weight it up to 2x as the reset approaches.
+  return leftPct * (2 - remainingFraction)
+}
+
+/**
+ * Scores an account's quota headroom for `quota_balanced` rotation. The score is the
+ * tighter of the 5h and weekly windows; accounts without snapshot data score as full.
+ */
+export function computeQuotaBalanceScore(snapshot: CodexRateLimitSnapshot | undefined, now: number): number {
+  if (!snapshot) return UNKNOWN_QUOTA_SCORE
+  const windows = resolveQuotaWindows(snapshot)
+  const scores = [
+    scoreQuotaWindow(windows.fiveHour, FIVE_HOUR_WINDOW_MS, now),
+    scoreQuotaWindow(windows.weekly, WEEKLY_WINDOW_MS, now)
+  ].filter((score): score is number => score !== undefined)
+  if (scores.length === 0) return UNKNOWN_QUOTA_SCORE
+  return Math.min(...scores)
+}
+
+function earliestReset(snapshot: CodexRateLimitSnapshot | undefined, now: number): number {
+  const resets = (snapshot?.limits ?? [])
+    .map((limit) => limit.resetsAt)
+    .filter((resetsAt): resetsAt is number => typeof resetsAt === "number" && resetsAt > now)
+  return resets.length > 0 ? Math.min(...resets) : Number.POSITIVE_INFINITY
+}
+
+function rankQuotaBalancedAccounts(input: SelectAccountInput, eligible: AccountRecord[]): AccountRecord[] {
+  const snapshotFor = (account: AccountRecord) =>
+    account.identityKey ? input.quotaSnapshots?.[account.identityKey] : undefined
+  const ranked = eligible.map((account) => ({
+    account,
+    score: computeQuotaBalanceScore(snapshotFor(account), input.now),
+    resetsAt: earliestReset(snapshotFor(account), input.now)
+  }))
+  ranked.sort((left, right) => {
+    if (left.score !== right.score) return right.score - left.score
+    if (left.resetsAt !== right.resetsAt) return left.resetsAt - right.resetsAt
+    const leftLastUsed = left.account.lastUsed ?? 0
+    const rightLastUsed = right.account.lastUsed ?? 0
+    if (leftLastUsed !== rightLastUsed) return leftLastUsed - rightLastUsed
+    return (left.account.identityKey ?? "").localeCompare(right.account.identityKey ?? "")
+  })
+  return ranked.map((entry) => entry.account)
+}
+
+function filterAboveSwitchFloors(input: SelectAccountInput, eligible: AccountRecord[]): AccountRecord[] {
+  if (!input.quotaSwitchFloors || !input.quotaSnapshots) return eligible
+  const above = eligible.filter(
+    (account) =>
+      !account.identityKey ||
+      findQuotaWindowBelowFloor(input.quotaSnapshots?.[account.identityKey], input.quotaSwitchFloors, input.now) ===
+        undefined
+  )
+  return above.length > 0 ? above : eligible
+}
+
 function toNonNegativeInt(value: unknown): number {
   if (typeof value !== "number" || !Number.isFinite(value)) return 0
   return Math.max(0, Math.floor(Math.abs(value)))
@@ -146,7 +275,7 @@ function resolveOffsetIndex(input: SelectAccountInput, eligibleLength: number):
 function resolveAssignedSessionAccount(
   input: SelectAccountInput,
   eligible: AccountRecord[],
-  strategy: "sticky" | "hybrid"
+  strategy: SessionStrategy
 ): AccountRecord | undefined {
   const state = input.stickySessionState
   const sessionKey = input.stickySessionKey?.trim()
@@ -163,7 +292,7 @@ function resolveAssignedSessionAccount(
 
   emitRotationDebug(input, {
     strategy,
-    decision: strategy === "sticky" ? "sticky-session-reuse" : "hybrid-session-reuse",
+    decision: SESSION_REUSE_DECISIONS[strategy],
     selectedIdentityKey: assigned.identityKey,
     activeIdentityKey: input.activeIdentityKey,
     sessionKey,
@@ -175,7 +304,7 @@ function resolveAssignedSessionAccount(
 function assignSessionAccount(
   input: SelectAccountInput,
   selected: AccountRecord | undefined,
-  strategy: "sticky" | "hybrid",
+  strategy: SessionStrategy,
   eligibleCount: number,
   extra?: Record<string, unknown>
 ): void {
@@ -193,7 +322,7 @@ function assignSessionAccount(
 
   emitRotationDebug(input, {
     strategy,
-    decision: strategy === "sticky" ? "sticky-session-assign" : "hybrid-session-assign",
+    decision: SESSION_ASSIGN_DECISIONS[strategy],
     selectedIdentityKey: selected.identityKey,
     activeIdentityKey: input.activeIdentityKey,
     sessionKey,
@@ -244,7 +373,11 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
   const strategy: RotationStrategy = input.strategy ?? "sticky"
   const hasStickySessionKey = Boolean(input.stickySessionKey?.trim())
 
-  const eligible = accounts.filter((acc) => isEligible(acc, now))
+  // Saturated accounts are skipped outright, even by pinned sessions: the limit is a hard cap.
+  const eligible = accounts.filter(
+    (acc) =>
+      isAccountEligible(acc, now) && !isAccountSaturated(acc, input.inFlightCounts, input.maxConcurrentPerAccount)
+  )
   if (eligible.length === 0) {
     emitRotationDebug(input, {
       strategy,
@@ -255,16 +388,20 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
     return undefined
   }
 
+  // Existing session assignments reuse `eligible`; everything that picks a new account uses `assignable`.
+  const assignable = filterAboveSwitchFloors(input, eligible)
   const activeIndex =
-    activeIdentityKey == null ? -1 : eligible.findIndex((acc) => acc.identityKey === activeIdentityKey)
+    activeIdentityKey == null ? -1 : assignable.findIndex((acc) => acc.identityKey === activeIdentityKey)
 
   if (strategy === "sticky") {
     const stickySessionAccount =
       resolveAssignedSessionAccount(input, eligible, "sticky") ??
-      (input.stickyPidOffset === true && hasStickySessionKey ? resolveStickySessionAccount(input, eligible) : undefined)
+      (input.stickyPidOffset === true && hasStickySessionKey
+        ? resolveStickySessionAccount(input, assignable)
+        : undefined)
     if (stickySessionAccount) return stickySessionAccount
     if (activeIndex >= 0) {
-      const selected = eligible[activeIndex]
+      const selected = assignable[activeIndex]
       assignSessionAccount(input, selected, "sticky", eligible.length)
       emitRotationDebug(input, {
         strategy,
@@ -276,7 +413,7 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
       return selected
     }
     if (input.stickyPidOffset !== true) {
-      const selected = eligible[0]
+      const selected = assignable[0]
       assignSessionAccount(input, selected, "sticky", eligible.length)
       emitRotationDebug(input, {
         strategy,
@@ -287,8 +424,8 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
       })
       return selected
     }
-    const offsetIndex = resolveOffsetIndex(input, eligible.length)
-    const selected = eligible[offsetIndex]
+    const offsetIndex = resolveOffsetIndex(input, assignable.length)
+    const selected = assignable[offsetIndex]
     assignSessionAccount(input, selected, "sticky", eligible.length, { offsetIndex })
     emitRotationDebug(input, {
       strategy,
@@ -305,11 +442,11 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
     const existingSession = resolveAssignedSessionAccount(input, eligible, "hybrid")
     if (existingSession) return existingSession
     if (input.stickyPidOffset === true && hasStickySessionKey) {
-      const sessionAccount = resolveHybridSessionAccount(input, eligible)
+      const sessionAccount = resolveHybridSessionAccount(input, assignable)
       if (sessionAccount) return sessionAccount
     }
     if (activeIndex >= 0) {
-      const selected = eligible[activeIndex]
+      const selected = assignable[activeIndex]
       assignSessionAccount(input, selected, "hybrid", eligible.length)
       emitRotationDebug(input, {
         strategy,
@@ -320,10 +457,10 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
       })
       return selected
     }
-    let selected = eligible[0]
+    let selected = assignable[0]
     let selectedLastUsed = selected.lastUsed ?? 0
-    for (let i = 1; i < eligible.length; i++) {
-      const candidate = eligible[i]
+    for (let i = 1; i < assignable.length; i++) {
+      const candidate = assignable[i]
       const candidateLastUsed = candidate.lastUsed ?? 0
       if (
         candidateLastUsed < selectedLastUsed ||
@@ -345,9 +482,27 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
     return selected
   }
 
+  if (strategy === "quota_balanced") {
+    const existingSession = resolveAssignedSessionAccount(input, eligible, "quota_balanced")
+    if (existingSession) return existingSession
+    const selected = rankQuotaBalancedAccounts(input, assignable)[0]
+    const snapshot = selected?.identityKey ? input.quotaSnapshots?.[selected.identityKey] : undefined
+    const score = computeQuotaBalanceScore(snapshot, now)
+    assignSessionAccount(input, selected, "quota_balanced", eligible.length, { score })
+    emitRotationDebug(input, {
+      strategy,
+      decision: "quota-balanced-score",
+      selectedIdentityKey: selected?.identityKey,
+      activeIdentityKey,
+      eligibleCount: eligible.length,
+      extra: { score, hasSnapshot: snapshot !== undefined }
+    })
+    return selected
+  }
+
   if (activeIndex < 0) {
-    const offsetIndex = resolveOffsetIndex(input, eligible.length)
-    const selected = eligible[offsetIndex]
+    const offsetIndex = resolveOffsetIndex(input, assignable.length)
+    const selected = assignable[offsetIndex]
     emitRotationDebug(input, {
       strategy,
       decision: "round-robin-pid-offset",
@@ -358,7 +513,7 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
     })
     return selected
   }
-  const selected = eligible[(activeIndex + 1) % eligible.length]
+  const selected = assignable[(activeIndex + 1) % assignable.length]
   emitRotationDebug(input, {
     strategy,
     decision: "round-robin-next",
@@ -369,3 +524,27 @@ export function selectAccount(input: SelectAccountInput): AccountRecord | undefi
   })
   return selected
 }
+
+/** Stamps `lastUsed` unless it was written within `LAST_USED_WRITE_INTERVAL_MS`. */
+export function touchAccountLastUsed(account: AccountRecord, now: number): void {
+  if (account.lastUsed === undefined || now - account.lastUsed >= LAST_USED_WRITE_INTERVAL_MS) {
+    account.lastUsed = now
+  }
+}
+
+/**
+ * Records that `account` served a request: round_robin advances the domain's active account, hybrid
+ * and quota_balanced stamp `lastUsed`, and sticky keeps nothing because its pins live in memory.
+ */
+export function recordAccountSelection(
+  domain: { activeIdentityKey?: string },
+  account: AccountRecord,
+  input: { strategy: RotationStrategy; now: number }
+): void {
+  if (input.strategy === "round_robin") {
+    if (account.identityKey) domain.activeIdentityKey = account.identityKey
+    return
+  }
+  if (input.strategy === "sticky") return
+  touchAccountLastUsed(account, input.now)
+}
@@ -177,13 +177,18 @@ export type ShareableDebugLogger = {
   ) => Promise<void>
 }
 
-function pseudonym(prefix: string, raw: string | undefined | null): string | undefined {
+/** Keyed, truncated HMAC so identifiers can be correlated without being reversible. */
+export function pseudonymize(prefix: string, raw: string | undefined | null, secret: Buffer): string | undefined {
   const normalized = raw?.trim()
   if (!normalized) return undefined
-  const digest = createHmac("sha256", PROCESS_SECRET).update(normalized).digest("hex").slice(0, 8)
+  const digest = createHmac("sha256", secret).update(normalized).digest("hex").slice(0, 8)
   return `${prefix}_${digest}`
 }
 
+function pseudonym(prefix: string, raw: string | undefined | null): string | undefined {
+  return pseudonymize(prefix, raw, PROCESS_SECRET)
+}
+
 function normalizeEndpoint(input: string | undefined): string | undefined {
   if (!input) return undefined
   try {
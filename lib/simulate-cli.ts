@@ -0,0 +1,218 @@
+import fs from "node:fs/promises"
+
+import { defaultUsageLedgerPath } from "./paths.js"
+import {
+  DEFAULT_SIMULATION_VARIANTS,
+  parseSimulationVariant,
+  renderSimulationReport,
+  runRotationSimulations,
+  type SimulationVariant
+} from "./rotation-simulator.js"
+import {
+  DEFAULT_SYNTHETIC_TRACE_OPTIONS,
+  generateSyntheticTrace,
+  parseSimulationTrace,
+  type SimulationTrace,
+  type SyntheticTraceOptions,
+  traceFromUsageRecords
+} from "./rotation-simulator-trace.js"
+import { loadUsageLedger } from "./usage-ledger.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type SimulateCliDeps = {
+  ledgerPath?: string
+}
+
+type ParsedArgs = {
+  tracePath?: string
+  fromUsage: boolean
+  variants: SimulationVariant[]
+  synthetic: SyntheticTraceOptions
+  maxAttempts?: number
+  json: boolean
+}
+
+const SYNTHETIC_OPTIONS: Record<string, keyof SyntheticTraceOptions> = {
+  "--accounts": "accounts",
+  "--sessions": "sessions",
+  "--processes": "processes",
+  "--hours": "hours",
+  "--rate": "requestsPerSessionHour",
+  "--five-hour-limit": "fiveHourLimit",
+  "--rate-limits": "rateLimitBursts",
+  "--seed": "seed"
+}
+
+function helpText(): string {
+  const defaults = DEFAULT_SYNTHETIC_TRACE_OPTIONS
+  return [
+    "opencode-codex-auth simulate",
+    "",
+    "Usage:",
+    "  opencode-codex-auth simulate [--trace <file> | --from-usage] [--strategy <name>]... [--json]",
+    "",
+    "Replays a request trace through the real account selection and retry logic with a fake clock, once per",
+    "rotation strategy, and reports per-account load, failovers, session switches and time to full exhaustion.",
+    "Without --trace or --from-usage a synthetic trace is generated.",
+    "",
+    "Options:",
+    "  --trace <file>          Replay a JSON trace (see docs/multi-account.md for the format).",
+    "  --from-usage            Replay requests recorded in the usage ledger (quota from --five-hour-limit).",
+    "  --strategy <name>       sticky, hybrid, round_robin or quota_balanced, optionally with +pid-offset.",
+    "                          Repeat to compare several; defaults to all common combinations.",
+    "  --max-attempts <n>      Attempts per request, as retry.maxAttempts (default: 3).",
+    "  --json                  Print machine-readable JSON.",
+    "",
+    "Synthetic trace options:",
+    `  --accounts <n>          Accounts (default: ${defaults.accounts}).`,
+    `  --sessions <n>          Sessions (default: ${defaults.sessions}).`,
+    `  --processes <n>         OpenCode processes the sessions are spread across (default: ${defaults.processes}).`,
+    `  --hours <n>             Trace length in hours (default: ${defaults.hours}).`,
+    `  --rate <n>              Requests per session per hour (default: ${defaults.requestsPerSessionHour}).`,
+    `  --five-hour-limit <n>   Requests each account may send per 5h window (default: ${defaults.fiveHourLimit}).`,
+    `  --rate-limits <n>       Scripted 429 bursts on random accounts (default: ${defaults.rateLimitBursts}).`,
+    `  --seed <n>              Random seed (default: ${defaults.seed}).`
+  ].join("\n")
+}
+
+function readOptionValue(args: string[], index: number, name: string): { value?: string; consumed: number } {
+  const token = args[index] ?? ""
+  if (token === name) return { value: args[index + 1], consumed: 2 }
+  return { value: token.slice(name.length + 1), consumed: 1 }
+}
+
+function matchOption(token: string, name: string): boolean {
+  return token === name || token.startsWith(`${name}=`)
+}
+
+function parseArgs(args: string[]): { ok: true; value: ParsedArgs } | { ok: false; error: string } {
+  const parsed: ParsedArgs = { fromUsage: false, variants: [], synthetic: {}, json: false }
+  for (let i = 0; i < args.length; ) {
+    const token = args[i]
+    if (!token) {
+      i += 1
+      continue
+    }
+    if (token === "--json") {
+      parsed.json = true
+      i += 1
+      continue
+    }
+    if (token === "--from-usage") {
+      parsed.fromUsage = true
+      i += 1
+      continue
+    }
+    if (matchOption(token, "--trace")) {
+      const { value, consumed } = readOptionValue(args, i, "--trace")
+      if (!value) return { ok: false, error: "Missing value for --trace" }
+      parsed.tracePath = value
+      i += consumed
+      continue
+    }
+    if (matchOption(token, "--strategy")) {
+      const { value, consumed } = readOptionValue(args, i, "--strategy")
+      const variant = value ? parseSimulationVariant(value) : undefined
+      if (!variant) return { ok: false, error: `Invalid --strategy: ${value ?? ""}` }
+      parsed.variants.push(variant)
+      i += consumed
+      continue
+    }
+    if (matchOption(token, "--max-attempts")) {
+      const { value, consumed } = readOptionValue(args, i, "--max-attempts")
+      const attempts = Number(value)
+      if (!value || !Number.isInteger(attempts) || attempts < 1) {
+        return { ok: false, error: "Expected --max-attempts <positive integer>" }
+      }
+      parsed.maxAttempts = attempts
+      i += consumed
+      continue
+    }
+    const name = Object.keys(SYNTHETIC_OPTIONS).find((option) => matchOption(token, option))
+    const key = name ? SYNTHETIC_OPTIONS[name] : undefined
+    if (name && key) {
+      const { value, consumed } = readOptionValue(args, i, name)
+      const number = Number(value)
+      const allowsZero = name === "--rate-limits" || name === "--seed"
+      if (!value || !Number.isFinite(number) || number < (allowsZero ? 0 : 1) || !Number.isInteger(number)) {
+        return { ok: false, error: `Expected ${name} <${allowsZero ? "non-negative" : "positive"} integer>` }
+      }
+      parsed.synthetic[key] = number
+      i += consumed
+      continue
+    }
+    if (token.startsWith("-")) {
+      return { ok: false, error: `Unknown option: ${token}` }
+    }
+    return { ok: false, error: `Unexpected argument: ${token}` }
+  }
+  if (parsed.tracePath && parsed.fromUsage) {
+    return { ok: false, error: "Use either --trace or --from-usage, not both" }
+  }
+  return { ok: true, value: parsed }
+}
+
+async function loadTrace(
+  parsed: ParsedArgs,
+  deps: SimulateCliDeps
+): Promise<{ trace: SimulationTrace; source: string }> {
+  if (parsed.tracePath) {
+    const raw = await fs.readFile(parsed.tracePath, "utf8")
+    return { trace: parseSimulationTrace(JSON.parse(raw)), source: `trace ${parsed.tracePath}` }
+  }
+  if (parsed.fromUsage) {
+    const ledger = await loadUsageLedger(deps.ledgerPath ?? defaultUsageLedgerPath())
+    const fiveHourLimit = parsed.synthetic.fiveHourLimit ?? DEFAULT_SYNTHETIC_TRACE_OPTIONS.fiveHourLimit
+    return { trace: traceFromUsageRecords(ledger.records, { fiveHourLimit }), source: "usage ledger" }
+  }
+  const seed = parsed.synthetic.seed ?? DEFAULT_SYNTHETIC_TRACE_OPTIONS.seed
+  return { trace: generateSyntheticTrace(parsed.synthetic), source: `synthetic trace, seed ${seed}` }
+}
+
+export async function runSimulateCli(
+  args: string[],
+  io: CliIo = DEFAULT_IO,
+  deps: SimulateCliDeps = {}
+): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  const parsed = parseArgs(args)
+  if (!parsed.ok) {
+    io.err(parsed.error)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  let loaded: { trace: SimulationTrace; source: string }
+  try {
+    loaded = await loadTrace(parsed.value, deps)
+  } catch (error) {
+    io.err(`Failed to load trace: ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+  if (loaded.trace.requests.length === 0) {
+    io.err("The trace has no requests to replay.")
+    return 1
+  }
+
+  const report = await runRotationSimulations(loaded.trace, {
+    source: loaded.source,
+    variants: parsed.value.variants.length > 0 ? parsed.value.variants : DEFAULT_SIMULATION_VARIANTS,
+    maxAttempts: parsed.value.maxAttempts
+  })
+  io.out(parsed.value.json ? JSON.stringify(report, null, 2) : renderSimulationReport(report))
+  return 0
+}
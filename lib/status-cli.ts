@@ -0,0 +1,58 @@
+import { toolOutputForStatus } from "./codex-status-tool.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type StatusCliDeps = {
+  authPath?: string
+  snapshotsPath?: string
+  now?: () => number
+}
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth status",
+    "",
+    "Usage:",
+    "  opencode-codex-auth status [--json]",
+    "",
+    "Shows enabled/active/cooldown state, token expiry, 5h/weekly quota windows, credits and snapshot age for every account.",
+    "",
+    "Options:",
+    "  --json          Print a versioned JSON document (schemas/codex-status.schema.json)."
+  ].join("\n")
+}
+
+export async function runStatusCli(args: string[], io: CliIo = DEFAULT_IO, deps: StatusCliDeps = {}): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  let json = false
+  for (const token of args) {
+    if (token === "--json") {
+      json = true
+      continue
+    }
+    io.err(token.startsWith("-") ? `Unknown option: ${token}` : `Unexpected argument: ${token}`)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  io.out(
+    await toolOutputForStatus(deps.authPath, deps.snapshotsPath, {
+      format: json ? "json" : "text",
+      ...(deps.now ? { now: deps.now() } : {})
+    })
+  )
+  return 0
+}
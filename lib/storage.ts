@@ -1,12 +1,35 @@
 import fs from "node:fs/promises"
 import path from "node:path"
 
+import {
+  type AccountAuditChange,
+  type AccountAuditContext,
+  type AccountAuditSnapshot,
+  appendAccountAuditEvents,
+  captureAccountAuditSnapshot,
+  diffAccountAuditSnapshots,
+  isAccountAuditEnabled,
+  UNSPECIFIED_ACCOUNT_AUDIT_CONTEXT
+} from "./account-audit.js"
 import { quarantineFile } from "./quarantine.js"
-import { CODEX_ACCOUNTS_FILE, defaultAuthPath } from "./paths.js"
+import { accountAuditLogPathFor, CODEX_ACCOUNTS_FILE, defaultAuthPath } from "./paths.js"
 import { ensureConfigDirGitignore } from "./config-dir-gitignore.js"
 import { withLockedFile } from "./cache-lock.js"
 import { isFsErrorCode, writeJsonFileAtomic } from "./cache-io.js"
 import type { AuthFile, OpenAIAuthMode } from "./types.js"
+import {
+  AUTH_STORE_VERSION,
+  AuthStoreVersionError,
+  migrateAuthStore,
+  readAuthStoreVersion,
+  withAuthStoreVersion
+} from "./storage/auth-schema.js"
+import {
+  authAccountSetSignature,
+  listAuthBackups,
+  resolveAuthBackupKeep,
+  writeAuthBackup
+} from "./storage/auth-backups.js"
 import {
   ensureOpenAIOAuthDomain,
   ensureMultiOauthState,
@@ -15,7 +38,6 @@ import {
   listLegacyAuthCandidates,
   listOpenAIOAuthDomains,
   migrateAuthFile,
-  migrateLegacyCodexAccounts,
   normalizeOpenAIOAuthState,
   OPENAI_AUTH_MODES,
   requireOpenAIMultiOauthAuth,
@@ -23,6 +45,14 @@ import {
   shouldEnforceOpenAIOnlyStorage,
   upsertDomainAccount
 } from "./storage/auth-state.js"
+import {
+  isTokenSealError,
+  resolveTokenSealSettings,
+  sealAuthTokens,
+  TOKEN_SEAL_HEADER_KEY,
+  type TokenSealSettings,
+  unsealAuthTokens
+} from "./storage/token-seal.js"
 
 type AuthLoadOptions = {
   quarantineDir?: string
@@ -31,30 +61,58 @@ type AuthLoadOptions = {
   lockReads?: boolean
 }
 
+export type AuthSaveOptions = {
+  /** Recorded with every account state change in the audit log. */
+  audit?: AccountAuditContext
+}
+
+type AuthReadState = {
+  auth: AuthFile
+  exists: boolean
+  sealed: boolean
+  /** Schema version stored in the file (0 when it predates versioning). */
+  version: number
+}
+
 async function readAuthUnlocked(
   filePath: string,
   opts?: { quarantineDir: string; now: () => number; keep?: number }
 ): Promise<AuthFile> {
+  return (await readAuthStateUnlocked(filePath, opts)).auth
+}
+
+async function readAuthStateUnlocked(
+  filePath: string,
+  opts?: { quarantineDir: string; now: () => number; keep?: number }
+): Promise<AuthReadState> {
   const openAIOnly = shouldEnforceOpenAIOnlyStorage(filePath)
   let raw: string
   try {
     raw = await fs.readFile(filePath, "utf8")
   } catch (_error: unknown) {
     if (_error && typeof _error === "object" && "code" in _error && _error.code === "ENOENT") {
-      return {}
+      return { auth: {}, exists: false, sealed: false, version: AUTH_STORE_VERSION }
     }
     throw _error
   }
 
+  let newerVersion: number | undefined
   try {
     const parsed: unknown = JSON.parse(raw)
     if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
       throw new Error("Auth storage root must be a JSON object")
     }
-    const legacyMigrated = migrateLegacyCodexAccounts(parsed as Record<string, unknown>)
-    if (legacyMigrated) return sanitizeAuthFile(legacyMigrated, { openAIOnly })
-    return sanitizeAuthFile(migrateAuthFile(parsed as AuthFile), { openAIOnly })
+    const { value, sealed } = await unsealAuthTokens(parsed as Record<string, unknown>, { filePath })
+    const version = readAuthStoreVersion(value)
+    if (version > AUTH_STORE_VERSION) newerVersion = version
+    const migrated = migrateAuthStore(value)
+    const auth = sanitizeAuthFile(migrateAuthFile(migrated.value as AuthFile), { openAIOnly })
+    return { auth, exists: true, sealed, version: migrated.fromVersion }
   } catch (_error: unknown) {
+    // Missing or wrong keys are recoverable; never quarantine a file we simply cannot decrypt.
+    if (isTokenSealError(_error)) throw _error
+    // A newer plugin's shape may not parse here; that is not corruption, so leave the file in place.
+    if (newerVersion !== undefined) throw new AuthStoreVersionError(filePath, newerVersion)
     let quarantinedPath: string | undefined
     if (opts?.quarantineDir && opts.now) {
       try {
@@ -114,10 +172,14 @@ export type LegacyTransferResult = {
 }
 
 export async function importLegacyInstallData(filePath: string = defaultAuthPath()): Promise<LegacyTransferResult> {
-  return withFileLock(filePath, async () => {
-    const current = sanitizeAuthFile(migrateAuthFile(await readAuthUnlocked(filePath)), {
+  let auditChanges: AccountAuditChange[] = []
+  const result = await withFileLock(filePath, async () => {
+    const state = await readAuthStateUnlocked(filePath)
+    assertAuthStoreWritable(filePath, state)
+    const current = sanitizeAuthFile(migrateAuthFile(state.auth), {
       openAIOnly: shouldEnforceOpenAIOnlyStorage(filePath)
     })
+    const auditBefore = captureAccountAuditSnapshotIfEnabled(current)
     const nextOpenAI = ensureMultiOauthState(current)
     current.openai = nextOpenAI
 
@@ -170,13 +232,45 @@ export async function importLegacyInstallData(filePath: string = defaultAuthPath
     }
 
     current.openai = normalizeOpenAIOAuthState(current.openai)
+    await backupBeforeAuthStoreUpgrade(filePath, state)
     await writeAuthUnlocked(filePath, current)
+    auditChanges = diffAccountAuditSnapshotIfEnabled(auditBefore, current)
     return { imported, sourcesUsed }
   })
+  await recordAccountAuditBestEffort(filePath, auditChanges, { actor: "auth-menu", reason: "legacy_transfer" })
+  return result
 }
 
 async function writeAuthUnlocked(filePath: string, auth: AuthFile): Promise<void> {
-  await writeJsonFileAtomic(filePath, auth)
+  const settings = resolveTokenSealSettings(filePath)
+  const body = settings.enabled ? await sealAuthTokens(auth, settings) : (auth as Record<string, unknown>)
+  await writeJsonFileAtomic(filePath, withAuthStoreVersion(body))
+}
+
+/** A store written by a newer plugin may hold fields this version would drop, so never write it back. */
+function assertAuthStoreWritable(filePath: string, state: AuthReadState): void {
+  if (state.exists && state.version > AUTH_STORE_VERSION) {
+    throw new AuthStoreVersionError(filePath, state.version)
+  }
+}
+
+function needsAuthStoreUpgrade(state: AuthReadState): boolean {
+  return state.exists && state.version < AUTH_STORE_VERSION
+}
+
+/** Pre-upgrade copies live apart from corrupt-file quarantines so neither evicts the other. */
+function preMigrationBackupDir(filePath: string): string {
+  return path.join(path.dirname(filePath), "quarantine", "pre-migration")
+}
+
+async function backupBeforeAuthStoreUpgrade(filePath: string, state: AuthReadState): Promise<void> {
+  if (!needsAuthStoreUpgrade(state)) return
+  await quarantineFile({
+    sourcePath: filePath,
+    quarantineDir: preMigrationBackupDir(filePath),
+    now: Date.now,
+    copy: true
+  })
 }
 
 async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
@@ -206,25 +300,211 @@ export async function loadAuthStorage(filePath: string = defaultAuthPath(), opts
 
 export async function saveAuthStorage(
   filePath: string = defaultAuthPath(),
-  update: (auth: AuthFile) => void | AuthFile | Promise<void | AuthFile>
+  update: (auth: AuthFile) => void | AuthFile | Promise<void | AuthFile>,
+  options: AuthSaveOptions = {}
 ): Promise<AuthFile> {
-  return withFileLock(filePath, async () => {
-    const current = await readAuthUnlocked(filePath, {
+  let auditChanges: AccountAuditChange[] = []
+  const saved = await withFileLock(filePath, async () => {
+    const state = await readAuthStateUnlocked(filePath, {
       quarantineDir: path.join(path.dirname(filePath), "quarantine"),
       now: Date.now
     })
+    assertAuthStoreWritable(filePath, state)
+    const current = state.auth
     const before = JSON.stringify(current)
+    const accountsBefore = authAccountSetSignature(current)
+    const auditBefore = captureAccountAuditSnapshotIfEnabled(current)
     const result = await update(current)
     const nextBase = result === undefined ? current : result
     const next = sanitizeAuthFile(migrateAuthFile(nextBase), {
       openAIOnly: shouldEnforceOpenAIOnlyStorage(filePath)
     })
-    if (JSON.stringify(next) === before) {
+    // A changed encryption setting forces a rewrite so the file converges to the configured form.
+    const sealEnabled = resolveTokenSealSettings(filePath).enabled
+    const sealMismatch = state.exists && state.sealed !== sealEnabled
+    if (JSON.stringify(next) === before && !sealMismatch && !needsAuthStoreUpgrade(state)) {
       return next
     }
+    await backupBeforeAuthStoreUpgrade(filePath, state)
+    if (state.exists && authAccountSetSignature(next) !== accountsBefore) {
+      await backupAuthStorageBestEffort(filePath)
+    }
     await writeAuthUnlocked(filePath, next)
+    if (sealMismatch && sealEnabled) await sealAuthStoreCopies(filePath, resolveTokenSealSettings(filePath))
+    auditChanges = diffAccountAuditSnapshotIfEnabled(auditBefore, next)
     return next
   })
+  await recordAccountAuditBestEffort(filePath, auditChanges, options.audit)
+  return saved
+}
+
+function captureAccountAuditSnapshotIfEnabled(auth: AuthFile): AccountAuditSnapshot | undefined {
+  return isAccountAuditEnabled() ? captureAccountAuditSnapshot(auth) : undefined
+}
+
+function diffAccountAuditSnapshotIfEnabled(before: AccountAuditSnapshot | undefined, after: AuthFile) {
+  return before ? diffAccountAuditSnapshots(before, captureAccountAuditSnapshot(after)) : []
+}
+
+/** Appends after the auth lock is released; audit failures never fail the write they describe. */
+async function recordAccountAuditBestEffort(
+  filePath: string,
+  changes: AccountAuditChange[],
+  context: AccountAuditContext = UNSPECIFIED_ACCOUNT_AUDIT_CONTEXT
+): Promise<void> {
+  if (changes.length === 0) return
+  try {
+    await appendAccountAuditEvents({ logPath: accountAuditLogPathFor(filePath), changes, context, now: Date.now() })
+  } catch (error) {
+    if (error instanceof Error) {
+      // best-effort audit trail
+    }
+  }
+}
+
+async function backupAuthStorageBestEffort(filePath: string): Promise<string | undefined> {
+  const keep = resolveAuthBackupKeep()
+  if (keep === 0) return undefined
+  try {
+    return await writeAuthBackup({ filePath, now: Date.now(), keep })
+  } catch (error) {
+    if (error instanceof Error) {
+      // A failed backup must not block the auth write it protects.
+    }
+    return undefined
+  }
+}
+
+export type AuthBackupRestoreResult = {
+  restoredFrom: string
+  /** Backup of the auth file as it was just before the restore, when one existed. */
+  previousBackup?: string
+}
+
+/** Replaces the auth file with a backup under the auth file lock, backing up the current file first. */
+export async function restoreAuthStorageBackup(
+  filePath: string = defaultAuthPath(),
+  backupPath: string,
+  options: AuthSaveOptions = {}
+): Promise<AuthBackupRestoreResult> {
+  let auditChanges: AccountAuditChange[] = []
+  const restored = await withFileLock(filePath, async () => {
+    const parsed: unknown = JSON.parse(await fs.readFile(backupPath, "utf8"))
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Backup at ${backupPath} is not an auth storage object`)
+    }
+    const version = readAuthStoreVersion(parsed as Record<string, unknown>)
+    if (version > AUTH_STORE_VERSION) {
+      throw new AuthStoreVersionError(backupPath, version)
+    }
+    // A backup keeps the sealing it was taken with; unseal it with the live file's key and let
+    // `writeAuthUnlocked` seal it again (or not) by the current settings.
+    const { value } = await unsealAuthTokens(parsed as Record<string, unknown>, {
+      filePath: backupPath,
+      settings: resolveTokenSealSettings(filePath)
+    })
+    const auth = sanitizeAuthFile(migrateAuthFile(migrateAuthStore(value).value as AuthFile), {
+      openAIOnly: shouldEnforceOpenAIOnlyStorage(filePath)
+    })
+
+    let previousBackup: string | undefined
+    let currentRaw: string | undefined
+    try {
+      currentRaw = await fs.readFile(filePath, "utf8")
+      previousBackup = await backupAuthStorageBestEffort(filePath)
+    } catch (error) {
+      if (!isFsErrorCode(error, "ENOENT")) throw error
+    }
+    await writeAuthUnlocked(filePath, auth)
+    if (isAccountAuditEnabled()) {
+      auditChanges = diffAccountAuditSnapshots(
+        auditSnapshotOfStoreBestEffort(currentRaw),
+        captureAccountAuditSnapshot(auth)
+      )
+    }
+    return { restoredFrom: backupPath, ...(previousBackup ? { previousBackup } : {}) }
+  })
+  await recordAccountAuditBestEffort(filePath, auditChanges, options.audit)
+  return restored
+}
+
+/** Identities and flags of a raw store; sealed tokens do not matter here, so no key is needed. */
+function auditSnapshotOfStoreBestEffort(raw: string | undefined): AccountAuditSnapshot {
+  if (raw === undefined) return []
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return []
+    const auth = migrateAuthFile(migrateAuthStore(parsed as Record<string, unknown>).value as AuthFile)
+    return captureAccountAuditSnapshot(auth)
+  } catch (error) {
+    if (error instanceof Error) {
+      // an unreadable store audits as empty
+    }
+    return []
+  }
+}
+
+export type TokenEncryptionMigrationResult = {
+  sealed: boolean
+  changed: boolean
+}
+
+async function listAuthStoreCopies(filePath: string): Promise<string[]> {
+  const backups = (await listAuthBackups(filePath)).map((backup) => backup.path)
+  const dir = preMigrationBackupDir(filePath)
+  let names: string[] = []
+  try {
+    names = await fs.readdir(dir)
+  } catch (error) {
+    if (!isFsErrorCode(error, "ENOENT")) throw error
+  }
+  const prefix = `${path.basename(filePath)}.`
+  const copies = names.filter((name) => name.startsWith(prefix) && name.endsWith(".quarantine.json"))
+  return [...backups, ...copies.map((name) => path.join(dir, name))]
+}
+
+/**
+ * Seals the plaintext copies kept in `backups/` and the pre-migration directory once the live
+ * store is sealed, so enabling encryption leaves no readable tokens behind. Copies that cannot
+ * be parsed are deleted instead.
+ */
+async function sealAuthStoreCopies(filePath: string, settings: TokenSealSettings): Promise<void> {
+  for (const copyPath of await listAuthStoreCopies(filePath)) {
+    let root: unknown
+    try {
+      root = JSON.parse(await fs.readFile(copyPath, "utf8"))
+    } catch (error) {
+      if (isFsErrorCode(error, "ENOENT")) continue
+      if (!(error instanceof SyntaxError)) throw error
+    }
+    if (typeof root !== "object" || root === null || Array.isArray(root)) {
+      await fs.rm(copyPath, { force: true })
+      continue
+    }
+    if (TOKEN_SEAL_HEADER_KEY in root) continue
+    await writeJsonFileAtomic(copyPath, await sealAuthTokens(root as Record<string, unknown>, settings))
+  }
+}
+
+export async function migrateAuthStorageEncryption(
+  filePath: string = defaultAuthPath()
+): Promise<TokenEncryptionMigrationResult> {
+  return withFileLock(filePath, async () => {
+    const state = await readAuthStateUnlocked(filePath, {
+      quarantineDir: path.join(path.dirname(filePath), "quarantine"),
+      now: Date.now
+    })
+    const settings = resolveTokenSealSettings(filePath)
+    const enabled = settings.enabled
+    if (!state.exists || state.sealed === enabled) {
+      return { sealed: state.sealed, changed: false }
+    }
+    assertAuthStoreWritable(filePath, state)
+    await backupBeforeAuthStoreUpgrade(filePath, state)
+    await writeAuthUnlocked(filePath, state.auth)
+    if (enabled) await sealAuthStoreCopies(filePath, settings)
+    return { sealed: enabled, changed: true }
+  })
 }
 
 export async function setAccountCooldown(
@@ -233,13 +513,17 @@ export async function setAccountCooldown(
   cooldownUntil: number,
   authMode: OpenAIAuthMode = "native"
 ): Promise<AuthFile> {
-  return saveAuthStorage(filePath, (auth) => {
-    const domain = ensureOpenAIOAuthDomain(auth, authMode)
-    const acc = domain.accounts.find((a) => a.identityKey === identityKey)
-    if (acc && acc.enabled !== false) {
-      acc.cooldownUntil = cooldownUntil
-    }
-  })
+  return saveAuthStorage(
+    filePath,
+    (auth) => {
+      const domain = ensureOpenAIOAuthDomain(auth, authMode)
+      const acc = domain.accounts.find((a) => a.identityKey === identityKey)
+      if (acc && acc.enabled !== false) {
+        acc.cooldownUntil = cooldownUntil
+      }
+    },
+    { audit: { actor: "request", reason: "rate_limited" } }
+  )
 }
 
 export async function updateAccountTokensByIdentityKey(
@@ -259,6 +543,12 @@ export async function updateAccountTokensByIdentityKey(
   })
 }
 
+export { isTokenSealError, TokenSealError } from "./storage/token-seal.js"
+
+export { AUTH_STORE_VERSION, AuthStoreVersionError, isAuthStoreVersionError } from "./storage/auth-schema.js"
+
+export { type AuthBackupInfo, listAuthBackups } from "./storage/auth-backups.js"
+
 export {
   ensureOpenAIOAuthDomain,
   getOpenAIOAuthDomain,
@@ -0,0 +1,150 @@
+import { constants as fsConstants } from "node:fs"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { enforceOwnerOnlyPermissions, isFsErrorCode } from "../cache-io.js"
+import { parseEnvNumber } from "../config/file.js"
+import type { AuthFile } from "../types.js"
+import { isRecord } from "../util.js"
+import { migrateAuthStore, readAuthStoreVersion } from "./auth-schema.js"
+import { listOpenAIOAuthDomains, migrateAuthFile } from "./auth-state.js"
+
+export const DEFAULT_AUTH_BACKUP_KEEP = 10
+export const AUTH_BACKUP_KEEP_ENV = "OPENCODE_OPENAI_MULTI_AUTH_BACKUPS"
+
+export type AuthBackupInfo = {
+  path: string
+  createdAt: number
+  schemaVersion?: number
+  /** Distinct accounts across auth domains; undefined when the backup cannot be parsed. */
+  accounts?: number
+  enabledAccounts?: number
+}
+
+export function authBackupDirFor(filePath: string): string {
+  return path.join(path.dirname(filePath), "backups")
+}
+
+/** Number of rolling backups to keep; `0` disables them. */
+export function resolveAuthBackupKeep(env: Record<string, string | undefined> = process.env): number {
+  const parsed = parseEnvNumber(env[AUTH_BACKUP_KEEP_ENV])
+  if (parsed === undefined || parsed < 0) return DEFAULT_AUTH_BACKUP_KEEP
+  return Math.floor(parsed)
+}
+
+/**
+ * Identity and enabled flag of every stored account. Backups are only taken when this
+ * changes, so token refreshes and cooldown bookkeeping do not churn the backup set.
+ */
+export function authAccountSetSignature(auth: AuthFile): string {
+  const entries: string[] = []
+  for (const { mode, domain } of listOpenAIOAuthDomains(structuredClone(auth))) {
+    domain.accounts.forEach((account, index) => {
+      const identity = account.identityKey ?? account.accountId ?? account.email ?? `#${index}`
+      entries.push(`${mode}:${identity}:${account.enabled === false ? "off" : "on"}`)
+    })
+  }
+  return entries.sort().join("\n")
+}
+
+function backupPattern(base: string): RegExp {
+  const escapedBase = base.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`^${escapedBase}\\.(\\d+)\\.backup\\.json$`)
+}
+
+async function listBackupFiles(filePath: string): Promise<Array<{ path: string; createdAt: number }>> {
+  const dir = authBackupDirFor(filePath)
+  const pattern = backupPattern(path.basename(filePath))
+  let names: string[]
+  try {
+    names = await fs.readdir(dir)
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return []
+    throw error
+  }
+  return names
+    .flatMap((name) => {
+      const match = name.match(pattern)
+      if (!match?.[1]) return []
+      return [{ path: path.join(dir, name), createdAt: Number.parseInt(match[1], 10) }]
+    })
+    .sort((left, right) => right.createdAt - left.createdAt || right.path.localeCompare(left.path))
+}
+
+/** Copies the current auth file into the owner-only backup directory and prunes old copies. */
+export async function writeAuthBackup(input: { filePath: string; now: number; keep: number }): Promise<string> {
+  const dir = authBackupDirFor(input.filePath)
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 })
+  await fs.chmod(dir, 0o700).catch((error) => {
+    if (!isFsErrorCode(error, "EACCES") && !isFsErrorCode(error, "EPERM")) throw error
+  })
+
+  // Saves within the same millisecond get the next free timestamp instead of overwriting each other.
+  let createdAt = input.now
+  let dest = ""
+  for (;;) {
+    dest = path.join(dir, `${path.basename(input.filePath)}.${createdAt}.backup.json`)
+    try {
+      await fs.copyFile(input.filePath, dest, fsConstants.COPYFILE_EXCL)
+      break
+    } catch (error) {
+      if (!isFsErrorCode(error, "EEXIST")) throw error
+      createdAt += 1
+    }
+  }
+  await enforceOwnerOnlyPermissions(dest)
+
+  const files = await listBackupFiles(input.filePath)
+  for (const stale of files.slice(Math.max(1, input.keep))) {
+    await fs.unlink(stale.path).catch((error) => {
+      if (!isFsErrorCode(error, "ENOENT")) {
+        // best-effort retention pruning
+      }
+    })
+  }
+  return dest
+}
+
+function summarizeBackup(raw: string): Pick<AuthBackupInfo, "schemaVersion" | "accounts" | "enabledAccounts"> {
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return {}
+    const schemaVersion = readAuthStoreVersion(parsed)
+    // Token sealing only touches access/refresh values, so identities can be counted without the key.
+    const auth = migrateAuthFile(migrateAuthStore(parsed).value as AuthFile)
+    const enabledByIdentity = new Map<string, boolean>()
+    for (const { domain } of listOpenAIOAuthDomains(auth)) {
+      domain.accounts.forEach((account, index) => {
+        const identity = account.identityKey ?? account.accountId ?? account.email ?? `#${index}`
+        enabledByIdentity.set(identity, enabledByIdentity.get(identity) === true || account.enabled !== false)
+      })
+    }
+    return {
+      schemaVersion,
+      accounts: enabledByIdentity.size,
+      enabledAccounts: [...enabledByIdentity.values()].filter(Boolean).length
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      // unreadable backups are listed without counts
+    }
+    return {}
+  }
+}
+
+/** Lists backups of the auth file, newest first. */
+export async function listAuthBackups(filePath: string): Promise<AuthBackupInfo[]> {
+  const files = await listBackupFiles(filePath)
+  const out: AuthBackupInfo[] = []
+  for (const file of files) {
+    let raw: string
+    try {
+      raw = await fs.readFile(file.path, "utf8")
+    } catch (error) {
+      if (isFsErrorCode(error, "ENOENT")) continue
+      throw error
+    }
+    out.push({ ...file, ...summarizeBackup(raw) })
+  }
+  return out
+}
@@ -0,0 +1,108 @@
+import { isRecord } from "../util.js"
+import {
+  isLegacyOauthAuth,
+  isMultiOauthAuth,
+  migrateLegacyCodexAccounts,
+  normalizeOpenAIOAuthState,
+  upgradeLegacyOauthLogin
+} from "./auth-state.js"
+
+/** Schema version written to the top-level `schemaVersion` field of codex-accounts.json. */
+export const AUTH_STORE_VERSION = 2
+
+export const AUTH_STORE_VERSION_KEY = "schemaVersion"
+
+export type AuthStoreMigration = {
+  from: number
+  to: number
+  description: string
+  migrate: (root: Record<string, unknown>) => Record<string, unknown>
+}
+
+/**
+ * Ordered upgrade steps. A store without a `schemaVersion` field predates versioning and is
+ * treated as version 0, so every step must accept any shape older than its `to` version.
+ */
+export const AUTH_STORE_MIGRATIONS: readonly AuthStoreMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: "single OAuth login or legacy openai-codex-accounts list to a multi-account OAuth record",
+    migrate: (root) => {
+      const legacyAccounts = migrateLegacyCodexAccounts(root)
+      if (legacyAccounts) return legacyAccounts as Record<string, unknown>
+      const openai = root.openai
+      if (isLegacyOauthAuth(openai) && !isMultiOauthAuth(openai)) {
+        return { ...root, openai: upgradeLegacyOauthLogin(openai) }
+      }
+      return root
+    }
+  },
+  {
+    from: 1,
+    to: 2,
+    description: "flat account list split into native and codex auth domains",
+    migrate: (root) => {
+      const openai = root.openai
+      if (!isMultiOauthAuth(openai)) return root
+      return { ...root, openai: normalizeOpenAIOAuthState(openai) }
+    }
+  }
+]
+
+export class AuthStoreVersionError extends Error {
+  readonly version: number
+
+  constructor(filePath: string, version: number) {
+    super(
+      `Auth storage at ${filePath} uses schema version ${version}, but this plugin supports up to version ${AUTH_STORE_VERSION}. Upgrade @iam-brain/opencode-codex-auth before changing accounts; the file was left untouched.`
+    )
+    this.name = "AuthStoreVersionError"
+    this.version = version
+  }
+}
+
+export function isAuthStoreVersionError(value: unknown): value is AuthStoreVersionError {
+  return value instanceof AuthStoreVersionError
+}
+
+export function readAuthStoreVersion(root: Record<string, unknown>): number {
+  const version = root[AUTH_STORE_VERSION_KEY]
+  if (version === undefined) return 0
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid auth storage ${AUTH_STORE_VERSION_KEY}: ${JSON.stringify(version)}`)
+  }
+  return version
+}
+
+export type AuthStoreMigrationResult = {
+  /** Store contents without the `schemaVersion` field. */
+  value: Record<string, unknown>
+  fromVersion: number
+  applied: AuthStoreMigration[]
+}
+
+/**
+ * Runs every migration step above the stored version. Stores written by a newer plugin are
+ * returned unchanged so they can still be read; callers must not write them back.
+ */
+export function migrateAuthStore(root: Record<string, unknown>): AuthStoreMigrationResult {
+  const fromVersion = readAuthStoreVersion(root)
+  const { [AUTH_STORE_VERSION_KEY]: _version, ...rest } = root
+  let value: Record<string, unknown> = rest
+  const applied: AuthStoreMigration[] = []
+  for (const migration of AUTH_STORE_MIGRATIONS) {
+    if (migration.from < fromVersion) continue
+    value = migration.migrate(value)
+    if (!isRecord(value)) {
+      throw new Error(`Auth storage migration to version ${migration.to} produced an invalid store`)
+    }
+    applied.push(migration)
+  }
+  return { value, fromVersion, applied }
+}
+
+export function withAuthStoreVersion(value: Record<string, unknown>): Record<string, unknown> {
+  const { [AUTH_STORE_VERSION_KEY]: _version, ...rest } = value
+  return { [AUTH_STORE_VERSION_KEY]: AUTH_STORE_VERSION, ...rest }
+}
@@ -5,6 +5,8 @@ import {
   buildIdentityKey,
   buildLegacyIdentityFingerprint,
   ensureIdentityKey,
+  normalizeAccountLabel,
+  normalizeAccountTags,
   normalizeEmail,
   normalizePlan,
   synchronizeIdentityKey
@@ -65,6 +67,12 @@ export function normalizeAccountRecord(account: AccountRecord, authMode?: OpenAI
   account.email = normalizeEmail(account.email)
   account.plan = normalizePlan(account.plan)
   if (account.accountId) account.accountId = account.accountId.trim()
+  const label = normalizeAccountLabel(account.label)
+  if (label) account.label = label
+  else delete account.label
+  const tags = normalizeAccountTags(account.tags)
+  if (tags) account.tags = tags
+  else delete account.tags
   synchronizeIdentityKey(account)
   if (authMode) {
     account.authTypes = [authMode]
@@ -400,8 +408,13 @@ export function migrateAuthFile(input: AuthFile): AuthFile {
     return auth
   }
   if (!isLegacyOauthAuth(openai)) return auth
-  const claims = parseJwtClaims(openai.access)
+  auth.openai = normalizeOpenAIOAuthState(upgradeLegacyOauthLogin(openai))
+  return auth
+}
 
+/** Wraps a pre-multi-account single OAuth login as the only native account. */
+export function upgradeLegacyOauthLogin(openai: LegacyOpenAIOauth): OpenAIMultiOauthAuth {
+  const claims = parseJwtClaims(openai.access)
   const account: AccountRecord = ensureIdentityKey({
     access: openai.access,
     refresh: openai.refresh,
@@ -413,7 +426,7 @@ export function migrateAuthFile(input: AuthFile): AuthFile {
     enabled: true
   })
 
-  const migrated: OpenAIMultiOauthAuth = {
+  return {
     type: "oauth",
     accounts: [],
     native: {
@@ -421,9 +434,6 @@ export function migrateAuthFile(input: AuthFile): AuthFile {
       activeIdentityKey: account.identityKey
     }
   }
-
-  auth.openai = normalizeOpenAIOAuthState(migrated)
-  return auth
 }
 
 export function migrateLegacyCodexAccounts(input: Record<string, unknown>): AuthFile | undefined {
@@ -0,0 +1,273 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { enforceOwnerOnlyPermissions, isFsErrorCode } from "../cache-io.js"
+import { parseEnvBoolean } from "../config/file.js"
+import { tokenKeyPathFor } from "../paths.js"
+import { isRecord } from "../util.js"
+
+export const TOKEN_SEAL_HEADER_KEY = "tokenEncryption"
+
+const SEALED_VALUE_PREFIX = "enc:v1:"
+const SEALED_TOKEN_FIELDS = ["access", "refresh"] as const
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const SALT_BYTES = 16
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+
+export type TokenSealKeySource = "passphrase" | "keyfile"
+
+export type TokenSealHeader = {
+  version: 1
+  keySource: TokenSealKeySource
+  salt?: string
+}
+
+export type TokenSealSettings = {
+  enabled: boolean
+  passphrase?: string
+  keyFilePath: string
+}
+
+export type TokenSealErrorCode = "key_missing" | "key_invalid" | "unseal_failed"
+
+export class TokenSealError extends Error {
+  readonly code: TokenSealErrorCode
+
+  constructor(code: TokenSealErrorCode, message: string) {
+    super(message)
+    this.name = "TokenSealError"
+    this.code = code
+  }
+}
+
+export function isTokenSealError(value: unknown): value is TokenSealError {
+  return value instanceof TokenSealError
+}
+
+type DerivedPassphraseKey = { salt: string; key: Buffer }
+
+// scrypt is deliberately slow; auth storage is read on every request, so keep the
+// most recent derivation per passphrase in memory (keyed by digest, never the raw secret).
+const derivedKeyByPassphrase = new Map<string, DerivedPassphraseKey>()
+
+function digestPassphrase(passphrase: string): string {
+  return createHash("sha256").update(passphrase, "utf8").digest("hex")
+}
+
+async function deriveKey(passphrase: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, Buffer.from(salt, "base64url"), KEY_BYTES, SCRYPT_OPTIONS, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+async function resolvePassphraseKey(passphrase: string, salt: string | undefined): Promise<DerivedPassphraseKey> {
+  const digest = digestPassphrase(passphrase)
+  const cached = derivedKeyByPassphrase.get(digest)
+  if (cached && (salt === undefined || cached.salt === salt)) return cached
+  const nextSalt = salt ?? randomBytes(SALT_BYTES).toString("base64url")
+  const derived = { salt: nextSalt, key: await deriveKey(passphrase, nextSalt) }
+  derivedKeyByPassphrase.set(digest, derived)
+  return derived
+}
+
+function decodeKeyFile(raw: string, keyFilePath: string): Buffer {
+  const key = Buffer.from(raw.trim(), "base64")
+  if (key.length !== KEY_BYTES) {
+    throw new TokenSealError(
+      "key_invalid",
+      `Token key file at ${keyFilePath} is not a valid ${KEY_BYTES}-byte base64 key. Restore the original key file.`
+    )
+  }
+  return key
+}
+
+async function readKeyFile(keyFilePath: string): Promise<Buffer | undefined> {
+  try {
+    return decodeKeyFile(await fs.readFile(keyFilePath, "utf8"), keyFilePath)
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return undefined
+    if (isTokenSealError(error)) throw error
+    // An unreadable key is still a key problem, not a corrupt store.
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new TokenSealError(
+      "key_invalid",
+      `Token key file at ${keyFilePath} could not be read (${reason}). Fix its path or permissions.`
+    )
+  }
+}
+
+async function readOrCreateKeyFile(keyFilePath: string): Promise<Buffer> {
+  const existing = await readKeyFile(keyFilePath)
+  if (existing) return existing
+
+  await fs.mkdir(path.dirname(keyFilePath), { recursive: true })
+  const created = randomBytes(KEY_BYTES)
+  try {
+    await fs.writeFile(keyFilePath, `${created.toString("base64")}\n`, { mode: 0o600, flag: "wx" })
+  } catch (error) {
+    if (!isFsErrorCode(error, "EEXIST")) throw error
+    // Another process created the key first; use theirs.
+    const raced = await readKeyFile(keyFilePath)
+    if (raced) return raced
+    throw error
+  }
+  await enforceOwnerOnlyPermissions(keyFilePath)
+  return created
+}
+
+export function resolveTokenSealSettings(
+  filePath: string,
+  env: Record<string, string | undefined> = process.env
+): TokenSealSettings {
+  const passphrase = env.OPENCODE_OPENAI_MULTI_TOKEN_PASSPHRASE
+  const explicitKeyFile = env.OPENCODE_OPENAI_MULTI_TOKEN_KEY_FILE?.trim()
+  return {
+    enabled: parseEnvBoolean(env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION) === true,
+    ...(passphrase && passphrase.trim().length > 0 ? { passphrase } : {}),
+    keyFilePath: explicitKeyFile ? path.resolve(explicitKeyFile) : tokenKeyPathFor(filePath)
+  }
+}
+
+function parseSealHeader(value: unknown): TokenSealHeader | undefined {
+  if (!isRecord(value) || value.version !== 1) return undefined
+  if (value.keySource !== "passphrase" && value.keySource !== "keyfile") return undefined
+  if (value.keySource === "passphrase" && typeof value.salt !== "string") return undefined
+  return {
+    version: 1,
+    keySource: value.keySource,
+    ...(typeof value.salt === "string" ? { salt: value.salt } : {})
+  }
+}
+
+function forEachTokenHolder(root: Record<string, unknown>, visit: (holder: Record<string, unknown>) => void): void {
+  const openai = root.openai
+  if (!isRecord(openai)) return
+  visit(openai)
+  const accountLists = [openai.accounts, isRecord(openai.native) ? openai.native.accounts : undefined]
+  accountLists.push(isRecord(openai.codex) ? openai.codex.accounts : undefined)
+  for (const list of accountLists) {
+    if (!Array.isArray(list)) continue
+    for (const account of list) {
+      if (isRecord(account)) visit(account)
+    }
+  }
+}
+
+function sealValue(value: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return `${SEALED_VALUE_PREFIX}${iv.toString("base64url")}:${tag.toString("base64url")}:${ciphertext.toString("base64url")}`
+}
+
+function unsealValue(value: string, key: Buffer, filePath: string): string {
+  const [iv, tag, ciphertext] = value.slice(SEALED_VALUE_PREFIX.length).split(":")
+  try {
+    if (!iv || !tag || ciphertext === undefined) throw new Error("malformed sealed value")
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"))
+    decipher.setAuthTag(Buffer.from(tag, "base64url"))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8")
+  } catch {
+    throw new TokenSealError(
+      "unseal_failed",
+      `Encrypted tokens in ${filePath} could not be decrypted with the configured key. Check OPENCODE_OPENAI_MULTI_TOKEN_PASSPHRASE or the token key file.`
+    )
+  }
+}
+
+export function isSealedTokenValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SEALED_VALUE_PREFIX)
+}
+
+/**
+ * Decrypts sealed token fields in a parsed auth file root. Returns the root unchanged
+ * (minus the seal header) when the file was stored in plaintext.
+ */
+export async function unsealAuthTokens(
+  root: Record<string, unknown>,
+  input: { filePath: string; settings?: TokenSealSettings }
+): Promise<{ value: Record<string, unknown>; sealed: boolean }> {
+  const { [TOKEN_SEAL_HEADER_KEY]: rawHeader, ...rest } = root
+  if (rawHeader === undefined) return { value: root, sealed: false }
+
+  const header = parseSealHeader(rawHeader)
+  if (!header) {
+    throw new TokenSealError("key_invalid", `Unsupported ${TOKEN_SEAL_HEADER_KEY} header in ${input.filePath}.`)
+  }
+
+  const settings = input.settings ?? resolveTokenSealSettings(input.filePath)
+  let key: Buffer | undefined
+  if (header.keySource === "passphrase") {
+    if (settings.passphrase) {
+      key = (await resolvePassphraseKey(settings.passphrase, header.salt)).key
+    }
+  } else {
+    key = await readKeyFile(settings.keyFilePath)
+  }
+  if (!key) {
+    const hint =
+      header.keySource === "passphrase"
+        ? "Set OPENCODE_OPENAI_MULTI_TOKEN_PASSPHRASE to the passphrase used to encrypt it"
+        : `Restore the token key file at ${settings.keyFilePath} (or point OPENCODE_OPENAI_MULTI_TOKEN_KEY_FILE at it)`
+    throw new TokenSealError(
+      "key_missing",
+      `Auth storage at ${input.filePath} contains encrypted tokens but no decryption key is available. ${hint}, or re-authenticate with \`opencode auth login\`.`
+    )
+  }
+
+  const value = structuredClone(rest)
+  const unsealKey = key
+  forEachTokenHolder(value, (holder) => {
+    for (const field of SEALED_TOKEN_FIELDS) {
+      const current = holder[field]
+      if (isSealedTokenValue(current)) {
+        holder[field] = unsealValue(current, unsealKey, input.filePath)
+      }
+    }
+  })
+  return { value, sealed: true }
+}
+
+/**
+ * Returns a copy of the auth file with token fields encrypted and a seal header
+ * describing how to recover the key.
+ */
+export async function sealAuthTokens(
+  auth: Record<string, unknown>,
+  settings: TokenSealSettings
+): Promise<Record<string, unknown>> {
+  let header: TokenSealHeader
+  let key: Buffer
+  if (settings.passphrase) {
+    const derived = await resolvePassphraseKey(settings.passphrase, undefined)
+    header = { version: 1, keySource: "passphrase", salt: derived.salt }
+    key = derived.key
+  } else {
+    header = { version: 1, keySource: "keyfile" }
+    key = await readOrCreateKeyFile(settings.keyFilePath)
+  }
+
+  const value = structuredClone(auth)
+  forEachTokenHolder(value, (holder) => {
+    for (const field of SEALED_TOKEN_FIELDS) {
+      const current = holder[field]
+      if (typeof current === "string" && current.length > 0 && !isSealedTokenValue(current)) {
+        holder[field] = sealValue(current, key)
+      }
+    }
+  })
+  return { [TOKEN_SEAL_HEADER_KEY]: header, ...value }
+}
+
+// Test-only hooks for resetting the derived key cache between cases.
+export const __tokenSealTest = {
+  clearDerivedKeyCache(): void {
+    derivedKeyByPassphrase.clear()
+  }
+}
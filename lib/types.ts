@@ -1,4 +1,4 @@
-export type RotationStrategy = "round_robin" | "sticky" | "hybrid"
+export type RotationStrategy = "round_robin" | "sticky" | "hybrid" | "quota_balanced"
 export type AccountAuthType = "native" | "codex"
 export type OpenAIAuthMode = "native" | "codex"
 
@@ -7,6 +7,9 @@ export type AccountRecord = {
   accountId?: string
   email?: string
   plan?: string
+  /** User-chosen nickname, unique across accounts; usable wherever tools and the CLI take an account. */
+  label?: string
+  tags?: string[]
   authTypes?: AccountAuthType[]
   enabled?: boolean
   access?: string
@@ -1,5 +1,6 @@
-import { ANSI, confirm, select, shouldUseColor, type MenuItem } from "./tty.js"
+import { ANSI, confirm, promptText, select, shouldUseColor, type MenuItem } from "./tty.js"
 import { normalizeAccountAuthTypes as normalizeSharedAccountAuthTypes } from "../account-auth-types.js"
+import type { AccountLabelUpdate } from "../accounts-tools.js"
 
 export type AccountStatus = "active" | "rate-limited" | "expired" | "unknown"
 export type AccountAuthType = "native" | "codex"
@@ -10,6 +11,8 @@ export interface AccountInfo {
   email?: string
   plan?: string
   accountId?: string
+  label?: string
+  tags?: string[]
   sourceIndices?: Partial<Record<AccountAuthType, number>>
   authTypes?: readonly AccountAuthType[]
   index: number
@@ -20,6 +23,13 @@ export interface AccountInfo {
   enabled?: boolean
 }
 
+export interface AuthBackupEntry {
+  path: string
+  createdAt: number
+  accounts?: number
+  enabledAccounts?: number
+}
+
 export type AuthMenuAction =
   | { type: "add" }
   | { type: "select-account"; account: AccountInfo }
@@ -28,6 +38,9 @@ export type AuthMenuAction =
   | { type: "manage" }
   | { type: "configure-models" }
   | { type: "transfer" }
+  | { type: "codex-cli-import" }
+  | { type: "codex-cli-export" }
+  | { type: "restore" }
   | { type: "cancel" }
 
 export type AccountAction =
@@ -36,6 +49,9 @@ export type AccountAction =
   | { type: "delete-all"; scope: DeleteScope }
   | { type: "refresh" }
   | { type: "toggle" }
+  | { type: "edit-label" }
+  | { type: "edit-tags" }
+  | { type: "label"; update: AccountLabelUpdate }
   | { type: "cancel" }
 
 export type AuthMenuHandlers = {
@@ -43,8 +59,12 @@ export type AuthMenuHandlers = {
   onConfigureModels: () => Promise<void>
   onDeleteAll: (scope: DeleteScope) => Promise<void>
   onTransfer: () => Promise<void>
+  onCodexCliImport: () => Promise<void>
+  onCodexCliExport: (account: AccountInfo) => Promise<void>
+  onRestoreBackup: (backup: AuthBackupEntry) => Promise<void>
   onToggleAccount: (account: AccountInfo) => Promise<void>
   onRefreshAccount: (account: AccountInfo) => Promise<void>
+  onLabelAccount: (account: AccountInfo, update: AccountLabelUpdate) => Promise<void>
   onDeleteAccount: (account: AccountInfo, scope: DeleteScope) => Promise<void>
 }
 
@@ -126,9 +146,24 @@ function colorize(text: string, color: string, useColor: boolean): string {
 function formatAccountDisplayName(account: AccountInfo): string {
   const base = account.email || `Account ${account.index + 1}`
   const plan = typeof account.plan === "string" ? account.plan.trim() : ""
+  if (account.label) return `${account.label} (${plan ? `${base}, ${plan}` : base})`
   return plan ? `${base} (${plan})` : base
 }
 
+function formatAccountHint(account: AccountInfo): string {
+  const parts: string[] = []
+  if (account.lastUsed) parts.push(`used ${formatRelativeTime(account.lastUsed)}`)
+  if (account.tags && account.tags.length > 0) parts.push(account.tags.map((tag) => `#${tag}`).join(" "))
+  return parts.join(" ")
+}
+
+function parseTagInput(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+}
+
 function getStatusBadge(status: AccountStatus | undefined, useColor: boolean): string {
   switch (status) {
     case "rate-limited":
@@ -167,7 +202,7 @@ function buildAccountLabel(account: AccountInfo, useColor: boolean): string {
 
 export function buildAuthMenuItems(
   accounts: AccountInfo[],
-  options: { useColor?: boolean; allowTransfer?: boolean } = {}
+  options: { useColor?: boolean; allowTransfer?: boolean; allowCodexCliImport?: boolean; backupCount?: number } = {}
 ): MenuItem<AuthMenuAction>[] {
   const useColor = options.useColor ?? shouldUseColor()
   const items: MenuItem<AuthMenuAction>[] = [
@@ -183,11 +218,20 @@ export function buildAuthMenuItems(
           }
         ]
       : []),
+    ...(options.allowCodexCliImport
+      ? [{ label: "Import account from Codex CLI (~/.codex/auth.json)", value: { type: "codex-cli-import" as const } }]
+      : []),
+    ...(accounts.length > 0
+      ? [{ label: "Export account to Codex CLI", value: { type: "codex-cli-export" as const } }]
+      : []),
+    ...((options.backupCount ?? 0) > 0
+      ? [{ label: "Restore accounts from a backup", value: { type: "restore" as const } }]
+      : []),
     ...accounts.map((account) => {
       const label = buildAccountLabel(account, useColor)
       return {
         label,
-        hint: account.lastUsed ? `used ${formatRelativeTime(account.lastUsed)}` : "",
+        hint: formatAccountHint(account),
         value: { type: "select-account" as const, account }
       }
     })
@@ -277,6 +321,8 @@ export function buildAccountActionItems(
       color: "cyan",
       disabled: account.enabled === false
     },
+    { label: account.label ? "Rename label" : "Set label", value: { type: "edit-label" } },
+    { label: "Edit tags", value: { type: "edit-tags" } },
     ...accountDeleteItems,
     ...globalDeleteItems
   ]
@@ -285,11 +331,17 @@ export function buildAccountActionItems(
 export function buildAccountSelectItems(accounts: AccountInfo[], useColor = shouldUseColor()): MenuItem<AccountInfo>[] {
   return accounts.map((account) => ({
     label: buildAccountLabel(account, useColor),
-    hint: account.lastUsed ? `used ${formatRelativeTime(account.lastUsed)}` : "",
+    hint: formatAccountHint(account),
     value: account
   }))
 }
 
+export function formatBackupLabel(backup: AuthBackupEntry): string {
+  const created = new Date(backup.createdAt).toLocaleString()
+  if (backup.accounts === undefined) return `${created} (unreadable)`
+  return `${created} (${backup.accounts} account(s), ${backup.enabledAccounts ?? 0} enabled)`
+}
+
 export async function selectAccount(
   accounts: AccountInfo[],
   options: { input?: NodeJS.ReadStream; output?: NodeJS.WriteStream; useColor?: boolean } = {}
@@ -313,12 +365,16 @@ export async function showAuthMenu(
     output?: NodeJS.WriteStream
     useColor?: boolean
     allowTransfer?: boolean
+    allowCodexCliImport?: boolean
+    backupCount?: number
   } = {}
 ): Promise<AuthMenuAction> {
   const useColor = options.useColor ?? shouldUseColor()
   const items = buildAuthMenuItems(accounts, {
     useColor,
-    allowTransfer: options.allowTransfer === true
+    allowTransfer: options.allowTransfer === true,
+    allowCodexCliImport: options.allowCodexCliImport === true,
+    backupCount: options.backupCount
   })
 
   while (true) {
@@ -392,6 +448,9 @@ export async function showAccountDetails(
   output.write(`${bold}Account: ${label}${badges ? ` ${badges}` : ""}${reset}\n`)
   output.write(`${dim}Added: ${formatDate(account.addedAt)}${reset}\n`)
   output.write(`${dim}Last used: ${formatRelativeTime(account.lastUsed)}${reset}\n`)
+  if (account.tags && account.tags.length > 0) {
+    output.write(`${dim}Tags: ${account.tags.join(", ")}${reset}\n`)
+  }
   output.write("\n")
 
   while (true) {
@@ -431,6 +490,19 @@ export async function showAccountDetails(
       if (!confirmed) continue
     }
 
+    if (selected.type === "edit-label") {
+      const value = await promptText(`Label for ${label} (blank to clear):`, options)
+      if (value === null) continue
+      return { type: "label", update: { label: value.trim() || null } }
+    }
+
+    if (selected.type === "edit-tags") {
+      const current = account.tags && account.tags.length > 0 ? ` [${account.tags.join(", ")}]` : ""
+      const value = await promptText(`Tags, comma-separated${current} (blank to clear):`, options)
+      if (value === null) continue
+      return { type: "label", update: { tags: parseTagInput(value) } }
+    }
+
     return selected
   }
 }
@@ -439,13 +511,18 @@ export async function runAuthMenuOnce(args: {
   accounts: AccountInfo[]
   handlers: AuthMenuHandlers
   allowTransfer?: boolean
+  allowCodexCliImport?: boolean
+  /** Account store backups, newest first; the restore action is offered when non-empty. */
+  backups?: AuthBackupEntry[]
   input?: NodeJS.ReadStream
   output?: NodeJS.WriteStream
 }): Promise<AuthMenuResult> {
   const action = await showAuthMenu(args.accounts, {
     input: args.input,
     output: args.output,
-    allowTransfer: args.allowTransfer
+    allowTransfer: args.allowTransfer,
+    allowCodexCliImport: args.allowCodexCliImport,
+    backupCount: args.backups?.length
   })
 
   if (action.type === "cancel") return "exit"
@@ -462,6 +539,34 @@ export async function runAuthMenuOnce(args: {
     await args.handlers.onTransfer()
     return "continue"
   }
+  if (action.type === "codex-cli-import") {
+    await args.handlers.onCodexCliImport()
+    return "continue"
+  }
+  if (action.type === "codex-cli-export") {
+    const target = await selectAccount(args.accounts, { input: args.input, output: args.output })
+    if (!target) return "continue"
+    const confirmed = await confirm(`Replace the Codex CLI login with ${formatAccountDisplayName(target)}?`, false, {
+      input: args.input,
+      output: args.output
+    })
+    if (confirmed) await args.handlers.onCodexCliExport(target)
+    return "continue"
+  }
+  if (action.type === "restore") {
+    const backup = await select(
+      (args.backups ?? []).map((entry) => ({ label: formatBackupLabel(entry), value: entry })),
+      { message: "Restore accounts", subtitle: "Select backup", input: args.input, output: args.output }
+    )
+    if (!backup) return "continue"
+    const confirmed = await confirm(
+      `Replace the current accounts with the backup from ${new Date(backup.createdAt).toLocaleString()}? The current accounts are backed up first.`,
+      false,
+      { input: args.input, output: args.output }
+    )
+    if (confirmed) await args.handlers.onRestoreBackup(backup)
+    return "continue"
+  }
   if (action.type === "delete-all") {
     await args.handlers.onDeleteAll(action.scope)
     return "continue"
@@ -486,6 +591,10 @@ export async function runAuthMenuOnce(args: {
     await args.handlers.onToggleAccount(account)
     return "continue"
   }
+  if (accountAction.type === "label") {
+    await args.handlers.onLabelAccount(account, accountAction.update)
+    return "continue"
+  }
   if (accountAction.type === "refresh") {
     if (account.enabled !== false) {
       await args.handlers.onRefreshAccount(account)
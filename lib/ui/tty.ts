@@ -1,3 +1,5 @@
+import { createInterface } from "node:readline/promises"
+
 export const ANSI = {
   hide: "\x1b[?25l",
   show: "\x1b[?25h",
@@ -323,3 +325,25 @@ export async function confirm(message: string, defaultYes = false, options: Conf
   })
   return result ?? false
 }
+
+/** Reads one line of text; returns null on Ctrl+C or non-interactive terminals. */
+export async function promptText(message: string, options: ConfirmOptions = {}): Promise<string | null> {
+  const input = options.input ?? process.stdin
+  const output = options.output ?? process.stdout
+  if (!isTTY(input, output)) return null
+
+  const rl = createInterface({ input, output, terminal: true })
+  const abort = new AbortController()
+  rl.on("SIGINT", () => abort.abort())
+  try {
+    return await rl.question(`${message} `, { signal: abort.signal })
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      output.write("\n")
+      return null
+    }
+    throw error
+  } finally {
+    rl.close()
+  }
+}
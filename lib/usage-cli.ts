@@ -0,0 +1,92 @@
+import { buildUsageReport, renderUsageReport } from "./usage-tool.js"
+
+type CliIo = {
+  out: (message: string) => void
+  err: (message: string) => void
+}
+
+const DEFAULT_IO: CliIo = {
+  out: (message) => process.stdout.write(`${message}\n`),
+  err: (message) => process.stderr.write(`${message}\n`)
+}
+
+export type UsageCliDeps = {
+  ledgerPath?: string
+  authPath?: string
+  now?: () => number
+}
+
+type ParsedArgs = {
+  days?: number
+  json: boolean
+}
+
+function helpText(): string {
+  return [
+    "opencode-codex-auth usage",
+    "",
+    "Usage:",
+    "  opencode-codex-auth usage [--days <n>] [--json]",
+    "",
+    "Reports token usage recorded from streamed Codex responses, grouped by account, model, session and UTC day.",
+    "",
+    "Options:",
+    "  --days <n>      Only include requests from the last n days.",
+    "  --json          Print machine-readable JSON."
+  ].join("\n")
+}
+
+function parseArgs(args: string[]): { ok: true; value: ParsedArgs } | { ok: false; error: string } {
+  const parsed: ParsedArgs = { json: false }
+  for (let i = 0; i < args.length; i += 1) {
+    const token = args[i]
+    if (!token) continue
+    if (token === "--json") {
+      parsed.json = true
+      continue
+    }
+    if (token === "--days" || token.startsWith("--days=")) {
+      const raw = token === "--days" ? args[i + 1] : token.slice("--days=".length)
+      const days = Number(raw)
+      if (!raw || !Number.isInteger(days) || days < 1) {
+        return { ok: false, error: "Expected --days <positive integer>" }
+      }
+      parsed.days = days
+      if (token === "--days") i += 1
+      continue
+    }
+    if (token.startsWith("-")) {
+      return { ok: false, error: `Unknown option: ${token}` }
+    }
+    return { ok: false, error: `Unexpected argument: ${token}` }
+  }
+  return { ok: true, value: parsed }
+}
+
+export async function runUsageCli(args: string[], io: CliIo = DEFAULT_IO, deps: UsageCliDeps = {}): Promise<number> {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.out(helpText())
+    return 0
+  }
+
+  const parsed = parseArgs(args)
+  if (!parsed.ok) {
+    io.err(parsed.error)
+    io.err("")
+    io.err(helpText())
+    return 1
+  }
+
+  const report = await buildUsageReport({
+    ledgerPath: deps.ledgerPath,
+    authPath: deps.authPath,
+    now: deps.now,
+    days: parsed.value.days
+  })
+  if (parsed.value.json) {
+    io.out(JSON.stringify({ days: parsed.value.days ?? null, ...report }, null, 2))
+  } else {
+    io.out(renderUsageReport(report, { days: parsed.value.days }))
+  }
+  return 0
+}
@@ -0,0 +1,202 @@
+import { randomUUID } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { enforceOwnerOnlyPermissions, isFsErrorCode } from "./cache-io.js"
+import { withLockedFile } from "./cache-lock.js"
+import { isRecord } from "./util.js"
+
+export const MAX_USAGE_LEDGER_RECORDS = 5000
+/** The ledger is compacted down to the newest records once the file grows past this size. */
+export const USAGE_LEDGER_COMPACT_BYTES = 4 * 1024 * 1024
+
+const UNKNOWN_ACCOUNT_KEY = "(unknown)"
+const NO_SESSION_KEY = "(none)"
+const UNKNOWN_MODEL_KEY = "(unknown)"
+
+export type UsageRecord = {
+  at: number
+  identityKey?: string
+  model?: string
+  sessionKey?: string
+  serviceTier?: string
+  inputTokens: number
+  cachedInputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  totalTokens: number
+}
+
+export type UsageLedger = {
+  version: 1
+  records: UsageRecord[]
+}
+
+export type UsageTotals = {
+  requests: number
+  inputTokens: number
+  cachedInputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  totalTokens: number
+}
+
+export type UsageSummary = {
+  since?: number
+  totals: UsageTotals
+  byAccount: Record<string, UsageTotals>
+  byModel: Record<string, UsageTotals>
+  bySession: Record<string, UsageTotals>
+  byDay: Record<string, UsageTotals>
+}
+
+function readCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0
+}
+
+function readLabel(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
+
+function parseUsageRecord(value: unknown): UsageRecord | undefined {
+  if (!isRecord(value) || typeof value.at !== "number" || !Number.isFinite(value.at)) return undefined
+  const identityKey = readLabel(value.identityKey)
+  const model = readLabel(value.model)
+  const sessionKey = readLabel(value.sessionKey)
+  const serviceTier = readLabel(value.serviceTier)
+  return {
+    at: value.at,
+    ...(identityKey ? { identityKey } : {}),
+    ...(model ? { model } : {}),
+    ...(sessionKey ? { sessionKey } : {}),
+    ...(serviceTier ? { serviceTier } : {}),
+    inputTokens: readCount(value.inputTokens),
+    cachedInputTokens: readCount(value.cachedInputTokens),
+    outputTokens: readCount(value.outputTokens),
+    reasoningTokens: readCount(value.reasoningTokens),
+    totalTokens: readCount(value.totalTokens)
+  }
+}
+
+/**
+ * Extracts token counts from the `usage` block of a Responses API payload
+ * (`response.completed` events carry it under `response.usage`).
+ */
+export function parseResponseUsage(
+  usage: unknown
+): Pick<UsageRecord, "inputTokens" | "cachedInputTokens" | "outputTokens" | "reasoningTokens" | "totalTokens"> | null {
+  if (!isRecord(usage)) return null
+  const inputTokens = readCount(usage.input_tokens)
+  const outputTokens = readCount(usage.output_tokens)
+  const inputDetails = isRecord(usage.input_tokens_details) ? usage.input_tokens_details : undefined
+  const outputDetails = isRecord(usage.output_tokens_details) ? usage.output_tokens_details : undefined
+  return {
+    inputTokens,
+    cachedInputTokens: readCount(inputDetails?.cached_tokens),
+    outputTokens,
+    reasoningTokens: readCount(outputDetails?.reasoning_tokens),
+    totalTokens: readCount(usage.total_tokens) || inputTokens + outputTokens
+  }
+}
+
+function parseUsageLine(line: string): UsageRecord | undefined {
+  try {
+    return parseUsageRecord(JSON.parse(line))
+  } catch (error) {
+    if (error instanceof Error) {
+      // a torn line from a crashed writer is skipped
+    }
+    return undefined
+  }
+}
+
+async function readUsageRecords(filePath: string): Promise<UsageRecord[]> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    if (isFsErrorCode(error, "ENOENT")) return []
+    throw error
+  }
+  return content.split("\n").flatMap((line) => {
+    const record = line.trim() ? parseUsageLine(line) : undefined
+    return record ? [record] : []
+  })
+}
+
+/** Reads the JSONL ledger. Unreadable lines are skipped; a missing file is an empty ledger. */
+export async function loadUsageLedger(filePath: string): Promise<UsageLedger> {
+  return { version: 1, records: await readUsageRecords(filePath) }
+}
+
+/**
+ * Appends one JSONL line under the file lock. Once the file passes `compactAtBytes` it is
+ * rewritten with only the newest `maxRecords` records, so a request costs one append, not a rewrite.
+ */
+export async function appendUsageRecord(
+  filePath: string,
+  record: UsageRecord,
+  options: { maxRecords?: number; compactAtBytes?: number } = {}
+): Promise<void> {
+  const line = `${JSON.stringify(record)}\n`
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await withLockedFile(filePath, async () => {
+    let size = 0
+    try {
+      size = (await fs.stat(filePath)).size
+    } catch (error) {
+      if (!isFsErrorCode(error, "ENOENT")) throw error
+    }
+    if (size + Buffer.byteLength(line) > (options.compactAtBytes ?? USAGE_LEDGER_COMPACT_BYTES)) {
+      const limit = Math.max(1, Math.floor(options.maxRecords ?? MAX_USAGE_LEDGER_RECORDS))
+      const records = [...(await readUsageRecords(filePath)), record].slice(-limit)
+      const tempPath = `${filePath}.${randomUUID()}.tmp`
+      await fs.writeFile(tempPath, records.map((entry) => `${JSON.stringify(entry)}\n`).join(""), { mode: 0o600 })
+      await fs.rename(tempPath, filePath)
+    } else {
+      await fs.appendFile(filePath, line, { mode: 0o600 })
+    }
+    await enforceOwnerOnlyPermissions(filePath)
+  })
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0 }
+}
+
+function addToTotals(bucket: Record<string, UsageTotals>, key: string, record: UsageRecord): void {
+  const totals = bucket[key] ?? emptyTotals()
+  totals.requests += 1
+  totals.inputTokens += record.inputTokens
+  totals.cachedInputTokens += record.cachedInputTokens
+  totals.outputTokens += record.outputTokens
+  totals.reasoningTokens += record.reasoningTokens
+  totals.totalTokens += record.totalTokens
+  bucket[key] = totals
+}
+
+export function usageDayKey(at: number): string {
+  return new Date(at).toISOString().slice(0, 10)
+}
+
+export function summarizeUsage(records: UsageRecord[], options: { since?: number } = {}): UsageSummary {
+  const totalsBucket: Record<string, UsageTotals> = {}
+  const summary: UsageSummary = {
+    ...(options.since !== undefined ? { since: options.since } : {}),
+    totals: emptyTotals(),
+    byAccount: {},
+    byModel: {},
+    bySession: {},
+    byDay: {}
+  }
+  for (const record of records) {
+    if (options.since !== undefined && record.at < options.since) continue
+    addToTotals(totalsBucket, "all", record)
+    addToTotals(summary.byAccount, record.identityKey ?? UNKNOWN_ACCOUNT_KEY, record)
+    addToTotals(summary.byModel, record.model ?? UNKNOWN_MODEL_KEY, record)
+    addToTotals(summary.bySession, record.sessionKey ?? NO_SESSION_KEY, record)
+    addToTotals(summary.byDay, usageDayKey(record.at), record)
+  }
+  summary.totals = totalsBucket.all ?? emptyTotals()
+  return summary
+}
@@ -0,0 +1,112 @@
+import { defaultAuthPath, defaultUsageLedgerPath } from "./paths.js"
+import { loadAuthStorage } from "./storage.js"
+import { loadUsageLedger, summarizeUsage, type UsageSummary, type UsageTotals } from "./usage-ledger.js"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_SESSION_ROWS = 10
+
+export type UsageReport = UsageSummary & {
+  accountLabels: Record<string, string>
+}
+
+export type UsageReportOptions = {
+  ledgerPath?: string
+  authPath?: string
+  days?: number
+  now?: () => number
+}
+
+async function loadAccountLabels(authPath: string): Promise<Record<string, string>> {
+  const labels: Record<string, string> = {}
+  try {
+    const auth = await loadAuthStorage(authPath, { lockReads: false })
+    const openai = auth.openai
+    if (!openai || openai.type !== "oauth" || !("accounts" in openai)) return labels
+    for (const account of openai.accounts) {
+      if (!account.identityKey || !account.email) continue
+      labels[account.identityKey] = account.plan ? `${account.email} (${account.plan})` : account.email
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      // Labels are cosmetic; fall back to identity keys when auth storage is unreadable.
+    }
+  }
+  return labels
+}
+
+export async function buildUsageReport(options: UsageReportOptions = {}): Promise<UsageReport> {
+  const ledger = await loadUsageLedger(options.ledgerPath ?? defaultUsageLedgerPath())
+  const days = typeof options.days === "number" && options.days > 0 ? Math.floor(options.days) : undefined
+  const since = days ? (options.now ?? Date.now)() - days * DAY_MS : undefined
+  const summary = summarizeUsage(ledger.records, since !== undefined ? { since } : {})
+  return {
+    ...summary,
+    accountLabels: await loadAccountLabels(options.authPath ?? defaultAuthPath())
+  }
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US")
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const requests = `${formatCount(totals.requests)} ${totals.requests === 1 ? "request" : "requests"}`
+  const input = `in ${formatCount(totals.inputTokens)} (cached ${formatCount(totals.cachedInputTokens)})`
+  const output = `out ${formatCount(totals.outputTokens)} (reasoning ${formatCount(totals.reasoningTokens)})`
+  return `${requests} · ${input} · ${output} · total ${formatCount(totals.totalTokens)}`
+}
+
+function renderSection(
+  title: string,
+  bucket: Record<string, UsageTotals>,
+  options: { label?: (key: string) => string; order?: "tokens" | "key-desc"; limit?: number } = {}
+): string[] {
+  const entries = Object.entries(bucket)
+  if (options.order === "key-desc") {
+    entries.sort(([left], [right]) => right.localeCompare(left))
+  } else {
+    entries.sort(
+      ([leftKey, left], [rightKey, right]) => right.totalTokens - left.totalTokens || leftKey.localeCompare(rightKey)
+    )
+  }
+  const visible = options.limit ? entries.slice(0, options.limit) : entries
+  const lines = [title]
+  for (const [key, totals] of visible) {
+    lines.push(`  ${options.label ? options.label(key) : key}: ${formatTotals(totals)}`)
+  }
+  if (visible.length < entries.length) {
+    lines.push(`  … ${entries.length - visible.length} more`)
+  }
+  return lines
+}
+
+export function renderUsageReport(report: UsageReport, options: { days?: number } = {}): string {
+  const scope = options.days ? `last ${options.days} ${options.days === 1 ? "day" : "days"}` : "all recorded"
+  if (report.totals.requests === 0) {
+    return `No token usage recorded (${scope}).`
+  }
+  const lines = [
+    `Codex token usage (${scope})`,
+    "",
+    `Total: ${formatTotals(report.totals)}`,
+    "",
+    ...renderSection("By account:", report.byAccount, { label: (key) => report.accountLabels[key] ?? key }),
+    "",
+    ...renderSection("By model:", report.byModel),
+    "",
+    ...renderSection("By session:", report.bySession, { limit: MAX_SESSION_ROWS }),
+    "",
+    ...renderSection("By day (UTC):", report.byDay, { order: "key-desc" })
+  ]
+  return lines.join("\n")
+}
+
+/**
+ * Returns a human-readable summary of recorded token usage grouped by account, model,
+ * session and day.
+ */
+export async function toolOutputForUsage(options: UsageReportOptions = {}): Promise<string> {
+  const report = await buildUsageReport(options)
+  const days = typeof options.days === "number" && options.days > 0 ? Math.floor(options.days) : undefined
+  return renderUsageReport(report, { days })
+}
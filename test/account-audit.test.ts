@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import {
+  ACCOUNT_AUDIT_ENV,
+  appendAccountAuditEvents,
+  captureAccountAuditSnapshot,
+  diffAccountAuditSnapshots,
+  readRecentAccountAuditEvents
+} from "../lib/account-audit"
+import { toolOutputForAudit } from "../lib/audit-tool"
+import { accountAuditLogPathFor } from "../lib/paths"
+import { saveAuthStorage, setAccountCooldown } from "../lib/storage"
+import type { AuthFile } from "../lib/types"
+
+const ONE = "acc_1|one@example.com|plus"
+const TWO = "acc_2|two@example.com|pro"
+const THREE = "acc_3|three@example.com|plus"
+
+function seed(auth: AuthFile): void {
+  auth.openai = {
+    type: "oauth",
+    accounts: [],
+    native: {
+      accounts: [
+        {
+          identityKey: ONE,
+          accountId: "acc_1",
+          email: "one@example.com",
+          plan: "plus",
+          enabled: true,
+          refresh: "rt_1"
+        },
+        { identityKey: TWO, accountId: "acc_2", email: "two@example.com", plan: "pro", enabled: true, refresh: "rt_2" }
+      ],
+      activeIdentityKey: ONE
+    }
+  }
+}
+
+function nativeDomain(auth: AuthFile) {
+  const openai = auth.openai
+  if (!openai || !("native" in openai) || !openai.native) throw new Error("Expected native accounts")
+  return openai.native
+}
+
+async function makeAuthPath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-account-audit-"))
+  return path.join(dir, "codex-accounts.json")
+}
+
+describe("account audit log", () => {
+  it("diffs enabled, cooldown, membership and active account changes", () => {
+    const before: AuthFile = {}
+    seed(before)
+    const after = structuredClone(before)
+    const domain = nativeDomain(after)
+    const [one, two] = domain.accounts
+    if (!one || !two) throw new Error("Expected seeded accounts")
+    one.cooldownUntil = 5_000
+    two.enabled = false
+    domain.accounts.push({ identityKey: THREE, enabled: true })
+    domain.activeIdentityKey = THREE
+
+    expect(diffAccountAuditSnapshots(captureAccountAuditSnapshot(before), captureAccountAuditSnapshot(after))).toEqual([
+      {
+        event: "account_updated",
+        mode: "native",
+        identity: ONE,
+        before: { cooldownUntil: null },
+        after: { cooldownUntil: 5_000 }
+      },
+      { event: "account_updated", mode: "native", identity: TWO, before: { enabled: true }, after: { enabled: false } },
+      {
+        event: "account_added",
+        mode: "native",
+        identity: THREE,
+        before: {},
+        after: { enabled: true, cooldownUntil: null }
+      },
+      { event: "active_changed", mode: "native", before: { activeIdentity: ONE }, after: { activeIdentity: THREE } }
+    ])
+  })
+
+  it("records pseudonymized events with the trigger and reason of each write", async () => {
+    const authPath = await makeAuthPath()
+    const logPath = accountAuditLogPathFor(authPath)
+    await saveAuthStorage(authPath, seed, { audit: { actor: "login", reason: "login" } })
+    await saveAuthStorage(authPath, (auth) => {
+      const account = nativeDomain(auth).accounts[0]
+      if (account) account.access = "at_refreshed"
+    })
+    await setAccountCooldown(authPath, TWO, 9_000)
+    await saveAuthStorage(
+      authPath,
+      (auth) => {
+        const domain = nativeDomain(auth)
+        domain.accounts = domain.accounts.filter((account) => account.identityKey !== ONE)
+      },
+      { audit: { actor: "tool", reason: "user_action" } }
+    )
+
+    const events = await readRecentAccountAuditEvents(logPath, 50)
+    expect(events.map((event) => [event.event, event.actor, event.reason])).toEqual([
+      ["account_added", "login", "login"],
+      ["account_added", "login", "login"],
+      ["active_changed", "login", "login"],
+      ["account_updated", "request", "rate_limited"],
+      ["account_removed", "tool", "user_action"],
+      ["active_changed", "tool", "user_action"]
+    ])
+    expect(events[3]).toMatchObject({ before: { cooldownUntil: null }, after: { cooldownUntil: 9_000 } })
+    expect(events[3]?.account).toMatch(/^ident_[0-9a-f]{8}$/)
+    expect(events[5]?.after.activeIdentity).toBe(events[3]?.account)
+
+    const raw = await fs.readFile(logPath, "utf8")
+    expect(raw).not.toContain("example.com")
+    expect(raw).not.toContain("acc_")
+    if (process.platform !== "win32") {
+      expect((await fs.stat(logPath)).mode & 0o777).toBe(0o600)
+    }
+
+    const output = await toolOutputForAudit({ authPath })
+    expect(output).toContain("Account audit log (last 6 events, oldest first)")
+    expect(output).toContain(
+      `native ${events[3]?.account} two@example.com (pro): cooldown until 1970-01-01T00:00:09.000Z [request/rate_limited]`
+    )
+    expect(output).toContain(`native ${events[4]?.account}: removed [tool/user_action]`)
+  })
+
+  it("rotates the log and can be turned off", async () => {
+    const authPath = await makeAuthPath()
+    const logPath = accountAuditLogPathFor(authPath)
+    const change = {
+      event: "account_updated" as const,
+      mode: "native" as const,
+      identity: ONE,
+      before: { enabled: true },
+      after: { enabled: false }
+    }
+    for (let index = 0; index < 3; index += 1) {
+      await appendAccountAuditEvents({
+        logPath,
+        changes: [change],
+        context: { actor: "cli", reason: "user_action" },
+        now: index,
+        maxBytes: 450
+      })
+    }
+    expect((await fs.readFile(`${logPath}.1`, "utf8")).trim().split("\n").length).toBeGreaterThan(0)
+    expect((await readRecentAccountAuditEvents(logPath, 10)).map((event) => event.at)).toEqual([0, 1, 2])
+
+    const previous = process.env[ACCOUNT_AUDIT_ENV]
+    process.env[ACCOUNT_AUDIT_ENV] = "0"
+    try {
+      const quietPath = await makeAuthPath()
+      await saveAuthStorage(quietPath, seed)
+      await expect(fs.access(accountAuditLogPathFor(quietPath))).rejects.toThrow()
+      expect(await toolOutputForAudit({ authPath: quietPath })).toBe("No account audit events recorded yet.")
+    } finally {
+      if (previous === undefined) delete process.env[ACCOUNT_AUDIT_ENV]
+      else process.env[ACCOUNT_AUDIT_ENV] = previous
+    }
+  })
+})
@@ -0,0 +1,191 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  readAccountLeaseCounts,
+  releaseAccountLease,
+  releaseWhenBodySettles,
+  tryAcquireAccountLease
+} from "../lib/account-leases"
+import { acquireOpenAIAuth, createAcquireOpenAIAuthInputDefaults } from "../lib/codex-native/acquire-auth"
+import { createRequestAccountLease } from "../lib/codex-native/openai-loader-fetch-leases"
+import { PluginFatalError } from "../lib/fatal-errors"
+import { defaultAuthPath } from "../lib/paths"
+import { saveAuthStorage } from "../lib/storage"
+import type { AccountRecord, AuthFile } from "../lib/types"
+
+const ACCOUNT = "acc_1|me@example.com|plus"
+const SECOND = "acc_2|me@example.com|pro"
+
+function account(identityKey: string): AccountRecord {
+  const [accountId, email, plan] = identityKey.split("|")
+  return {
+    identityKey,
+    accountId,
+    email,
+    plan,
+    enabled: true,
+    access: `at_${accountId}`,
+    refresh: `rt_${accountId}`,
+    expires: Date.now() + 3_600_000
+  }
+}
+
+function acquire(inFlightCounts: Record<string, number>) {
+  const defaults = createAcquireOpenAIAuthInputDefaults()
+  return acquireOpenAIAuth({
+    authMode: "native",
+    context: { sessionKey: null },
+    isSubagentRequest: false,
+    stickySessionState: defaults.stickySessionState,
+    hybridSessionState: defaults.hybridSessionState,
+    seenSessionKeys: new Map<string, number>(),
+    persistSessionAffinityState: () => {},
+    pidOffsetEnabled: false,
+    concurrency: { maxRequestsPerAccount: 2, inFlightCounts }
+  })
+}
+
+function concurrencyLimitError(): PluginFatalError {
+  return new PluginFatalError({
+    message: "All usable OpenAI native accounts already have 1 requests in flight.",
+    status: 429,
+    type: "account_concurrency_limit",
+    param: "concurrency"
+  })
+}
+
+describe("account leases", () => {
+  let root: string
+  let filePath: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "codex-account-leases-"))
+    filePath = path.join(root, "cache", "codex-account-leases.json")
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it("caps leases per account and frees a slot on release", async () => {
+    const first = await tryAcquireAccountLease({ filePath, identityKey: ACCOUNT, limit: 2, now: 1_000 })
+    const second = await tryAcquireAccountLease({ filePath, identityKey: ACCOUNT, limit: 2, now: 1_000 })
+    expect(first && second).toBeTruthy()
+    expect(await tryAcquireAccountLease({ filePath, identityKey: ACCOUNT, limit: 2, now: 1_000 })).toBeUndefined()
+    expect(await tryAcquireAccountLease({ filePath, identityKey: "other", limit: 2, now: 1_000 })).toBeDefined()
+    expect(await readAccountLeaseCounts(filePath, 1_000)).toEqual({ [ACCOUNT]: 2, other: 1 })
+
+    await releaseAccountLease(filePath, first?.id ?? "", 1_000)
+    expect(await readAccountLeaseCounts(filePath, 1_000)).toEqual({ [ACCOUNT]: 1, other: 1 })
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600)
+  })
+
+  it("ignores expired leases and leases held by exited processes", async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        version: 1,
+        leases: [
+          { id: "expired", identityKey: ACCOUNT, pid: process.pid, acquiredAt: 0, expiresAt: 500 },
+          { id: "exited", identityKey: ACCOUNT, pid: 2_000_000_000, acquiredAt: 0, expiresAt: 5_000 },
+          { id: "live", identityKey: ACCOUNT, pid: process.pid, acquiredAt: 0, expiresAt: 5_000 },
+          { id: "broken", identityKey: ACCOUNT }
+        ]
+      })
+    )
+
+    expect(await readAccountLeaseCounts(filePath, 1_000)).toEqual({ [ACCOUNT]: 1 })
+    expect(await tryAcquireAccountLease({ filePath, identityKey: ACCOUNT, limit: 2, now: 1_000 })).toBeDefined()
+  })
+
+  it("releases once the response body is read, cancelled or absent", async () => {
+    let releases = 0
+    const read = releaseWhenBodySettles(new Response("data: done\n\n", { status: 200 }), () => {
+      releases += 1
+    })
+    expect(releases).toBe(0)
+    expect(await read.text()).toBe("data: done\n\n")
+    expect(releases).toBe(1)
+
+    const cancelled = releaseWhenBodySettles(new Response("partial"), () => {
+      releases += 1
+    })
+    await cancelled.body?.cancel()
+    expect(releases).toBe(2)
+
+    releaseWhenBodySettles(new Response(null, { status: 204 }), () => {
+      releases += 1
+    })
+    expect(releases).toBe(3)
+  })
+
+  it("queues while every account is saturated and gives up after the timeout", async () => {
+    let now = 10_000
+    const lease = createRequestAccountLease({
+      policy: { maxRequestsPerAccount: 1, queueTimeoutMs: 1_000 },
+      filePath,
+      now: () => now,
+      sleep: async (ms) => {
+        now += ms
+      }
+    })
+
+    let calls = 0
+    const auth = await lease.acquire(async (concurrency) => {
+      calls += 1
+      expect(concurrency.maxRequestsPerAccount).toBe(1)
+      if (calls < 3) throw concurrencyLimitError()
+      return { identityKey: ACCOUNT }
+    })
+    expect(auth.identityKey).toBe(ACCOUNT)
+    expect(now).toBe(10_500)
+    expect(await readAccountLeaseCounts(filePath, now)).toEqual({ [ACCOUNT]: 1 })
+
+    const response = lease.bindToResponse(new Response("ok"))
+    await response.text()
+    await vi.waitFor(async () => expect(await readAccountLeaseCounts(filePath, now)).toEqual({}))
+
+    await expect(
+      lease.acquire(async () => {
+        throw concurrencyLimitError()
+      })
+    ).rejects.toMatchObject({ type: "account_concurrency_limit", status: 429 })
+    expect(now).toBe(11_500)
+  })
+
+  it("drops the previous attempt's lease before selecting again", async () => {
+    const lease = createRequestAccountLease({ policy: { maxRequestsPerAccount: 1, queueTimeoutMs: 0 }, filePath })
+    await lease.acquire(async () => ({ identityKey: ACCOUNT }))
+    const seen: Array<Record<string, number>> = []
+    await lease.acquire(async (concurrency) => {
+      seen.push(concurrency.inFlightCounts)
+      return { identityKey: "other" }
+    })
+    expect(seen).toEqual([{}])
+    await lease.release()
+    expect(await readAccountLeaseCounts(filePath, Date.now())).toEqual({})
+  })
+
+  it("selects an account below the limit and reports when none is", async () => {
+    await saveAuthStorage(defaultAuthPath(), (auth: AuthFile) => {
+      auth.openai = {
+        type: "oauth",
+        accounts: [],
+        native: { accounts: [account(ACCOUNT), account(SECOND)], activeIdentityKey: ACCOUNT }
+      }
+    })
+
+    expect((await acquire({ [ACCOUNT]: 1 })).identityKey).toBe(ACCOUNT)
+    expect((await acquire({ [ACCOUNT]: 2 })).identityKey).toBe(SECOND)
+    await expect(acquire({ [ACCOUNT]: 2, [SECOND]: 3 })).rejects.toMatchObject({
+      type: "account_concurrency_limit",
+      status: 429,
+      message: "All usable OpenAI native accounts already have 2 requests in flight."
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest"
+
+import { compileAccountPoolPath, isAccountInPool, matchAccountPool, resolveAccountPoolPath } from "../lib/account-pools"
+import { acquireOpenAIAuth, createAcquireOpenAIAuthInputDefaults } from "../lib/codex-native/acquire-auth"
+import { defaultAuthPath } from "../lib/paths"
+import { saveAuthStorage } from "../lib/storage"
+import type { AccountRecord, AuthFile } from "../lib/types"
+
+const PERSONAL = "acc_p|me@example.com|plus"
+const WORK = "acc_w|me@acme.com|team"
+const HOME = { homeDir: "/home/dev", platform: "linux" as const }
+
+function account(identityKey: string, overrides: Partial<AccountRecord> = {}): AccountRecord {
+  const [accountId, email, plan] = identityKey.split("|")
+  return {
+    identityKey,
+    accountId,
+    email,
+    plan,
+    enabled: true,
+    access: `at_${accountId}`,
+    refresh: `rt_${accountId}`,
+    expires: Date.now() + 3_600_000,
+    ...overrides
+  }
+}
+
+async function seedStore(accounts: AccountRecord[]): Promise<void> {
+  await saveAuthStorage(defaultAuthPath(), (auth: AuthFile) => {
+    auth.openai = { type: "oauth", accounts: [], native: { accounts, activeIdentityKey: PERSONAL } }
+  })
+}
+
+function acquire(pool?: { name: string; tags: string[]; identityKeys: string[] }) {
+  const defaults = createAcquireOpenAIAuthInputDefaults()
+  return acquireOpenAIAuth({
+    authMode: "native",
+    context: { sessionKey: null },
+    isSubagentRequest: false,
+    stickySessionState: defaults.stickySessionState,
+    hybridSessionState: defaults.hybridSessionState,
+    seenSessionKeys: new Map<string, number>(),
+    persistSessionAffinityState: () => {},
+    pidOffsetEnabled: false,
+    accountPool: pool
+  })
+}
+
+describe("account pools", () => {
+  it("matches worktree globs with ~ expansion and segment-aware wildcards", () => {
+    expect(compileAccountPoolPath("~/work/**", HOME).test("/home/dev/work")).toBe(true)
+    expect(compileAccountPoolPath("~/work/**", HOME).test("/home/dev/work/acme/api")).toBe(true)
+    expect(compileAccountPoolPath("~/work/**", HOME).test("/home/dev/workshop")).toBe(false)
+    expect(compileAccountPoolPath("/src/*/api", HOME).test("/src/acme/api")).toBe(true)
+    expect(compileAccountPoolPath("/src/*/api", HOME).test("/src/acme/x/api")).toBe(false)
+    expect(compileAccountPoolPath("/src/**/api", HOME).test("/src/api")).toBe(true)
+    expect(compileAccountPoolPath("/src/acme-?", HOME).test("/src/acme-2")).toBe(true)
+    expect(compileAccountPoolPath("/src/a.b", HOME).test("/src/aXb")).toBe(false)
+
+    const pools = {
+      client: { paths: ["~/work/client/**"], identityKeys: [WORK] },
+      work: { paths: ["~/work/**"], tags: ["work"] }
+    }
+    expect(matchAccountPool(pools, "/home/dev/work/client/app/", HOME)?.name).toBe("client")
+    expect(matchAccountPool(pools, "/home/dev/work/internal", HOME)).toEqual({
+      name: "work",
+      tags: ["work"],
+      identityKeys: []
+    })
+    expect(matchAccountPool(pools, "/home/dev/personal", HOME)).toBeUndefined()
+    expect(matchAccountPool(undefined, "/home/dev/work", HOME)).toBeUndefined()
+  })
+
+  it("matches the session directory when the project is not a git checkout", () => {
+    const pools = { work: { paths: ["/home/dev/work/**"], tags: ["work"] } }
+    const outsideGit = resolveAccountPoolPath({ worktree: "/", directory: "/home/dev/work/notes" })
+    expect(outsideGit).toBe("/home/dev/work/notes")
+    expect(matchAccountPool(pools, outsideGit, HOME)?.name).toBe("work")
+
+    expect(resolveAccountPoolPath({ worktree: "", directory: "/home/dev/work/notes" })).toBe("/home/dev/work/notes")
+    expect(resolveAccountPoolPath({ worktree: "/home/dev/work/api", directory: "/home/dev/work/api/src" })).toBe(
+      "/home/dev/work/api"
+    )
+    expect(resolveAccountPoolPath({ worktree: "/" })).toBeUndefined()
+  })
+
+  it("selects members by identity key or tag", () => {
+    const pool = { name: "work", tags: ["work"], identityKeys: [PERSONAL] }
+    expect(isAccountInPool(account(PERSONAL), pool)).toBe(true)
+    expect(isAccountInPool(account(WORK, { tags: ["acme", "work"] }), pool)).toBe(true)
+    expect(isAccountInPool(account(WORK, { tags: ["acme"] }), pool)).toBe(false)
+  })
+
+  it("only uses pool accounts and never falls back when the pool is exhausted", async () => {
+    const pool = { name: "work", tags: ["work"], identityKeys: [] }
+    await seedStore([account(PERSONAL), account(WORK, { tags: ["work"] })])
+    expect((await acquire(pool)).identityKey).toBe(WORK)
+    expect((await acquire()).identityKey).toBe(PERSONAL)
+
+    await seedStore([account(PERSONAL), account(WORK, { tags: ["work"], cooldownUntil: Date.now() + 120_000 })])
+    await expect(acquire(pool)).rejects.toMatchObject({
+      type: "account_pool_exhausted",
+      status: 429,
+      message: expect.stringContaining('account pool "work" are cooling down')
+    })
+
+    await seedStore([account(PERSONAL), account(WORK, { tags: ["work"], enabled: false })])
+    await expect(acquire(pool)).rejects.toMatchObject({ type: "account_pool_exhausted", status: 403 })
+
+    await seedStore([account(PERSONAL), account(WORK)])
+    await expect(acquire(pool)).rejects.toMatchObject({ type: "account_pool_empty", status: 403 })
+  })
+})
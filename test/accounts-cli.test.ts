@@ -0,0 +1,248 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runAccountsCli } from "../lib/accounts-cli"
+import { runInstallerCli } from "../lib/installer-cli"
+import { loadAuthStorage, saveAuthStorage } from "../lib/storage"
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+async function seedAuth(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-accounts-cli-"))
+  const authPath = path.join(dir, "codex-accounts.json")
+  await saveAuthStorage(authPath, (auth) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [],
+      activeIdentityKey: "acc_1|one@example.com|plus",
+      native: {
+        accounts: [
+          {
+            identityKey: "acc_1|one@example.com|plus",
+            accountId: "acc_1",
+            email: "one@example.com",
+            plan: "plus",
+            authTypes: ["native"],
+            enabled: true,
+            access: "at_1",
+            refresh: "rt_1",
+            expires: 1_000
+          },
+          {
+            identityKey: "acc_2|two@example.com|pro",
+            accountId: "acc_2",
+            email: "two@example.com",
+            plan: "pro",
+            authTypes: ["native"],
+            enabled: true,
+            access: "at_2",
+            refresh: "rt_2",
+            expires: 1_000
+          }
+        ],
+        activeIdentityKey: "acc_1|one@example.com|plus"
+      },
+      codex: {
+        accounts: [
+          {
+            identityKey: "acc_2|two@example.com|pro",
+            accountId: "acc_2",
+            email: "two@example.com",
+            plan: "pro",
+            authTypes: ["codex"],
+            enabled: true,
+            access: "at_2c",
+            refresh: "rt_2c",
+            expires: 1_000
+          }
+        ],
+        activeIdentityKey: "acc_2|two@example.com|pro"
+      }
+    }
+  })
+  return authPath
+}
+
+describe("accounts cli", () => {
+  it("is reachable from the main cli and prints help", async () => {
+    const capture = captureIo()
+    const code = await runInstallerCli(["accounts", "--help"], capture.io)
+    expect(code).toBe(0)
+    expect(capture.out.join("\n")).toContain("accounts refresh [<account>]")
+  })
+
+  it("lists merged and domain-scoped accounts as json", async () => {
+    const authPath = await seedAuth()
+
+    const merged = captureIo()
+    expect(await runAccountsCli(["list", "--json"], merged.io, { authPath })).toBe(0)
+    const mergedPayload = JSON.parse(merged.out.join("\n")) as { accounts: Array<{ email: string; active: boolean }> }
+    expect(mergedPayload.accounts.map((row) => row.email)).toEqual(["one@example.com", "two@example.com"])
+
+    const codex = captureIo()
+    expect(await runAccountsCli(["list", "--mode", "codex", "--json"], codex.io, { authPath })).toBe(0)
+    const codexPayload = JSON.parse(codex.out.join("\n")) as {
+      mode: string
+      accounts: Array<{ index: number; email: string; active: boolean }>
+    }
+    expect(codexPayload.mode).toBe("codex")
+    expect(codexPayload.accounts).toEqual([
+      expect.objectContaining({ index: 1, email: "two@example.com", active: true })
+    ])
+  })
+
+  it("disables an account only within the selected domain", async () => {
+    const authPath = await seedAuth()
+    const capture = captureIo()
+
+    expect(await runAccountsCli(["disable", "1", "--mode=codex"], capture.io, { authPath })).toBe(0)
+    expect(capture.out.join("\n")).toBe("Updated #1: two@example.com (pro) -> disabled")
+
+    const auth = await loadAuthStorage(authPath)
+    const openai = auth.openai
+    if (!openai || !("native" in openai)) throw new Error("Expected multi-account auth")
+    expect(openai.codex?.accounts[0]?.enabled).toBe(false)
+    expect(openai.native?.accounts.every((account) => account.enabled !== false)).toBe(true)
+  })
+
+  it("switches the active account and refuses removal without --yes", async () => {
+    const authPath = await seedAuth()
+
+    const switchCapture = captureIo()
+    expect(await runAccountsCli(["switch", "2", "--mode", "native"], switchCapture.io, { authPath })).toBe(0)
+    expect(switchCapture.out.join("\n")).toBe("Switched to #2: two@example.com (pro)")
+    const auth = await loadAuthStorage(authPath)
+    const openai = auth.openai
+    if (!openai || !("native" in openai)) throw new Error("Expected multi-account auth")
+    expect(openai.native?.activeIdentityKey).toBe("acc_2|two@example.com|pro")
+
+    const removeCapture = captureIo()
+    expect(await runAccountsCli(["remove", "1"], removeCapture.io, { authPath })).toBe(1)
+    expect(removeCapture.err.join("\n")).toContain("--yes")
+  })
+
+  it("refreshes tokens through the injected refresher and reports failures", async () => {
+    const authPath = await seedAuth()
+    const capture = captureIo()
+
+    const code = await runAccountsCli(["refresh", "--mode", "native", "--json"], capture.io, {
+      authPath,
+      now: () => 10_000,
+      refreshAccessToken: async (refreshToken) => {
+        if (refreshToken === "rt_2") throw new Error("Token refresh failed (invalid_grant)")
+        return { access_token: "at_1_new", refresh_token: "rt_1_new", expires_in: 60 }
+      }
+    })
+
+    expect(code).toBe(1)
+    const payload = JSON.parse(capture.out.join("\n")) as {
+      refreshed: Array<{ index: number; ok: boolean; expires?: number; error?: string }>
+    }
+    expect(payload.refreshed).toEqual([
+      expect.objectContaining({ index: 1, ok: true, expires: 70_000 }),
+      expect.objectContaining({ index: 2, ok: false, error: "Token refresh failed (invalid_grant)" })
+    ])
+
+    const auth = await loadAuthStorage(authPath)
+    const openai = auth.openai
+    if (!openai || !("native" in openai)) throw new Error("Expected multi-account auth")
+    expect(openai.native?.accounts[0]).toMatchObject({ access: "at_1_new", refresh: "rt_1_new", expires: 70_000 })
+  })
+
+  it("lists account store backups and restores one with --yes", async () => {
+    const authPath = await seedAuth()
+    expect(await runAccountsCli(["disable", "1", "--mode", "native"], captureIo().io, { authPath })).toBe(0)
+
+    const listed = captureIo()
+    expect(await runAccountsCli(["backups", "--json"], listed.io, { authPath })).toBe(0)
+    const payload = JSON.parse(listed.out.join("\n")) as {
+      backups: Array<{ index: number; accounts?: number; enabledAccounts?: number }>
+    }
+    expect(payload.backups).toEqual([expect.objectContaining({ index: 1, accounts: 2, enabledAccounts: 2 })])
+
+    const refused = captureIo()
+    expect(await runAccountsCli(["restore", "1"], refused.io, { authPath })).toBe(1)
+    expect(refused.err.join("\n")).toContain("--yes")
+
+    const restored = captureIo()
+    expect(await runAccountsCli(["restore", "1", "--yes"], restored.io, { authPath })).toBe(0)
+    expect(restored.out[0]).toMatch(/^Restored #1 .* 2 account\(s\), 2 enabled\.$/)
+    const auth = await loadAuthStorage(authPath)
+    const openai = auth.openai
+    if (!openai || !("native" in openai)) throw new Error("Expected multi-account auth")
+    expect(openai.native?.accounts.every((account) => account.enabled !== false)).toBe(true)
+
+    const after = captureIo()
+    expect(await runAccountsCli(["backups"], after.io, { authPath })).toBe(0)
+    expect(after.out).toHaveLength(2)
+    expect(after.out[0]).toMatch(/^#1 .* 2 account\(s\), 1 enabled$/)
+  })
+
+  it("labels and tags accounts and selects them by label, email or identity key", async () => {
+    const authPath = await seedAuth()
+
+    const labelled = captureIo()
+    expect(await runAccountsCli(["label", "2", "work", "seat"], labelled.io, { authPath })).toBe(0)
+    expect(labelled.out[0]).toBe("Updated #2: work seat (two@example.com, pro)")
+    const tagged = captureIo()
+    expect(await runAccountsCli(["tags", "Work Seat", "CI,shared", "ci"], tagged.io, { authPath })).toBe(0)
+    expect(tagged.out[0]).toBe("Updated #2: work seat (two@example.com, pro) [tags: ci, shared]")
+
+    const auth = await loadAuthStorage(authPath)
+    const openai = auth.openai
+    if (!openai || !("native" in openai)) throw new Error("Expected multi-account auth")
+    expect(openai.native?.accounts[1]).toMatchObject({ label: "work seat", tags: ["ci", "shared"] })
+    expect(openai.codex?.accounts[0]).toMatchObject({ label: "work seat", tags: ["ci", "shared"] })
+
+    const disabled = captureIo()
+    expect(await runAccountsCli(["disable", "work seat", "--mode", "codex"], disabled.io, { authPath })).toBe(0)
+    expect(disabled.out[0]).toBe("Updated #1: work seat (two@example.com, pro) -> disabled")
+    const switched = captureIo()
+    expect(await runAccountsCli(["switch", "two@example.com"], switched.io, { authPath })).toBe(0)
+    expect(switched.out[0]).toBe("Switched to #2: work seat (two@example.com, pro)")
+    const byIdentity = captureIo()
+    expect(await runAccountsCli(["enable", "acc_1|one@example.com|plus"], byIdentity.io, { authPath })).toBe(0)
+
+    const listed = captureIo()
+    expect(await runAccountsCli(["list"], listed.io, { authPath, now: () => 0 })).toBe(0)
+    expect(listed.out[1]).toBe("#2 work seat: two@example.com (pro) [active] #ci #shared")
+
+    const clash = captureIo()
+    expect(await runAccountsCli(["label", "1", "WORK SEAT"], clash.io, { authPath })).toBe(1)
+    expect(clash.err[0]).toBe('Label "WORK SEAT" is already used by #2')
+    const missing = captureIo()
+    expect(await runAccountsCli(["switch", "nobody"], missing.io, { authPath })).toBe(1)
+    expect(missing.err[0]).toBe('No account matches "nobody"')
+    const scoped = captureIo()
+    expect(await runAccountsCli(["label", "1", "x", "--mode", "native"], scoped.io, { authPath })).toBe(1)
+    expect(scoped.err[0]).toBe("--mode is not supported by accounts label")
+
+    const cleared = captureIo()
+    expect(await runAccountsCli(["label", "work seat", "--clear"], cleared.io, { authPath })).toBe(0)
+    expect(cleared.out[0]).toBe("Updated #2: two@example.com (pro) [tags: ci, shared]")
+  })
+
+  it("rejects unknown subcommands and invalid indexes", async () => {
+    const unknown = captureIo()
+    expect(await runAccountsCli(["rename"], unknown.io)).toBe(1)
+    expect(unknown.err[0]).toBe("Unknown accounts command: rename")
+
+    const invalid = captureIo()
+    expect(await runAccountsCli(["switch", "0"], invalid.io)).toBe(1)
+    expect(invalid.err[0]).toBe("Invalid account index: 0")
+  })
+})
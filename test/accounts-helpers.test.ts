@@ -21,6 +21,9 @@ describe("codex-native account helpers", () => {
     expect(formatAccountLabel({ email: "one@example.com" }, 1)).toBe("one@example.com")
     expect(formatAccountLabel({ accountId: "acc_123456789" }, 2)).toBe("id:456789")
     expect(formatAccountLabel(undefined, 3)).toBe("Account 4")
+    expect(formatAccountLabel({ email: "one@example.com", plan: "plus", label: "work" }, 0)).toBe(
+      "work (one@example.com, plus)"
+    )
   })
 
   it("normalizes account auth types in place", () => {
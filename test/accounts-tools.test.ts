@@ -1,10 +1,15 @@
+import { tool } from "@opencode-ai/plugin/tool"
 import { describe, expect, it } from "vitest"
 
 import {
+  accountSelectorToolArgs,
+  labelAccountByIndex,
   listAccountsForTools,
   removeAccountByIndex,
+  resolveAccountSelector,
   switchAccountByIndex,
-  toggleAccountEnabledByIndex
+  toggleAccountEnabledByIndex,
+  toolAccountSelector
 } from "../lib/accounts-tools"
 
 describe("accounts-tools listing", () => {
@@ -308,3 +313,62 @@ describe("removeAccountByIndex", () => {
     expect(next.native?.activeIdentityKey).toBe("a|u1@example.com|plus")
   })
 })
+
+describe("account selectors and labels", () => {
+  const openai = {
+    type: "oauth" as const,
+    accounts: [
+      { identityKey: "acc_1|u@e.com|plus", accountId: "acc_1", email: "u@e.com", plan: "plus", enabled: true },
+      { identityKey: "acc_2|u@e.com|team", accountId: "acc_2", email: "u@e.com", plan: "team", enabled: true },
+      {
+        identityKey: "acc_3|solo@e.com|pro",
+        accountId: "acc_3",
+        email: "solo@e.com",
+        plan: "pro",
+        label: "Work",
+        enabled: true
+      }
+    ]
+  }
+
+  it("resolves indexes, identity keys, labels and unique emails", () => {
+    expect(resolveAccountSelector(openai, 2)).toBe(2)
+    expect(resolveAccountSelector(openai, " 1 ")).toBe(1)
+    expect(resolveAccountSelector(openai, "acc_2|u@e.com|team")).toBe(2)
+    expect(resolveAccountSelector(openai, "work")).toBe(3)
+    expect(resolveAccountSelector(openai, "Solo@E.com")).toBe(3)
+    expect(() => resolveAccountSelector(openai, "u@e.com")).toThrow("matches several accounts (#1, #2)")
+    expect(() => resolveAccountSelector(openai, "nobody")).toThrow('No account matches "nobody"')
+    expect(() => resolveAccountSelector(openai, 4)).toThrow("Invalid account index")
+  })
+
+  it("still accepts the legacy index argument of the account tools", () => {
+    const args = tool.schema.object(accountSelectorToolArgs(tool.schema))
+
+    expect(toolAccountSelector(args.parse({ index: 2 }))).toBe(2)
+    expect(toolAccountSelector(args.parse({ account: "work" }))).toBe("work")
+    expect(toolAccountSelector(args.parse({ account: "work", index: 2 }))).toBe("work")
+    expect(args.safeParse({ index: "2" }).success).toBe(false)
+    expect(() => toolAccountSelector(args.parse({}))).toThrow("Missing account selector")
+  })
+
+  it("labels the account in every domain and keeps labels unique", () => {
+    const withDomains = {
+      ...openai,
+      native: { accounts: openai.accounts.map((account) => ({ ...account })) },
+      codex: { accounts: [{ ...openai.accounts[1] }] }
+    }
+    const next = labelAccountByIndex(withDomains, 2, { label: "  team   seat ", tags: ["CI", "ci", "shared pool"] })
+    expect(listAccountsForTools(next)[1]).toMatchObject({ label: "team seat", tags: ["ci", "shared-pool"] })
+    expect(next.native?.accounts[1]?.label).toBe("team seat")
+    expect(next.codex?.accounts[0]).toMatchObject({ label: "team seat", tags: ["ci", "shared-pool"] })
+    expect(resolveAccountSelector(next, "TEAM SEAT")).toBe(2)
+
+    expect(() => labelAccountByIndex(next, 1, { label: "work" })).toThrow('Label "work" is already used by #3')
+    expect(() => labelAccountByIndex(next, 1, { label: "42" })).toThrow("Label cannot be a number")
+
+    const cleared = labelAccountByIndex(next, 2, { label: null, tags: [] })
+    expect(cleared.codex?.accounts[0]?.label).toBeUndefined()
+    expect(cleared.codex?.accounts[0]?.tags).toBeUndefined()
+  })
+})
@@ -27,8 +27,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll: vi.fn(),
         onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount: vi.fn()
       },
       input: input as unknown as NodeJS.ReadStream,
@@ -51,8 +55,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll: vi.fn(),
         onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount: vi.fn()
       },
       input: input as unknown as NodeJS.ReadStream,
@@ -78,8 +86,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll: vi.fn(),
         onTransfer,
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount: vi.fn()
       },
       input: input as unknown as NodeJS.ReadStream,
@@ -130,8 +142,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll,
         onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount: vi.fn()
       }
     })
@@ -176,8 +192,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll: vi.fn(),
         onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount
       }
     })
@@ -188,6 +208,131 @@ describe("auth menu runner", () => {
     vi.resetModules()
   })
 
+  it("exports the selected account to the Codex CLI after confirmation", async () => {
+    const { input, output } = makeTty()
+    const account = {
+      index: 0,
+      identityKey: "acc_1|one@example.com|plus",
+      email: "one@example.com",
+      plan: "plus",
+      enabled: true,
+      authTypes: ["codex"] as const
+    }
+    const onCodexCliExport = vi.fn()
+    const resultPromise = runAuthMenuOnce({
+      accounts: [account],
+      handlers: {
+        onCheckQuotas: vi.fn(),
+        onConfigureModels: vi.fn(),
+        onDeleteAll: vi.fn(),
+        onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport,
+        onRestoreBackup: vi.fn(),
+        onToggleAccount: vi.fn(),
+        onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
+        onDeleteAccount: vi.fn()
+      },
+      input: input as unknown as NodeJS.ReadStream,
+      output: output as unknown as NodeJS.WriteStream
+    })
+
+    await tick()
+    for (let i = 0; i < 4; i += 1) input.write("\u001b[B")
+    input.write("\r")
+    await tick()
+    input.write("\u001b[B")
+    input.write("\r")
+    const result = await resultPromise
+    expect(result).toBe("continue")
+    expect(onCodexCliExport).toHaveBeenCalledWith(account)
+  })
+
+  it("saves a label typed from the account details menu", async () => {
+    const { input, output } = makeTty()
+    const account = {
+      index: 0,
+      identityKey: "acc_1|one@example.com|plus",
+      email: "one@example.com",
+      plan: "plus",
+      enabled: true,
+      authTypes: ["native"] as const
+    }
+    const onLabelAccount = vi.fn()
+    const resultPromise = runAuthMenuOnce({
+      accounts: [account],
+      handlers: {
+        onCheckQuotas: vi.fn(),
+        onConfigureModels: vi.fn(),
+        onDeleteAll: vi.fn(),
+        onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
+        onToggleAccount: vi.fn(),
+        onRefreshAccount: vi.fn(),
+        onLabelAccount,
+        onDeleteAccount: vi.fn()
+      },
+      input: input as unknown as NodeJS.ReadStream,
+      output: output as unknown as NodeJS.WriteStream
+    })
+
+    await tick()
+    for (let i = 0; i < 5; i += 1) input.write("\u001b[B")
+    input.write("\r")
+    await tick()
+    for (let i = 0; i < 3; i += 1) input.write("\u001b[B")
+    input.write("\r")
+    await tick()
+    input.write("  work   laptop \r")
+    const result = await resultPromise
+    expect(result).toBe("continue")
+    expect(onLabelAccount).toHaveBeenCalledWith(account, { label: "work   laptop" })
+  })
+
+  it("restores the selected backup after confirmation", async () => {
+    const { input, output } = makeTty()
+    const backups = [
+      { path: "/tmp/backups/codex-accounts.json.2.backup.json", createdAt: 2, accounts: 1, enabledAccounts: 1 },
+      { path: "/tmp/backups/codex-accounts.json.1.backup.json", createdAt: 1, accounts: 3, enabledAccounts: 2 }
+    ]
+    const onRestoreBackup = vi.fn()
+    const resultPromise = runAuthMenuOnce({
+      accounts: [],
+      backups,
+      handlers: {
+        onCheckQuotas: vi.fn(),
+        onConfigureModels: vi.fn(),
+        onDeleteAll: vi.fn(),
+        onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup,
+        onToggleAccount: vi.fn(),
+        onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
+        onDeleteAccount: vi.fn()
+      },
+      input: input as unknown as NodeJS.ReadStream,
+      output: output as unknown as NodeJS.WriteStream
+    })
+
+    await tick()
+    for (let i = 0; i < 4; i += 1) input.write("\u001b[B")
+    input.write("\r")
+    await tick()
+    input.write("\u001b[B")
+    input.write("\r")
+    await tick()
+    input.write("\u001b[B")
+    input.write("\r")
+    const result = await resultPromise
+    expect(result).toBe("continue")
+    expect(onRestoreBackup).toHaveBeenCalledWith(backups[1])
+  })
+
   it("invokes delete-all handler from account-management submenu", async () => {
     const account = {
       index: 0,
@@ -223,8 +368,12 @@ describe("auth menu runner", () => {
         onConfigureModels: vi.fn(),
         onDeleteAll,
         onTransfer: vi.fn(),
+        onCodexCliImport: vi.fn(),
+        onCodexCliExport: vi.fn(),
+        onRestoreBackup: vi.fn(),
         onToggleAccount: vi.fn(),
         onRefreshAccount: vi.fn(),
+        onLabelAccount: vi.fn(),
         onDeleteAccount: vi.fn()
       }
     })
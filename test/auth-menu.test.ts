@@ -36,6 +36,23 @@ describe("auth menu helpers", () => {
     expect(withoutTransfer.some((item) => item.label.includes("Transfer OpenAI accounts"))).toBe(false)
   })
 
+  it("offers Codex CLI import only when a login exists and export only with accounts", () => {
+    const types = (items: ReturnType<typeof buildAuthMenuItems>) => items.map((item) => item.value.type)
+    expect(types(buildAuthMenuItems([], { useColor: false, allowCodexCliImport: true }))).toContain("codex-cli-import")
+    expect(types(buildAuthMenuItems([], { useColor: false }))).not.toContain("codex-cli-import")
+    expect(types(buildAuthMenuItems([], { useColor: false }))).not.toContain("codex-cli-export")
+    expect(types(buildAuthMenuItems([{ index: 0, email: "one@example.com" }], { useColor: false }))).toContain(
+      "codex-cli-export"
+    )
+  })
+
+  it("offers backup restore only when backups exist", () => {
+    const types = (items: ReturnType<typeof buildAuthMenuItems>) => items.map((item) => item.value.type)
+    expect(types(buildAuthMenuItems([], { useColor: false }))).not.toContain("restore")
+    expect(types(buildAuthMenuItems([], { useColor: false, backupCount: 0 }))).not.toContain("restore")
+    expect(types(buildAuthMenuItems([], { useColor: false, backupCount: 2 }))).toContain("restore")
+  })
+
   it("formats status badges for enabled/disabled", () => {
     const enabled = formatStatusBadges({ enabled: true, isCurrentAccount: true, status: "active" }, false)
     const disabled = formatStatusBadges({ enabled: false, isCurrentAccount: false, status: "expired" }, false)
@@ -0,0 +1,134 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runAccountsCli } from "../lib/accounts-cli"
+import { accountFromCodexCliAuth, codexCliAuthFromAccount } from "../lib/codex-cli-auth"
+import { defaultCodexCliAuthPath } from "../lib/paths"
+import { loadAuthStorage } from "../lib/storage"
+
+function fakeJwt(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "none", typ: "JWT" })).toString("base64url")
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url")
+  return `${header}.${body}.sig`
+}
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+const EXP_SECONDS = 1_900_000_000
+const ACCESS = fakeJwt({
+  exp: EXP_SECONDS,
+  "https://api.openai.com/auth": { chatgpt_account_id: "acc_cli", chatgpt_plan_type: "pro" },
+  "https://api.openai.com/profile": { email: "cli@example.com" }
+})
+const ID_TOKEN = fakeJwt({ email: "cli@example.com", "https://api.openai.com/auth": { chatgpt_plan_type: "pro" } })
+
+async function seedCodexCliLogin(dir: string): Promise<string> {
+  const codexAuthPath = path.join(dir, "codex-home", "auth.json")
+  await fs.mkdir(path.dirname(codexAuthPath), { recursive: true })
+  await fs.writeFile(
+    codexAuthPath,
+    JSON.stringify({
+      OPENAI_API_KEY: null,
+      tokens: { id_token: ID_TOKEN, access_token: ACCESS, refresh_token: "rt_cli", account_id: "acc_cli" },
+      last_refresh: "2026-10-01T00:00:00Z"
+    }),
+    "utf8"
+  )
+  return codexAuthPath
+}
+
+describe("codex cli auth transfer", () => {
+  it("resolves the Codex CLI login under CODEX_HOME", () => {
+    expect(defaultCodexCliAuthPath({ CODEX_HOME: "/opt/codex" })).toBe(path.join("/opt/codex", "auth.json"))
+    expect(defaultCodexCliAuthPath({})).toBe(path.join(os.homedir(), ".codex", "auth.json"))
+  })
+
+  it("maps Codex CLI tokens to an account and ignores API key logins", () => {
+    expect(
+      accountFromCodexCliAuth({
+        tokens: { id_token: ID_TOKEN, access_token: ACCESS, refresh_token: "rt_cli", account_id: "acc_cli" }
+      })
+    ).toMatchObject({
+      identityKey: "acc_cli|cli@example.com|pro",
+      accountId: "acc_cli",
+      email: "cli@example.com",
+      plan: "pro",
+      expires: EXP_SECONDS * 1000,
+      refresh: "rt_cli"
+    })
+    expect(accountFromCodexCliAuth({ OPENAI_API_KEY: "sk-test", tokens: null })).toBeUndefined()
+  })
+
+  it("imports the Codex CLI login once and exports it back from the accounts cli", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-cli-auth-"))
+    const authPath = path.join(dir, "codex-accounts.json")
+    const codexCliAuthPath = await seedCodexCliLogin(dir)
+    const capture = captureIo()
+
+    expect(await runAccountsCli(["import-codex"], capture.io, { authPath, codexCliAuthPath })).toBe(0)
+    expect(capture.out[0]).toBe("Imported cli@example.com (pro) from the Codex CLI login (codex auth domain).")
+    expect(await runAccountsCli(["import-codex", "--json"], capture.io, { authPath, codexCliAuthPath })).toBe(0)
+    expect(JSON.parse(capture.out[1] ?? "{}")).toMatchObject({ mode: "codex", imported: { added: false } })
+
+    const stored = await loadAuthStorage(authPath)
+    const codexDomain = stored.openai?.type === "oauth" && "codex" in stored.openai ? stored.openai.codex : undefined
+    expect(codexDomain?.accounts).toHaveLength(1)
+    expect(codexDomain?.activeIdentityKey).toBe("acc_cli|cli@example.com|pro")
+
+    expect(await runAccountsCli(["export-codex", "1"], capture.io, { authPath, codexCliAuthPath })).toBe(1)
+    expect(capture.err[0]).toContain("without --yes")
+
+    const now = Date.UTC(2026, 9, 18)
+    expect(
+      await runAccountsCli(["export-codex", "1", "--yes"], capture.io, { authPath, codexCliAuthPath, now: () => now })
+    ).toBe(0)
+    const written = JSON.parse(await fs.readFile(codexCliAuthPath, "utf8"))
+    expect(written).toEqual({
+      OPENAI_API_KEY: null,
+      tokens: { id_token: ID_TOKEN, access_token: ACCESS, refresh_token: "rt_cli", account_id: "acc_cli" },
+      last_refresh: new Date(now).toISOString()
+    })
+    expect(accountFromCodexCliAuth(written)).toMatchObject({ identityKey: "acc_cli|cli@example.com|pro" })
+  })
+
+  it("refuses to export without an ID token of the same account", () => {
+    const account = accountFromCodexCliAuth({
+      tokens: { id_token: ID_TOKEN, access_token: ACCESS, refresh_token: "rt_cli", account_id: "acc_cli" }
+    })
+    if (!account) throw new Error("expected an account")
+    const otherLogin = {
+      tokens: { id_token: ID_TOKEN, access_token: "at_other", refresh_token: "rt_other", account_id: "acc_other" }
+    }
+
+    expect(() => codexCliAuthFromAccount(account, undefined, 0)).toThrow("needs an ID token")
+    expect(() => codexCliAuthFromAccount(account, otherLogin, 0)).toThrow("needs an ID token")
+  })
+
+  it("reports a missing Codex CLI login", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-cli-auth-"))
+    const capture = captureIo()
+    const codexCliAuthPath = path.join(dir, "missing", "auth.json")
+
+    expect(
+      await runAccountsCli(["import-codex", "--mode", "native"], capture.io, {
+        authPath: path.join(dir, "codex-accounts.json"),
+        codexCliAuthPath
+      })
+    ).toBe(1)
+    expect(capture.err[0]).toBe(`No Codex CLI login found at ${codexCliAuthPath}. Run \`codex login\` first.`)
+  })
+})
@@ -137,6 +137,9 @@ async function loadPluginWithMenu(input: {
     ensureOpenAIOAuthDomain,
     listOpenAIOAuthDomains,
     setAccountCooldown: vi.fn(async () => {}),
+    listAuthBackups: vi.fn(async () => []),
+    restoreAuthStorageBackup: vi.fn(async () => ({ restoredFrom: "" })),
+    requireOpenAIMultiOauthAuth: vi.fn((auth: Record<string, unknown>) => auth.openai),
     shouldOfferLegacyTransfer: vi.fn(async () => input.offerLegacyTransfer)
   }))
 
@@ -129,6 +129,51 @@ describe("codex-native chat hooks instruction source order", () => {
     expect(output.options.reasoningMode).toBeUndefined()
   })
 
+  it("applies perAgent overrides ahead of perModel and global settings", async () => {
+    const behaviorSettings = {
+      global: { reasoningEffort: "medium", serviceTier: "priority" as const },
+      perModel: { "gpt-5.3-codex": { reasoningEffort: "high", reasoningSummary: "detailed" as const } },
+      perAgent: {
+        Explore: { reasoningEffort: "low", reasoningSummary: "concise" as const },
+        title: { reasoningEffort: "minimal", textVerbosity: "low" as const, serviceTier: "flex" as const }
+      }
+    }
+    const runParams = async (agent: unknown) => {
+      const output = { temperature: 0, topP: 1, topK: 0, options: {} as Record<string, unknown> }
+      await handleChatParamsHook({
+        hookInput: {
+          model: {
+            id: "gpt-5.3-codex",
+            api: { id: "gpt-5.3-codex" },
+            providerID: "openai",
+            capabilities: { toolcall: true },
+            options: {}
+          } as any,
+          agent,
+          message: {}
+        },
+        output: output as any,
+        lastCatalogModels: undefined,
+        behaviorSettings,
+        spoofMode: "codex"
+      })
+      return output.options
+    }
+
+    expect(await runParams("build")).toMatchObject({
+      reasoningEffort: "high",
+      reasoningSummary: "detailed",
+      serviceTier: "priority"
+    })
+    expect(await runParams({ name: "explore" })).toMatchObject({ reasoningEffort: "low", reasoningSummary: "concise" })
+    expect(await runParams("title")).toMatchObject({
+      reasoningEffort: "minimal",
+      reasoningSummary: "detailed",
+      textVerbosity: "low",
+      serviceTier: "flex"
+    })
+  })
+
   it("leaves review subtask agents unchanged", async () => {
     const output = {
       parts: [
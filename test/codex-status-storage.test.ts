@@ -5,7 +5,7 @@ import fs from "node:fs/promises"
 import os from "node:os"
 import path from "node:path"
 
-import { loadSnapshots, saveSnapshots } from "../lib/codex-status-storage"
+import { loadSnapshots, loadSnapshotsCached, saveSnapshots } from "../lib/codex-status-storage"
 import { lockTargetPathForFile } from "../lib/cache-lock"
 
 describe("codex-status storage", () => {
@@ -105,4 +105,30 @@ describe("codex-status storage", () => {
 
     await fs.rm(dir, { recursive: true, force: true })
   })
+  it("reuses cached snapshots until the file changes", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "codex-status-cached-"))
+    const p = path.join(dir, "snapshots.json")
+
+    expect(await loadSnapshotsCached(p)).toEqual({})
+    await saveSnapshots(p, () => ({
+      "acc|u@e.com|plus": { updatedAt: 1, modelFamily: "gpt-5.2", limits: [{ name: "requests", leftPct: 50 }] }
+    }))
+
+    const first = await loadSnapshotsCached(p)
+    expect(first["acc|u@e.com|plus"]?.limits[0]?.leftPct).toBe(50)
+    expect(await loadSnapshotsCached(p)).toBe(first)
+
+    await saveSnapshots(p, () => ({
+      "acc|u@e.com|plus": { updatedAt: 2, modelFamily: "gpt-5.2", limits: [{ name: "requests", leftPct: 25 }] }
+    }))
+    const future = new Date(Date.now() + 5_000)
+    await fs.utimes(p, future, future)
+
+    const second = await loadSnapshotsCached(p)
+    expect(second).not.toBe(first)
+    expect(second["acc|u@e.com|plus"]?.limits[0]?.leftPct).toBe(25)
+
+    await fs.rm(dir, { recursive: true, force: true })
+    expect(await loadSnapshotsCached(p)).toEqual({})
+  })
 })
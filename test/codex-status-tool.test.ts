@@ -57,6 +57,48 @@ describe("codex-status tool", () => {
     expect(output).toContain("Credits")
   })
 
+  it("shows burn-rate forecasts from recorded snapshot history", async () => {
+    await saveAuthStorage(authPath, (auth) => {
+      auth.openai = {
+        type: "oauth",
+        accounts: [
+          {
+            identityKey: "acc1|test@example.com|plus",
+            email: "test@example.com",
+            plan: "plus",
+            enabled: true,
+            access: "at1",
+            refresh: "rt1",
+            expires: Date.now() + 3600000
+          }
+        ]
+      }
+    })
+
+    const now = Date.now()
+    const resetsAt = now + 4 * 60 * 60_000
+    for (const [minutesAgo, leftPct] of [
+      [30, 60],
+      [0, 40]
+    ] as const) {
+      await saveSnapshots(snapshotsPath, () => ({
+        "acc1|test@example.com|plus": {
+          updatedAt: now - minutesAgo * 60_000,
+          modelFamily: "codex",
+          limits: [
+            { name: "requests", leftPct, resetsAt },
+            { name: "tokens", leftPct: 90, resetsAt: now + 6 * 24 * 60 * 60_000 }
+          ]
+        }
+      }))
+    }
+
+    const output = await toolOutputForStatus(authPath, snapshotsPath, { now })
+    const fiveHourLine = output.split("\n").find((line) => line.includes("5h"))
+    expect(fiveHourLine).toContain("40% left")
+    expect(fiveHourLine).toContain("~1 h left at current pace")
+  })
+
   it("handles missing snapshots gracefully", async () => {
     await saveAuthStorage(authPath, (auth) => {
       auth.openai = {
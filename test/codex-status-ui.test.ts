@@ -68,4 +68,15 @@ describe("codex status ui", () => {
     expect(text).toContain("Unknown, account expired")
     expect(text).toContain("Credits")
   })
+
+  it("shows account labels next to the email", () => {
+    const out = renderDashboard(
+      {
+        accounts: [{ identityKey: "acc|u@e.com|plus", email: "u@e.com", plan: "plus", label: "work", enabled: true }],
+        snapshots: {}
+      },
+      { useColor: false }
+    )
+    expect(out).toContain("work (u@e.com, plus)")
+  })
 })
@@ -8,7 +8,11 @@ import {
   DEFAULT_CODEX_CONFIG,
   ensureDefaultConfigFile,
   loadConfigFile,
-  parseConfigJsonWithComments
+  loadConfigLayers,
+  parseConfigJsonWithComments,
+  resolveConfigWithSources,
+  resolveProjectConfigPath,
+  validateConfigFileObject
 } from "../lib/config"
 
 describe("config file loading", () => {
@@ -62,6 +66,9 @@ describe("config file loading", () => {
               }
             }
           }
+        },
+        perAgent: {
+          explore: { reasoningEffort: "low", reasoningSummaries: true, serviceTier: "flex" }
         }
       }),
       "utf8"
@@ -109,6 +116,11 @@ describe("config file loading", () => {
     expect(loaded.behaviorSettings?.perModel?.["gpt-5.3-codex"]?.variants?.high?.verbosityEnabled).toBe(true)
     expect(loaded.behaviorSettings?.perModel?.["gpt-5.3-codex"]?.variants?.high?.verbosity).toBe("medium")
     expect(loaded.behaviorSettings?.perModel?.["gpt-5.3-codex"]?.variants?.high?.serviceTier).toBe("priority")
+    expect(loaded.behaviorSettings?.perAgent?.explore).toMatchObject({
+      reasoningEffort: "low",
+      reasoningSummary: "auto",
+      serviceTier: "flex"
+    })
     expect(loaded.personality).toBe("friendly")
   })
 
@@ -480,4 +492,95 @@ describe("config file loading", () => {
       warnSpy.mockRestore()
     }
   })
+
+  it("overlays the nearest project .opencode/codex-config.jsonc on the global config", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-config-project-"))
+    const globalPath = path.join(root, "global", "codex-config.jsonc")
+    await fs.mkdir(path.dirname(globalPath), { recursive: true })
+    await fs.writeFile(
+      globalPath,
+      JSON.stringify({
+        quiet: true,
+        runtime: { rotationStrategy: "hybrid", promptCacheKeyStrategy: "default" }
+      }),
+      "utf8"
+    )
+    const worktree = path.join(root, "repo")
+    const directory = path.join(worktree, "packages", "app")
+    const projectPath = path.join(worktree, ".opencode", "codex-config.jsonc")
+    await fs.mkdir(path.dirname(projectPath), { recursive: true })
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(
+      projectPath,
+      `{
+        // project-only tweaks
+        "runtime": { "promptCacheKeyStrategy": "project", "mockBackendUrl": "http://127.0.0.1:14555" }
+      }`,
+      "utf8"
+    )
+
+    expect(resolveProjectConfigPath({ directory, worktree })).toBe(projectPath)
+    expect(resolveProjectConfigPath({ directory: path.join(root, "global"), worktree })).toBeUndefined()
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const loaded = loadConfigLayers({ filePath: globalPath, directory, worktree })
+      expect(loaded.layers.map((layer) => layer.source)).toEqual(["global", "project"])
+      expect(loaded.config).toMatchObject({
+        quietMode: true,
+        rotationStrategy: "hybrid",
+        promptCacheKeyStrategy: "project"
+      })
+      expect(loaded.config.mockBackendUrl).toBeUndefined()
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("runtime.mockBackendUrl"))
+
+      const resolved = resolveConfigWithSources({
+        env: { OPENCODE_OPENAI_MULTI_ROTATION_STRATEGY: "sticky" },
+        file: loaded.config,
+        layers: loaded.layers
+      })
+      expect(resolved.config.rotationStrategy).toBe("sticky")
+      expect(resolved.sources).toMatchObject({
+        quietMode: "global",
+        promptCacheKeyStrategy: "project",
+        rotationStrategy: "env"
+      })
+      expect(resolved.sources.debug ?? "default").toBe("default")
+    } finally {
+      warnSpy.mockRestore()
+    }
+  })
+
+  it("loads account pools from the global config only", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-config-pools-"))
+    const globalPath = path.join(root, "global", "codex-config.jsonc")
+    await fs.mkdir(path.dirname(globalPath), { recursive: true })
+    await fs.writeFile(
+      globalPath,
+      JSON.stringify({
+        accountPools: { work: { paths: ["~/work/**", "/srv/acme"], tags: ["Work Team"] } }
+      }),
+      "utf8"
+    )
+    const worktree = path.join(root, "repo")
+    const projectPath = path.join(worktree, ".opencode", "codex-config.jsonc")
+    await fs.mkdir(path.dirname(projectPath), { recursive: true })
+    await fs.writeFile(projectPath, JSON.stringify({ accountPools: { work: { paths: ["/nowhere"], tags: ["x"] } } }))
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const loaded = loadConfigLayers({ filePath: globalPath, directory: worktree, worktree })
+      expect(loaded.config.accountPools).toEqual({
+        work: { paths: ["~/work/**", "/srv/acme"], tags: ["work-team"] }
+      })
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Ignoring accountPools in project config"))
+    } finally {
+      warnSpy.mockRestore()
+    }
+
+    expect(validateConfigFileObject({ accountPools: { work: { paths: ["work/**"], tags: [] } } }).issues).toEqual([
+      'accountPools.work.paths[0]: expected absolute or ~/ path glob, found string ("work/**")',
+      "accountPools.work: expected at least one tag or identity key, found none"
+    ])
+  })
 })
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest"
 
 import {
+  getAccountConcurrencyPolicy,
   getBehaviorSettings,
   getCodexCompactionOverrideEnabled,
   getCompatInputSanitizerEnabled,
@@ -11,16 +12,21 @@ import {
   getShareableDebugEnabled,
   getHeaderTransformDebugEnabled,
   getMode,
+  getModelRoutingMode,
   getPersonality,
   getPidOffsetEnabled,
   getPromptCacheKeyStrategy,
   getQuietMode,
+  getQuotaSwitchFloors,
   getReasoningSummariesOverride,
   getRemapDeveloperMessagesToUserEnabled,
   getRotationStrategy,
+  getFetchRetryPolicy,
   getSpoofMode,
   getUltraEnabled,
   getUltraReasoningEffort,
+  getUsageLedgerEnabled,
+  getMockBackendUrl,
   resolveConfig
 } from "../lib/config"
 
@@ -92,6 +98,86 @@ describe("config loading", () => {
     expect(getRotationStrategy(cfg)).toBe("hybrid")
   })
 
+  it("parses quota_balanced rotation strategy from env", () => {
+    const cfg = resolveConfig({ env: { OPENCODE_OPENAI_MULTI_ROTATION_STRATEGY: "quota_balanced" } })
+    expect(getRotationStrategy(cfg)).toBe("quota_balanced")
+  })
+
+  it("parses model routing mode from env and defaults to fallback", () => {
+    expect(getModelRoutingMode(resolveConfig({ env: {} }))).toBe("fallback")
+    expect(getModelRoutingMode(resolveConfig({ env: { OPENCODE_OPENAI_MULTI_MODEL_ROUTING: "strict" } }))).toBe(
+      "strict"
+    )
+    expect(getModelRoutingMode(resolveConfig({ env: { OPENCODE_OPENAI_MULTI_MODEL_ROUTING: "bogus" } }))).toBe(
+      "fallback"
+    )
+  })
+
+  it("resolves the fetch retry policy from file and env", () => {
+    expect(getFetchRetryPolicy(resolveConfig({ env: {} }))).toEqual({
+      maxAttempts: 3,
+      transientRetries: true,
+      backoffMs: 500,
+      circuitBreakerThreshold: 3,
+      circuitBreakerCooldownMs: 60_000
+    })
+
+    const cfg = resolveConfig({
+      env: { OPENCODE_OPENAI_MULTI_TRANSIENT_RETRIES: "0", OPENCODE_OPENAI_MULTI_CIRCUIT_BREAKER_THRESHOLD: "0" },
+      file: { maxFetchAttempts: 5, transientRetryBackoffMs: 250, circuitBreakerCooldownMs: 10_000 }
+    })
+    expect(getFetchRetryPolicy(cfg)).toEqual({
+      maxAttempts: 5,
+      transientRetries: false,
+      backoffMs: 250,
+      circuitBreakerThreshold: 0,
+      circuitBreakerCooldownMs: 10_000
+    })
+  })
+
+  it("resolves quota switch floors from file and env, clamped to 0-100", () => {
+    expect(getQuotaSwitchFloors(resolveConfig({ env: {} }))).toEqual({ fiveHourPct: 0, weeklyPct: 0 })
+    const cfg = resolveConfig({
+      env: { OPENCODE_OPENAI_MULTI_QUOTA_SWITCH_FLOOR_WEEKLY_PCT: "2.5" },
+      file: { quotaSwitchFloorFiveHourPct: 140, quotaSwitchFloorWeeklyPct: 10 }
+    })
+    expect(getQuotaSwitchFloors(cfg)).toEqual({ fiveHourPct: 100, weeklyPct: 2.5 })
+  })
+
+  it("resolves the account concurrency policy from file and env", () => {
+    expect(getAccountConcurrencyPolicy(resolveConfig({ env: {} }))).toEqual({
+      maxRequestsPerAccount: 0,
+      queueTimeoutMs: 30_000
+    })
+    const cfg = resolveConfig({
+      env: { OPENCODE_OPENAI_MULTI_MAX_CONCURRENT_REQUESTS_PER_ACCOUNT: "4" },
+      file: { maxConcurrentRequestsPerAccount: 2, concurrencyQueueTimeoutMs: -5 }
+    })
+    expect(getAccountConcurrencyPolicy(cfg)).toEqual({ maxRequestsPerAccount: 4, queueTimeoutMs: 0 })
+  })
+
+  it("enables the usage ledger unless disabled by file or env", () => {
+    expect(getUsageLedgerEnabled(resolveConfig({ env: {} }))).toBe(true)
+    expect(getUsageLedgerEnabled(resolveConfig({ env: {}, file: { usageLedger: false } }))).toBe(false)
+    expect(getUsageLedgerEnabled(resolveConfig({ env: { OPENCODE_OPENAI_MULTI_USAGE_LEDGER: "0" } }))).toBe(false)
+  })
+
+  it("accepts only loopback mock backend URLs", () => {
+    expect(getMockBackendUrl(resolveConfig({ env: {} }))).toBeUndefined()
+    expect(
+      getMockBackendUrl(resolveConfig({ env: { OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL: "http://127.0.0.1:14555/" } }))
+    ).toBe("http://127.0.0.1:14555")
+    expect(
+      getMockBackendUrl(
+        resolveConfig({
+          env: { OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL: "http://example.com:14555" },
+          file: { mockBackendUrl: "http://localhost:4000" }
+        })
+      )
+    ).toBe("http://localhost:4000")
+    expect(getMockBackendUrl(resolveConfig({ env: {}, file: { mockBackendUrl: "http://localhost" } }))).toBeUndefined()
+  })
+
   it("parses spoof mode from env", () => {
     const cfg = resolveConfig({ env: { OPENCODE_OPENAI_MULTI_SPOOF_MODE: "codex" } })
     expect(getSpoofMode(cfg)).toBe("codex")
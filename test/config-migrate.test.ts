@@ -0,0 +1,125 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runConfigCli } from "../lib/config-cli"
+import { collectDeprecatedModelBehaviorKeys, migrateConfigText, parseConfigJsonWithComments } from "../lib/config"
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+const LEGACY_CONFIG = `{
+  // behavior defaults
+  "global": {
+    "reasoningSummaries": true,
+    "verbosityEnabled": true, // keep verbose output
+    "verbosity": "high",
+    "serviceTier": "default"
+  },
+  "perModel": {
+    "gpt-5.3-codex": {
+      "reasoningSummary": "detailed",
+      "thinkingSummaries": false,
+      "variants": { "low": { "verbosityEnabled": false } }
+    }
+  },
+  "profiles": {
+    "work": { "global": { "thinkingSummaries": false } }
+  }
+}
+`
+
+describe("config migrate", () => {
+  it("rewrites deprecated aliases in place and keeps comments and formatting", () => {
+    const result = migrateConfigText(LEGACY_CONFIG)
+
+    expect(result.text).toBe(`{
+  // behavior defaults
+  "global": {
+    "reasoningSummary": "auto",
+    "textVerbosity": "high", // keep verbose output
+    "serviceTier": "auto"
+  },
+  "perModel": {
+    "gpt-5.3-codex": {
+      "reasoningSummary": "detailed",
+      "variants": { "low": { "textVerbosity": "none" } }
+    }
+  },
+  "profiles": {
+    "work": { "global": { "reasoningSummary": "none" } }
+  }
+}
+`)
+    expect(result.changes).toEqual([
+      'global.reasoningSummaries -> reasoningSummary: "auto"',
+      'global.verbosityEnabled -> textVerbosity: "high"',
+      "global.verbosity: removed (textVerbosity is already set)",
+      'global.serviceTier: "default" -> "auto"',
+      "perModel.gpt-5.3-codex.thinkingSummaries: removed (reasoningSummary is already set)",
+      'perModel.gpt-5.3-codex.variants.low.verbosityEnabled -> textVerbosity: "none"',
+      'profiles.work.global.thinkingSummaries -> reasoningSummary: "none"'
+    ])
+    expect(collectDeprecatedModelBehaviorKeys(parseConfigJsonWithComments(result.text))).toEqual([])
+    expect(migrateConfigText(result.text).changes).toEqual([])
+  })
+
+  it("refuses to rewrite an invalid config", () => {
+    expect(() => migrateConfigText('{ "global": { "reasoningSummaries": "yes" } }')).toThrow(
+      /global\.reasoningSummaries/
+    )
+  })
+
+  it("previews a diff with --dry-run and writes a .bak before migrating", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-config-migrate-"))
+    const configPath = path.join(root, "codex-config.jsonc")
+    await fs.writeFile(configPath, LEGACY_CONFIG, "utf8")
+    const env = { OPENCODE_OPENAI_MULTI_CONFIG_PATH: configPath }
+
+    const preview = captureIo()
+    expect(await runConfigCli(["migrate", "--dry-run"], preview.io, { env })).toBe(0)
+    expect(preview.out).toContain(`--- ${configPath}`)
+    expect(preview.out).toContain('-    "reasoningSummaries": true,')
+    expect(preview.out).toContain('+    "reasoningSummary": "auto",')
+    expect(preview.out.at(-1)).toBe("Dry run: no files were written.")
+    expect(await fs.readFile(configPath, "utf8")).toBe(LEGACY_CONFIG)
+    await expect(fs.access(`${configPath}.bak`)).rejects.toThrow()
+
+    const apply = captureIo()
+    expect(await runConfigCli(["migrate"], apply.io, { env })).toBe(0)
+    expect(await fs.readFile(`${configPath}.bak`, "utf8")).toBe(LEGACY_CONFIG)
+    expect(await fs.readFile(configPath, "utf8")).toBe(migrateConfigText(LEGACY_CONFIG).text)
+
+    const again = captureIo()
+    expect(await runConfigCli(["migrate"], again.io, { env })).toBe(0)
+    expect(again.out).toEqual([`${configPath} is already up to date.`])
+  })
+
+  it("moves a legacy codex-config.json to codex-config.jsonc", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-config-migrate-"))
+    const legacyPath = path.join(root, "opencode", "codex-config.json")
+    await fs.mkdir(path.dirname(legacyPath), { recursive: true })
+    await fs.writeFile(legacyPath, '{ "global": { "serviceTier": "default" } }\n', "utf8")
+    const capture = captureIo()
+
+    expect(await runConfigCli(["migrate"], capture.io, { env: { XDG_CONFIG_HOME: root } })).toBe(0)
+
+    expect(await fs.readFile(path.join(root, "opencode", "codex-config.jsonc"), "utf8")).toBe(
+      '{ "global": { "serviceTier": "auto" } }\n'
+    )
+    expect(await fs.readFile(`${legacyPath}.bak`, "utf8")).toBe('{ "global": { "serviceTier": "default" } }\n')
+    await expect(fs.access(legacyPath)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,102 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it, vi } from "vitest"
+
+import { getRotationStrategy, resolveConfig, resolveConfigWatchPaths } from "../lib/config"
+import { reloadConfig, watchConfigForReload } from "../lib/config-reload"
+
+async function writeConfig(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(value), "utf8")
+}
+
+function waitFor<T>(register: (resolve: (value: T) => void) => void, timeoutMs = 5_000): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("timed out waiting for config watcher")), timeoutMs)
+    register((value) => {
+      clearTimeout(timer)
+      resolve(value)
+    })
+  })
+}
+
+describe("config reload", () => {
+  it("watches the global file and the worktree project overlay", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-config-reload-"))
+    const filePath = path.join(root, "codex-config.jsonc")
+    const worktree = path.join(root, "repo")
+
+    expect(resolveConfigWatchPaths({ env: { OPENCODE_OPENAI_MULTI_CONFIG_PATH: filePath }, worktree })).toEqual([
+      filePath,
+      path.join(worktree, ".opencode", "codex-config.jsonc")
+    ])
+  })
+
+  it("rejects a reload when any config file fails validation", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-config-reload-"))
+    const filePath = path.join(root, "codex-config.jsonc")
+    const env = { OPENCODE_OPENAI_MULTI_CONFIG_PATH: filePath }
+    await writeConfig(filePath, { runtime: { rotationStrategy: "hybrid" } })
+
+    const loaded = reloadConfig({ env })
+    expect(loaded.ok && getRotationStrategy(loaded.config)).toBe("hybrid")
+
+    await writeConfig(filePath, { runtime: { rotationStrategy: "random" } })
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const rejected = reloadConfig({ env })
+      expect(rejected.ok).toBe(false)
+      expect(rejected.ok ? [] : rejected.issues).toEqual([expect.stringContaining("runtime.rotationStrategy")])
+    } finally {
+      warnSpy.mockRestore()
+    }
+  })
+
+  it("applies valid edits and reports invalid ones without replacing the applied config", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-config-reload-"))
+    const filePath = path.join(root, "codex-config.jsonc")
+    const env = { OPENCODE_OPENAI_MULTI_CONFIG_PATH: filePath }
+    await writeConfig(filePath, { runtime: { rotationStrategy: "sticky" } })
+
+    const onReload = vi.fn()
+    const onInvalid = vi.fn()
+    let notify: (() => void) | undefined
+    const watcher = watchConfigForReload({
+      env,
+      initialConfig: resolveConfig({ env, file: { rotationStrategy: "sticky" } }),
+      debounceMs: 20,
+      onReload: (...args) => {
+        onReload(...args)
+        notify?.()
+      },
+      onInvalid: (issues) => {
+        onInvalid(issues)
+        notify?.()
+      }
+    })
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      await waitFor<void>((resolve) => {
+        notify = resolve
+        void writeConfig(filePath, { runtime: { rotationStrategy: "quota_balanced" } })
+      })
+      expect(onReload).toHaveBeenCalledTimes(1)
+      const [result, previous] = onReload.mock.calls[0] ?? []
+      expect(getRotationStrategy(result.config)).toBe("quota_balanced")
+      expect(result.sources.rotationStrategy).toBe("global")
+      expect(getRotationStrategy(previous)).toBe("sticky")
+
+      await waitFor<void>((resolve) => {
+        notify = resolve
+        void fs.writeFile(filePath, "{ not json", "utf8")
+      })
+      expect(onReload).toHaveBeenCalledTimes(1)
+      expect(onInvalid).toHaveBeenCalledWith([expect.stringContaining(filePath)])
+    } finally {
+      watcher.close()
+      warnSpy.mockRestore()
+    }
+  })
+})
@@ -59,6 +59,22 @@ describe("config validation", () => {
     )
   })
 
+  it("reports perAgent validation issues", () => {
+    const result = validateConfigFileObject({
+      perAgent: {
+        explore: { reasoningSummary: "short", variants: { high: {} } },
+        title: "cheap"
+      }
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.issues).toEqual([
+      expect.stringContaining("perAgent.explore.reasoningSummary"),
+      expect.stringContaining("perAgent.explore.variants"),
+      expect.stringContaining("perAgent.title")
+    ])
+  })
+
   it("normalizes canonical config fields and custom model aliases", () => {
     const parsed = parseConfigFileObject({
       runtime: { ultra: true },
@@ -0,0 +1,191 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runDoctorCli } from "../lib/doctor-cli"
+import { runDoctorChecks } from "../lib/doctor"
+import { saveAuthStorage } from "../lib/storage"
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+const NOW = Date.UTC(2026, 9, 10, 12)
+
+async function snapshotTree(dir: string): Promise<Record<string, string>> {
+  const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true })
+  const files: Record<string, string> = {}
+  for (const entry of entries) {
+    const fullPath = path.join(entry.parentPath, entry.name)
+    files[path.relative(dir, fullPath)] = entry.isFile() ? (await fs.readFile(fullPath)).toString("base64") : "dir"
+  }
+  return files
+}
+
+async function seedRoot(input: { enabled: boolean; expires: number }) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-doctor-"))
+  const cacheDir = path.join(root, "cache")
+  await fs.mkdir(cacheDir, { recursive: true })
+  const paths = {
+    root,
+    cacheDir,
+    configPath: path.join(root, "codex-config.jsonc"),
+    authPath: path.join(root, "codex-accounts.json"),
+    snapshotsPath: path.join(cacheDir, "codex-snapshots.json"),
+    sessionAffinityPath: path.join(cacheDir, "codex-session-affinity.json"),
+    usageLedgerPath: path.join(cacheDir, "codex-usage.jsonl")
+  }
+  await saveAuthStorage(paths.authPath, (auth) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [
+        {
+          identityKey: "acc_1|one@example.com|plus",
+          accountId: "acc_1",
+          email: "one@example.com",
+          plan: "plus",
+          authTypes: ["native"],
+          enabled: input.enabled,
+          access: "at_1",
+          refresh: "rt_1",
+          expires: input.expires
+        }
+      ],
+      activeIdentityKey: "acc_1|one@example.com|plus"
+    }
+  })
+  await fs.writeFile(
+    path.join(cacheDir, "codex-auth-models-shared.json"),
+    JSON.stringify({ fetchedAt: NOW, models: [{ slug: "gpt-5.3-codex" }] }),
+    "utf8"
+  )
+  return paths
+}
+
+describe("doctor command", () => {
+  it("reports no problems for a healthy setup", async () => {
+    const paths = await seedRoot({ enabled: true, expires: NOW + 60_000 })
+    await fs.writeFile(
+      paths.configPath,
+      JSON.stringify({ customModels: { "my-codex": { targetModel: "gpt-5.3-codex" } } }),
+      "utf8"
+    )
+    const capture = captureIo()
+
+    const code = await runDoctorCli([], capture.io, {
+      ...paths,
+      env: { OPENCODE_OPENAI_MULTI_CONFIG_PATH: paths.configPath },
+      cwd: () => paths.root,
+      now: () => NOW,
+      platform: "linux"
+    })
+
+    expect(capture.out.join("\n")).toBe("No problems found.")
+    expect(code).toBe(0)
+  })
+
+  it("reports config, account, cache, lock and permission problems and exits non-zero", async () => {
+    const paths = await seedRoot({ enabled: false, expires: NOW - 60_000 })
+    await fs.writeFile(
+      paths.configPath,
+      JSON.stringify({
+        global: { reasoningSummaries: true },
+        customModels: { "my-codex": { targetModel: "gpt-4-retired" } }
+      }),
+      "utf8"
+    )
+    await fs.mkdir(path.join(paths.root, ".opencode"))
+    await fs.writeFile(
+      path.join(paths.root, ".opencode", "codex-config.jsonc"),
+      '{ "runtime": { "rotationStrategy": "random" } }',
+      "utf8"
+    )
+    await fs.writeFile(
+      paths.sessionAffinityPath,
+      JSON.stringify({ version: 1, native: { stickyBySessionKey: { ses_1: "acc_gone|gone@example.com|plus" } } }),
+      { encoding: "utf8", mode: 0o600 }
+    )
+    await fs.chmod(paths.authPath, 0o644)
+    const lockDir = `${paths.authPath}.lock.lock`
+    await fs.mkdir(lockDir)
+    const lockTime = new Date(NOW - 5 * 60_000)
+    await fs.utimes(lockDir, lockTime, lockTime)
+
+    const report = await runDoctorChecks({
+      ...paths,
+      env: { OPENCODE_OPENAI_MULTI_CONFIG_PATH: paths.configPath },
+      directory: paths.root,
+      now: NOW,
+      platform: "linux"
+    })
+
+    expect(report.findings.map((finding) => [finding.severity, finding.check])).toEqual([
+      ["warning", "config"],
+      ["error", "config"],
+      ["warning", "config"],
+      ["error", "auth"],
+      ["warning", "auth"],
+      ["warning", "session-affinity"],
+      ["warning", "locks"],
+      ["error", "permissions"]
+    ])
+    expect(report.findings.map((finding) => finding.message)).toEqual([
+      expect.stringContaining("global.reasoningSummaries is deprecated"),
+      expect.stringMatching(/^runtime\.rotationStrategy: expected/),
+      expect.stringContaining('customModels.my-codex.targetModel "gpt-4-retired" is not in the cached model catalog'),
+      expect.stringContaining("All 1 native account(s) are disabled"),
+      expect.stringContaining("expired at"),
+      expect.stringContaining("1 native session(s) are pinned to accounts that no longer exist"),
+      expect.stringContaining("remove it if no OpenCode process is running"),
+      expect.stringContaining("mode 0644")
+    ])
+    expect(report.findings[1]?.path).toBe(path.join(paths.root, ".opencode", "codex-config.jsonc"))
+
+    const capture = captureIo()
+    const code = await runDoctorCli(["--json"], capture.io, {
+      ...paths,
+      env: { OPENCODE_OPENAI_MULTI_CONFIG_PATH: paths.configPath },
+      cwd: () => paths.root,
+      now: () => NOW,
+      platform: "linux"
+    })
+    expect(code).toBe(1)
+    expect(JSON.parse(capture.out.join("\n"))).toMatchObject({ errors: 3, warnings: 5 })
+  })
+
+  it("reports unreadable account stores without quarantining or creating anything", async () => {
+    const paths = await seedRoot({ enabled: true, expires: NOW + 60_000 })
+    const check = async (store: Record<string, unknown>, env: Record<string, string | undefined> = {}) => {
+      await fs.writeFile(paths.authPath, JSON.stringify(store), { encoding: "utf8", mode: 0o600 })
+      const before = await snapshotTree(paths.root)
+      const report = await runDoctorChecks({ ...paths, env, directory: paths.root, now: NOW, platform: "linux" })
+      expect(await snapshotTree(paths.root)).toEqual(before)
+      return report.findings.filter((finding) => finding.check === "auth").map((finding) => finding.message)
+    }
+
+    expect(await check({ schemaVersion: "2", openai: { type: "oauth", accounts: [] } })).toEqual([
+      expect.stringContaining('Corrupt account store (Invalid auth storage schemaVersion: "2")')
+    ])
+    expect(
+      await check(
+        {
+          schemaVersion: 2,
+          tokenEncryption: { version: 1, keySource: "keyfile" },
+          openai: { type: "oauth", accounts: [] }
+        },
+        { OPENCODE_OPENAI_MULTI_TOKEN_KEY_FILE: paths.cacheDir }
+      )
+    ).toEqual([expect.stringContaining("Encrypted tokens could not be read: Token key file at")])
+  })
+})
@@ -293,4 +293,137 @@ describe("FetchOrchestrator retries", () => {
     const cooldownUntil = args?.[1]
     expect(cooldownUntil).toBe(expectedDateMs)
   })
+
+  it("retries transient 5xx responses on the same account with backoff", async () => {
+    const acquireAuth = vi.fn(async () => ({ access: "a", identityKey: "id1", accountId: "acc1" }))
+    const setCooldown = vi.fn<(identityKey: string, cooldownUntil: number) => Promise<void>>(async () => {})
+    const sleep = vi.fn(async (_ms: number) => {})
+    const reasonCodes: string[] = []
+
+    let fetchCount = 0
+    stubGlobalForTest(
+      "fetch",
+      vi.fn(async () => {
+        fetchCount++
+        return fetchCount === 1 ? new Response("Bad Gateway", { status: 502 }) : new Response("OK", { status: 200 })
+      })
+    )
+
+    const orch = new FetchOrchestrator({
+      acquireAuth,
+      setCooldown,
+      now: () => 1000,
+      retryTransientFailures: true,
+      transientRetryBackoffMs: 200,
+      circuitBreaker: { failureThreshold: 3, cooldownMs: 60_000 },
+      sleep,
+      onAttemptRequest: ({ attemptReasonCode }) => {
+        reasonCodes.push(attemptReasonCode)
+      }
+    })
+
+    const res = await orch.execute("https://api.openai.com/v1/responses", { method: "POST", body: "{}" })
+
+    expect(res.status).toBe(200)
+    expect(reasonCodes).toEqual(["initial_attempt", "retry_same_account_after_server_error"])
+    expect(sleep).toHaveBeenCalledTimes(1)
+    expect(sleep.mock.calls[0]?.[0]).toBeGreaterThanOrEqual(200)
+    expect(setCooldown).not.toHaveBeenCalled()
+  })
+
+  it("trips the circuit breaker after repeated network errors and fails over", async () => {
+    const auths = [
+      { access: "access1", identityKey: "id1" },
+      { access: "access1", identityKey: "id1" },
+      { access: "access2", identityKey: "id2" }
+    ]
+    let authIdx = 0
+    const acquireAuth = vi.fn(async () => auths[authIdx++] ?? { access: "access2", identityKey: "id2" })
+    const setCooldown = vi.fn<(identityKey: string, cooldownUntil: number) => Promise<void>>(async () => {})
+    const sleep = vi.fn(async (_ms: number) => {})
+    const reasonCodes: string[] = []
+
+    stubGlobalForTest(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        const req = new Request(input, init)
+        if (req.headers.get("authorization") === "Bearer access1") {
+          throw new TypeError("fetch failed")
+        }
+        return new Response("OK", { status: 200 })
+      })
+    )
+
+    const orch = new FetchOrchestrator({
+      acquireAuth,
+      setCooldown,
+      now: () => 1000,
+      retryTransientFailures: true,
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 30_000 },
+      sleep,
+      onAttemptRequest: ({ attemptReasonCode }) => {
+        reasonCodes.push(attemptReasonCode)
+      }
+    })
+
+    const res = await orch.execute("https://api.openai.com/v1/responses")
+
+    expect(res.status).toBe(200)
+    expect(reasonCodes).toEqual([
+      "initial_attempt",
+      "retry_same_account_after_network_error",
+      "retry_switched_account_after_network_error"
+    ])
+    expect(setCooldown).toHaveBeenCalledWith("id1", 31_000)
+    expect(sleep).toHaveBeenCalledTimes(1)
+  })
+
+  it("returns upstream_unreachable once transient retries are exhausted", async () => {
+    const acquireAuth = vi.fn(async () => ({ access: "a", identityKey: "id1" }))
+    const setCooldown = vi.fn<(identityKey: string, cooldownUntil: number) => Promise<void>>(async () => {})
+
+    stubGlobalForTest(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed")
+      })
+    )
+
+    const orch = new FetchOrchestrator({
+      acquireAuth,
+      setCooldown,
+      maxAttempts: 2,
+      retryTransientFailures: true,
+      transientRetryBackoffMs: 0
+    })
+
+    const res = await orch.execute("https://api.openai.com/v1/responses")
+
+    expect(res.status).toBe(503)
+    expect(await res.json()).toMatchObject({ error: { type: "upstream_unreachable" } })
+    expect(acquireAuth).toHaveBeenCalledTimes(2)
+  })
+
+  it("keeps 5xx and network errors terminal when transient retries are disabled", async () => {
+    const acquireAuth = vi.fn(async () => ({ access: "a", identityKey: "id1" }))
+    const setCooldown = vi.fn<(identityKey: string, cooldownUntil: number) => Promise<void>>(async () => {})
+
+    stubGlobalForTest(
+      "fetch",
+      vi.fn(async () => new Response("Service Unavailable", { status: 503 }))
+    )
+    const orch = new FetchOrchestrator({ acquireAuth, setCooldown, retryTransientFailures: false })
+    const res = await orch.execute("https://api.openai.com/v1/responses")
+    expect(res.status).toBe(503)
+    expect(acquireAuth).toHaveBeenCalledTimes(1)
+
+    const networkError = new TypeError("fetch failed")
+    stubGlobalForTest(
+      "fetch",
+      vi.fn(async () => {
+        throw networkError
+      })
+    )
+    await expect(orch.execute("https://api.openai.com/v1/responses")).rejects.toBe(networkError)
+  })
 })
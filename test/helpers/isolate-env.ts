@@ -16,6 +16,7 @@ type Snapshot = {
   TMPDIR: string | undefined
   TMP: string | undefined
   TEMP: string | undefined
+  CODEX_HOME: string | undefined
 }
 
 let snapshot: Snapshot | undefined
@@ -35,7 +36,8 @@ function captureSnapshot(): Snapshot {
     LOCALAPPDATA: process.env.LOCALAPPDATA,
     TMPDIR: process.env.TMPDIR,
     TMP: process.env.TMP,
-    TEMP: process.env.TEMP
+    TEMP: process.env.TEMP,
+    CODEX_HOME: process.env.CODEX_HOME
   }
 }
 
@@ -79,6 +81,7 @@ export async function setupIsolatedTestEnv(): Promise<void> {
   process.env.TMPDIR = tmp
   process.env.TMP = tmp
   process.env.TEMP = tmp
+  delete process.env.CODEX_HOME
 }
 
 export async function teardownIsolatedTestEnv(): Promise<void> {
@@ -96,6 +99,7 @@ export async function teardownIsolatedTestEnv(): Promise<void> {
   restoreValue("TMPDIR", snapshot.TMPDIR)
   restoreValue("TMP", snapshot.TMP)
   restoreValue("TEMP", snapshot.TEMP)
+  restoreValue("CODEX_HOME", snapshot.CODEX_HOME)
 
   while (isolatedRoots.length > 0) {
     const root = isolatedRoots.pop()
@@ -0,0 +1,136 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { repinSwitchedSession } from "../lib/codex-native/session-affinity-state"
+import {
+  createLiveEventChannel,
+  isLiveEventsEnabled,
+  LIVE_EVENTS_MAX_BYTES,
+  LIVE_EVENTS_RETENTION_MS,
+  type LiveEventChannel,
+  type LiveEventRecord
+} from "../lib/live-events"
+import { createStickySessionState } from "../lib/rotation"
+
+describe("live event channel", () => {
+  let root: string
+  let filePath: string
+  const channels: LiveEventChannel[] = []
+
+  const open = (now?: () => number): { channel: LiveEventChannel; received: LiveEventRecord[] } => {
+    const channel = createLiveEventChannel({ filePath, pollMs: 60_000, now })
+    const received: LiveEventRecord[] = []
+    channel.subscribe("test", (event) => received.push(event))
+    channels.push(channel)
+    return { channel, received }
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "codex-live-events-"))
+    filePath = path.join(root, "cache", "codex-live-events.jsonl")
+  })
+
+  afterEach(async () => {
+    for (const channel of channels.splice(0)) channel.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it("delivers events from other processes but not back to the publisher", async () => {
+    const first = open()
+    const second = open()
+    await first.channel.poll()
+    await second.channel.poll()
+
+    await first.channel.publish({ type: "cooldown", mode: "native", identityKey: "acc_1|a@b.c|plus", cooldownUntil: 5 })
+    await second.channel.publish({ type: "account_switch", mode: "native", identityKey: "acc_2|a@b.c|pro" })
+    await first.channel.poll()
+    await second.channel.poll()
+
+    expect(second.received).toMatchObject([
+      { type: "cooldown", identityKey: "acc_1|a@b.c|plus", cooldownUntil: 5, seq: 1, pid: process.pid }
+    ])
+    expect(first.received).toMatchObject([{ type: "account_switch", identityKey: "acc_2|a@b.c|pro", seq: 2 }])
+
+    await second.channel.poll()
+    expect(second.received).toHaveLength(1)
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600)
+  })
+
+  it("repins a session another process switched so its next affinity write keeps the switch", async () => {
+    const first = open()
+    const second = open()
+    const affinity = { stickySessionState: createStickySessionState(), hybridSessionState: createStickySessionState() }
+    affinity.stickySessionState.bySessionKey.set("ses_1", "acc_1|a@b.c|plus")
+    affinity.stickySessionState.bySessionKey.set("ses_2", "acc_1|a@b.c|plus")
+    second.channel.subscribe("affinity", (event) => {
+      if (event.type !== "account_switch" || !event.sessionKey) return
+      repinSwitchedSession(affinity, { sessionKey: event.sessionKey, identityKey: event.identityKey })
+    })
+    await second.channel.poll()
+
+    await first.channel.publish({
+      type: "account_switch",
+      mode: "native",
+      identityKey: "acc_2|a@b.c|pro",
+      previousIdentityKey: "acc_1|a@b.c|plus",
+      sessionKey: "ses_1"
+    })
+    await second.channel.poll()
+
+    expect(affinity.stickySessionState.bySessionKey.get("ses_1")).toBe("acc_2|a@b.c|pro")
+    expect(affinity.stickySessionState.bySessionKey.get("ses_2")).toBe("acc_1|a@b.c|plus")
+    expect(affinity.hybridSessionState.bySessionKey.has("ses_1")).toBe(false)
+  })
+
+  it("does not replay history to a new subscriber and skips torn lines", async () => {
+    const publisher = open()
+    await publisher.channel.publish({ type: "account_switch", mode: "native", identityKey: "old" })
+
+    const late = open()
+    await late.channel.poll()
+    await fs.appendFile(filePath, '{"seq":')
+    await fs.appendFile(filePath, "\n")
+    await publisher.channel.publish({
+      type: "quota_snapshot",
+      identityKey: "new",
+      snapshot: { updatedAt: 1, modelFamily: "codex", limits: [{ name: "5h", leftPct: 40 }] }
+    })
+    await late.channel.poll()
+
+    expect(late.received.map((event) => [event.type, event.identityKey, event.seq])).toEqual([
+      ["quota_snapshot", "new", 2]
+    ])
+  })
+
+  it("compacts old and oversized history while sequence numbers keep increasing", async () => {
+    let now = 1_000_000
+    const publisher = open(() => now)
+    const reader = open()
+    await reader.channel.poll()
+
+    await publisher.channel.publish({ type: "account_switch", mode: "native", identityKey: "stale" })
+    now += LIVE_EVENTS_RETENTION_MS + 1
+    const identityKey = "x".repeat(4096)
+    for (let index = 0; index < Math.ceil(LIVE_EVENTS_MAX_BYTES / 4096) + 4; index += 1) {
+      await publisher.channel.publish({ type: "account_switch", mode: "native", identityKey })
+    }
+
+    const content = await fs.readFile(filePath, "utf8")
+    expect(Buffer.byteLength(content)).toBeLessThanOrEqual(LIVE_EVENTS_MAX_BYTES)
+    expect(content).not.toContain('"stale"')
+
+    await reader.channel.poll()
+    const seqs = reader.received.map((event) => event.seq)
+    expect(seqs.length).toBeGreaterThan(0)
+    expect(seqs).toEqual([...seqs].sort((left, right) => left - right))
+    expect(seqs.at(-1)).toBe(Math.ceil(LIVE_EVENTS_MAX_BYTES / 4096) + 5)
+  })
+
+  it("is enabled unless turned off by env", () => {
+    expect(isLiveEventsEnabled({})).toBe(true)
+    expect(isLiveEventsEnabled({ OPENCODE_OPENAI_MULTI_LIVE_EVENTS: "0" })).toBe(false)
+  })
+})
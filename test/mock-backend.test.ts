@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import { setMockBackendOrigin } from "../lib/backend-endpoints"
+import { parseJwtClaims } from "../lib/claims"
+import { fetchQuotaSnapshotFromBackend } from "../lib/codex-quota-fetch"
+import { rewriteUrl } from "../lib/codex-native/request-routing"
+import {
+  buildAuthorizeUrl,
+  exchangeCodeForTokens,
+  generatePKCE,
+  refreshAccessToken,
+  resolveOAuthIssuer
+} from "../lib/codex-native/oauth-utils"
+import { runMockBackendCli } from "../lib/mock-backend-cli"
+import { parseMockScenarioSpec } from "../lib/mock-backend/scenarios"
+import { type MockCodexBackend, startMockCodexBackend } from "../lib/mock-backend/server"
+import { parseCatalogResponse } from "../lib/model-catalog"
+
+const CALLBACK_URI = "http://localhost:1455/auth/callback"
+
+let backend: MockCodexBackend | undefined
+
+async function startBackend(options: Parameters<typeof startMockCodexBackend>[0] = {}): Promise<MockCodexBackend> {
+  backend = await startMockCodexBackend({ port: 0, ...options })
+  setMockBackendOrigin(backend.origin)
+  return backend
+}
+
+async function loginThroughBrowserFlow() {
+  const pkce = await generatePKCE()
+  const authorize = await fetch(buildAuthorizeUrl(CALLBACK_URI, pkce, "state-1", "opencode"), { redirect: "manual" })
+  const location = new URL(authorize.headers.get("location") ?? "")
+  expect(location.searchParams.get("state")).toBe("state-1")
+  return exchangeCodeForTokens(location.searchParams.get("code") ?? "", CALLBACK_URI, pkce)
+}
+
+function postResponses(origin: string, accountId: string) {
+  return fetch(rewriteUrl("https://api.openai.com/v1/responses"), {
+    method: "POST",
+    headers: { authorization: "Bearer mock", "chatgpt-account-id": accountId, "content-type": "application/json" },
+    body: JSON.stringify({ model: "gpt-5.3-codex", input: "hi" })
+  }).then((response) => {
+    expect(response.url.startsWith(origin)).toBe(true)
+    return response
+  })
+}
+
+afterEach(async () => {
+  setMockBackendOrigin(undefined)
+  await backend?.close()
+  backend = undefined
+})
+
+describe("mock codex backend", () => {
+  it("serves the browser OAuth flow and rotates refresh tokens", async () => {
+    const server = await startBackend()
+    expect(resolveOAuthIssuer()).toBe(server.origin)
+
+    const first = await loginThroughBrowserFlow()
+    const second = await loginThroughBrowserFlow()
+    expect(parseJwtClaims(first.access_token)?.["https://api.openai.com/auth"]?.chatgpt_account_id).toBe("acct_mock_1")
+    expect(parseJwtClaims(second.access_token)?.["https://api.openai.com/auth"]?.chatgpt_account_id).toBe("acct_mock_2")
+
+    const refreshed = await refreshAccessToken(first.refresh_token)
+    expect(refreshed.refresh_token).not.toBe(first.refresh_token)
+    await expect(refreshAccessToken(first.refresh_token)).rejects.toMatchObject({ oauthCode: "invalid_grant" })
+  })
+
+  it("keeps refreshing its own tokens after a restart and never receives real ones", async () => {
+    const first = await startBackend()
+    const login = await loginThroughBrowserFlow()
+    await first.close()
+
+    const restarted = await startBackend()
+    const refreshed = await refreshAccessToken(login.refresh_token)
+    expect(parseJwtClaims(refreshed.access_token)?.["https://api.openai.com/auth"]?.chatgpt_account_id).toBe(
+      "acct_mock_1"
+    )
+    await expect(refreshAccessToken(login.refresh_token)).rejects.toMatchObject({ oauthCode: "invalid_grant" })
+
+    await expect(refreshAccessToken("real-refresh-token")).rejects.toThrow(/mock backend did not issue/)
+    expect(await fetchQuotaSnapshotFromBackend({ accessToken: "real-access-token", accountId: "acct_1" })).toBeNull()
+    expect(restarted.requests.map((entry) => entry.path)).toEqual(["/oauth/token", "/oauth/token"])
+  })
+
+  it("streams responses with usage and serves models and quota payloads", async () => {
+    const server = await startBackend({ replyText: "offline reply from the mock" })
+
+    const response = await postResponses(server.origin, "acct_mock_1")
+    expect(response.headers.get("content-type")).toContain("text/event-stream")
+    const body = await response.text()
+    expect(body).toContain('"delta":"offline reply from "')
+    expect(body).toContain("event: response.completed")
+    expect(body).toMatch(/"total_tokens":\d+/)
+
+    const models = await fetch(`${server.origin}/backend-api/codex/models`)
+    expect(parseCatalogResponse(await models.json()).map((model) => model.slug)).toContain("gpt-5.3-codex")
+
+    const { access_token } = await loginThroughBrowserFlow()
+    const snapshot = await fetchQuotaSnapshotFromBackend({ accessToken: access_token, accountId: "acct_mock_1" })
+    expect(snapshot?.limits.map((limit) => limit.leftPct)).toEqual([90, 95])
+  })
+
+  it("replays scripted failures before returning to normal replies", async () => {
+    const server = await startBackend({
+      scenarios: [{ endpoint: "responses", status: 429, times: 2, retryAfterSeconds: 7, accountId: "acct_mock_1" }]
+    })
+    const login = await loginThroughBrowserFlow()
+
+    const other = await postResponses(server.origin, "acct_mock_2")
+    expect(other.status).toBe(200)
+    await other.text()
+
+    const limited = await postResponses(server.origin, "acct_mock_1")
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get("retry-after")).toBe("7")
+    expect(await limited.json()).toMatchObject({ error: { type: "usage_limit_reached" } })
+    expect((await postResponses(server.origin, "acct_mock_1")).status).toBe(429)
+    const recovered = await postResponses(server.origin, "acct_mock_1")
+    expect(recovered.status).toBe(200)
+    await recovered.text()
+
+    const control = await fetch(`${server.origin}/__mock/scenario`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ steps: ["token:401", { endpoint: "responses", status: 503 }] })
+    })
+    expect(control.status).toBe(200)
+    expect(server.pendingScenario()).toHaveLength(2)
+    await expect(refreshAccessToken(login.refresh_token)).rejects.toMatchObject({
+      status: 401,
+      oauthCode: "invalid_grant"
+    })
+    expect((await postResponses(server.origin, "acct_mock_2")).status).toBe(503)
+
+    expect(server.requests.filter((entry) => entry.scripted).map((entry) => entry.status)).toEqual([429, 429, 401, 503])
+  })
+
+  it("parses failure specs", () => {
+    expect(parseMockScenarioSpec("responses:429x2@acct_mock_1")).toEqual({
+      endpoint: "responses",
+      status: 429,
+      times: 2,
+      accountId: "acct_mock_1"
+    })
+    expect(parseMockScenarioSpec("*:502")).toEqual({ endpoint: "*", status: 502, times: 1 })
+    expect(parseMockScenarioSpec("responses:200")).toBeUndefined()
+    expect(parseMockScenarioSpec("billing:500")).toBeUndefined()
+  })
+
+  it("runs from the CLI until shutdown", async () => {
+    const out: string[] = []
+    const err: string[] = []
+    const io = { out: (message: string) => out.push(message), err: (message: string) => err.push(message) }
+
+    const code = await runMockBackendCli(["--port", "0", "--fail", "usage:500"], io, {
+      waitForShutdown: async () => {}
+    })
+    expect(code).toBe(0)
+    expect(out.join("\n")).toMatch(/OPENCODE_OPENAI_MULTI_MOCK_BACKEND_URL=http:\/\/127\.0\.0\.1:\d+/)
+    expect(out.join("\n")).toContain("scripted failures: 1")
+
+    expect(await runMockBackendCli(["--fail", "nope"], io)).toBe(1)
+    expect(err[0]).toBe("Invalid --fail spec: nope")
+  })
+})
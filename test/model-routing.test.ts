@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest"
+
+import { acquireOpenAIAuth, createAcquireOpenAIAuthInputDefaults } from "../lib/codex-native/acquire-auth"
+import {
+  catalogSupportsModel,
+  describeModelRequirement,
+  readModelRequirement,
+  readModelRequirementFromRequest,
+  type ModelRequirement
+} from "../lib/codex-native/model-routing"
+import type { CodexModelInfo } from "../lib/model-catalog"
+import { defaultAuthPath } from "../lib/paths"
+import { saveAuthStorage } from "../lib/storage"
+import type { AccountRecord, AuthFile } from "../lib/types"
+
+const PLUS = "acc_plus|me@example.com|plus"
+const PRO = "acc_pro|me@example.com|pro"
+
+const PLUS_CATALOG: CodexModelInfo[] = [
+  { slug: "gpt-5.4", supported_reasoning_levels: [{ effort: "low" }, { effort: "medium" }, { effort: "high" }] }
+]
+const PRO_CATALOG: CodexModelInfo[] = [
+  {
+    slug: "gpt-5.4",
+    supported_reasoning_levels: [{ effort: "low" }, { effort: "medium" }, { effort: "high" }, { effort: "xhigh" }],
+    service_tiers: [{ id: "priority", name: "Priority" }]
+  },
+  { slug: "gpt-5.4-pro" }
+]
+
+function account(identityKey: string): AccountRecord {
+  const [accountId, email, plan] = identityKey.split("|")
+  return {
+    identityKey,
+    accountId,
+    email,
+    plan,
+    enabled: true,
+    access: `at_${accountId}`,
+    refresh: `rt_${accountId}`,
+    expires: Date.now() + 3_600_000
+  }
+}
+
+async function seedStore(): Promise<void> {
+  await saveAuthStorage(defaultAuthPath(), (auth: AuthFile) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [],
+      native: { accounts: [account(PLUS), account(PRO)], activeIdentityKey: PLUS }
+    }
+  })
+}
+
+function acquire(
+  mode: "fallback" | "strict",
+  requirement: ModelRequirement,
+  catalogs: Record<string, CodexModelInfo[]>
+) {
+  const defaults = createAcquireOpenAIAuthInputDefaults()
+  return acquireOpenAIAuth({
+    authMode: "native",
+    context: { sessionKey: null },
+    isSubagentRequest: false,
+    stickySessionState: defaults.stickySessionState,
+    hybridSessionState: defaults.hybridSessionState,
+    seenSessionKeys: new Map<string, number>(),
+    persistSessionAffinityState: () => {},
+    pidOffsetEnabled: false,
+    modelRouting: { mode, requirement, catalogFor: async (candidate) => catalogs[candidate.identityKey ?? ""] }
+  })
+}
+
+function requirement(payload: Record<string, unknown>): ModelRequirement {
+  const parsed = readModelRequirement({ payload })
+  if (!parsed) throw new Error("Expected a model requirement")
+  return parsed
+}
+
+describe("plan-aware model routing", () => {
+  it("reads the model, effort and service tier a request needs", async () => {
+    expect(
+      readModelRequirement({
+        payload: { model: "team-fast", reasoning: { effort: "XHigh" }, service_tier: "priority" },
+        customModels: { "team-fast": { targetModel: "gpt-5.4" } }
+      })
+    ).toEqual({
+      model: "team-fast",
+      modelCandidates: ["team-fast", "gpt-5.4"],
+      reasoningEffort: "xhigh",
+      serviceTier: "priority"
+    })
+    expect(requirement({ model: "gpt-5.4", reasoning: { effort: "max" }, service_tier: "auto" })).toEqual({
+      model: "gpt-5.4",
+      modelCandidates: ["gpt-5.4"]
+    })
+    expect(readModelRequirement({ payload: { input: [] } })).toBeUndefined()
+
+    const request = new Request("https://chatgpt.com/backend-api/codex/responses", {
+      method: "POST",
+      body: JSON.stringify({ model: "gpt-5.4-pro" })
+    })
+    expect((await readModelRequirementFromRequest(request))?.model).toBe("gpt-5.4-pro")
+    expect(await request.text()).toContain("gpt-5.4-pro")
+  })
+
+  it("checks the model, reasoning effort and service tier against a cached catalog", () => {
+    const priorityXhigh = requirement({ model: "gpt-5.4", reasoning: { effort: "xhigh" }, service_tier: "priority" })
+    expect(catalogSupportsModel(PRO_CATALOG, priorityXhigh)).toBe(true)
+    expect(catalogSupportsModel(PLUS_CATALOG, priorityXhigh)).toBe(false)
+    expect(catalogSupportsModel(PLUS_CATALOG, requirement({ model: "gpt-5.4", service_tier: "flex" }))).toBe(true)
+    expect(catalogSupportsModel(PLUS_CATALOG, requirement({ model: "gpt-5.4-pro" }))).toBe(false)
+    expect(catalogSupportsModel(undefined, requirement({ model: "gpt-5.4-pro" }))).toBeUndefined()
+    expect(
+      catalogSupportsModel(
+        PRO_CATALOG.map((model) => ({ ...model, catalog_source: "github_fallback" as const })),
+        requirement({ model: "gpt-5.4-pro" })
+      )
+    ).toBeUndefined()
+    expect(describeModelRequirement(priorityXhigh)).toBe("gpt-5.4 (reasoning effort xhigh, service tier priority)")
+  })
+
+  it("selects an account whose catalog lists the model and falls back or fails when none does", async () => {
+    await seedStore()
+    const pro = requirement({ model: "gpt-5.4-pro" })
+    const catalogs = { [PLUS]: PLUS_CATALOG, [PRO]: PRO_CATALOG }
+
+    expect((await acquire("fallback", pro, catalogs)).identityKey).toBe(PRO)
+    expect((await acquire("strict", pro, catalogs)).identityKey).toBe(PRO)
+    expect((await acquire("fallback", requirement({ model: "gpt-5.4" }), catalogs)).identityKey).toBe(PLUS)
+    expect((await acquire("strict", pro, { [PLUS]: PLUS_CATALOG })).identityKey).toBe(PRO)
+
+    const onlyPlus = { [PLUS]: PLUS_CATALOG, [PRO]: PLUS_CATALOG }
+    expect((await acquire("fallback", pro, onlyPlus)).identityKey).toBe(PLUS)
+    await expect(acquire("strict", pro, onlyPlus)).rejects.toMatchObject({
+      type: "model_not_available",
+      status: 400,
+      message: "No OpenAI native account lists gpt-5.4-pro in its cached model catalog."
+    })
+  })
+})
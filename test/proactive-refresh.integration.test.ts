@@ -2,6 +2,7 @@ import { describe, expect, it, vi } from "vitest"
 import fs from "node:fs/promises"
 import os from "node:os"
 import path from "node:path"
+import { setMockBackendOrigin } from "../lib/backend-endpoints"
 import { saveAuthStorage, loadAuthStorage } from "../lib/storage"
 import { runOneProactiveRefreshTick } from "../lib/proactive-refresh"
 
@@ -218,6 +219,66 @@ describe("proactive refresh", () => {
     expect(refresh).toHaveBeenCalledTimes(1)
   })
 
+  it("leaves accounts the mock backend did not issue alone while one is configured", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-refresh-"))
+    const p = path.join(dir, "auth.json")
+
+    await saveAuthStorage(p, (cur) => ({
+      ...cur,
+      openai: {
+        type: "oauth",
+        strategy: "round_robin",
+        accounts: [
+          {
+            identityKey: "real",
+            enabled: true,
+            refresh: "rreal",
+            access: "oldReal",
+            expires: 0,
+            accountId: "5",
+            email: "real@example.com",
+            plan: "plus"
+          },
+          {
+            identityKey: "mock",
+            enabled: true,
+            refresh: "mock_refresh_1.YWNjdF9tb2NrXzE",
+            access: "oldMock",
+            expires: 0,
+            accountId: "acct_mock_1",
+            email: "mock-1@example.test",
+            plan: "plus"
+          }
+        ]
+      }
+    }))
+
+    const refresh = vi.fn(async () => ({
+      access: "newMock",
+      refresh: "mock_refresh_2.YWNjdF9tb2NrXzE",
+      expires: 99_999
+    }))
+
+    setMockBackendOrigin("http://127.0.0.1:14555")
+    try {
+      await runOneProactiveRefreshTick({ authPath: p, now: () => 1_000, bufferMs: 10_000, refresh })
+    } finally {
+      setMockBackendOrigin(undefined)
+    }
+
+    const stored = await loadAuthStorage(p)
+    const openai = stored.openai
+    if (!openai || !("accounts" in openai)) throw new Error("missing")
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(refresh).toHaveBeenCalledWith("mock_refresh_1.YWNjdF9tb2NrXzE")
+    expect(openai.accounts.find((a) => a.identityKey === "real")).toMatchObject({
+      enabled: true,
+      refresh: "rreal",
+      access: "oldReal"
+    })
+    expect(openai.accounts.find((a) => a.identityKey === "mock")?.access).toBe("newMock")
+  })
+
   it("disables account when proactive refresh returns refresh_token_reused", async () => {
     const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-refresh-"))
     const p = path.join(dir, "auth.json")
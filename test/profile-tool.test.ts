@@ -0,0 +1,129 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  getBehaviorSettings,
+  getRotationStrategy,
+  loadConfigLayers,
+  resolveConfigWithSources,
+  validateConfigFileObject
+} from "../lib/config"
+import { watchConfigForReload } from "../lib/config-reload"
+import { toolOutputForProfile } from "../lib/profile-tool"
+
+const CONFIG = {
+  runtime: { rotationStrategy: "sticky" },
+  global: { reasoningEffort: "medium", serviceTier: "auto" },
+  profiles: {
+    cheap: { runtime: { rotationStrategy: "round_robin" }, global: { reasoningEffort: "low", serviceTier: "flex" } },
+    deep: { global: { reasoningEffort: "xhigh" }, runtime: { mockBackendUrl: "http://127.0.0.1:14555" } }
+  }
+}
+
+async function writeConfig(): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-codex-auth-profiles-"))
+  const filePath = path.join(root, "codex-config.jsonc")
+  await fs.writeFile(filePath, JSON.stringify(CONFIG), "utf8")
+  return filePath
+}
+
+describe("config profiles", () => {
+  it("applies the profile named by OPENCODE_OPENAI_MULTI_PROFILE over the config file", async () => {
+    const filePath = await writeConfig()
+    const env = { OPENCODE_OPENAI_MULTI_CONFIG_PATH: filePath, OPENCODE_OPENAI_MULTI_PROFILE: "cheap" }
+
+    const loaded = loadConfigLayers({ env })
+    expect(loaded.layers.map((layer) => layer.source)).toEqual(["global", "profile"])
+    const { config, sources } = resolveConfigWithSources({ env, file: loaded.config, layers: loaded.layers })
+    expect(config.profile).toBe("cheap")
+    expect(getRotationStrategy(config)).toBe("round_robin")
+    expect(getBehaviorSettings(config)?.global).toMatchObject({ reasoningEffort: "low", serviceTier: "flex" })
+    expect(sources).toMatchObject({
+      rotationStrategy: "profile",
+      "behaviorSettings.global.reasoningEffort": "profile"
+    })
+    expect(Object.keys(sources).some((key) => key.startsWith("profiles."))).toBe(false)
+  })
+
+  it("ignores unknown profiles and global-only keys inside a profile", async () => {
+    const filePath = await writeConfig()
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const unknown = loadConfigLayers({ filePath, profile: "missing" })
+      expect(unknown.config.profile).toBeUndefined()
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown codex-config profile "missing"'))
+
+      const deep = loadConfigLayers({ filePath, profile: "deep" })
+      expect(deep.config.mockBackendUrl).toBeUndefined()
+      expect(deep.config.profiles?.deep).not.toHaveProperty("mockBackendUrl")
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring runtime.mockBackendUrl in profile "deep"'))
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining("set runtime.mockBackendUrl in the global codex-config.jsonc")
+      )
+    } finally {
+      warnSpy.mockRestore()
+    }
+  })
+
+  it("validates profile contents, nesting and the reserved none name", () => {
+    expect(
+      validateConfigFileObject({
+        profiles: {
+          bad: { runtime: { rotationStrategy: "random" } },
+          nested: { profiles: {} },
+          none: {}
+        }
+      }).issues
+    ).toEqual([
+      expect.stringMatching(/^profiles\.bad\.runtime\.rotationStrategy: expected/),
+      expect.stringMatching(/^profiles\.nested\.profiles: expected no nested profiles/),
+      expect.stringMatching(/^profiles\.none: expected a name other than "none"/)
+    ])
+  })
+
+  it("lists and switches profiles for the running process through the reloader", async () => {
+    const filePath = await writeConfig()
+    const env = { OPENCODE_OPENAI_MULTI_CONFIG_PATH: filePath }
+    const initial = loadConfigLayers({ env })
+    let selected: string | null | undefined
+    let active = resolveConfigWithSources({ env, file: initial.config, layers: initial.layers }).config
+    const reloader = watchConfigForReload({
+      env,
+      initialConfig: active,
+      getProfile: () => selected,
+      onReload: (result) => {
+        active = result.config
+      },
+      onInvalid: () => {}
+    })
+    const selectProfile = (profile: string | null) => {
+      selected = profile
+      return reloader.reload()
+    }
+    try {
+      expect(toolOutputForProfile({ config: active, selectProfile })).toBe(
+        "Active profile: none\nAvailable: cheap, deep"
+      )
+      expect(toolOutputForProfile({ name: "fast", config: active, selectProfile })).toContain('Unknown profile "fast"')
+
+      expect(toolOutputForProfile({ name: "cheap", config: active, selectProfile })).toBe(
+        'Switched to profile "cheap" for this OpenCode process.'
+      )
+      expect(getRotationStrategy(active)).toBe("round_robin")
+      expect(toolOutputForProfile({ config: active, selectProfile })).toBe(
+        "Active profile: cheap\nAvailable: cheap (active), deep"
+      )
+
+      expect(toolOutputForProfile({ name: "none", config: active, selectProfile })).toBe(
+        "Cleared the config profile for this OpenCode process."
+      )
+      expect(active.profile).toBeUndefined()
+      expect(getRotationStrategy(active)).toBe("sticky")
+    } finally {
+      reloader.close()
+    }
+  })
+})
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import {
+  forecastQuotaExhaustion,
+  formatQuotaForecast,
+  loadQuotaHistory,
+  type QuotaSample,
+  recordQuotaSamples
+} from "../lib/quota-history"
+
+const MINUTE = 60_000
+
+function snapshot(at: number, leftPct: number, resetsAt?: number) {
+  return { updatedAt: at, modelFamily: "codex", limits: [{ name: "requests", leftPct, resetsAt }] }
+}
+
+describe("quota history", () => {
+  let tmpDir: string
+  let historyPath: string
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "quota-history-test-"))
+    historyPath = path.join(tmpDir, "codex-quota-history.json")
+  })
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it("appends samples per account and window, collapsing bursts and capping size", async () => {
+    const start = 1_800_000_000_000
+    await recordQuotaSamples(historyPath, { a: snapshot(start, 90) }, { maxSamples: 3 })
+    await recordQuotaSamples(historyPath, { a: snapshot(start + 10_000, 90) }, { maxSamples: 3 })
+    await recordQuotaSamples(
+      historyPath,
+      { a: snapshot(start + 2 * MINUTE, 88), b: snapshot(start, 50) },
+      { maxSamples: 3 }
+    )
+    await recordQuotaSamples(historyPath, { a: snapshot(start + 4 * MINUTE, 86) }, { maxSamples: 3 })
+    await recordQuotaSamples(historyPath, { a: snapshot(start + 6 * MINUTE, 84) }, { maxSamples: 3 })
+
+    const history = await loadQuotaHistory(historyPath)
+    expect(history.accounts.a?.requests?.map((sample) => sample.leftPct)).toEqual([88, 86, 84])
+    expect(history.accounts.b?.requests).toEqual([{ at: start, leftPct: 50 }])
+  })
+
+  it("drops removed accounts and accounts with no sample in the last week on save", async () => {
+    const now = 1_800_000_000_000
+    const week = 7 * 24 * 60 * MINUTE
+    await recordQuotaSamples(historyPath, {
+      kept: snapshot(now - MINUTE, 80),
+      removed: snapshot(now - MINUTE, 70),
+      stale: snapshot(now - week - MINUTE, 60)
+    })
+
+    await recordQuotaSamples(historyPath, { kept: snapshot(now, 79) }, { now, accountIdentityKeys: ["kept", "stale"] })
+
+    const history = await loadQuotaHistory(historyPath)
+    expect(Object.keys(history.accounts)).toEqual(["kept"])
+    expect(history.accounts.kept?.requests?.map((sample) => sample.leftPct)).toEqual([80, 79])
+  })
+
+  it("forecasts exhaustion from the burn rate of the current window", () => {
+    const now = 1_800_000_000_000
+    const resetsAt = now + 4 * 60 * MINUTE
+    const samples: QuotaSample[] = [
+      // Previous window, before a reset restored quota.
+      { at: now - 90 * MINUTE, leftPct: 5, resetsAt: now - 60 * MINUTE },
+      { at: now - 30 * MINUTE, leftPct: 60, resetsAt },
+      { at: now, leftPct: 40, resetsAt }
+    ]
+    const forecast = forecastQuotaExhaustion(samples, { now })
+    expect(forecast?.burnPctPerHour).toBe(40)
+    expect(forecast?.exhaustsAt).toBe(now + 60 * MINUTE)
+    expect(forecast?.resetsFirst).toBe(false)
+    expect(formatQuotaForecast(forecast, now + 20 * MINUTE)).toBe("~40 min left at current pace")
+
+    const slow = forecastQuotaExhaustion(
+      [
+        { at: now - 60 * MINUTE, leftPct: 41, resetsAt },
+        { at: now, leftPct: 40, resetsAt }
+      ],
+      { now }
+    )
+    expect(formatQuotaForecast(slow, now)).toBe("lasts until reset at current pace")
+  })
+
+  it("skips forecasts without enough history or burn", () => {
+    const now = 1_800_000_000_000
+    expect(forecastQuotaExhaustion([{ at: now, leftPct: 40 }], { now })).toBeUndefined()
+    const idle = forecastQuotaExhaustion(
+      [
+        { at: now - 30 * MINUTE, leftPct: 40 },
+        { at: now, leftPct: 40 }
+      ],
+      { now }
+    )
+    expect(idle?.burnPctPerHour).toBe(0)
+    expect(formatQuotaForecast(idle, now)).toBeUndefined()
+  })
+})
@@ -3,6 +3,7 @@ import { describe, expect, it } from "vitest"
 import {
   DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE,
   evaluateQuotaThresholds,
+  findQuotaWindowBelowFloor,
   type QuotaThresholdTrackerState
 } from "../lib/quota-threshold-alerts"
 
@@ -85,4 +86,52 @@ describe("quota threshold alerts", () => {
       }
     ])
   })
+
+  it("reports switch floor crossings once per window and skips exhausted windows", () => {
+    const floors = { fiveHourPct: 10, weeklyPct: 5 }
+    const first = evaluateQuotaThresholds({
+      snapshot: snapshot({ requests: { leftPct: 8 }, weekly: { leftPct: 50 } }),
+      previousState: DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE,
+      switchFloors: floors
+    })
+    expect(first.floorCrossings).toEqual([
+      {
+        window: "five_hour",
+        floorPct: 10,
+        message: "Less than 10% of your 5h quota left; new sessions will use other accounts.",
+        reasonCode: "quota_5h_below_switch_floor"
+      }
+    ])
+
+    const second = evaluateQuotaThresholds({
+      snapshot: snapshot({ requests: { leftPct: 6 }, weekly: { leftPct: 0 } }),
+      previousState: first.nextState,
+      switchFloors: floors
+    })
+    expect(second.floorCrossings).toEqual([])
+    expect(second.nextState.weeklyBelowFloor).toBe(true)
+
+    expect(
+      evaluateQuotaThresholds({
+        snapshot: snapshot({ requests: { leftPct: 8 } }),
+        previousState: DEFAULT_QUOTA_THRESHOLD_TRACKER_STATE
+      }).floorCrossings
+    ).toEqual([])
+  })
+
+  it("finds the window below its switch floor", () => {
+    const now = 1_710_000_000_000
+    const floors = { fiveHourPct: 10, weeklyPct: 5 }
+    expect(findQuotaWindowBelowFloor(snapshot({ requests: { leftPct: 9 } }), floors, now)).toBe("five_hour")
+    expect(
+      findQuotaWindowBelowFloor(snapshot({ requests: { leftPct: 50 }, weekly: { leftPct: 4 } }), floors, now)
+    ).toBe("weekly")
+    expect(findQuotaWindowBelowFloor(snapshot({ requests: { leftPct: 10 } }), floors, now)).toBeUndefined()
+    expect(
+      findQuotaWindowBelowFloor(snapshot({ requests: { leftPct: 2, resetsAt: now - 1 } }), floors, now)
+    ).toBeUndefined()
+    expect(
+      findQuotaWindowBelowFloor(snapshot({ requests: { leftPct: 2 } }), { fiveHourPct: 0, weeklyPct: 0 }, now)
+    ).toBeUndefined()
+  })
 })
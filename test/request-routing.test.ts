@@ -1,5 +1,6 @@
-import { describe, expect, it } from "vitest"
+import { afterEach, describe, expect, it } from "vitest"
 
+import { isAccountUsableWithBackend, setMockBackendOrigin } from "../lib/backend-endpoints"
 import { PluginFatalError } from "../lib/fatal-errors"
 import { assertAllowedOutboundUrl, rewriteUrl } from "../lib/codex-native/request-routing"
 
@@ -70,4 +71,52 @@ describe("request routing", () => {
     const rewritten = rewriteUrl("https://example.com/v1/responses")
     expect(rewritten.toString()).toBe("https://example.com/v1/responses")
   })
+
+  describe("with a mock backend configured", () => {
+    afterEach(() => {
+      setMockBackendOrigin(undefined)
+    })
+
+    it("routes the codex endpoint and other allowlisted hosts to the loopback origin", () => {
+      setMockBackendOrigin("http://127.0.0.1:14555")
+      expect(rewriteUrl("https://api.openai.com/v1/responses").toString()).toBe(
+        "http://127.0.0.1:14555/backend-api/codex/responses"
+      )
+      expect(rewriteUrl("https://chatgpt.com/backend-api/codex/responses/compact?x=1").toString()).toBe(
+        "http://127.0.0.1:14555/backend-api/codex/responses/compact?x=1"
+      )
+      expect(rewriteUrl("https://example.com/v1/responses").toString()).toBe("https://example.com/v1/responses")
+    })
+
+    it("allows only the exact mock origin over plain http", () => {
+      setMockBackendOrigin("http://127.0.0.1:14555")
+      expect(() =>
+        assertAllowedOutboundUrl(new URL("http://127.0.0.1:14555/backend-api/codex/responses"))
+      ).not.toThrow()
+      expect(() => assertAllowedOutboundUrl(new URL("http://127.0.0.1:9999/backend-api/codex/responses"))).toThrow(
+        PluginFatalError
+      )
+    })
+
+    it("only lets tokens the mock issued be used", () => {
+      const real = { access: "header.payload.signature", refresh: "rt_real" }
+      const mock = { access: "header.payload.mock", refresh: "mock_refresh_1.YWNjdF9tb2NrXzE" }
+      expect(isAccountUsableWithBackend(real)).toBe(true)
+
+      setMockBackendOrigin("http://127.0.0.1:14555")
+      expect(isAccountUsableWithBackend(real)).toBe(false)
+      expect(isAccountUsableWithBackend(mock)).toBe(true)
+      expect(isAccountUsableWithBackend({ access: mock.access })).toBe(true)
+    })
+
+    it("ignores non-loopback mock origins", () => {
+      setMockBackendOrigin("http://10.0.0.5:14555")
+      expect(rewriteUrl("https://api.openai.com/v1/responses").toString()).toBe(
+        "https://chatgpt.com/backend-api/codex/responses"
+      )
+      expect(() => assertAllowedOutboundUrl(new URL("http://10.0.0.5:14555/backend-api/codex/responses"))).toThrow(
+        PluginFatalError
+      )
+    })
+  })
 })
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+
+import { parseSimulationVariant, runRotationSimulations, simulateRotation } from "../lib/rotation-simulator"
+import {
+  generateSyntheticTrace,
+  parseSimulationTrace,
+  type SimulationTrace,
+  traceFromUsageRecords
+} from "../lib/rotation-simulator-trace"
+
+const TWO_ACCOUNTS: SimulationTrace = {
+  accounts: [
+    { id: "a", fiveHourLimit: 2 },
+    { id: "b", fiveHourLimit: 10 }
+  ],
+  requests: [0, 1_000, 2_000, 3_000].map((at) => ({ at, session: "ses_1" }))
+}
+
+describe("rotation simulator", () => {
+  it("fails over from a drained sticky account and keeps the session on the new one", async () => {
+    const result = await simulateRotation(TWO_ACCOUNTS, { strategy: "sticky", pidOffset: false })
+
+    expect(result).toMatchObject({ served: 4, rejected: 0, failovers: 1, sessionSwitches: 1 })
+    expect(result.exhaustedAtMs).toBeUndefined()
+    expect(result.accounts).toEqual([
+      { id: "a", served: 2, rateLimited: 1, sharePct: 50 },
+      { id: "b", served: 2, rateLimited: 0, sharePct: 50 }
+    ])
+  })
+
+  it("alternates accounts per request with round_robin", async () => {
+    const result = await simulateRotation(
+      { ...TWO_ACCOUNTS, accounts: TWO_ACCOUNTS.accounts.map((account) => ({ ...account, fiveHourLimit: 10 })) },
+      { strategy: "round_robin", pidOffset: false }
+    )
+
+    expect(result).toMatchObject({ served: 4, failovers: 0, sessionSwitches: 3 })
+    expect(result.accounts.map((account) => account.served)).toEqual([2, 2])
+  })
+
+  it("reports full exhaustion and rejects requests until a window resets", async () => {
+    const trace: SimulationTrace = {
+      accounts: [
+        { id: "a", fiveHourLimit: 1 },
+        { id: "b", fiveHourLimit: 1 }
+      ],
+      requests: [
+        { at: 0, session: "ses_1" },
+        { at: 60_000, session: "ses_2" },
+        { at: 120_000, session: "ses_1" },
+        { at: 5 * 60 * 60 * 1000, session: "ses_1" }
+      ]
+    }
+
+    const result = await simulateRotation(trace, { strategy: "hybrid", pidOffset: false })
+    expect(result).toMatchObject({ served: 3, rejected: 1, exhaustedAtMs: 60_000 })
+  })
+
+  it("honours scripted rate limits regardless of quota", async () => {
+    const result = await simulateRotation(
+      { ...TWO_ACCOUNTS, rateLimits: [{ account: "a", at: 0, durationMs: 10_000 }] },
+      { strategy: "sticky", pidOffset: false }
+    )
+
+    expect(result.failovers).toBe(1)
+    expect(result.accounts.map((account) => [account.id, account.served, account.rateLimited])).toEqual([
+      ["a", 0, 1],
+      ["b", 4, 0]
+    ])
+  })
+
+  it("runs every requested strategy over the same trace", async () => {
+    const report = await runRotationSimulations(TWO_ACCOUNTS, {
+      source: "test",
+      variants: [parseSimulationVariant("sticky+pid-offset"), parseSimulationVariant("quota_balanced")].flatMap(
+        (variant) => (variant ? [variant] : [])
+      )
+    })
+
+    expect(report).toMatchObject({ accountCount: 2, sessionCount: 1, requestCount: 4, durationMs: 3_000 })
+    expect(report.results.map((result) => result.label)).toEqual(["sticky+pid-offset", "quota_balanced"])
+    expect(parseSimulationVariant("round_robin+sticky")).toBeUndefined()
+  })
+})
+
+describe("simulation traces", () => {
+  it("validates traces and sorts requests by time", () => {
+    const trace = parseSimulationTrace({
+      accounts: [{ id: "a", fiveHourLimit: 5, weeklyLimit: 20 }],
+      requests: [
+        { at: 10, session: "s" },
+        { at: 5, session: "s", pid: 2, cost: 3 }
+      ]
+    })
+    expect(trace.requests.map((request) => request.at)).toEqual([5, 10])
+
+    expect(() => parseSimulationTrace({ accounts: [], requests: [] })).toThrow("accounts must be a non-empty array")
+    expect(() =>
+      parseSimulationTrace({
+        accounts: [{ id: "a", fiveHourLimit: 5 }],
+        requests: [],
+        rateLimits: [{ account: "missing", at: 0, durationMs: 1 }]
+      })
+    ).toThrow('rateLimits[0].account "missing" is not a trace account')
+  })
+
+  it("generates the same synthetic trace for the same seed", () => {
+    const first = generateSyntheticTrace({ seed: 7, hours: 2 })
+    expect(generateSyntheticTrace({ seed: 7, hours: 2 })).toEqual(first)
+    expect(generateSyntheticTrace({ seed: 8, hours: 2 })).not.toEqual(first)
+    expect(first.accounts).toHaveLength(3)
+    expect(first.requests.every((request) => request.at >= 0 && request.at < 2 * 60 * 60 * 1000)).toBe(true)
+  })
+
+  it("builds a trace from usage ledger records", () => {
+    const base = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0 }
+    const trace = traceFromUsageRecords(
+      [
+        { ...base, at: 5_000, identityKey: "acc_2", sessionKey: "ses_2" },
+        { ...base, at: 1_000, identityKey: "acc_1" }
+      ],
+      { fiveHourLimit: 40 }
+    )
+    expect(trace.accounts).toEqual([
+      { id: "acc_1", fiveHourLimit: 40 },
+      { id: "acc_2", fiveHourLimit: 40 }
+    ])
+    expect(trace.requests).toEqual([
+      { at: 0, session: "(none)" },
+      { at: 4_000, session: "ses_2" }
+    ])
+  })
+})
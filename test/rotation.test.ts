@@ -1,7 +1,28 @@
 import { describe, expect, it } from "vitest"
 
-import { createStickySessionState, selectAccount } from "../lib/rotation"
-import type { AccountRecord } from "../lib/types"
+import {
+  computeQuotaBalanceScore,
+  createStickySessionState,
+  LAST_USED_WRITE_INTERVAL_MS,
+  type RotationDebugEvent,
+  recordAccountSelection,
+  selectAccount
+} from "../lib/rotation"
+import type { AccountRecord, CodexRateLimitSnapshot } from "../lib/types"
+
+const HOUR_MS = 60 * 60 * 1000
+
+function quotaSnapshot(
+  fiveHour: { leftPct: number; resetsAt?: number },
+  weekly?: { leftPct: number; resetsAt?: number }
+) {
+  const snapshot: CodexRateLimitSnapshot = {
+    updatedAt: 0,
+    modelFamily: "gpt-5",
+    limits: [{ name: "5h", ...fiveHour }, ...(weekly ? [{ name: "weekly", ...weekly }] : [])]
+  }
+  return snapshot
+}
 
 describe("rotation", () => {
   it("round_robin moves from a to b", () => {
@@ -423,4 +444,171 @@ describe("rotation", () => {
       })?.identityKey
     ).toBe("b")
   })
+
+  it("quota_balanced picks the account with the most quota headroom", () => {
+    const now = 10 * HOUR_MS
+    const accounts: AccountRecord[] = [
+      { identityKey: "drained", enabled: true },
+      { identityKey: "fresh", enabled: true },
+      { identityKey: "half", enabled: true }
+    ]
+
+    const selected = selectAccount({
+      accounts,
+      strategy: "quota_balanced",
+      activeIdentityKey: "drained",
+      now,
+      quotaSnapshots: {
+        drained: quotaSnapshot({ leftPct: 5, resetsAt: now + 4 * HOUR_MS }),
+        fresh: quotaSnapshot({ leftPct: 90, resetsAt: now + 4 * HOUR_MS }, { leftPct: 95 }),
+        half: quotaSnapshot({ leftPct: 50, resetsAt: now + 4 * HOUR_MS })
+      }
+    })
+
+    expect(selected?.identityKey).toBe("fresh")
+  })
+
+  it("quota_balanced prefers headroom that resets soon and treats elapsed resets as full", () => {
+    const now = 10 * HOUR_MS
+    const soon = quotaSnapshot({ leftPct: 60, resetsAt: now + 0.25 * HOUR_MS })
+    const later = quotaSnapshot({ leftPct: 70, resetsAt: now + 4.75 * HOUR_MS })
+    expect(computeQuotaBalanceScore(soon, now)).toBeGreaterThan(computeQuotaBalanceScore(later, now))
+    expect(computeQuotaBalanceScore(quotaSnapshot({ leftPct: 0, resetsAt: now - 1 }), now)).toBe(100)
+    expect(computeQuotaBalanceScore(undefined, now)).toBe(100)
+    expect(
+      computeQuotaBalanceScore(quotaSnapshot({ leftPct: 80 }, { leftPct: 10, resetsAt: now + 6 * 24 * HOUR_MS }), now)
+    ).toBeLessThan(20)
+  })
+
+  it("quota_balanced keeps sessions on their assigned account", () => {
+    const now = 10 * HOUR_MS
+    const accounts: AccountRecord[] = [
+      { identityKey: "a", enabled: true },
+      { identityKey: "b", enabled: true }
+    ]
+    const stickySessionState = createStickySessionState()
+    const decisions: string[] = []
+    const quotaSnapshots: Record<string, CodexRateLimitSnapshot> = {
+      a: quotaSnapshot({ leftPct: 80 }),
+      b: quotaSnapshot({ leftPct: 40 })
+    }
+
+    const select = () =>
+      selectAccount({
+        accounts,
+        strategy: "quota_balanced",
+        now,
+        stickySessionKey: "ses-1",
+        stickySessionState,
+        quotaSnapshots,
+        onDebug: (event) => decisions.push(event.decision)
+      })?.identityKey
+
+    expect(select()).toBe("a")
+    quotaSnapshots.a = quotaSnapshot({ leftPct: 10 })
+    expect(select()).toBe("a")
+    expect(decisions).toEqual(["quota-balanced-session-assign", "quota-balanced-score", "quota-balanced-session-reuse"])
+
+    accounts[0] = { identityKey: "a", enabled: true, cooldownUntil: now + 1000 }
+    expect(select()).toBe("b")
+  })
+
+  it("keeps pinned sessions but assigns new sessions away from accounts below a switch floor", () => {
+    const now = 10 * HOUR_MS
+    const accounts: AccountRecord[] = [
+      { identityKey: "a", enabled: true },
+      { identityKey: "b", enabled: true }
+    ]
+    const stickySessionState = createStickySessionState()
+    const quotaSnapshots: Record<string, CodexRateLimitSnapshot> = {
+      a: quotaSnapshot({ leftPct: 60, resetsAt: now + HOUR_MS }),
+      b: quotaSnapshot({ leftPct: 90 })
+    }
+    const select = (stickySessionKey: string, floors = { fiveHourPct: 10, weeklyPct: 5 }) =>
+      selectAccount({
+        accounts,
+        strategy: "sticky",
+        activeIdentityKey: "a",
+        now,
+        stickySessionKey,
+        stickySessionState,
+        quotaSnapshots,
+        quotaSwitchFloors: floors
+      })?.identityKey
+
+    expect(select("ses-1")).toBe("a")
+    quotaSnapshots.a = quotaSnapshot({ leftPct: 8, resetsAt: now + HOUR_MS })
+    expect(select("ses-1")).toBe("a")
+    expect(select("ses-2")).toBe("b")
+    expect(select("ses-3", { fiveHourPct: 5, weeklyPct: 0 })).toBe("a")
+
+    quotaSnapshots.b = quotaSnapshot({ leftPct: 90 }, { leftPct: 2 })
+    expect(select("ses-4")).toBe("a")
+
+    quotaSnapshots.a = quotaSnapshot({ leftPct: 8, resetsAt: now - 1 })
+    quotaSnapshots.b = quotaSnapshot({ leftPct: 3 })
+    expect(
+      selectAccount({
+        accounts,
+        strategy: "round_robin",
+        activeIdentityKey: "a",
+        now,
+        quotaSnapshots,
+        quotaSwitchFloors: { fiveHourPct: 10, weeklyPct: 0 }
+      })?.identityKey
+    ).toBe("a")
+  })
+
+  it("skips accounts at the concurrency limit and reports lease counts", () => {
+    const now = 1000
+    const accounts: AccountRecord[] = [
+      { identityKey: "a", enabled: true },
+      { identityKey: "b", enabled: true },
+      { identityKey: "c", enabled: true, cooldownUntil: now + 1000 }
+    ]
+    const stickySessionState = createStickySessionState()
+    const events: RotationDebugEvent[] = []
+    const select = (inFlightCounts: Record<string, number>) =>
+      selectAccount({
+        accounts,
+        strategy: "sticky",
+        activeIdentityKey: "a",
+        now,
+        stickySessionKey: "ses-1",
+        stickySessionState,
+        inFlightCounts,
+        maxConcurrentPerAccount: 2,
+        onDebug: (event) => events.push(event)
+      })?.identityKey
+
+    expect(select({ a: 1, c: 4 })).toBe("a")
+    expect(select({ a: 2, b: 1, c: 4 })).toBe("b")
+    expect(events.at(-1)).toMatchObject({ saturatedCount: 1, inFlightCount: 7, eligibleCount: 1, cooldownCount: 1 })
+
+    expect(select({ a: 2, b: 2 })).toBeUndefined()
+    expect(events.at(-1)).toMatchObject({ decision: "none-eligible", saturatedCount: 2, inFlightCount: 4 })
+
+    expect(
+      selectAccount({ accounts, strategy: "sticky", activeIdentityKey: "a", now, inFlightCounts: { a: 9 } })
+        ?.identityKey
+    ).toBe("a")
+  })
+
+  it("records a served request the way each strategy reads it back", () => {
+    const domain: { activeIdentityKey?: string } = { activeIdentityKey: "a" }
+    const account: AccountRecord = { identityKey: "b", enabled: true, lastUsed: 1_000 }
+
+    recordAccountSelection(domain, account, { strategy: "round_robin", now: 500_000 })
+    expect(domain.activeIdentityKey).toBe("b")
+    expect(account.lastUsed).toBe(1_000)
+
+    recordAccountSelection(domain, account, { strategy: "sticky", now: 500_000 })
+    expect(account.lastUsed).toBe(1_000)
+
+    recordAccountSelection(domain, account, { strategy: "hybrid", now: 1_000 + LAST_USED_WRITE_INTERVAL_MS - 1 })
+    expect(account.lastUsed).toBe(1_000)
+    recordAccountSelection(domain, account, { strategy: "quota_balanced", now: 1_000 + LAST_USED_WRITE_INTERVAL_MS })
+    expect(account.lastUsed).toBe(1_000 + LAST_USED_WRITE_INTERVAL_MS)
+    expect(domain.activeIdentityKey).toBe("b")
+  })
 })
@@ -0,0 +1,104 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runInstallerCli } from "../lib/installer-cli"
+import { runSimulateCli } from "../lib/simulate-cli"
+import { appendUsageRecord } from "../lib/usage-ledger"
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+describe("simulate cli", () => {
+  it("is reachable from the main cli and prints help", async () => {
+    const capture = captureIo()
+    expect(await runInstallerCli(["simulate", "--help"], capture.io)).toBe(0)
+    expect(capture.out.join("\n")).toContain("simulate [--trace <file> | --from-usage]")
+  })
+
+  it("compares strategies on a synthetic trace", async () => {
+    const capture = captureIo()
+    const code = await runSimulateCli(
+      ["--hours", "2", "--strategy", "sticky", "--strategy=round_robin", "--seed=3"],
+      capture.io
+    )
+
+    expect(code).toBe(0)
+    const output = capture.out.join("\n")
+    expect(output).toContain("Rotation simulation (synthetic trace, seed 3)")
+    expect(output).toMatch(/^sticky\s+\d+/m)
+    expect(output).toMatch(/^round_robin\s+\d+/m)
+    expect(output).toContain("acct_1:")
+  })
+
+  it("replays a trace file and prints json", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-simulate-cli-"))
+    const tracePath = path.join(dir, "trace.json")
+    await fs.writeFile(
+      tracePath,
+      JSON.stringify({
+        accounts: [
+          { id: "a", fiveHourLimit: 1 },
+          { id: "b", fiveHourLimit: 1 }
+        ],
+        requests: [
+          { at: 0, session: "s" },
+          { at: 1_000, session: "s" },
+          { at: 2_000, session: "s" }
+        ]
+      })
+    )
+
+    const capture = captureIo()
+    expect(await runSimulateCli(["--trace", tracePath, "--strategy", "hybrid", "--json"], capture.io)).toBe(0)
+    const report = JSON.parse(capture.out.join("\n"))
+    expect(report.requestCount).toBe(3)
+    expect(report.results[0]).toMatchObject({
+      label: "hybrid",
+      served: 2,
+      rejected: 1,
+      failovers: 1,
+      exhaustedAtMs: 1_000
+    })
+  })
+
+  it("replays the usage ledger", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-simulate-cli-"))
+    const ledgerPath = path.join(dir, "codex-usage.jsonl")
+    const base = { inputTokens: 10, cachedInputTokens: 0, outputTokens: 5, reasoningTokens: 0, totalTokens: 15 }
+    await appendUsageRecord(ledgerPath, { ...base, at: 1_000, identityKey: "acc_1", sessionKey: "ses_1" })
+    await appendUsageRecord(ledgerPath, { ...base, at: 2_000, identityKey: "acc_2", sessionKey: "ses_1" })
+
+    const capture = captureIo()
+    expect(await runSimulateCli(["--from-usage", "--strategy", "sticky", "--json"], capture.io, { ledgerPath })).toBe(0)
+    const report = JSON.parse(capture.out.join("\n"))
+    expect(report).toMatchObject({ source: "usage ledger", accountCount: 2, requestCount: 2 })
+  })
+
+  it("rejects invalid options and traces", async () => {
+    const badStrategy = captureIo()
+    expect(await runSimulateCli(["--strategy", "fastest"], badStrategy.io)).toBe(1)
+    expect(badStrategy.err[0]).toBe("Invalid --strategy: fastest")
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-simulate-cli-"))
+    const tracePath = path.join(dir, "trace.json")
+    await fs.writeFile(tracePath, JSON.stringify({ accounts: [{ id: "a" }], requests: [] }))
+    const badTrace = captureIo()
+    expect(await runSimulateCli(["--trace", tracePath], badTrace.io)).toBe(1)
+    expect(badTrace.err[0]).toBe(
+      "Failed to load trace: Invalid trace: accounts[0].fiveHourLimit must be a positive integer"
+    )
+  })
+})
@@ -0,0 +1,143 @@
+import { readFileSync } from "node:fs"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { saveSnapshots } from "../lib/codex-status-storage"
+import { toolOutputForStatus } from "../lib/codex-status-tool"
+import { runInstallerCli } from "../lib/installer-cli"
+import { runStatusCli } from "../lib/status-cli"
+import { saveAuthStorage } from "../lib/storage"
+
+type SchemaNode = { properties?: Record<string, unknown>; required?: string[] }
+type StatusSchema = SchemaNode & { $defs: Record<string, SchemaNode> }
+
+const schema = JSON.parse(
+  readFileSync(new URL("../schemas/codex-status.schema.json", import.meta.url), "utf8")
+) as StatusSchema
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+function expectShape(value: unknown, node: SchemaNode) {
+  expect(Object.keys(value as Record<string, unknown>).sort()).toEqual(Object.keys(node.properties ?? {}).sort())
+  for (const key of node.required ?? []) expect(value).toHaveProperty(key)
+}
+
+const NOW = Date.UTC(2026, 9, 10, 12)
+
+async function seedStatus(): Promise<{ authPath: string; snapshotsPath: string }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-status-cli-"))
+  const authPath = path.join(dir, "codex-accounts.json")
+  const snapshotsPath = path.join(dir, "codex-snapshots.json")
+  await saveAuthStorage(authPath, (auth) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [
+        {
+          identityKey: "acc_1|one@example.com|plus",
+          accountId: "acc_1",
+          email: "one@example.com",
+          plan: "plus",
+          enabled: true,
+          access: "secret-access",
+          refresh: "secret-refresh",
+          expires: NOW + 3_600_000,
+          cooldownUntil: NOW + 60_000
+        },
+        {
+          identityKey: "acc_2|two@example.com|pro",
+          accountId: "acc_2",
+          email: "two@example.com",
+          plan: "pro",
+          enabled: false,
+          refresh: "secret-refresh-2",
+          expires: NOW - 1
+        }
+      ],
+      activeIdentityKey: "acc_1|one@example.com|plus"
+    }
+  })
+  await saveSnapshots(snapshotsPath, () => ({
+    "acc_1|one@example.com|plus": {
+      updatedAt: NOW - 90_000,
+      modelFamily: "codex",
+      limits: [
+        { name: "requests", leftPct: 35, resetsAt: NOW + 3_600_000 },
+        { name: "tokens", leftPct: 80, resetsAt: NOW + 86_400_000 }
+      ],
+      credits: { hasCredits: true, balance: " 12.5 " }
+    }
+  }))
+  return { authPath, snapshotsPath }
+}
+
+describe("status cli", () => {
+  it("prints a versioned JSON document matching the published schema", async () => {
+    const paths = await seedStatus()
+    const capture = captureIo()
+
+    expect(await runStatusCli(["--json"], capture.io, { ...paths, now: () => NOW })).toBe(0)
+    const raw = capture.out.join("\n")
+    expect(raw).not.toContain("secret-")
+    const report = JSON.parse(raw)
+
+    expectShape(report, schema)
+    expect(report.schemaVersion).toBe(1)
+    expect(report.generatedAt).toBe(NOW)
+    expect(report.profile).toBeNull()
+    const [first, second] = report.accounts
+    expectShape(first, schema.$defs.account)
+    expectShape(first.snapshot, schema.$defs.snapshot)
+    expectShape(first.snapshot.fiveHour, schema.$defs.window)
+    expectShape(first.snapshot.credits, schema.$defs.credits)
+    expect(first).toMatchObject({ index: 1, enabled: true, active: true, coolingDown: true, tokenExpired: false })
+    expect(first.snapshot).toMatchObject({
+      ageMs: 90_000,
+      fiveHour: { name: "requests", leftPct: 35, usedPct: 65, forecast: null },
+      weekly: { name: "tokens", leftPct: 80 },
+      credits: { hasCredits: true, unlimited: false, balance: "12.5" }
+    })
+    expect(second).toMatchObject({ index: 2, enabled: false, active: false, tokenExpired: true, snapshot: null })
+  })
+
+  it("prints the text dashboard by default and rejects unknown arguments", async () => {
+    const paths = await seedStatus()
+    const capture = captureIo()
+
+    expect(await runStatusCli([], capture.io, paths)).toBe(0)
+    expect(capture.out.join("\n")).toContain("35% left")
+
+    expect(await runStatusCli(["--yaml"], capture.io, paths)).toBe(1)
+    expect(capture.err[0]).toBe("Unknown option: --yaml")
+  })
+
+  it("names the active config profile in tool output", async () => {
+    const { authPath, snapshotsPath } = await seedStatus()
+
+    const text = await toolOutputForStatus(authPath, snapshotsPath, { now: NOW, profile: "deep" })
+    expect(text.split("\n")[0]).toBe("Config profile: deep")
+    const json = JSON.parse(
+      await toolOutputForStatus(authPath, snapshotsPath, { now: NOW, format: "json", profile: "deep" })
+    )
+    expect(json.profile).toBe("deep")
+  })
+
+  it("is dispatched from the installer cli", async () => {
+    const capture = captureIo()
+    expect(await runInstallerCli(["status", "--help"], capture.io)).toBe(0)
+    expect(capture.out.join("\n")).toContain("opencode-codex-auth status [--json]")
+  })
+})
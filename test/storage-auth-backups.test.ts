@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { AUTH_BACKUP_KEEP_ENV, authBackupDirFor } from "../lib/storage/auth-backups"
+import { listAuthBackups, loadAuthStorage, restoreAuthStorageBackup, saveAuthStorage } from "../lib/storage"
+import type { AuthFile } from "../lib/types"
+
+function seedAccounts(auth: AuthFile, count: number): void {
+  auth.openai = {
+    type: "oauth",
+    accounts: [],
+    native: {
+      accounts: Array.from({ length: count }, (_, index) => ({
+        identityKey: `acc_${index + 1}|u${index + 1}@example.com|plus`,
+        accountId: `acc_${index + 1}`,
+        email: `u${index + 1}@example.com`,
+        plan: "plus",
+        authTypes: ["native" as const],
+        enabled: true,
+        access: `at_${index + 1}`,
+        refresh: `rt_${index + 1}`,
+        expires: 1_000
+      })),
+      activeIdentityKey: "acc_1|u1@example.com|plus"
+    }
+  }
+}
+
+function nativeAccounts(auth: AuthFile) {
+  const openai = auth.openai
+  if (!openai || !("native" in openai) || !openai.native) throw new Error("Expected native accounts")
+  return openai.native.accounts
+}
+
+async function makeAuthPath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-auth-backups-"))
+  return path.join(dir, "codex-accounts.json")
+}
+
+describe("auth store backups", () => {
+  it("snapshots the store only when accounts or enabled flags change", async () => {
+    const filePath = await makeAuthPath()
+    await saveAuthStorage(filePath, (auth) => seedAccounts(auth, 2))
+    expect(await listAuthBackups(filePath)).toEqual([])
+
+    await saveAuthStorage(filePath, (auth) => {
+      const account = nativeAccounts(auth)[0]
+      if (account) account.access = "at_refreshed"
+    })
+    expect(await listAuthBackups(filePath)).toEqual([])
+
+    await saveAuthStorage(filePath, (auth) => {
+      const account = nativeAccounts(auth)[1]
+      if (account) account.enabled = false
+    })
+    await saveAuthStorage(filePath, (auth) => {
+      nativeAccounts(auth).pop()
+    })
+
+    const backups = await listAuthBackups(filePath)
+    expect(backups.map(({ accounts, enabledAccounts }) => ({ accounts, enabledAccounts }))).toEqual([
+      { accounts: 2, enabledAccounts: 1 },
+      { accounts: 2, enabledAccounts: 2 }
+    ])
+    if (process.platform !== "win32") {
+      expect((await fs.stat(authBackupDirFor(filePath))).mode & 0o777).toBe(0o700)
+      expect((await fs.stat(backups[0]?.path ?? "")).mode & 0o777).toBe(0o600)
+    }
+  })
+
+  it("keeps only the configured number of backups", async () => {
+    const previous = process.env[AUTH_BACKUP_KEEP_ENV]
+    process.env[AUTH_BACKUP_KEEP_ENV] = "2"
+    try {
+      const filePath = await makeAuthPath()
+      await saveAuthStorage(filePath, (auth) => seedAccounts(auth, 1))
+      for (let count = 2; count <= 5; count += 1) {
+        await saveAuthStorage(filePath, (auth) => seedAccounts(auth, count))
+      }
+      expect((await listAuthBackups(filePath)).map((backup) => backup.accounts)).toEqual([4, 3])
+
+      process.env[AUTH_BACKUP_KEEP_ENV] = "0"
+      await saveAuthStorage(filePath, (auth) => seedAccounts(auth, 6))
+      expect(await listAuthBackups(filePath)).toHaveLength(2)
+    } finally {
+      if (previous === undefined) delete process.env[AUTH_BACKUP_KEEP_ENV]
+      else process.env[AUTH_BACKUP_KEEP_ENV] = previous
+    }
+  })
+
+  it("restores a backup and backs up the replaced store", async () => {
+    const filePath = await makeAuthPath()
+    await saveAuthStorage(filePath, (auth) => seedAccounts(auth, 3))
+    await saveAuthStorage(filePath, (auth) => seedAccounts(auth, 1))
+    const [backup] = await listAuthBackups(filePath)
+    if (!backup) throw new Error("Expected a backup")
+
+    const result = await restoreAuthStorageBackup(filePath, backup.path)
+
+    expect(nativeAccounts(await loadAuthStorage(filePath))).toHaveLength(3)
+    expect(result.restoredFrom).toBe(backup.path)
+    const backups = await listAuthBackups(filePath)
+    expect(backups[0]).toMatchObject({ path: result.previousBackup, accounts: 1 })
+
+    await restoreAuthStorageBackup(filePath, result.previousBackup ?? "")
+    expect(nativeAccounts(await loadAuthStorage(filePath))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { AUTH_STORE_MIGRATIONS, AUTH_STORE_VERSION, migrateAuthStore } from "../lib/storage/auth-schema"
+import { AuthStoreVersionError, loadAuthStorage, saveAuthStorage } from "../lib/storage"
+
+const LEGACY_LOGIN = {
+  openai: { type: "oauth", access: "at_1", refresh: "rt_1", expires: 1000, accountId: "acc_1", email: "a@example.com" }
+}
+
+describe("auth store schema", () => {
+  it("defines contiguous migration steps ending at the current version", () => {
+    expect(AUTH_STORE_MIGRATIONS.map((step) => [step.from, step.to])).toEqual([
+      [0, 1],
+      [1, 2]
+    ])
+    expect(AUTH_STORE_MIGRATIONS.at(-1)?.to).toBe(AUTH_STORE_VERSION)
+  })
+
+  it("runs only the steps above the stored version", () => {
+    const unversioned = migrateAuthStore(structuredClone(LEGACY_LOGIN))
+    expect(unversioned.fromVersion).toBe(0)
+    expect(unversioned.applied.map((step) => step.to)).toEqual([1, 2])
+    expect(unversioned.value.openai).toMatchObject({
+      type: "oauth",
+      native: { accounts: [{ refresh: "rt_1", authTypes: ["native"] }] }
+    })
+
+    const v1 = migrateAuthStore({
+      schemaVersion: 1,
+      openai: { type: "oauth", accounts: [{ refresh: "rt_1", authTypes: ["codex"], enabled: true }] }
+    })
+    expect(v1.applied.map((step) => step.to)).toEqual([2])
+    expect(v1.value.openai).toMatchObject({ codex: { accounts: [{ refresh: "rt_1" }] } })
+    expect(v1.value.schemaVersion).toBeUndefined()
+
+    const current = migrateAuthStore({ schemaVersion: AUTH_STORE_VERSION, openai: { type: "oauth", accounts: [] } })
+    expect(current.applied).toEqual([])
+  })
+
+  it("backs up an older store apart from corrupt-file quarantines before writing the upgraded version", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-auth-schema-"))
+    const filePath = path.join(dir, "codex-accounts.json")
+    const original = `${JSON.stringify(LEGACY_LOGIN)}\n`
+    await fs.writeFile(filePath, original, { mode: 0o600 })
+
+    await saveAuthStorage(filePath, () => {})
+
+    const persisted = JSON.parse(await fs.readFile(filePath, "utf8")) as Record<string, unknown>
+    expect(persisted.schemaVersion).toBe(AUTH_STORE_VERSION)
+    const backupDir = path.join(dir, "quarantine", "pre-migration")
+    const backups = await fs.readdir(backupDir)
+    expect(backups).toHaveLength(1)
+    expect(await fs.readFile(path.join(backupDir, backups[0] ?? ""), "utf8")).toBe(original)
+
+    await saveAuthStorage(filePath, () => {})
+    expect(await fs.readdir(backupDir)).toHaveLength(1)
+    expect(await fs.readdir(path.join(dir, "quarantine"))).toEqual(["pre-migration"])
+  })
+
+  it("reads but refuses to write a store from a newer plugin", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-auth-schema-"))
+    const filePath = path.join(dir, "codex-accounts.json")
+    const newer = `${JSON.stringify({
+      schemaVersion: AUTH_STORE_VERSION + 1,
+      openai: {
+        type: "oauth",
+        accounts: [],
+        native: {
+          accounts: [{ identityKey: "acc_1|a@example.com|plus", refresh: "rt_1", enabled: true, futureField: 1 }],
+          activeIdentityKey: "acc_1|a@example.com|plus"
+        }
+      }
+    })}\n`
+    await fs.writeFile(filePath, newer, { mode: 0o600 })
+
+    const auth = await loadAuthStorage(filePath)
+    expect(auth.openai).toMatchObject({ native: { accounts: [{ refresh: "rt_1" }] } })
+
+    await expect(saveAuthStorage(filePath, () => {})).rejects.toBeInstanceOf(AuthStoreVersionError)
+    expect(await fs.readFile(filePath, "utf8")).toBe(newer)
+    await expect(fs.access(path.join(dir, "quarantine"))).rejects.toThrow()
+  })
+
+  it("reports a newer store whose shape this version cannot parse without quarantining it", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-auth-schema-"))
+    const filePath = path.join(dir, "codex-accounts.json")
+    const newer = `${JSON.stringify({ schemaVersion: AUTH_STORE_VERSION + 1, openai: { type: "oauth", accounts: [null] } })}\n`
+    await fs.writeFile(filePath, newer, { mode: 0o600 })
+
+    await expect(loadAuthStorage(filePath)).rejects.toBeInstanceOf(AuthStoreVersionError)
+    await expect(saveAuthStorage(filePath, () => {})).rejects.toBeInstanceOf(AuthStoreVersionError)
+    expect(await fs.readFile(filePath, "utf8")).toBe(newer)
+    await expect(fs.access(path.join(dir, "quarantine"))).rejects.toThrow()
+  })
+})
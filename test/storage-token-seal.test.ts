@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import {
+  listAuthBackups,
+  loadAuthStorage,
+  migrateAuthStorageEncryption,
+  restoreAuthStorageBackup,
+  saveAuthStorage
+} from "../lib/storage"
+import { __tokenSealTest } from "../lib/storage/token-seal"
+
+async function seedPlaintextStore(): Promise<{ dir: string; filePath: string }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-token-seal-"))
+  const filePath = path.join(dir, "codex-accounts.json")
+  await saveAuthStorage(filePath, (auth) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [
+        {
+          identityKey: "acc_1|one@example.com|plus",
+          accountId: "acc_1",
+          email: "one@example.com",
+          plan: "plus",
+          authTypes: ["native"],
+          enabled: true,
+          access: "access-token-one",
+          refresh: "refresh-token-one",
+          expires: 1_000
+        }
+      ],
+      activeIdentityKey: "acc_1|one@example.com|plus"
+    }
+  })
+  return { dir, filePath }
+}
+
+async function readRaw(filePath: string): Promise<Record<string, unknown>> {
+  return JSON.parse(await fs.readFile(filePath, "utf8")) as Record<string, unknown>
+}
+
+describe("token encryption at rest", () => {
+  afterEach(() => {
+    __tokenSealTest.clearDerivedKeyCache()
+  })
+
+  it("seals tokens with an owner-only key file and loads them back transparently", async () => {
+    const { dir, filePath } = await seedPlaintextStore()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+
+    await expect(migrateAuthStorageEncryption(filePath)).resolves.toEqual({ sealed: true, changed: true })
+
+    const raw = await fs.readFile(filePath, "utf8")
+    expect(raw).not.toContain("access-token-one")
+    expect(raw).not.toContain("refresh-token-one")
+    expect((await readRaw(filePath)).tokenEncryption).toEqual({ version: 1, keySource: "keyfile" })
+
+    const keyStat = await fs.stat(path.join(dir, "codex-accounts.key"))
+    if (process.platform !== "win32") {
+      expect(keyStat.mode & 0o777).toBe(0o600)
+    }
+
+    const loaded = await loadAuthStorage(filePath)
+    const openai = loaded.openai
+    if (!openai || !("accounts" in openai)) {
+      throw new Error("Expected multi-account auth")
+    }
+    expect(openai.accounts[0]?.access).toBe("access-token-one")
+    expect(openai.accounts[0]?.refresh).toBe("refresh-token-one")
+  })
+
+  it("decrypts back to plaintext when encryption is disabled and the key is available", async () => {
+    const { filePath } = await seedPlaintextStore()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+    await migrateAuthStorageEncryption(filePath)
+
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "0"
+    await saveAuthStorage(filePath, () => {})
+
+    const raw = await readRaw(filePath)
+    expect(raw.tokenEncryption).toBeUndefined()
+    expect(JSON.stringify(raw)).toContain("refresh-token-one")
+  })
+
+  it("derives the key from a passphrase and rejects a wrong passphrase without quarantining", async () => {
+    const { dir, filePath } = await seedPlaintextStore()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_PASSPHRASE = "correct horse battery staple"
+    await migrateAuthStorageEncryption(filePath)
+
+    const header = (await readRaw(filePath)).tokenEncryption as Record<string, unknown>
+    expect(header.keySource).toBe("passphrase")
+    expect(typeof header.salt).toBe("string")
+    await expect(fs.stat(path.join(dir, "codex-accounts.key"))).rejects.toThrow()
+
+    __tokenSealTest.clearDerivedKeyCache()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_PASSPHRASE = "wrong passphrase"
+    await expect(loadAuthStorage(filePath)).rejects.toMatchObject({ code: "unseal_failed" })
+    await expect(fs.stat(path.join(dir, "quarantine"))).rejects.toThrow()
+    await expect(fs.stat(filePath)).resolves.toBeTruthy()
+  })
+
+  it("reports a missing key clearly instead of treating the file as corrupt", async () => {
+    const { dir, filePath } = await seedPlaintextStore()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+    await migrateAuthStorageEncryption(filePath)
+    await fs.rm(path.join(dir, "codex-accounts.key"))
+
+    await expect(loadAuthStorage(filePath)).rejects.toThrow(/no decryption key is available/)
+    await expect(saveAuthStorage(filePath, () => {})).rejects.toMatchObject({ code: "key_missing" })
+    await expect(fs.stat(path.join(dir, "quarantine"))).rejects.toThrow()
+  })
+
+  it("reports an unreadable key path as a key problem without quarantining", async () => {
+    const { dir, filePath } = await seedPlaintextStore()
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+    await migrateAuthStorageEncryption(filePath)
+    const sealed = await fs.readFile(filePath, "utf8")
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_KEY_FILE = dir
+
+    await expect(loadAuthStorage(filePath)).rejects.toMatchObject({ code: "key_invalid" })
+    await expect(fs.stat(path.join(dir, "quarantine"))).rejects.toThrow()
+    expect(await fs.readFile(filePath, "utf8")).toBe(sealed)
+  })
+
+  it("seals plaintext backups and pre-migration copies and keeps restores sealed", async () => {
+    const { dir, filePath } = await seedPlaintextStore()
+    await saveAuthStorage(filePath, (auth) => {
+      const native = auth.openai?.type === "oauth" && "native" in auth.openai ? auth.openai.native : undefined
+      native?.accounts.push({
+        identityKey: "acc_2|two@example.com|plus",
+        accountId: "acc_2",
+        email: "two@example.com",
+        plan: "plus",
+        authTypes: ["native"],
+        enabled: true,
+        access: "access-token-two",
+        refresh: "refresh-token-two",
+        expires: 1_000
+      })
+    })
+    const [backup] = await listAuthBackups(filePath)
+    if (!backup) throw new Error("Expected a backup")
+    const plaintextBackup = await fs.readFile(backup.path, "utf8")
+    const preMigrationDir = path.join(dir, "quarantine", "pre-migration")
+    await fs.mkdir(preMigrationDir, { recursive: true })
+    const preMigrationCopy = path.join(preMigrationDir, "codex-accounts.json.1.quarantine.json")
+    await fs.copyFile(backup.path, preMigrationCopy)
+    const tornCopy = path.join(preMigrationDir, "codex-accounts.json.2.quarantine.json")
+    await fs.writeFile(tornCopy, '{"openai":{"refresh":"refresh-token-one"')
+
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+    await migrateAuthStorageEncryption(filePath)
+
+    for (const copy of [backup.path, preMigrationCopy]) {
+      expect(await fs.readFile(copy, "utf8")).not.toContain("refresh-token-one")
+      expect((await readRaw(copy)).tokenEncryption).toEqual({ version: 1, keySource: "keyfile" })
+    }
+    await expect(fs.stat(tornCopy)).rejects.toThrow()
+
+    await fs.writeFile(backup.path, plaintextBackup)
+    await restoreAuthStorageBackup(filePath, backup.path)
+    expect(await fs.readFile(filePath, "utf8")).not.toContain("refresh-token-one")
+    const restored = await loadAuthStorage(filePath)
+    if (!restored.openai || !("accounts" in restored.openai)) throw new Error("Expected multi-account auth")
+    expect(restored.openai.accounts.map((account) => account.refresh)).toEqual(["refresh-token-one"])
+  })
+
+  it("leaves missing stores untouched when migrating", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-token-seal-empty-"))
+    const filePath = path.join(dir, "codex-accounts.json")
+    process.env.OPENCODE_OPENAI_MULTI_TOKEN_ENCRYPTION = "1"
+
+    await expect(migrateAuthStorageEncryption(filePath)).resolves.toEqual({ sealed: false, changed: false })
+    await expect(fs.stat(filePath)).rejects.toThrow()
+  })
+})
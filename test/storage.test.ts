@@ -92,6 +92,7 @@ describe("auth storage", () => {
     expect(content).toContain("codex-accounts.json.tmp.*")
     expect(content).toContain("codex-accounts.json.*.tmp")
     expect(content).toContain("quarantine/")
+    expect(content).toContain("backups/")
     expect(content).toContain("cache/codex-session-affinity.json")
     expect(content).toContain("cache/codex-snapshots.json")
     expect(content).toContain("logs/codex-plugin/")
@@ -508,7 +509,7 @@ describe("auth storage", () => {
 
       await saveAuthStorage(filePath, (current) => current)
       const persisted = JSON.parse(await readFile(filePath, "utf8")) as Record<string, unknown>
-      expect(Object.keys(persisted)).toEqual(["openai"])
+      expect(Object.keys(persisted)).toEqual(["schemaVersion", "openai"])
     } finally {
       if (prevHome === undefined) {
         delete process.env.HOME
@@ -0,0 +1,114 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it } from "vitest"
+
+import { runInstallerCli } from "../lib/installer-cli"
+import { runUsageCli } from "../lib/usage-cli"
+import { appendUsageRecord } from "../lib/usage-ledger"
+import { saveAuthStorage } from "../lib/storage"
+
+function captureIo() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    out,
+    err,
+    io: {
+      out: (message: string) => out.push(message),
+      err: (message: string) => err.push(message)
+    }
+  }
+}
+
+const NOW = Date.UTC(2026, 9, 10, 12)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function seedLedger(): Promise<{ ledgerPath: string; authPath: string }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-usage-cli-"))
+  const ledgerPath = path.join(dir, "codex-usage.jsonl")
+  const authPath = path.join(dir, "codex-accounts.json")
+  await saveAuthStorage(authPath, (auth) => {
+    auth.openai = {
+      type: "oauth",
+      accounts: [
+        {
+          identityKey: "acc_1|one@example.com|plus",
+          accountId: "acc_1",
+          email: "one@example.com",
+          plan: "plus",
+          authTypes: ["native"],
+          enabled: true,
+          access: "at_1",
+          refresh: "rt_1",
+          expires: 1_000
+        }
+      ],
+      activeIdentityKey: "acc_1|one@example.com|plus"
+    }
+  })
+  const base = { cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0 }
+  await appendUsageRecord(ledgerPath, {
+    ...base,
+    at: NOW - 10 * DAY_MS,
+    identityKey: "acc_1|one@example.com|plus",
+    model: "gpt-5.3-codex",
+    inputTokens: 4000,
+    totalTokens: 4000
+  })
+  await appendUsageRecord(ledgerPath, {
+    ...base,
+    at: NOW - DAY_MS,
+    identityKey: "acc_1|one@example.com|plus",
+    model: "gpt-5.4",
+    sessionKey: "ses_1",
+    inputTokens: 1500,
+    outputTokens: 500,
+    totalTokens: 2000
+  })
+  return { ledgerPath, authPath }
+}
+
+describe("usage cli", () => {
+  it("is reachable from the main cli and prints help", async () => {
+    const capture = captureIo()
+    expect(await runInstallerCli(["usage", "--help"], capture.io)).toBe(0)
+    expect(capture.out.join("\n")).toContain("usage [--days <n>] [--json]")
+  })
+
+  it("renders grouped totals with account labels", async () => {
+    const deps = await seedLedger()
+    const capture = captureIo()
+
+    expect(await runUsageCli([], capture.io, { ...deps, now: () => NOW })).toBe(0)
+    const text = capture.out.join("\n")
+    expect(text).toContain("Codex token usage (all recorded)")
+    expect(text).toContain("Total: 2 requests")
+    expect(text).toContain("  one@example.com (plus): 2 requests")
+    expect(text).toContain("  gpt-5.4: 1 request · in 1,500 (cached 0) · out 500 (reasoning 0) · total 2,000")
+    expect(text).toContain("  ses_1: 1 request")
+    expect(text).toContain("  2026-10-09: 1 request")
+  })
+
+  it("filters by --days and prints json", async () => {
+    const deps = await seedLedger()
+    const capture = captureIo()
+
+    expect(await runUsageCli(["--days", "7", "--json"], capture.io, { ...deps, now: () => NOW })).toBe(0)
+    const payload = JSON.parse(capture.out.join("\n")) as {
+      days: number
+      totals: { requests: number; totalTokens: number }
+      byModel: Record<string, unknown>
+    }
+    expect(payload.days).toBe(7)
+    expect(payload.totals).toMatchObject({ requests: 1, totalTokens: 2000 })
+    expect(Object.keys(payload.byModel)).toEqual(["gpt-5.4"])
+  })
+
+  it("rejects invalid options", async () => {
+    const capture = captureIo()
+    expect(await runUsageCli(["--days", "0"], capture.io)).toBe(1)
+    expect(capture.err[0]).toBe("Expected --days <positive integer>")
+  })
+})
@@ -0,0 +1,143 @@
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import { describe, expect, it, vi } from "vitest"
+
+import { captureUsageFromResponse } from "../lib/codex-native/usage-capture"
+import { appendUsageRecord, loadUsageLedger, summarizeUsage, type UsageRecord } from "../lib/usage-ledger"
+
+async function tempLedgerPath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "opencode-usage-ledger-"))
+  return path.join(dir, "codex-usage.jsonl")
+}
+
+function sseResponse(events: unknown[], init: { status?: number; contentType?: string } = {}): Response {
+  const body = events.map((event) => `event: message\ndata: ${JSON.stringify(event)}\n\n`).join("")
+  const bytes = new TextEncoder().encode(body)
+  // Split mid-event to exercise chunk reassembly.
+  const splitAt = Math.floor(bytes.length / 2)
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes.slice(0, splitAt))
+      controller.enqueue(bytes.slice(splitAt))
+      controller.close()
+    }
+  })
+  return new Response(stream, {
+    status: init.status ?? 200,
+    headers: { "content-type": init.contentType ?? "text/event-stream" }
+  })
+}
+
+function record(input: Partial<UsageRecord> & { at: number; totalTokens: number }): UsageRecord {
+  return {
+    inputTokens: input.totalTokens,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    ...input
+  }
+}
+
+describe("usage ledger", () => {
+  it("records usage from the response.completed event without altering the stream", async () => {
+    const ledgerPath = await tempLedgerPath()
+    const events = [
+      { type: "response.created", response: { id: "resp_1" } },
+      { type: "response.output_text.delta", delta: "hello" },
+      {
+        type: "response.completed",
+        response: {
+          id: "resp_1",
+          model: "gpt-5.3-codex",
+          service_tier: "priority",
+          usage: {
+            input_tokens: 1200,
+            input_tokens_details: { cached_tokens: 800 },
+            output_tokens: 300,
+            output_tokens_details: { reasoning_tokens: 120 },
+            total_tokens: 1500
+          }
+        }
+      }
+    ]
+    const original = sseResponse(events)
+    const expectedText = await sseResponse(events).text()
+
+    const wrapped = captureUsageFromResponse(original, {
+      identityKey: "acc_1|one@example.com|plus",
+      sessionKey: "ses_1",
+      ledgerPath,
+      now: () => 1_700_000_000_000
+    })
+
+    expect(await wrapped.text()).toBe(expectedText)
+    await vi.waitFor(async () => {
+      expect((await loadUsageLedger(ledgerPath)).records).toEqual([
+        {
+          at: 1_700_000_000_000,
+          identityKey: "acc_1|one@example.com|plus",
+          model: "gpt-5.3-codex",
+          sessionKey: "ses_1",
+          serviceTier: "priority",
+          inputTokens: 1200,
+          cachedInputTokens: 800,
+          outputTokens: 300,
+          reasoningTokens: 120,
+          totalTokens: 1500
+        }
+      ])
+    })
+  })
+
+  it("passes through failed and non-streaming responses untouched", () => {
+    const failed = sseResponse([], { status: 500 })
+    expect(captureUsageFromResponse(failed, {})).toBe(failed)
+
+    const json = new Response("{}", { headers: { "content-type": "application/json" } })
+    expect(captureUsageFromResponse(json, {})).toBe(json)
+  })
+
+  it("keeps only the newest records when the ledger is full", async () => {
+    const ledgerPath = await tempLedgerPath()
+    for (const at of [1, 2, 3]) {
+      await appendUsageRecord(ledgerPath, record({ at, totalTokens: at }), { maxRecords: 2, compactAtBytes: 1 })
+    }
+    expect((await loadUsageLedger(ledgerPath)).records.map((entry) => entry.at)).toEqual([2, 3])
+  })
+
+  it("appends one line per record until the file passes the compaction size", async () => {
+    const ledgerPath = await tempLedgerPath()
+    for (const at of [1, 2, 3]) {
+      await appendUsageRecord(ledgerPath, record({ at, totalTokens: at }), { maxRecords: 2 })
+    }
+    const lines = (await fs.readFile(ledgerPath, "utf8")).trim().split("\n")
+    expect(lines.map((line) => JSON.parse(line).at)).toEqual([1, 2, 3])
+
+    await fs.appendFile(ledgerPath, '{"at":4,"totalTo\n')
+    expect((await loadUsageLedger(ledgerPath)).records.map((entry) => entry.at)).toEqual([1, 2, 3])
+  })
+
+  it("summarizes totals by account, model, session and UTC day", () => {
+    const day1 = Date.UTC(2026, 9, 1, 12)
+    const day2 = Date.UTC(2026, 9, 2, 12)
+    const summary = summarizeUsage(
+      [
+        record({ at: day1, identityKey: "id1", model: "gpt-5.3-codex", sessionKey: "s1", totalTokens: 100 }),
+        record({ at: day2, identityKey: "id1", model: "gpt-5.4", sessionKey: "s2", totalTokens: 50 }),
+        record({ at: day2, identityKey: "id2", model: "gpt-5.4", totalTokens: 25 })
+      ],
+      { since: day1 + 1 }
+    )
+
+    expect(summary.totals).toMatchObject({ requests: 2, totalTokens: 75 })
+    expect(summary.byAccount).toEqual({
+      id1: expect.objectContaining({ requests: 1, totalTokens: 50 }),
+      id2: expect.objectContaining({ requests: 1, totalTokens: 25 })
+    })
+    expect(Object.keys(summary.byModel)).toEqual(["gpt-5.4"])
+    expect(Object.keys(summary.bySession)).toEqual(["s2", "(none)"])
+    expect(summary.byDay).toEqual({ "2026-10-02": expect.objectContaining({ requests: 2, totalTokens: 75 }) })
+  })
+})